@@ -2,6 +2,9 @@ import { NextResponse } from 'next/server'
 import yahooFinance from 'yahoo-finance2'
 import { MarketData } from '@/lib/api/yahooFinance'
 import { TaifexDataService } from '@/lib/api/taifexDataService'
+import { AdjustmentMethod, DEFAULT_CONTINUOUS_OPTIONS, RollMethod } from '@/lib/api/continuousContract'
+import { BarInterval, isIntraday, tagSessions } from '@/lib/api/tradingSessions'
+import { ContractRegistry } from '@/lib/backtest/contracts'
 
 export async function GET(request: Request) {
   try {
@@ -9,8 +12,9 @@ export async function GET(request: Request) {
     const symbol = searchParams.get('symbol')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
+    const interval = (searchParams.get('interval') as BarInterval) || BarInterval.DAILY
 
-    console.log('接收到市場數據請求:', { symbol, startDate, endDate })
+    console.log('接收到市場數據請求:', { symbol, startDate, endDate, interval })
 
     if (!symbol || !startDate || !endDate) {
       return NextResponse.json(
@@ -42,9 +46,14 @@ export async function GET(request: Request) {
       let marketData: MarketData;
 
       // 如果是期貨數據，使用本地數據服務
-      if (symbol.startsWith('TX')) {
+      if (ContractRegistry.getInstance().isFutures(symbol)) {
         const taifexService = TaifexDataService.getInstance();
-        marketData = await taifexService.getMarketData(symbol, startDate, endDate);
+        const rollOffsetDays = parseInt(searchParams.get('rollOffsetDays') ?? '')
+        marketData = await taifexService.getMarketData(symbol, startDate, endDate, {
+          rollMethod: (searchParams.get('rollMethod') as RollMethod) || DEFAULT_CONTINUOUS_OPTIONS.rollMethod,
+          adjustment: (searchParams.get('adjustment') as AdjustmentMethod) || DEFAULT_CONTINUOUS_OPTIONS.adjustment,
+          rollOffsetDays: isNaN(rollOffsetDays) ? DEFAULT_CONTINUOUS_OPTIONS.rollOffsetDays : rollOffsetDays
+        }, interval);
       } else {
         // 其他商品使用 Yahoo Finance
         const queryOptions = {
@@ -59,21 +68,44 @@ export async function GET(request: Request) {
           formattedSymbol = `${symbol}.TW`
         }
 
-        const result = await yahooFinance.historical(formattedSymbol, queryOptions)
+        if (isIntraday(interval)) {
+          // 日內K棒使用 chart API（Yahoo Finance 僅提供近期的日內數據）
+          const result = await yahooFinance.chart(formattedSymbol, { ...queryOptions, interval })
+          const quotes = result.quotes.filter(item => item.open !== null && item.close !== null)
 
-        if (!result || result.length === 0) {
-          throw new Error('無法獲取市場數據')
-        }
+          if (quotes.length === 0) {
+            throw new Error('無法獲取市場數據')
+          }
+
+          const timestamp = quotes.map(item => Math.floor(item.date.getTime() / 1000))
+          marketData = {
+            symbol: formattedSymbol,
+            interval,
+            timestamp,
+            open: quotes.map(item => item.open!),
+            high: quotes.map(item => item.high!),
+            low: quotes.map(item => item.low!),
+            close: quotes.map(item => item.close!),
+            volume: quotes.map(item => item.volume || 0),
+            sessions: tagSessions(timestamp)
+          }
+        } else {
+          const result = await yahooFinance.historical(formattedSymbol, queryOptions)
+
+          if (!result || result.length === 0) {
+            throw new Error('無法獲取市場數據')
+          }
 
-        // 轉換數據格式
-        marketData = {
-          symbol: formattedSymbol,
-          timestamp: result.map(item => Math.floor(item.date.getTime() / 1000)),
-          open: result.map(item => item.open),
-          high: result.map(item => item.high),
-          low: result.map(item => item.low),
-          close: result.map(item => item.close),
-          volume: result.map(item => item.volume || 0)
+          // 轉換數據格式
+          marketData = {
+            symbol: formattedSymbol,
+            timestamp: result.map(item => Math.floor(item.date.getTime() / 1000)),
+            open: result.map(item => item.open),
+            high: result.map(item => item.high),
+            low: result.map(item => item.low),
+            close: result.map(item => item.close),
+            volume: result.map(item => item.volume || 0)
+          }
         }
       }
 
@@ -0,0 +1,993 @@
+'use client'
+import { useState, useEffect, useCallback, useMemo, useRef, use } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowDown, ArrowLeft, ArrowUp, Download, Play, Plus, Square, X } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { StrategyRegistry } from '@/lib/strategies/registry'
+import { loadStoredStrategies } from '@/lib/strategies/ruleStorage'
+import { EventStrategy } from '@/lib/strategies/base'
+import { BacktestSettings } from '@/lib/backtest/types'
+import { MarketData } from '@/lib/api/yahooFinance'
+import { fetchBacktestMarketData } from '@/lib/api/backtestData'
+import { getObjectiveMetric, OptimizationObjective, TRIAL_METRICS, TrialMetric } from '@/lib/optimization/objective'
+import { OptimizationMethod } from '@/lib/optimization/optimizers'
+import {
+  ConstraintOperator,
+  MetricConstraint,
+  MetricObjective,
+  ObjectiveDirection,
+} from '@/lib/optimization/pareto'
+import { OptimizationProgress } from '@/lib/optimization/runner'
+import { ParameterSet } from '@/lib/optimization/searchSpace'
+import {
+  findPlateau,
+  getAxisCell,
+  getHeatmap,
+  getSensitivity,
+  SliceMode,
+} from '@/lib/optimization/sensitivity'
+import { OptimizationStudy, runOptimizationStudy, toTrialsCsv, TrialRecord } from '@/lib/optimization/study'
+import { createBrowserPool } from '@/lib/optimization/browserPool'
+import {
+  countCombinations,
+  createRangeInputs,
+  getEnabledRanges,
+  METHOD_LABELS,
+  OBJECTIVE_LABELS,
+  ParamRangeEditor,
+  RangeInput,
+} from '@/components/optimizationForm'
+import { ParameterHeatmap, ParameterSurface, ParetoFrontChart, SensitivityChart } from '@/components/optimizationCharts'
+
+// 績效指標說明
+const METRIC_LABELS: Record<TrialMetric, string> = {
+  totalNetProfit: '總淨盈虧',
+  sharpeRatio: '夏普比率',
+  profitFactor: '盈虧比',
+  recoveryFactor: '恢復因子',
+  maxDrawdown: '最大回撤',
+  maxDrawdownPct: '最大回撤百分比',
+  winRate: '勝率',
+  totalTrades: '交易次數',
+  annualReturn: '年化收益率',
+}
+
+// 其他參數處理方式說明
+const SLICE_MODE_LABELS: Record<SliceMode, string> = {
+  [SliceMode.FIXED]: '固定於推薦參數',
+  [SliceMode.MEAN]: '邊際平均',
+  [SliceMode.MAX]: '邊際最大',
+}
+
+// 目標方向說明
+const DIRECTION_LABELS: Record<ObjectiveDirection, string> = {
+  [ObjectiveDirection.MAXIMIZE]: '越大越好',
+  [ObjectiveDirection.MINIMIZE]: '越小越好',
+}
+
+// 條件運算子說明
+const OPERATOR_LABELS: Record<ConstraintOperator, string> = {
+  [ConstraintOperator.AT_LEAST]: '≥',
+  [ConstraintOperator.AT_MOST]: '≤',
+}
+
+// 越小越好的績效指標，新增目標時預設為最小化
+const MINIMIZED_METRICS: TrialMetric[] = ['maxDrawdown', 'maxDrawdownPct']
+
+// 評估表每頁顯示的筆數
+const PAGE_SIZE = 50
+
+// 評估表的欄位：參數、目標值或績效指標
+type SortKey = { kind: 'param'; id: string } | { kind: 'score' } | { kind: 'metric'; metric: TrialMetric }
+
+/**
+ * 格式化績效指標
+ * @param metric 績效指標
+ * @param value 數值
+ */
+function formatMetric(metric: TrialMetric, value: number): string {
+  if (!Number.isFinite(value)) return '-'
+  switch (metric) {
+    case 'totalNetProfit':
+    case 'maxDrawdown':
+      return value.toLocaleString(undefined, { maximumFractionDigits: 0 })
+    case 'maxDrawdownPct':
+    case 'winRate':
+    case 'annualReturn':
+      return `${value.toFixed(2)}%`
+    case 'totalTrades':
+      return value.toFixed(0)
+    default:
+      return value.toFixed(2)
+  }
+}
+
+/**
+ * 獲取評估在指定欄位的值
+ * @param trial 評估
+ * @param key 欄位
+ */
+function getSortValue(trial: TrialRecord, key: SortKey): any {
+  switch (key.kind) {
+    case 'param':
+      return trial.params[key.id]
+    case 'score':
+      return trial.score
+    case 'metric':
+      return trial.metrics[key.metric]
+  }
+}
+
+/**
+ * 比較兩個欄位值，無論遞增或遞減，無法計算的數值皆排在最後
+ * @param a 欄位值
+ * @param b 欄位值
+ * @param descending 是否遞減
+ */
+function compareValues(a: any, b: any, descending: boolean): number {
+  const sign = descending ? -1 : 1
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) ? (Number.isNaN(b) ? 0 : 1) : -1
+    return a === b ? 0 : a < b ? -sign : sign
+  }
+  return sign * String(a).localeCompare(String(b))
+}
+
+// 格式化剩餘時間
+const formatDuration = (ms: number) => {
+  if (!Number.isFinite(ms)) return '-'
+  const seconds = Math.ceil(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function OptimizePage({
+  params
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const resolvedParams = use(params)
+  const router = useRouter()
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings | null>(null)
+  const [strategy, setStrategy] = useState<EventStrategy | null>(null)
+  const [marketData, setMarketData] = useState<Record<string, MarketData> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [objective, setObjective] = useState<OptimizationObjective>(OptimizationObjective.NET_PROFIT)
+  const [ranges, setRanges] = useState<Record<string, RangeInput>>({})
+  const [method, setMethod] = useState<OptimizationMethod>(OptimizationMethod.GRID)
+  const [maxEvaluations, setMaxEvaluations] = useState(200)
+  const [seed, setSeed] = useState(1)
+  const [objectives, setObjectives] = useState<MetricObjective[]>([])
+  const [constraints, setConstraints] = useState<MetricConstraint[]>([])
+  const [study, setStudy] = useState<OptimizationStudy | null>(null)
+  const [progress, setProgress] = useState<OptimizationProgress | null>(null)
+  const [metric, setMetric] = useState<TrialMetric>('totalNetProfit')
+  const [sliceMode, setSliceMode] = useState<SliceMode>(SliceMode.MEAN)
+  const [xParam, setXParam] = useState('')
+  const [yParam, setYParam] = useState('')
+  const [showSurface, setShowSurface] = useState(false)
+  const [paretoAxes, setParetoAxes] = useState<[number, number]>([0, 1])
+  const [sortKey, setSortKey] = useState<SortKey>({ kind: 'score' })
+  const [sortDescending, setSortDescending] = useState(true)
+  const [page, setPage] = useState(0)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // 離開頁面時停止進行中的優化
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // 載入回測設置與市場數據
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const settings: BacktestSettings = JSON.parse(decodeURIComponent(resolvedParams.id))
+        const selected = StrategyRegistry.getInstance().getStrategy(settings.strategyId)
+
+        if (!selected) {
+          throw new Error('找不到策略')
+        }
+
+        setBacktestSettings(settings)
+        setStrategy(selected)
+        setRanges(createRangeInputs(selected.getParameters()))
+        setMarketData(await fetchBacktestMarketData(settings))
+      } catch (error) {
+        console.error('載入參數優化資料時出錯:', error)
+        setError(error instanceof Error ? error.message : '未知錯誤')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [resolvedParams.id])
+
+  const updateRange = (id: string, changes: Partial<RangeInput>) =>
+    setRanges((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+
+  // 新增目標時選用尚未加入的指標
+  const addObjective = () => {
+    const unused = TRIAL_METRICS.find((m) => !objectives.some((item) => item.metric === m)) ?? TRIAL_METRICS[0]
+    const direction = MINIMIZED_METRICS.includes(unused) ? ObjectiveDirection.MINIMIZE : ObjectiveDirection.MAXIMIZE
+    setObjectives([...objectives, { metric: unused, direction }])
+  }
+
+  const updateObjective = (index: number, changes: Partial<MetricObjective>) =>
+    setObjectives(objectives.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+
+  const addConstraint = () =>
+    setConstraints([...constraints, { metric: 'totalTrades', operator: ConstraintOperator.AT_LEAST, value: 30 }])
+
+  const updateConstraint = (index: number, changes: Partial<MetricConstraint>) =>
+    setConstraints(constraints.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+
+  const isMultiObjective = objectives.length >= 2
+  // 貝氏優化僅支援單一目標
+  const isUnsupportedMethod = isMultiObjective && method === OptimizationMethod.BAYESIAN
+
+  const paramRanges = useMemo(() => getEnabledRanges(ranges), [ranges])
+  // 組合數不含違反參數間限制的組合，需逐一檢查網格，僅在範圍變更時重新計算
+  const combinations = useMemo(
+    () => (strategy ? countCombinations(strategy.getParameters(), paramRanges, backtestSettings?.strategyParams ?? {}) : 0),
+    [strategy, paramRanges, backtestSettings]
+  )
+  // 網格搜索評估所有組合，其他方法最多評估設定的次數
+  const evaluations = method === OptimizationMethod.GRID ? combinations : Math.min(combinations, maxEvaluations)
+
+  // 執行參數優化，回測在背景執行緒進行，畫面不會停止回應
+  const handleRun = async () => {
+    if (!backtestSettings || !strategy || !marketData) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setError(null)
+    setProgress(null)
+
+    const pool = createBrowserPool({
+      settings: backtestSettings,
+      marketData,
+      objective,
+      storedStrategies: loadStoredStrategies(),
+    })
+
+    try {
+      const result = await runOptimizationStudy(
+        backtestSettings,
+        strategy.getParameters(),
+        {
+          objective,
+          paramRanges,
+          method,
+          maxEvaluations: method === OptimizationMethod.GRID ? undefined : maxEvaluations,
+          seed,
+          objectives,
+          constraints,
+        },
+        pool,
+        { signal: controller.signal, onProgress: setProgress }
+      )
+
+      if (result.trials.length === 0) {
+        setError('已停止，尚未完成任何評估')
+      } else {
+        const ids = result.space.dimensions.map((dimension) => dimension.id)
+        setStudy(result)
+        setMetric(getObjectiveMetric(objective))
+        setXParam(ids[0])
+        setYParam(ids[1] ?? '')
+        setParetoAxes([0, 1])
+        setSortKey({ kind: 'score' })
+        setSortDescending(true)
+        setPage(0)
+      }
+    } catch (error) {
+      console.error('執行參數優化時出錯:', error)
+      setError(error instanceof Error ? error.message : '未知錯誤')
+    } finally {
+      pool.terminate()
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  // 停止優化，保留已完成的評估
+  const handleStop = () => abortRef.current?.abort()
+
+  // 匯出所有評估為 CSV
+  const handleExport = () => {
+    if (!study || !strategy) return
+
+    const url = URL.createObjectURL(new Blob([toTrialsCsv(study)], { type: 'text/csv;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `optimization-${strategy.id}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // 點擊欄位標題排序，再次點擊切換遞增與遞減
+  const handleSort = (key: SortKey) => {
+    if (JSON.stringify(key) === JSON.stringify(sortKey)) {
+      setSortDescending(!sortDescending)
+    } else {
+      setSortKey(key)
+      setSortDescending(true)
+    }
+    setPage(0)
+  }
+
+  // 以指定參數開啟回測結果
+  const getBacktestHref = useCallback(
+    (params: ParameterSet) =>
+      `/backtest/result/${encodeURIComponent(
+        JSON.stringify({ ...backtestSettings, strategyParams: { ...backtestSettings?.strategyParams, ...params } })
+      )}`,
+    [backtestSettings]
+  )
+
+  // 點擊柏拉圖圖表中的評估時開啟其回測結果
+  const handleSelectTrial = useCallback(
+    (trial: TrialRecord) => router.push(getBacktestHref(trial.params)),
+    [router, getBacktestHref]
+  )
+
+  const paramNames = useMemo<Record<string, string>>(
+    () => Object.fromEntries((strategy?.getParameters() ?? []).map((param) => [param.id, param.name])),
+    [strategy]
+  )
+
+  const plateau = useMemo(() => (study ? findPlateau(study.space, study.trials) : null), [study])
+  // 固定模式下其他參數固定於推薦參數
+  const reference = useMemo(() => plateau?.center.params ?? study?.best?.params ?? {}, [plateau, study])
+
+  const heatmap = useMemo(
+    () =>
+      study && xParam && yParam && xParam !== yParam
+        ? getHeatmap(study.space, study.trials, xParam, yParam, metric, sliceMode, reference)
+        : null,
+    [study, xParam, yParam, metric, sliceMode, reference]
+  )
+
+  const sensitivities = useMemo(
+    () =>
+      study
+        ? study.space.dimensions.map((dimension) => ({
+            id: dimension.id,
+            line: getSensitivity(study.space, study.trials, dimension.id, metric, sliceMode, reference),
+            marker: getAxisCell(study.space, dimension.id, reference[dimension.id]),
+          }))
+        : [],
+    [study, metric, sliceMode, reference]
+  )
+
+  const sortedTrials = useMemo(() => {
+    if (!study) return []
+    return [...study.trials].sort((a, b) =>
+      compareValues(getSortValue(a, sortKey), getSortValue(b, sortKey), sortDescending)
+    )
+  }, [study, sortKey, sortDescending])
+
+  // 柏拉圖圖表只顯示符合績效條件的評估
+  const feasibleTrials = useMemo(() => study?.trials.filter((trial) => Number.isFinite(trial.score)) ?? [], [study])
+
+  const failedTrials = useMemo(() => study?.trials.filter((trial) => trial.error !== undefined) ?? [], [study])
+
+  const paramIds = useMemo(() => study?.space.dimensions.map((dimension) => dimension.id) ?? [], [study])
+  const pageCount = Math.ceil(sortedTrials.length / PAGE_SIZE)
+  const formatParams = useCallback(
+    (params: ParameterSet) => paramIds.map((id) => `${paramNames[id] ?? id}=${params[id]}`).join('，'),
+    [paramIds, paramNames]
+  )
+  const describeTrial = useCallback((trial: TrialRecord) => formatParams(trial.params), [formatParams])
+  const studyObjectives = study?.settings.objectives ?? []
+  const [xObjective, yObjective] = paretoAxes.map((index) => studyObjectives[index])
+
+  const columns: { key: SortKey; label: string; align: 'left' | 'right' }[] = [
+    ...paramIds.map((id) => ({ key: { kind: 'param' as const, id }, label: paramNames[id] ?? id, align: 'left' as const })),
+    { key: { kind: 'score' }, label: '目標值', align: 'right' },
+    ...TRIAL_METRICS.map((m) => ({ key: { kind: 'metric' as const, metric: m }, label: METRIC_LABELS[m], align: 'right' as const })),
+  ]
+
+  return (
+    <main className="flex min-h-screen flex-col p-8">
+      <div className="flex items-center mb-8">
+        <Link href={`/backtest/result/${resolvedParams.id}`}>
+          <Button variant="ghost" size="icon" className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">參數優化</h1>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">載入市場數據中...</p>
+        </div>
+      ) : !strategy || !marketData ? (
+        <div className="flex flex-col items-center justify-center h-64">
+          <p className="text-red-600 mb-4">{error || '無法載入回測設置'}</p>
+          <Link href="/backtest">
+            <Button>返回回測頁面</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-1">
+            <Card className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold">優化設置</h2>
+              <p className="text-sm text-muted-foreground">
+                {strategy.name}：在整個回測期間評估參數組合，保留每次評估的績效指標，用於檢視參數敏感度與穩健區域。
+              </p>
+
+              <div>
+                <Label>優化目標</Label>
+                <Select value={objective} onValueChange={(value) => setObjective(value as OptimizationObjective)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(OptimizationObjective).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {OBJECTIVE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>優化方法</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as OptimizationMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(OptimizationMethod).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {METHOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {method !== OptimizationMethod.GRID && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="maxEvaluations">評估次數</Label>
+                    <Input
+                      id="maxEvaluations"
+                      type="number"
+                      min={1}
+                      value={maxEvaluations}
+                      onChange={(e) => setMaxEvaluations(parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="seed">亂數種子</Label>
+                    <Input
+                      id="seed"
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>多目標</Label>
+                  <Button variant="ghost" size="sm" onClick={addObjective}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    新增目標
+                  </Button>
+                </div>
+                {objectives.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={item.metric} onValueChange={(value) => updateObjective(index, { metric: value as TrialMetric })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRIAL_METRICS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {METRIC_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.direction}
+                      onValueChange={(value) => updateObjective(index, { direction: value as ObjectiveDirection })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(ObjectiveDirection).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {DIRECTION_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setObjectives(objectives.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-sm text-muted-foreground">
+                  {isMultiObjective
+                    ? '將計算柏拉圖前緣，遺傳演算法改用 NSGA-II 同時優化各目標；優化目標仍用於單一最佳與推薦參數。'
+                    : '加入兩個以上目標時進行多目標優化，計算無法同時改善各目標的柏拉圖前緣。'}
+                </p>
+                {isUnsupportedMethod && (
+                  <p className="text-sm text-red-600">貝氏優化僅支援單一目標，請改用其他優化方法</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>績效條件</Label>
+                  <Button variant="ghost" size="sm" onClick={addConstraint}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    新增條件
+                  </Button>
+                </div>
+                {constraints.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={item.metric} onValueChange={(value) => updateConstraint(index, { metric: value as TrialMetric })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRIAL_METRICS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {METRIC_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.operator}
+                      onValueChange={(value) => updateConstraint(index, { operator: value as ConstraintOperator })}
+                    >
+                      <SelectTrigger className="w-16">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(ConstraintOperator).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {OPERATOR_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      className="w-24"
+                      value={item.value}
+                      onChange={(e) => updateConstraint(index, { value: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setConstraints(constraints.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-sm text-muted-foreground">
+                  不符合條件的評估不列入最佳參數與柏拉圖前緣，例如交易次數 ≥ 30、最大回撤百分比 ≤ 20。
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>優化參數</Label>
+                <ParamRangeEditor ranges={ranges} paramNames={paramNames} onChange={updateRange} />
+                <p className="text-sm text-muted-foreground">
+                  未勾選的參數沿用回測設置的值；共 {combinations.toLocaleString()} 組參數，將回測{' '}
+                  {evaluations.toLocaleString()} 組。
+                </p>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {isRunning ? (
+                <div className="space-y-2">
+                  <Progress value={progress ? (progress.evaluations / progress.total) * 100 : 0} />
+                  {progress ? (
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      <p>
+                        已評估 {progress.evaluations.toLocaleString()} / {progress.total.toLocaleString()} 組，預估剩餘{' '}
+                        {formatDuration(progress.etaMs)}
+                      </p>
+                      {progress.best && (
+                        <p>
+                          目前最佳：{progress.best.score.toFixed(2)}（
+                          {Object.entries(progress.best.params)
+                            .map(([id, value]) => `${paramNames[id] ?? id} ${value}`)
+                            .join('、')}
+                          ）
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">啟動背景執行緒中...</p>
+                  )}
+                  <Button variant="outline" className="w-full" onClick={handleStop}>
+                    <Square className="mr-2 h-4 w-4" />
+                    停止並保留目前結果
+                  </Button>
+                </div>
+              ) : (
+                <Button className="w-full" onClick={handleRun} disabled={evaluations === 0 || isUnsupportedMethod}>
+                  <Play className="mr-2 h-4 w-4" />
+                  執行參數優化
+                </Button>
+              )}
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {study ? (
+              <>
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">優化結果</h2>
+                  {study.cancelled && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      優化已中途停止，以下僅包含已完成的 {study.trials.length.toLocaleString()} 次評估。
+                    </p>
+                  )}
+                  {failedTrials.length > 0 && (
+                    <p className="text-sm text-red-600 mb-4">
+                      有 {failedTrials.length.toLocaleString()} 次評估失敗，未列入最佳參數與柏拉圖前緣：{failedTrials[0].error}
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-1">
+                      <p className="text-sm text-muted-foreground">單一最佳參數</p>
+                      {!study.best && <p className="text-sm">沒有符合績效條件的評估</p>}
+                      {study.best && (
+                        <>
+                          <p className="font-medium">{formatParams(study.best.params)}</p>
+                          <p className="text-sm">
+                            {OBJECTIVE_LABELS[study.settings.objective]} {study.best.score.toFixed(2)}，鄰近參數平均{' '}
+                            {plateau?.bestNeighborhoodScore.toFixed(2) ?? '-'}
+                          </p>
+                          <Link href={getBacktestHref(study.best.params)} className="text-sm text-blue-600 hover:underline">
+                            以此參數回測
+                          </Link>
+                        </>
+                      )}
+                    </div>
+                    {plateau && (
+                      <div className="space-y-1">
+                        <p className="text-sm text-muted-foreground">推薦參數（穩健區域中心）</p>
+                        <p className="font-medium">{formatParams(plateau.center.params)}</p>
+                        <p className="text-sm">
+                          鄰近 {plateau.neighbors} 組參數平均 {plateau.score.toFixed(2)}，最差 {plateau.worstScore.toFixed(2)}
+                        </p>
+                        <p className="text-sm">
+                          穩健區域（{plateau.regionTrials} 組）：
+                          {paramIds
+                            .map((id) => {
+                              const values = plateau.region[id]
+                              return `${paramNames[id] ?? id} ${
+                                typeof values[0] === 'number' && values.length > 1
+                                  ? `${values[0]}–${values[values.length - 1]}`
+                                  : values.join('、')
+                              }`
+                            })
+                            .join('，')}
+                        </p>
+                        <Link href={getBacktestHref(plateau.center.params)} className="text-sm text-blue-600 hover:underline">
+                          以此參數回測
+                        </Link>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-4">
+                    共評估 {study.trials.length.toLocaleString()} 組參數，耗時 {formatDuration(study.elapsedMs)}。推薦參數為鄰近參數平均目標值最高者，
+                    單一最佳參數的鄰近平均明顯較低時，代表最佳值是周圍表現不佳的孤立高點，參數稍有變動績效即可能大幅下滑。
+                  </p>
+                </Card>
+
+                {studyObjectives.length >= 2 && (
+                  <Card className="p-6 space-y-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                      <h2 className="text-xl font-semibold mr-auto">柏拉圖前緣</h2>
+                      {([
+                        ['橫軸', 0],
+                        ['縱軸', 1],
+                      ] as const).map(([label, axis]) => (
+                        <div key={label}>
+                          <Label className="text-xs text-muted-foreground">{label}</Label>
+                          <Select
+                            value={String(paretoAxes[axis])}
+                            onValueChange={(value) =>
+                              setParetoAxes(axis === 0 ? [Number(value), paretoAxes[1]] : [paretoAxes[0], Number(value)])
+                            }
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {studyObjectives.map((item, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {METRIC_LABELS[item.metric]}（{DIRECTION_LABELS[item.direction]}）
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+
+                    {study.paretoFront.length > 0 ? (
+                      <>
+                        <ParetoFrontChart
+                          trials={feasibleTrials}
+                          front={study.paretoFront}
+                          xMetric={xObjective.metric}
+                          yMetric={yObjective.metric}
+                          xLabel={METRIC_LABELS[xObjective.metric]}
+                          yLabel={METRIC_LABELS[yObjective.metric]}
+                          describe={describeTrial}
+                          onSelect={handleSelectTrial}
+                        />
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="border-b">
+                                <th className="text-left py-2 px-2">參數</th>
+                                {studyObjectives.map((item, index) => (
+                                  <th key={index} className="text-right py-2 px-2 whitespace-nowrap">
+                                    {METRIC_LABELS[item.metric]}
+                                  </th>
+                                ))}
+                                <th className="py-2 px-2" />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {study.paretoFront.map((trial, index) => (
+                                <tr key={index} className="border-b">
+                                  <td className="py-2 px-2">{formatParams(trial.params)}</td>
+                                  {studyObjectives.map((item, i) => (
+                                    <td key={i} className="text-right py-2 px-2">
+                                      {formatMetric(item.metric, trial.metrics[item.metric])}
+                                    </td>
+                                  ))}
+                                  <td className="py-2 px-2 whitespace-nowrap">
+                                    <Link href={getBacktestHref(trial.params)} className="text-blue-600 hover:underline">
+                                      回測
+                                    </Link>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">沒有符合績效條件的評估</p>
+                    )}
+
+                    <p className="text-sm text-muted-foreground">
+                      前緣上的參數組合無法在不犧牲其他目標的情況下改善任一目標，可依對收益與風險的取捨從中挑選；
+                      圖中藍點為前緣、灰點為其他符合條件的評估，點擊任一點即以該參數回測。目標超過兩個時，
+                      前緣依所有目標計算，圖表僅顯示所選的兩個目標。
+                    </p>
+                  </Card>
+                )}
+
+                <Card className="p-6 space-y-4">
+                  <div className="flex flex-wrap items-end gap-4">
+                    <h2 className="text-xl font-semibold mr-auto">參數敏感度</h2>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">指標</Label>
+                      <Select value={metric} onValueChange={(value) => setMetric(value as TrialMetric)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TRIAL_METRICS.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {METRIC_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">其他參數</Label>
+                      <Select value={sliceMode} onValueChange={(value) => setSliceMode(value as SliceMode)}>
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(SliceMode).map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {SLICE_MODE_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {paramIds.length >= 2 && (
+                    <div className="space-y-4">
+                      <div className="flex flex-wrap items-end gap-4">
+                        {([
+                          ['橫軸', xParam, setXParam],
+                          ['縱軸', yParam, setYParam],
+                        ] as const).map(([label, value, setValue]) => (
+                          <div key={label}>
+                            <Label className="text-xs text-muted-foreground">{label}</Label>
+                            <Select value={value} onValueChange={setValue}>
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {paramIds.map((id) => (
+                                  <SelectItem key={id} value={id}>
+                                    {paramNames[id] ?? id}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                        <Button variant="outline" onClick={() => setShowSurface(!showSurface)}>
+                          {showSurface ? '熱度圖' : '立體曲面'}
+                        </Button>
+                      </div>
+
+                      {heatmap ? (
+                        showSurface ? (
+                          <ParameterSurface
+                            heatmap={heatmap}
+                            xName={paramNames[xParam] ?? xParam}
+                            yName={paramNames[yParam] ?? yParam}
+                            format={(value) => formatMetric(metric, value)}
+                          />
+                        ) : (
+                          <ParameterHeatmap
+                            heatmap={heatmap}
+                            xName={paramNames[xParam] ?? xParam}
+                            yName={paramNames[yParam] ?? yParam}
+                            format={(value) => formatMetric(metric, value)}
+                            marker={[
+                              getAxisCell(study.space, xParam, reference[xParam]),
+                              getAxisCell(study.space, yParam, reference[yParam]),
+                            ]}
+                          />
+                        )
+                      ) : (
+                        <p className="text-sm text-muted-foreground">請選擇兩個不同的參數</p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {sensitivities.map(({ id, line, marker }) => (
+                      <div key={id} className="border rounded-md p-2">
+                        <SensitivityChart line={line} name={paramNames[id] ?? id} metricLabel={METRIC_LABELS[metric]} marker={marker} />
+                      </div>
+                    ))}
+                  </div>
+
+                  <p className="text-sm text-muted-foreground">
+                    可能值超過 20 個的參數會合併相鄰的值；以框線或橘點標示推薦參數。「固定於推薦參數」只使用其他參數與推薦參數相同的評估，
+                    適合網格搜索；隨機搜索等抽樣方法請使用邊際平均（其他參數所有評估的平均）或邊際最大。
+                  </p>
+                </Card>
+
+                <Card className="p-6">
+                  <div className="flex items-center mb-4">
+                    <h2 className="text-xl font-semibold mr-auto">所有評估</h2>
+                    <Button variant="outline" onClick={handleExport}>
+                      <Download className="mr-2 h-4 w-4" />
+                      匯出 CSV
+                    </Button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          {columns.map((column) => {
+                            const isSorted = JSON.stringify(column.key) === JSON.stringify(sortKey)
+                            return (
+                              <th
+                                key={column.label}
+                                className={`py-2 px-2 cursor-pointer select-none whitespace-nowrap ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+                                onClick={() => handleSort(column.key)}
+                              >
+                                {column.label}
+                                {isSorted &&
+                                  (sortDescending ? (
+                                    <ArrowDown className="inline ml-1 h-3 w-3" />
+                                  ) : (
+                                    <ArrowUp className="inline ml-1 h-3 w-3" />
+                                  ))}
+                              </th>
+                            )
+                          })}
+                          <th className="py-2 px-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sortedTrials.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map((trial, index) => (
+                          <tr key={index} className="border-b">
+                            {paramIds.map((id) => (
+                              <td key={id} className="py-2 px-2">
+                                {String(trial.params[id])}
+                              </td>
+                            ))}
+                            <td className="text-right py-2 px-2" title={trial.error}>
+                              {trial.error !== undefined ? '失敗' : Number.isFinite(trial.score) ? trial.score.toFixed(2) : '-'}
+                            </td>
+                            {TRIAL_METRICS.map((m) => (
+                              <td key={m} className="text-right py-2 px-2">
+                                {formatMetric(m, trial.metrics[m])}
+                              </td>
+                            ))}
+                            <td className="py-2 px-2 whitespace-nowrap">
+                              <Link href={getBacktestHref(trial.params)} className="text-blue-600 hover:underline">
+                                回測
+                              </Link>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {pageCount > 1 && (
+                    <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+                      <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                        上一頁
+                      </Button>
+                      <span className="text-muted-foreground">
+                        {page + 1} / {pageCount}
+                      </span>
+                      <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                        下一頁
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+              </>
+            ) : (
+              <Card className="p-6 h-64 flex items-center justify-center">
+                <p className="text-muted-foreground">設定優化參數後執行參數優化</p>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </main>
+  )
+}
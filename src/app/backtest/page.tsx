@@ -16,7 +16,35 @@ import { ArrowLeft, Play, Calendar as CalendarIcon } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { StrategyRegistry } from "@/lib/strategies/registry";
-import { Strategy } from "@/lib/strategies/base";
+import { EventStrategy } from "@/lib/strategies/base";
+import {
+  isParameterActive,
+  validateParameters,
+} from "@/lib/strategies/parameters";
+import {
+  ParameterGroup,
+  StrategyCombination,
+} from "@/lib/strategies/strategyCombination";
+import {
+  CostModelSettings,
+  CostPreset,
+  ExitDistanceType,
+  ExitRules,
+  FillModel,
+  MarginSettings,
+  SessionFilter,
+  SessionSettings,
+  SizingModel,
+  SizingSettings,
+  SlippageSettings,
+  VolatilitySource,
+} from "@/lib/backtest/types";
+import {
+  AdjustmentMethod,
+  ContinuousContractOptions,
+  RollMethod,
+} from "@/lib/api/continuousContract";
+import { BarInterval, isIntraday } from "@/lib/api/tradingSessions";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -34,11 +62,37 @@ export default function BacktestPage() {
   const [endDate, setEndDate] = useState<Date>();
   const [initialCapital, setInitialCapital] = useState("1000000");
   const [positionSize, setPositionSize] = useState("10");
+  const [sizing, setSizing] = useState<SizingSettings>({
+    model: SizingModel.PERCENT_OF_CAPITAL,
+  });
   const [commissionRate, setCommissionRate] = useState("0.1425");
-  const [slippage, setSlippage] = useState("0.1");
+  const [costModel, setCostModel] = useState<CostModelSettings>({
+    preset: CostPreset.AUTO,
+  });
+  const [slippageModel, setSlippageModel] = useState<SlippageSettings>({
+    ticks: 1,
+  });
+  const [fillModel, setFillModel] = useState<FillModel>(FillModel.NEXT_OPEN);
+  const [barInterval, setBarInterval] = useState<BarInterval>(BarInterval.DAILY);
+  const [session, setSession] = useState<SessionSettings>({
+    filter: SessionFilter.BOTH,
+    flatAtSessionEnd: false,
+  });
+  const [continuousContract, setContinuousContract] =
+    useState<ContinuousContractOptions>({
+      rollMethod: RollMethod.EXPIRY,
+      adjustment: AdjustmentMethod.PANAMA,
+      rollOffsetDays: 0,
+    });
+  const [simulateRolls, setSimulateRolls] = useState(false);
+  const [margin, setMargin] = useState<MarginSettings>({
+    callDeadlineDays: 1,
+    liquidationRatio: 25,
+  });
   const [selectedStrategy, setSelectedStrategy] = useState("");
-  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [strategies, setStrategies] = useState<EventStrategy[]>([]);
   const [strategyParams, setStrategyParams] = useState<any>({});
+  const [exitRules, setExitRules] = useState<ExitRules>({});
 
   // 載入策略列表
   useEffect(() => {
@@ -64,6 +118,57 @@ export default function BacktestPage() {
     }));
   };
 
+  // 處理倉位模型參數變更
+  const handleSizingChange = (field: keyof SizingSettings, value: any) => {
+    setSizing((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  // 處理交易成本參數變更
+  const handleCostModelChange = (field: keyof CostModelSettings, value: any) => {
+    setCostModel((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  // 處理滑點參數變更，空白欄位視為不使用
+  const handleSlippageChange = (field: keyof SlippageSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setSlippageModel((prev) => ({
+      ...prev,
+      [field]: isNaN(parsed) ? undefined : parsed,
+    }));
+  };
+
+  // 處理保證金設置變更
+  const handleMarginChange = (field: keyof MarginSettings, value: string) => {
+    const parsed = parseFloat(value);
+    setMargin((prev) => ({
+      ...prev,
+      [field]: isNaN(parsed) ? undefined : parsed,
+    }));
+  };
+
+  // 處理出場距離變更，類型為 none 時移除該規則
+  const handleExitDistanceChange = (
+    ruleId: "stopLoss" | "takeProfit" | "trailingStop",
+    type: string,
+    value: number
+  ) => {
+    setExitRules((prev) => {
+      const next = { ...prev };
+      if (type === "none") {
+        delete next[ruleId];
+      } else {
+        next[ruleId] = { type: type as ExitDistanceType, value };
+      }
+      return next;
+    });
+  };
+
   // 處理回測表單提交
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -74,15 +179,36 @@ export default function BacktestPage() {
       return;
     }
 
+    if (parameterErrors.length > 0) {
+      alert(parameterErrors.map((error) => error.message).join("\n"));
+      return;
+    }
+
+    // 以逗號分隔多個代碼時進行組合回測
+    const symbols = symbol.split(",").map((s) => s.trim()).filter(Boolean);
+
     // 構建回測參數
     const backtestParams = {
-      symbol,
+      symbol: symbols[0],
+      symbols: symbols.length > 1 ? symbols : undefined,
       startDate: startDate.toISOString(),
       endDate: endDate.toISOString(),
       initialCapital: parseFloat(initialCapital),
       positionSize: parseFloat(positionSize),
+      sizing,
       commissionRate: parseFloat(commissionRate),
-      slippage: parseFloat(slippage),
+      costModel:
+        costModel.preset === CostPreset.CUSTOM
+          ? { ...costModel, commissionRate: parseFloat(commissionRate) }
+          : { preset: costModel.preset },
+      slippageModel,
+      fillModel,
+      interval: barInterval,
+      session: isIntraday(barInterval) ? session : undefined,
+      exitRules,
+      margin,
+      continuousContract,
+      simulateRolls,
       strategyId: selectedStrategy,
       strategyParams
     };
@@ -101,6 +227,17 @@ export default function BacktestPage() {
   };
 
   const currentStrategy = getCurrentStrategy();
+  const allParameters = currentStrategy?.getParameters() ?? [];
+
+  // 策略參數的範圍與參數間限制錯誤，不適用的參數不檢查
+  const parameterErrors = validateParameters(allParameters, strategyParams);
+
+  // 策略組合依組合設定與各成員分組顯示參數
+  const parameterGroups: ParameterGroup[] = !currentStrategy
+    ? []
+    : currentStrategy instanceof StrategyCombination
+      ? currentStrategy.getParameterGroups()
+      : [{ title: "", parameters: currentStrategy.getParameters() }];
 
   return (
     <main className="flex min-h-screen flex-col p-8">
@@ -121,10 +258,10 @@ export default function BacktestPage() {
 
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="symbol">股票/期貨代碼</Label>
+                  <Label htmlFor="symbol">股票/期貨代碼（多個代碼以逗號分隔）</Label>
                   <Input
                     id="symbol"
-                    placeholder="例如: 2330.TW, TXFF"
+                    placeholder="例如: 2330.TW 或 2330.TW, 2317.TW"
                     value={symbol}
                     onChange={(e) => setSymbol(e.target.value)}
                     required
@@ -208,41 +345,491 @@ export default function BacktestPage() {
                 </div>
 
                 <div>
-                  <Label htmlFor="positionSize">倉位大小 (%)</Label>
+                  <Label htmlFor="sizingModel">倉位模型</Label>
+                  <Select
+                    value={sizing.model}
+                    onValueChange={(value) =>
+                      handleSizingChange("model", value as SizingModel)
+                    }
+                  >
+                    <SelectTrigger id="sizingModel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SizingModel.PERCENT_OF_CAPITAL}>資金百分比</SelectItem>
+                      <SelectItem value={SizingModel.FIXED_CONTRACTS}>固定口數/股數</SelectItem>
+                      <SelectItem value={SizingModel.FIXED_FRACTIONAL}>固定風險比例</SelectItem>
+                      <SelectItem value={SizingModel.VOLATILITY_TARGET}>波動率目標</SelectItem>
+                      <SelectItem value={SizingModel.KELLY}>凱利公式</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(sizing.model === SizingModel.PERCENT_OF_CAPITAL ||
+                  sizing.model === SizingModel.KELLY) && (
+                  <div>
+                    <Label htmlFor="positionSize">
+                      {sizing.model === SizingModel.KELLY
+                        ? "交易筆數不足時的倉位大小 (%)"
+                        : "倉位大小 (%)"}
+                    </Label>
+                    <Input
+                      id="positionSize"
+                      type="number"
+                      value={positionSize}
+                      onChange={(e) => setPositionSize(e.target.value)}
+                      min="1"
+                      max="100"
+                      required
+                    />
+                  </div>
+                )}
+
+                {sizing.model === SizingModel.FIXED_CONTRACTS && (
+                  <div>
+                    <Label htmlFor="contracts">口數/股數</Label>
+                    <Input
+                      id="contracts"
+                      type="number"
+                      value={sizing.contracts ?? 1}
+                      onChange={(e) =>
+                        handleSizingChange("contracts", parseInt(e.target.value))
+                      }
+                      min="1"
+                      required
+                    />
+                  </div>
+                )}
+
+                {sizing.model === SizingModel.FIXED_FRACTIONAL && (
+                  <>
+                    <div>
+                      <Label htmlFor="riskPct">每筆風險 (% 權益)</Label>
+                      <Input
+                        id="riskPct"
+                        type="number"
+                        value={sizing.riskPct ?? 1}
+                        onChange={(e) =>
+                          handleSizingChange("riskPct", parseFloat(e.target.value))
+                        }
+                        step="0.1"
+                        min="0"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="stopPoints">停損點數（未設定停損規則時使用）</Label>
+                      <Input
+                        id="stopPoints"
+                        type="number"
+                        value={sizing.stopPoints ?? ""}
+                        onChange={(e) =>
+                          handleSizingChange("stopPoints", parseFloat(e.target.value))
+                        }
+                        min="0"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {sizing.model === SizingModel.VOLATILITY_TARGET && (
+                  <>
+                    <div>
+                      <Label htmlFor="targetVolatility">目標年化波動率 (%)</Label>
+                      <Input
+                        id="targetVolatility"
+                        type="number"
+                        value={sizing.targetVolatility ?? 15}
+                        onChange={(e) =>
+                          handleSizingChange("targetVolatility", parseFloat(e.target.value))
+                        }
+                        step="0.5"
+                        min="0"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="volatilitySource">波動率來源</Label>
+                      <Select
+                        value={sizing.volatilitySource ?? VolatilitySource.ATR}
+                        onValueChange={(value) =>
+                          handleSizingChange("volatilitySource", value as VolatilitySource)
+                        }
+                      >
+                        <SelectTrigger id="volatilitySource">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={VolatilitySource.ATR}>ATR</SelectItem>
+                          <SelectItem value={VolatilitySource.REALIZED}>已實現波動率</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="volatilityPeriod">波動率週期</Label>
+                      <Input
+                        id="volatilityPeriod"
+                        type="number"
+                        value={sizing.volatilityPeriod ?? 20}
+                        onChange={(e) =>
+                          handleSizingChange("volatilityPeriod", parseInt(e.target.value))
+                        }
+                        min="2"
+                        required
+                      />
+                    </div>
+                  </>
+                )}
+
+                {sizing.model === SizingModel.KELLY && (
+                  <>
+                    <div>
+                      <Label htmlFor="kellyFraction">凱利比例（0.5 為半凱利）</Label>
+                      <Input
+                        id="kellyFraction"
+                        type="number"
+                        value={sizing.kellyFraction ?? 0.5}
+                        onChange={(e) =>
+                          handleSizingChange("kellyFraction", parseFloat(e.target.value))
+                        }
+                        step="0.05"
+                        min="0"
+                        max="1"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="kellyLookback">統計最近交易筆數</Label>
+                      <Input
+                        id="kellyLookback"
+                        type="number"
+                        value={sizing.kellyLookback ?? 50}
+                        onChange={(e) =>
+                          handleSizingChange("kellyLookback", parseInt(e.target.value))
+                        }
+                        min="10"
+                        required
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label htmlFor="costPreset">交易成本</Label>
+                  <Select
+                    value={costModel.preset}
+                    onValueChange={(value) =>
+                      handleCostModelChange("preset", value as CostPreset)
+                    }
+                  >
+                    <SelectTrigger id="costPreset">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CostPreset.AUTO}>依商品自動選擇</SelectItem>
+                      <SelectItem value={CostPreset.TX}>臺股期貨</SelectItem>
+                      <SelectItem value={CostPreset.MTX}>小型臺指期貨</SelectItem>
+                      <SelectItem value={CostPreset.TMF}>微型臺指期貨</SelectItem>
+                      <SelectItem value={CostPreset.TW_STOCK}>臺灣股票</SelectItem>
+                      <SelectItem value={CostPreset.TW_ETF}>臺灣 ETF</SelectItem>
+                      <SelectItem value={CostPreset.CUSTOM}>自訂</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {costModel.preset === CostPreset.CUSTOM && (
+                  <>
+                    <div>
+                      <Label htmlFor="commissionRate">手續費率 (%)</Label>
+                      <Input
+                        id="commissionRate"
+                        type="number"
+                        value={commissionRate}
+                        onChange={(e) => setCommissionRate(e.target.value)}
+                        step="0.0001"
+                        min="0"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="perContractFee">每口/每筆固定手續費</Label>
+                      <Input
+                        id="perContractFee"
+                        type="number"
+                        value={costModel.perContractFee ?? 0}
+                        onChange={(e) =>
+                          handleCostModelChange("perContractFee", parseFloat(e.target.value))
+                        }
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="minCommission">最低手續費</Label>
+                      <Input
+                        id="minCommission"
+                        type="number"
+                        value={costModel.minCommission ?? 0}
+                        onChange={(e) =>
+                          handleCostModelChange("minCommission", parseFloat(e.target.value))
+                        }
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="taxRate">交易稅率 (%)</Label>
+                      <Input
+                        id="taxRate"
+                        type="number"
+                        value={costModel.taxRate ?? 0}
+                        onChange={(e) =>
+                          handleCostModelChange("taxRate", parseFloat(e.target.value))
+                        }
+                        step="0.001"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="taxOnSellOnly">課稅方式</Label>
+                      <Select
+                        value={String(costModel.taxOnSellOnly ?? false)}
+                        onValueChange={(value) =>
+                          handleCostModelChange("taxOnSellOnly", value === "true")
+                        }
+                      >
+                        <SelectTrigger id="taxOnSellOnly">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="false">買賣雙邊</SelectItem>
+                          <SelectItem value="true">僅賣出</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label htmlFor="slippageTicks">滑點（跳動點數）</Label>
                   <Input
-                    id="positionSize"
+                    id="slippageTicks"
                     type="number"
-                    value={positionSize}
-                    onChange={(e) => setPositionSize(e.target.value)}
-                    min="1"
-                    max="100"
+                    value={slippageModel.ticks ?? 0}
+                    onChange={(e) => handleSlippageChange("ticks", e.target.value)}
+                    step="1"
+                    min="0"
                     required
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="commissionRate">手續費率 (%)</Label>
+                  <Label htmlFor="impactCoefficient">市場衝擊係數（選填）</Label>
                   <Input
-                    id="commissionRate"
+                    id="impactCoefficient"
                     type="number"
-                    value={commissionRate}
-                    onChange={(e) => setCommissionRate(e.target.value)}
-                    step="0.0001"
+                    value={slippageModel.impactCoefficient ?? ""}
+                    onChange={(e) =>
+                      handleSlippageChange("impactCoefficient", e.target.value)
+                    }
+                    step="0.1"
                     min="0"
-                    required
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="slippage">滑點 (%)</Label>
+                  <Label htmlFor="participationCap">成交量參與率上限 %（選填）</Label>
                   <Input
-                    id="slippage"
+                    id="participationCap"
                     type="number"
-                    value={slippage}
-                    onChange={(e) => setSlippage(e.target.value)}
-                    step="0.01"
+                    value={slippageModel.participationCap ?? ""}
+                    onChange={(e) =>
+                      handleSlippageChange("participationCap", e.target.value)
+                    }
+                    step="0.1"
+                    min="0"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="fillModel">成交模式</Label>
+                  <Select
+                    value={fillModel}
+                    onValueChange={(value) => setFillModel(value as FillModel)}
+                  >
+                    <SelectTrigger id="fillModel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FillModel.NEXT_OPEN}>下一根K棒開盤價</SelectItem>
+                      <SelectItem value={FillModel.SAME_CLOSE}>當根K棒收盤價（含前視偏差）</SelectItem>
+                      <SelectItem value={FillModel.VWAP_PROXY}>下一根K棒典型價（VWAP 近似）</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="interval">K棒週期</Label>
+                  <Select
+                    value={barInterval}
+                    onValueChange={(value) => setBarInterval(value as BarInterval)}
+                  >
+                    <SelectTrigger id="interval">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BarInterval.DAILY}>日線</SelectItem>
+                      <SelectItem value={BarInterval.MIN_60}>60 分鐘</SelectItem>
+                      <SelectItem value={BarInterval.MIN_15}>15 分鐘</SelectItem>
+                      <SelectItem value={BarInterval.MIN_5}>5 分鐘</SelectItem>
+                      <SelectItem value={BarInterval.MIN_1}>1 分鐘</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {isIntraday(barInterval) && (
+                  <div>
+                    <Label htmlFor="sessionFilter">交易時段</Label>
+                    <Select
+                      value={session.filter}
+                      onValueChange={(value) =>
+                        setSession((prev) => ({ ...prev, filter: value as SessionFilter }))
+                      }
+                    >
+                      <SelectTrigger id="sessionFilter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SessionFilter.BOTH}>一般與盤後交易時段</SelectItem>
+                        <SelectItem value={SessionFilter.DAY}>僅一般交易時段（08:45–13:45）</SelectItem>
+                        <SelectItem value={SessionFilter.NIGHT}>僅盤後交易時段（15:00–05:00）</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {isIntraday(barInterval) && (
+                  <div>
+                    <Label htmlFor="flatAtSessionEnd">時段收盤平倉</Label>
+                    <Select
+                      value={String(session.flatAtSessionEnd ?? false)}
+                      onValueChange={(value) =>
+                        setSession((prev) => ({ ...prev, flatAtSessionEnd: value === "true" }))
+                      }
+                    >
+                      <SelectTrigger id="flatAtSessionEnd">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="false">否</SelectItem>
+                        <SelectItem value="true">是（每個時段最後一根K棒收盤平倉）</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="rollMethod">期貨轉倉方式</Label>
+                  <Select
+                    value={continuousContract.rollMethod}
+                    onValueChange={(value) =>
+                      setContinuousContract((prev) => ({
+                        ...prev,
+                        rollMethod: value as RollMethod,
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="rollMethod">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={RollMethod.EXPIRY}>結算日（第三個星期三）</SelectItem>
+                      <SelectItem value={RollMethod.VOLUME}>成交量交叉</SelectItem>
+                      <SelectItem value={RollMethod.OPEN_INTEREST}>未平倉量交叉</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {continuousContract.rollMethod === RollMethod.EXPIRY && (
+                  <div>
+                    <Label htmlFor="rollOffsetDays">提前轉倉交易日數</Label>
+                    <Input
+                      id="rollOffsetDays"
+                      type="number"
+                      value={continuousContract.rollOffsetDays ?? 0}
+                      onChange={(e) =>
+                        setContinuousContract((prev) => ({
+                          ...prev,
+                          rollOffsetDays: parseInt(e.target.value) || 0,
+                        }))
+                      }
+                      step="1"
+                      min="0"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="adjustment">連續合約價格調整</Label>
+                  <Select
+                    value={continuousContract.adjustment}
+                    onValueChange={(value) =>
+                      setContinuousContract((prev) => ({
+                        ...prev,
+                        adjustment: value as AdjustmentMethod,
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="adjustment">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AdjustmentMethod.PANAMA}>價差回溯調整</SelectItem>
+                      <SelectItem value={AdjustmentMethod.RATIO}>比例回溯調整</SelectItem>
+                      <SelectItem value={AdjustmentMethod.NONE}>不調整</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="simulateRolls">模擬轉倉交易</Label>
+                  <Select
+                    value={String(simulateRolls)}
+                    onValueChange={(value) => setSimulateRolls(value === "true")}
+                  >
+                    <SelectTrigger id="simulateRolls">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="false">否</SelectItem>
+                      <SelectItem value="true">是（計入轉倉成本）</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="callDeadlineDays">保證金追繳期限（交易日）</Label>
+                  <Input
+                    id="callDeadlineDays"
+                    type="number"
+                    value={margin.callDeadlineDays ?? ""}
+                    onChange={(e) =>
+                      handleMarginChange("callDeadlineDays", e.target.value)
+                    }
+                    step="1"
+                    min="0"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="liquidationRatio">代為沖銷風險指標 %（0 為停用）</Label>
+                  <Input
+                    id="liquidationRatio"
+                    type="number"
+                    value={margin.liquidationRatio ?? ""}
+                    onChange={(e) =>
+                      handleMarginChange("liquidationRatio", e.target.value)
+                    }
+                    step="1"
                     min="0"
-                    required
                   />
                 </div>
 
@@ -269,7 +856,11 @@ export default function BacktestPage() {
                   type="submit"
                   className="w-full mt-6"
                   disabled={
-                    !symbol || !startDate || !endDate || !selectedStrategy
+                    !symbol ||
+                    !startDate ||
+                    !endDate ||
+                    !selectedStrategy ||
+                    parameterErrors.length > 0
                   }
                 >
                   <Play className="mr-2 h-4 w-4" />
@@ -284,79 +875,119 @@ export default function BacktestPage() {
               <Tabs defaultValue="parameters">
                 <TabsList className="mb-4">
                   <TabsTrigger value="parameters">策略參數</TabsTrigger>
+                  <TabsTrigger value="exits">出場規則</TabsTrigger>
                   <TabsTrigger value="description">策略說明</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="parameters" className="space-y-4">
                   {currentStrategy ? (
                     <>
-                      {currentStrategy.getParameters().map((param) => (
-                        <div key={param.id}>
-                          <Label htmlFor={param.id}>{param.name}</Label>
-                          {param.type === "number" ? (
-                            <Input
-                              id={param.id}
-                              type="number"
-                              value={strategyParams[param.id] || param.default}
-                              onChange={(e) =>
-                                handleParamChange(
-                                  param.id,
-                                  parseFloat(e.target.value)
-                                )
-                              }
-                              min={param.min}
-                              max={param.max}
-                              step={param.step}
-                            />
-                          ) : param.type === "boolean" ? (
-                            <Select
-                              value={String(
-                                strategyParams[param.id] || param.default
-                              )}
-                              onValueChange={(value) =>
-                                handleParamChange(param.id, value === "true")
-                              }
-                            >
-                              <SelectTrigger id={param.id}>
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="true">是</SelectItem>
-                                <SelectItem value="false">否</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          ) : param.type === "select" && param.options ? (
-                            <Select
-                              value={String(
-                                strategyParams[param.id] || param.default
-                              )}
-                              onValueChange={(value) =>
-                                handleParamChange(param.id, value)
-                              }
-                            >
-                              <SelectTrigger id={param.id}>
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {param.options.map((option) => (
-                                  <SelectItem
-                                    key={option.value}
-                                    value={option.value}
-                                  >
-                                    {option.label}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          ) : (
-                            <Input
-                              id={param.id}
-                              value={strategyParams[param.id] || param.default}
-                              onChange={(e) =>
-                                handleParamChange(param.id, e.target.value)
-                              }
-                            />
+                      {parameterGroups.map((group, index) => (
+                        <div key={index} className="space-y-4">
+                          {group.title && (
+                            <h3 className="font-semibold border-b pb-1">
+                              {group.title}
+                            </h3>
                           )}
+                          {group.parameters
+                            .filter((param) =>
+                              isParameterActive(allParameters, param, strategyParams)
+                            )
+                            .map((param) => (
+                              <div key={param.id}>
+                                <Label htmlFor={param.id}>
+                                  {param.name}
+                                  {param.unit && (
+                                    <span className="text-muted-foreground">
+                                      （{param.unit}）
+                                    </span>
+                                  )}
+                                </Label>
+                                {param.type === "number" ? (
+                                  <Input
+                                    id={param.id}
+                                    type="number"
+                                    value={
+                                      Number.isNaN(strategyParams[param.id])
+                                        ? ""
+                                        : strategyParams[param.id] ?? param.default
+                                    }
+                                    onChange={(e) =>
+                                      handleParamChange(
+                                        param.id,
+                                        parseFloat(e.target.value)
+                                      )
+                                    }
+                                    min={param.min}
+                                    max={param.max}
+                                    step={param.step}
+                                  />
+                                ) : param.type === "boolean" ? (
+                                  <Select
+                                    value={String(
+                                      strategyParams[param.id] ?? param.default
+                                    )}
+                                    onValueChange={(value) =>
+                                      handleParamChange(param.id, value === "true")
+                                    }
+                                  >
+                                    <SelectTrigger id={param.id}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="true">是</SelectItem>
+                                      <SelectItem value="false">否</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                ) : param.type === "select" && param.options ? (
+                                  <Select
+                                    value={String(
+                                      strategyParams[param.id] ?? param.default
+                                    )}
+                                    onValueChange={(value) =>
+                                      handleParamChange(param.id, value)
+                                    }
+                                  >
+                                    <SelectTrigger id={param.id}>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {param.options.map((option) => (
+                                        <SelectItem
+                                          key={option.value}
+                                          value={option.value}
+                                        >
+                                          {option.label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Input
+                                    id={param.id}
+                                    value={strategyParams[param.id] ?? param.default}
+                                    onChange={(e) =>
+                                      handleParamChange(param.id, e.target.value)
+                                    }
+                                  />
+                                )}
+                                {param.description && (
+                                  <p className="text-sm text-muted-foreground mt-1">
+                                    {param.description}
+                                  </p>
+                                )}
+                                {parameterErrors
+                                  .filter((error) => error.parameterId === param.id)
+                                  .map((error) => (
+                                    <p
+                                      key={error.message}
+                                      className="text-sm text-red-600 mt-1"
+                                    >
+                                      {error.message}
+                                    </p>
+                                  ))}
+                              </div>
+                            ))}
                         </div>
                       ))}
                     </>
@@ -367,6 +998,91 @@ export default function BacktestPage() {
                   )}
                 </TabsContent>
 
+                <TabsContent value="exits" className="space-y-4">
+                  {([
+                    ["stopLoss", "停損"],
+                    ["takeProfit", "停利"],
+                    ["trailingStop", "移動停損"],
+                  ] as const).map(([ruleId, label]) => (
+                    <div key={ruleId} className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor={`${ruleId}Type`}>{label}</Label>
+                        <Select
+                          value={exitRules[ruleId]?.type ?? "none"}
+                          onValueChange={(value) =>
+                            handleExitDistanceChange(
+                              ruleId,
+                              value,
+                              exitRules[ruleId]?.value ?? 0
+                            )
+                          }
+                        >
+                          <SelectTrigger id={`${ruleId}Type`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">不使用</SelectItem>
+                            <SelectItem value={ExitDistanceType.POINTS}>固定點數</SelectItem>
+                            <SelectItem value={ExitDistanceType.PERCENT}>進場價百分比</SelectItem>
+                            <SelectItem value={ExitDistanceType.ATR}>ATR 倍數</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor={`${ruleId}Value`}>數值</Label>
+                        <Input
+                          id={`${ruleId}Value`}
+                          type="number"
+                          value={exitRules[ruleId]?.value ?? ""}
+                          onChange={(e) =>
+                            handleExitDistanceChange(
+                              ruleId,
+                              exitRules[ruleId]?.type ?? "none",
+                              parseFloat(e.target.value)
+                            )
+                          }
+                          disabled={!exitRules[ruleId]}
+                          step="0.1"
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="atrPeriod">ATR 週期</Label>
+                      <Input
+                        id="atrPeriod"
+                        type="number"
+                        value={exitRules.atrPeriod ?? 14}
+                        onChange={(e) =>
+                          setExitRules((prev) => ({
+                            ...prev,
+                            atrPeriod: parseInt(e.target.value),
+                          }))
+                        }
+                        min="1"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="maxHoldingBars">最長持倉K棒數（0 為不限）</Label>
+                      <Input
+                        id="maxHoldingBars"
+                        type="number"
+                        value={exitRules.maxHoldingBars ?? 0}
+                        onChange={(e) =>
+                          setExitRules((prev) => ({
+                            ...prev,
+                            maxHoldingBars: parseInt(e.target.value),
+                          }))
+                        }
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                </TabsContent>
+
                 <TabsContent value="description">
                   {currentStrategy ? (
                     <div className="space-y-4">
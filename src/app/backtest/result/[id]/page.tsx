@@ -3,17 +3,81 @@ import { useState, useEffect, use } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { ArrowLeft, Play, LineChart, BarChart3, List } from 'lucide-react'
+import { ArrowLeft, Play, LineChart, BarChart3, List, Footprints, SlidersHorizontal } from 'lucide-react'
 import Link from 'next/link'
 import { useMarketData } from '@/lib/api/useMarketData'
-import { BacktestEngine } from '@/lib/backtest/engine'
+import { runBacktest } from '@/lib/backtest/runner'
+import { fetchBacktestMarketData } from '@/lib/api/backtestData'
 import { StrategyRegistry } from '@/lib/strategies/registry'
-import { BacktestResult, TradeDirection } from '@/lib/backtest/types'
+import { BacktestResult, ExitReason, FillModel, SessionFilter, SizingModel, TradeDirection } from '@/lib/backtest/types'
 import { Strategy } from '@/lib/strategies/base'
 import { MarketData } from '@/lib/api/yahooFinance'
-import { EquityCurveChart, DrawdownChart, TradeDistributionChart, ProfitDistributionChart } from '@/components/charts'
+import { AdjustmentMethod, RollMethod } from '@/lib/api/continuousContract'
+import { InstrumentType } from '@/lib/backtest/contracts'
+import { BarInterval, isIntraday } from '@/lib/api/tradingSessions'
+import { EquityCurveChart, DrawdownChart, MarginChart, TradeDistributionChart, ProfitDistributionChart } from '@/components/charts'
 import { PriceChartWithTrades } from '@/components/priceChart'
 
+// 成交模式說明
+const FILL_MODEL_LABELS: Record<FillModel, string> = {
+  [FillModel.NEXT_OPEN]: '下一根K棒開盤價',
+  [FillModel.SAME_CLOSE]: '當根K棒收盤價（含前視偏差）',
+  [FillModel.VWAP_PROXY]: '下一根K棒典型價（VWAP 近似）'
+}
+
+// 倉位模型說明
+const SIZING_MODEL_LABELS: Record<SizingModel, string> = {
+  [SizingModel.PERCENT_OF_CAPITAL]: '資金百分比',
+  [SizingModel.FIXED_CONTRACTS]: '固定口數/股數',
+  [SizingModel.FIXED_FRACTIONAL]: '固定風險比例',
+  [SizingModel.VOLATILITY_TARGET]: '波動率目標',
+  [SizingModel.KELLY]: '凱利公式'
+}
+
+// 轉倉方式說明
+const ROLL_METHOD_LABELS: Record<RollMethod, string> = {
+  [RollMethod.EXPIRY]: '結算日',
+  [RollMethod.VOLUME]: '成交量交叉',
+  [RollMethod.OPEN_INTEREST]: '未平倉量交叉'
+}
+
+// 價格調整方式說明
+const ADJUSTMENT_LABELS: Record<AdjustmentMethod, string> = {
+  [AdjustmentMethod.NONE]: '不調整',
+  [AdjustmentMethod.PANAMA]: '價差回溯調整',
+  [AdjustmentMethod.RATIO]: '比例回溯調整'
+}
+
+// K棒週期說明
+const INTERVAL_LABELS: Record<BarInterval, string> = {
+  [BarInterval.MIN_1]: '1 分鐘',
+  [BarInterval.MIN_5]: '5 分鐘',
+  [BarInterval.MIN_15]: '15 分鐘',
+  [BarInterval.MIN_60]: '60 分鐘',
+  [BarInterval.DAILY]: '日線'
+}
+
+// 交易時段說明
+const SESSION_FILTER_LABELS: Record<SessionFilter, string> = {
+  [SessionFilter.BOTH]: '一般與盤後交易時段',
+  [SessionFilter.DAY]: '僅一般交易時段',
+  [SessionFilter.NIGHT]: '僅盤後交易時段'
+}
+
+// 出場原因說明
+const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+  [ExitReason.SIGNAL]: '策略信號',
+  [ExitReason.ORDER]: '策略委託',
+  [ExitReason.STOP_LOSS]: '停損',
+  [ExitReason.TAKE_PROFIT]: '停利',
+  [ExitReason.TRAILING_STOP]: '移動停損',
+  [ExitReason.TIME_EXIT]: '持倉到期',
+  [ExitReason.MARGIN_CALL]: '強制平倉',
+  [ExitReason.ROLL]: '轉倉',
+  [ExitReason.SESSION_END]: '時段收盤平倉',
+  [ExitReason.END_OF_BACKTEST]: '回測結束'
+}
+
 export default function BacktestResultPage({ 
   params 
 }: { 
@@ -21,6 +85,7 @@ export default function BacktestResultPage({
 }) {
   const resolvedParams = use(params)
   const [result, setResult] = useState<BacktestResult | null>(null)
+  const [priceData, setPriceData] = useState<MarketData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('summary')
@@ -45,29 +110,15 @@ export default function BacktestResultPage({
           throw new Error('找不到策略')
         }
         
-        // 從 Yahoo Finance API 獲取市場數據
-        const response = await fetch(`/api/market-data?symbol=${backtestParams.symbol}&startDate=${backtestParams.startDate}&endDate=${backtestParams.endDate}`);
-        
-        if (!response.ok) {
-          const errorData = await response.json() as { error: string };
-          throw new Error(errorData.error || '獲取市場數據失敗')
-        }
-        
-        const marketData = await response.json() as MarketData;
-        
-        if (!marketData || !marketData.timestamp || marketData.timestamp.length === 0) {
-          throw new Error('獲取到的市場數據無效')
-        }
-        
-        // 創建回測引擎
-        const engine = new BacktestEngine(backtestParams, marketData)
+        // 從 Yahoo Finance API 獲取各標的市場數據，期貨另附連續合約設置
+        const symbols: string[] = backtestParams.symbols ?? [backtestParams.symbol]
+        const marketData = await fetchBacktestMarketData(backtestParams)
         
-        // 執行回測
-        const backtestResult = engine.run((data, index, params) => {
-          return strategy.execute(data, index, params)
-        })
+        // 執行回測：組合回測且策略支援橫斷面配置時，每個時間點一併決定各標的信號
+        const backtestResult = runBacktest(backtestParams, marketData, strategy)
         
         setResult(backtestResult)
+        setPriceData(marketData[symbols[0]])
       } catch (error) {
         console.error('載入回測結果時出錯:', error)
         setError(error instanceof Error ? error.message : '未知錯誤')
@@ -120,6 +171,9 @@ export default function BacktestResultPage({
     )
   }
   
+  // 組合回測另顯示各標的貢獻與相關係數
+  const isPortfolio = result.contributions.length > 1
+  
   return (
     <main className="flex min-h-screen flex-col p-8">
       <div className="flex items-center mb-8">
@@ -129,6 +183,19 @@ export default function BacktestResultPage({
           </Button>
         </Link>
         <h1 className="text-3xl font-bold">回測結果</h1>
+        <div className="flex-grow" />
+        <Link href={`/backtest/optimize/${resolvedParams.id}`} className="mr-2">
+          <Button variant="outline">
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            參數優化
+          </Button>
+        </Link>
+        <Link href={`/backtest/walk-forward/${resolvedParams.id}`}>
+          <Button variant="outline">
+            <Footprints className="mr-2 h-4 w-4" />
+            前進分析
+          </Button>
+        </Link>
       </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
@@ -139,7 +206,14 @@ export default function BacktestResultPage({
             <div className="space-y-4">
               <div className="flex justify-between">
                 <span className="text-muted-foreground">標的</span>
-                <span className="font-medium">{result.settings.symbol}</span>
+                <span className="font-medium">{(result.settings.symbols ?? [result.settings.symbol]).join(', ')}</span>
+              </div>
+              
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">合約</span>
+                <span className="font-medium">
+                  {result.contract.name}（每點 {result.contract.multiplier.toLocaleString()} 元）
+                </span>
               </div>
               
               <div className="flex justify-between">
@@ -160,6 +234,49 @@ export default function BacktestResultPage({
                 </span>
               </div>
               
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">K棒週期</span>
+                <span className="font-medium">
+                  {INTERVAL_LABELS[result.settings.interval ?? BarInterval.DAILY]}
+                  {isIntraday(result.settings.interval) && result.settings.session
+                    ? `（${SESSION_FILTER_LABELS[result.settings.session.filter]}${result.settings.session.flatAtSessionEnd ? '，時段收盤平倉' : ''}）`
+                    : ''}
+                </span>
+              </div>
+              
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">成交模式</span>
+                <span className="font-medium">
+                  {FILL_MODEL_LABELS[result.settings.fillModel ?? FillModel.NEXT_OPEN]}
+                </span>
+              </div>
+              
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">滑點</span>
+                <span className="font-medium">
+                  {result.settings.slippageModel
+                    ? `${result.settings.slippageModel.ticks} 跳動點`
+                    : `${result.settings.slippage ?? 0}%`}
+                </span>
+              </div>
+              
+              {result.contract.instrumentType === InstrumentType.FUTURES && result.settings.continuousContract && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">連續合約</span>
+                  <span className="font-medium">
+                    {ROLL_METHOD_LABELS[result.settings.continuousContract.rollMethod]}轉倉 / {ADJUSTMENT_LABELS[result.settings.continuousContract.adjustment]}
+                    {result.settings.simulateRolls ? `（轉倉 ${result.performance.rolls} 次）` : ''}
+                  </span>
+                </div>
+              )}
+              
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">倉位模型</span>
+                <span className="font-medium">
+                  {SIZING_MODEL_LABELS[result.settings.sizing?.model ?? SizingModel.PERCENT_OF_CAPITAL]}
+                </span>
+              </div>
+              
               <hr />
               
               <div className="flex justify-between">
@@ -223,6 +340,15 @@ export default function BacktestResultPage({
               
               <TabsContent value="summary">
                 <div className="space-y-6">
+                  {priceData && (
+                    <div>
+                      <h3 className="text-lg font-medium mb-2">價格走勢{isPortfolio && `（${priceData.symbol}）`}</h3>
+                      <div className="border rounded-md p-4">
+                        <PriceChartWithTrades marketData={priceData} result={result} />
+                      </div>
+                    </div>
+                  )}
+                  
                   <div>
                     <h3 className="text-lg font-medium mb-2">權益曲線</h3>
                     <div className="border rounded-md p-4">
@@ -237,6 +363,15 @@ export default function BacktestResultPage({
                     </div>
                   </div>
                   
+                  {result.equity.some(point => point.usedMargin !== undefined) && (
+                    <div>
+                      <h3 className="text-lg font-medium mb-2">保證金</h3>
+                      <div className="border rounded-md p-4">
+                        <MarginChart result={result} />
+                      </div>
+                    </div>
+                  )}
+                  
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
                       <h3 className="text-lg font-medium mb-2">交易分布</h3>
@@ -261,11 +396,18 @@ export default function BacktestResultPage({
                     <thead>
                       <tr className="border-b">
                         <th className="text-left py-2 px-4">交易</th>
+                        {isPortfolio && <th className="text-left py-2 px-4">標的</th>}
                         <th className="text-left py-2 px-4">方向</th>
                         <th className="text-left py-2 px-4">入場時間</th>
                         <th className="text-right py-2 px-4">入場價格</th>
                         <th className="text-left py-2 px-4">出場時間</th>
                         <th className="text-right py-2 px-4">出場價格</th>
+                        <th className="text-left py-2 px-4">出場原因</th>
+                        <th className="text-right py-2 px-4">數量</th>
+                        <th className="text-right py-2 px-4">點數</th>
+                        <th className="text-right py-2 px-4">手續費</th>
+                        <th className="text-right py-2 px-4">交易稅</th>
+                        <th className="text-right py-2 px-4">滑點</th>
                         <th className="text-right py-2 px-4">盈虧</th>
                       </tr>
                     </thead>
@@ -273,15 +415,22 @@ export default function BacktestResultPage({
                       {result.trades.slice(0, 10).map((trade, index) => (
                         <tr key={trade.id} className="border-b">
                           <td className="py-2 px-4">{index + 1}</td>
+                          {isPortfolio && <td className="py-2 px-4">{trade.symbol}</td>}
                           <td className="py-2 px-4">
                             <span className={trade.direction === 'long' ? 'text-green-600' : 'text-red-600'}>
                               {trade.direction === 'long' ? '做多' : '做空'}
                             </span>
                           </td>
-                          <td className="py-2 px-4">{new Date(trade.entryTime).toLocaleString()}</td>
+                          <td className="py-2 px-4">{new Date(trade.entryTime * 1000).toLocaleString()}</td>
                           <td className="text-right py-2 px-4">{trade.entryPrice.toFixed(2)}</td>
-                          <td className="py-2 px-4">{new Date(trade.exitTime).toLocaleString()}</td>
+                          <td className="py-2 px-4">{new Date(trade.exitTime * 1000).toLocaleString()}</td>
                           <td className="text-right py-2 px-4">{trade.exitPrice.toFixed(2)}</td>
+                          <td className="py-2 px-4">{EXIT_REASON_LABELS[trade.exitReason]}</td>
+                          <td className="text-right py-2 px-4">{trade.quantity}</td>
+                          <td className="text-right py-2 px-4">{trade.points.toFixed(2)}</td>
+                          <td className="text-right py-2 px-4">{trade.commission.toLocaleString()}</td>
+                          <td className="text-right py-2 px-4">{trade.tax.toLocaleString()}</td>
+                          <td className="text-right py-2 px-4">{trade.slippage.toLocaleString()}</td>
                           <td className={`text-right py-2 px-4 ${trade.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                             {trade.netProfit.toLocaleString()}
                           </td>
@@ -329,6 +478,12 @@ export default function BacktestResultPage({
                           {result.performance.totalNetProfit.toLocaleString()}
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">總點數盈虧</span>
+                        <span className={result.performance.totalPoints >= 0 ? 'text-green-600' : 'text-red-600'}>
+                          {result.performance.totalPoints.toLocaleString()}
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">平均盈利</span>
                         <span className="text-green-600">{result.performance.averageProfit.toLocaleString()}</span>
@@ -370,6 +525,102 @@ export default function BacktestResultPage({
                     </div>
                   </Card>
                   
+                  <Card className="p-4">
+                    <h3 className="text-lg font-medium mb-2">交易成本</h3>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">總手續費</span>
+                        <span>{result.performance.totalCommission.toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">總交易稅</span>
+                        <span>{result.performance.totalTax.toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">總滑點成本</span>
+                        <span>{result.performance.totalSlippage.toLocaleString()}</span>
+                      </div>
+                    </div>
+                  </Card>
+                  
+                  <Card className="p-4">
+                    <h3 className="text-lg font-medium mb-2">保證金</h3>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">最大保證金使用率</span>
+                        <span>{result.performance.maxMarginUtilization.toFixed(2)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">追繳次數</span>
+                        <span>{result.performance.marginCalls}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">強制平倉次數</span>
+                        <span className={result.performance.liquidations > 0 ? 'text-red-600' : ''}>
+                          {result.performance.liquidations}
+                        </span>
+                      </div>
+                      {result.marginCalls.map((call, index) => (
+                        <div key={index} className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {new Date(call.timestamp * 1000).toLocaleDateString()} 追繳 {call.deficit.toLocaleString()}
+                          </span>
+                          <span>
+                            {call.liquidatedAt !== undefined
+                              ? `${new Date(call.liquidatedAt * 1000).toLocaleDateString()} 強制平倉`
+                              : call.resolvedAt !== undefined ? '已解除' : '未解除'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                  
+                  {isPortfolio && (
+                    <Card className="p-4">
+                      <h3 className="text-lg font-medium mb-2">標的貢獻</h3>
+                      <div className="space-y-2">
+                        {result.contributions.map(contribution => (
+                          <div key={contribution.symbol} className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              {contribution.symbol}（{contribution.trades} 筆）
+                            </span>
+                            <span className={contribution.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              {contribution.netProfit.toLocaleString()}（{contribution.contributionPct.toFixed(2)}%）
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </Card>
+                  )}
+                  
+                  {isPortfolio && (
+                    <Card className="p-4">
+                      <h3 className="text-lg font-medium mb-2">損益相關係數</h3>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th></th>
+                            {result.correlation.symbols.map(symbol => (
+                              <th key={symbol} className="text-right py-1">{symbol}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.correlation.symbols.map((symbol, i) => (
+                            <tr key={symbol}>
+                              <td className="text-muted-foreground py-1">{symbol}</td>
+                              {result.correlation.values[i].map((value, j) => (
+                                <td key={j} className="text-right py-1">
+                                  {isNaN(value) ? '-' : value.toFixed(2)}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </Card>
+                  )}
+                  
                   <Card className="p-4">
                     <h3 className="text-lg font-medium mb-2">其他統計</h3>
                     <div className="space-y-2">
@@ -0,0 +1,579 @@
+'use client'
+import { useState, useEffect, useMemo, useRef, use } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, Play, Square } from 'lucide-react'
+import Link from 'next/link'
+import { StrategyRegistry } from '@/lib/strategies/registry'
+import { loadStoredStrategies } from '@/lib/strategies/ruleStorage'
+import { EventStrategy } from '@/lib/strategies/base'
+import { BacktestSettings } from '@/lib/backtest/types'
+import { MarketData } from '@/lib/api/yahooFinance'
+import { fetchBacktestMarketData } from '@/lib/api/backtestData'
+import {
+  WalkForwardAnalyzer,
+  WalkForwardMode,
+  WalkForwardProgress,
+  WalkForwardResult,
+} from '@/lib/backtest/walkForward'
+import { OptimizationObjective } from '@/lib/optimization/objective'
+import { OptimizationMethod } from '@/lib/optimization/optimizers'
+import {
+  DEFLATED_SHARPE_THRESHOLD,
+  getOverfittingWarnings,
+  P_VALUE_THRESHOLD,
+  PBO_THRESHOLD,
+} from '@/lib/optimization/overfitting'
+import { createBrowserPool } from '@/lib/optimization/browserPool'
+import { WalkForwardEquityChart } from '@/components/charts'
+import {
+  countCombinations,
+  createRangeInputs,
+  getEnabledRanges,
+  METHOD_LABELS,
+  OBJECTIVE_LABELS,
+  ParamRangeEditor,
+  RangeInput,
+} from '@/components/optimizationForm'
+
+// 視窗模式說明
+const MODE_LABELS: Record<WalkForwardMode, string> = {
+  [WalkForwardMode.ROLLING]: '滾動視窗',
+  [WalkForwardMode.ANCHORED]: '錨定視窗',
+}
+
+// 格式化日期
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString()
+
+// 格式化剩餘時間
+const formatDuration = (ms: number) => {
+  if (!Number.isFinite(ms)) return '-'
+  const seconds = Math.ceil(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// 格式化前進效率，無法計算時顯示 -
+const formatEfficiency = (value: number) => (Number.isFinite(value) ? `${(value * 100).toFixed(0)}%` : '-')
+
+const formatPercent = (value: number) => (Number.isFinite(value) ? `${(value * 100).toFixed(1)}%` : '-')
+
+const formatPValue = (value: number) => (Number.isFinite(value) ? value.toFixed(3) : '-')
+
+export default function WalkForwardPage({
+  params
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const resolvedParams = use(params)
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings | null>(null)
+  const [strategy, setStrategy] = useState<EventStrategy | null>(null)
+  const [marketData, setMarketData] = useState<Record<string, MarketData> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<WalkForwardMode>(WalkForwardMode.ROLLING)
+  const [inSampleDays, setInSampleDays] = useState(250)
+  const [outOfSampleDays, setOutOfSampleDays] = useState(60)
+  const [objective, setObjective] = useState<OptimizationObjective>(OptimizationObjective.NET_PROFIT)
+  const [ranges, setRanges] = useState<Record<string, RangeInput>>({})
+  const [method, setMethod] = useState<OptimizationMethod>(OptimizationMethod.GRID)
+  const [maxEvaluations, setMaxEvaluations] = useState(100)
+  const [seed, setSeed] = useState(1)
+  const [result, setResult] = useState<WalkForwardResult | null>(null)
+  const [progress, setProgress] = useState<WalkForwardProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // 離開頁面時停止進行中的分析
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // 載入回測設置與市場數據
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const settings: BacktestSettings = JSON.parse(decodeURIComponent(resolvedParams.id))
+        const selected = StrategyRegistry.getInstance().getStrategy(settings.strategyId)
+
+        if (!selected) {
+          throw new Error('找不到策略')
+        }
+
+        setBacktestSettings(settings)
+        setStrategy(selected)
+        setRanges(createRangeInputs(selected.getParameters()))
+        setMarketData(await fetchBacktestMarketData(settings))
+      } catch (error) {
+        console.error('載入前進分析資料時出錯:', error)
+        setError(error instanceof Error ? error.message : '未知錯誤')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [resolvedParams.id])
+
+  const updateRange = (id: string, changes: Partial<RangeInput>) =>
+    setRanges((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+
+  const paramRanges = useMemo(() => getEnabledRanges(ranges), [ranges])
+  // 組合數不含違反參數間限制的組合，需逐一檢查網格，僅在範圍變更時重新計算
+  const combinations = useMemo(
+    () => (strategy ? countCombinations(strategy.getParameters(), paramRanges, backtestSettings?.strategyParams ?? {}) : 0),
+    [strategy, paramRanges, backtestSettings]
+  )
+  // 網格搜索評估所有組合，其他方法最多評估設定的次數
+  const evaluations = method === OptimizationMethod.GRID ? combinations : Math.min(combinations, maxEvaluations)
+
+  // 執行前進分析，樣本內優化的回測在背景執行緒進行，畫面不會停止回應
+  const handleRun = async () => {
+    if (!backtestSettings || !strategy || !marketData) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setError(null)
+    setProgress(null)
+
+    const pool = createBrowserPool({
+      settings: backtestSettings,
+      marketData,
+      objective,
+      storedStrategies: loadStoredStrategies(),
+    })
+
+    try {
+      const analyzer = new WalkForwardAnalyzer(backtestSettings, marketData, strategy)
+      const analysis = await analyzer.runInPool(
+        {
+          mode,
+          inSampleDays,
+          outOfSampleDays,
+          objective,
+          paramRanges,
+          method,
+          maxEvaluations: method === OptimizationMethod.GRID ? undefined : maxEvaluations,
+          seed,
+        },
+        pool,
+        { signal: controller.signal, onProgress: setProgress }
+      )
+
+      if (analysis.windows.length === 0) {
+        setError('已停止，尚未完成任何視窗')
+      } else {
+        setResult(analysis)
+      }
+    } catch (error) {
+      console.error('執行前進分析時出錯:', error)
+      setError(error instanceof Error ? error.message : '未知錯誤')
+    } finally {
+      pool.terminate()
+      abortRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  // 停止分析，保留已完成的視窗
+  const handleStop = () => abortRef.current?.abort()
+
+  const paramNames: Record<string, string> = Object.fromEntries(
+    (strategy?.getParameters() ?? []).map((param) => [param.id, param.name])
+  )
+
+  return (
+    <main className="flex min-h-screen flex-col p-8">
+      <div className="flex items-center mb-8">
+        <Link href={`/backtest/result/${resolvedParams.id}`}>
+          <Button variant="ghost" size="icon" className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">前進分析</h1>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">載入市場數據中...</p>
+        </div>
+      ) : !strategy || !marketData ? (
+        <div className="flex flex-col items-center justify-center h-64">
+          <p className="text-red-600 mb-4">{error || '無法載入回測設置'}</p>
+          <Link href="/backtest">
+            <Button>返回回測頁面</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-1">
+            <Card className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold">分析設置</h2>
+              <p className="text-sm text-muted-foreground">
+                {strategy.name}：每個視窗在樣本內以選定的優化方法找出最佳參數，再以該參數回測緊接的樣本外期間。
+              </p>
+
+              <div>
+                <Label>視窗模式</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as WalkForwardMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(WalkForwardMode).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {MODE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="inSampleDays">樣本內交易日數</Label>
+                  <Input
+                    id="inSampleDays"
+                    type="number"
+                    min={2}
+                    value={inSampleDays}
+                    onChange={(e) => setInSampleDays(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="outOfSampleDays">樣本外交易日數</Label>
+                  <Input
+                    id="outOfSampleDays"
+                    type="number"
+                    min={2}
+                    value={outOfSampleDays}
+                    onChange={(e) => setOutOfSampleDays(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>優化目標</Label>
+                <Select value={objective} onValueChange={(value) => setObjective(value as OptimizationObjective)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(OptimizationObjective).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {OBJECTIVE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>優化方法</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as OptimizationMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(OptimizationMethod).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {METHOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {method !== OptimizationMethod.GRID && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="maxEvaluations">每個視窗評估次數</Label>
+                    <Input
+                      id="maxEvaluations"
+                      type="number"
+                      min={1}
+                      value={maxEvaluations}
+                      onChange={(e) => setMaxEvaluations(parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="seed">亂數種子</Label>
+                    <Input
+                      id="seed"
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>優化參數</Label>
+                <ParamRangeEditor ranges={ranges} paramNames={paramNames} onChange={updateRange} />
+                <p className="text-sm text-muted-foreground">
+                  未勾選的參數沿用回測設置的值；共 {combinations.toLocaleString()} 組參數，每個視窗回測{' '}
+                  {evaluations.toLocaleString()} 組。
+                </p>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {isRunning ? (
+                <div className="space-y-2">
+                  <Progress value={progress ? (progress.evaluations / progress.total) * 100 : 0} />
+                  {progress ? (
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      <p>
+                        視窗 {progress.window} / {progress.windows}，已評估 {progress.evaluations.toLocaleString()} /{' '}
+                        {progress.total.toLocaleString()} 組，預估剩餘 {formatDuration(progress.etaMs)}
+                      </p>
+                      {progress.best && (
+                        <p>
+                          本視窗目前最佳：{progress.best.score.toFixed(2)}（
+                          {Object.entries(progress.best.params)
+                            .map(([id, value]) => `${paramNames[id] ?? id} ${value}`)
+                            .join('、')}
+                          ）
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">啟動背景執行緒中...</p>
+                  )}
+                  <Button variant="outline" className="w-full" onClick={handleStop}>
+                    <Square className="mr-2 h-4 w-4" />
+                    停止並保留目前結果
+                  </Button>
+                </div>
+              ) : (
+                <Button className="w-full" onClick={handleRun} disabled={evaluations === 0}>
+                  <Play className="mr-2 h-4 w-4" />
+                  執行前進分析
+                </Button>
+              )}
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {result ? (
+              <>
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">樣本外績效</h2>
+                  {result.cancelled && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      分析已中途停止，以下僅包含已完成的 {result.windows.length} 個視窗。
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">淨盈虧</p>
+                      <p className={`font-medium ${result.outOfSampleNetProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {result.outOfSampleNetProfit.toLocaleString(undefined, { maximumFractionDigits: 0 })} 元（
+                        {result.outOfSampleNetProfitPct.toFixed(2)}%）
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">交易次數 / 勝率</p>
+                      <p className="font-medium">
+                        {result.outOfSampleTrades} / {result.outOfSampleWinRate.toFixed(2)}%
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">最大回撤</p>
+                      <p className="font-medium text-red-600">
+                        {result.outOfSampleMaxDrawdown.toLocaleString(undefined, { maximumFractionDigits: 0 })} 元
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">前進效率</p>
+                      <p className="font-medium">{formatEfficiency(result.efficiency)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">視窗數</p>
+                      <p className="font-medium">{result.windows.length}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">獲利視窗</p>
+                      <p className="font-medium">
+                        {result.windows.filter((window) => window.outOfSample.totalNetProfit > 0).length} /{' '}
+                        {result.windows.length}
+                      </p>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-4">
+                    前進效率為樣本外與樣本內每日平均淨盈虧的比值，一般認為 50% 以上表示參數在樣本外仍具效果。
+                  </p>
+                </Card>
+
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">樣本外權益曲線</h2>
+                  <div className="border rounded-md p-4">
+                    <WalkForwardEquityChart result={result} />
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">各視窗結果</h2>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-2">視窗</th>
+                          <th className="text-left py-2 px-2">樣本內</th>
+                          <th className="text-left py-2 px-2">樣本外</th>
+                          <th className="text-left py-2 px-2">最佳參數</th>
+                          <th className="text-right py-2 px-2">樣本內盈虧</th>
+                          <th className="text-right py-2 px-2">樣本外盈虧</th>
+                          <th className="text-right py-2 px-2">樣本外交易</th>
+                          <th className="text-right py-2 px-2">前進效率</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.windows.map((window, index) => (
+                          <tr key={index} className="border-b">
+                            <td className="py-2 px-2">{index + 1}</td>
+                            <td className="py-2 px-2">
+                              {formatDate(window.inSampleStart)} - {formatDate(window.inSampleEnd)}
+                            </td>
+                            <td className="py-2 px-2">
+                              {formatDate(window.outOfSampleStart)} - {formatDate(window.outOfSampleEnd)}
+                            </td>
+                            <td className="py-2 px-2">
+                              {Object.keys(result.settings.paramRanges)
+                                .map((id) => `${paramNames[id] ?? id}=${window.params[id]}`)
+                                .join('，')}
+                            </td>
+                            <td className={`text-right py-2 px-2 ${window.inSample.totalNetProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {window.inSample.totalNetProfit.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            </td>
+                            <td className={`text-right py-2 px-2 ${window.outOfSample.totalNetProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {window.outOfSample.totalNetProfit.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            </td>
+                            <td className="text-right py-2 px-2">{window.outOfSample.totalTrades}</td>
+                            <td className="text-right py-2 px-2">{formatEfficiency(window.efficiency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">過度擬合診斷</h2>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-2">視窗</th>
+                          <th className="text-left py-2 px-2">最佳參數</th>
+                          <th className="text-right py-2 px-2">評估組合</th>
+                          <th className="text-right py-2 px-2">夏普比率</th>
+                          <th className="text-right py-2 px-2">預期最高夏普</th>
+                          <th className="text-right py-2 px-2">緊縮夏普</th>
+                          <th className="text-right py-2 px-2">過度擬合機率</th>
+                          <th className="text-right py-2 px-2">現實檢驗 p</th>
+                          <th className="text-right py-2 px-2">SPA p</th>
+                          <th className="text-left py-2 px-2">判斷</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.windows.map((window, index) => {
+                          const { diagnostics } = window
+                          const warnings = getOverfittingWarnings(diagnostics)
+                          return (
+                            <tr key={index} className="border-b">
+                              <td className="py-2 px-2">{index + 1}</td>
+                              <td className="py-2 px-2">
+                                {Object.keys(result.settings.paramRanges)
+                                  .map((id) => `${paramNames[id] ?? id}=${window.params[id]}`)
+                                  .join('，')}
+                              </td>
+                              <td className="text-right py-2 px-2">
+                                {diagnostics.trials}
+                                {window.failedEvaluations > 0 && (
+                                  <span className="text-red-600">（失敗 {window.failedEvaluations}）</span>
+                                )}
+                              </td>
+                              <td className="text-right py-2 px-2">{diagnostics.sharpeRatio.toFixed(2)}</td>
+                              <td className="text-right py-2 px-2">{diagnostics.expectedMaxSharpe.toFixed(2)}</td>
+                              <td className={`text-right py-2 px-2 ${diagnostics.deflatedSharpe < DEFLATED_SHARPE_THRESHOLD ? 'text-red-600' : ''}`}>
+                                {formatPercent(diagnostics.deflatedSharpe)}
+                              </td>
+                              <td className={`text-right py-2 px-2 ${diagnostics.pbo >= PBO_THRESHOLD ? 'text-red-600' : ''}`}>
+                                {formatPercent(diagnostics.pbo)}
+                              </td>
+                              <td className={`text-right py-2 px-2 ${diagnostics.realityCheckPValue >= P_VALUE_THRESHOLD ? 'text-red-600' : ''}`}>
+                                {formatPValue(diagnostics.realityCheckPValue)}
+                              </td>
+                              <td className={`text-right py-2 px-2 ${diagnostics.spaPValue >= P_VALUE_THRESHOLD ? 'text-red-600' : ''}`}>
+                                {formatPValue(diagnostics.spaPValue)}
+                              </td>
+                              <td className={`py-2 px-2 ${warnings.length > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                {warnings.length > 0 ? warnings.join('；') : '通過'}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-4">
+                    以樣本內所有評估過的參數組合計算。緊縮夏普為扣除多重試驗後夏普比率仍大於零的機率，低於{' '}
+                    {DEFLATED_SHARPE_THRESHOLD * 100}% 表示最佳績效可能只是試驗次數多的運氣；過度擬合機率以組合對稱交叉驗證估計，
+                    達 {PBO_THRESHOLD * 100}% 表示樣本內最佳參數在另一半資料中多半不如中位數；現實檢驗與 SPA 比較買入持有，p 值達{' '}
+                    {P_VALUE_THRESHOLD} 表示無法確定優於買入持有。
+                  </p>
+                </Card>
+
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-4">參數穩定度</h2>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-2">參數</th>
+                        <th className="text-left py-2 px-2">各視窗最佳值</th>
+                        <th className="text-right py-2 px-2">平均</th>
+                        <th className="text-right py-2 px-2">標準差</th>
+                        <th className="text-right py-2 px-2">標準差 / 搜尋範圍</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.parameterStability.map((stability) => (
+                        <tr key={stability.id} className="border-b">
+                          <td className="py-2 px-2">{paramNames[stability.id] ?? stability.id}</td>
+                          <td className="py-2 px-2">{stability.values.join(', ')}</td>
+                          <td className="text-right py-2 px-2">{stability.mean.toFixed(2)}</td>
+                          <td className="text-right py-2 px-2">{stability.stdDev.toFixed(2)}</td>
+                          <td className="text-right py-2 px-2">{(stability.normalizedStdDev * 100).toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-sm text-muted-foreground mt-4">
+                    最佳參數在各視窗間變動越小，代表策略對參數越不敏感，樣本外表現也越可信。
+                  </p>
+                </Card>
+              </>
+            ) : (
+              <Card className="p-6 h-64 flex items-center justify-center">
+                <p className="text-muted-foreground">設定視窗與優化參數後執行前進分析</p>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,594 @@
+'use client'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { StrategyRegistry } from '@/lib/strategies/registry'
+import {
+  Comparator,
+  LogicOperator,
+  PriceField,
+  RULE_INDICATORS,
+  RuleCondition,
+  RuleIndicator,
+  RuleNumber,
+  RuleOperand,
+  RuleParameter,
+  RuleSide,
+  RuleStrategy,
+  RuleStrategyDefinition,
+  validateRuleStrategy,
+} from '@/lib/strategies/ruleStrategy'
+import { createRuleStrategyId, loadRuleStrategies, saveRuleStrategy } from '@/lib/strategies/ruleStorage'
+
+const SIDES: { id: RuleSide; label: string }[] = [
+  { id: 'longEntry', label: '多方進場' },
+  { id: 'longExit', label: '多方出場' },
+  { id: 'shortEntry', label: '空方進場' },
+  { id: 'shortExit', label: '空方出場' },
+]
+
+const PRICE_FIELD_LABELS: Record<PriceField, string> = {
+  [PriceField.OPEN]: '開盤價',
+  [PriceField.HIGH]: '最高價',
+  [PriceField.LOW]: '最低價',
+  [PriceField.CLOSE]: '收盤價',
+  [PriceField.VOLUME]: '成交量',
+}
+
+const COMPARATOR_LABELS: Record<Comparator, string> = {
+  [Comparator.GT]: '大於 >',
+  [Comparator.GTE]: '大於等於 ≥',
+  [Comparator.LT]: '小於 <',
+  [Comparator.LTE]: '小於等於 ≤',
+  [Comparator.CROSS_ABOVE]: '向上穿越',
+  [Comparator.CROSS_BELOW]: '向下穿越',
+}
+
+// 固定數值在參數選單中的值
+const CONSTANT = '__constant'
+
+// 新增的比較條件
+const newComparison = (): RuleCondition => ({
+  type: 'compare',
+  left: { kind: 'price', field: PriceField.CLOSE },
+  comparator: Comparator.GT,
+  right: { kind: 'indicator', indicator: RuleIndicator.SMA, args: [20] },
+})
+
+// 新增的條件群組
+const newGroup = (): RuleCondition => ({
+  type: 'group',
+  logic: LogicOperator.AND,
+  conditions: [newComparison()],
+})
+
+// 新策略的範例規則：短期均線向上穿越長期均線做多，向下穿越出場
+const newDefinition = (): RuleStrategyDefinition => {
+  const fast: RuleOperand = { kind: 'indicator', indicator: RuleIndicator.SMA, args: [{ param: 'fastPeriod' }] }
+  const slow: RuleOperand = { kind: 'indicator', indicator: RuleIndicator.SMA, args: [{ param: 'slowPeriod' }] }
+
+  return {
+    id: createRuleStrategyId(),
+    name: '',
+    description: '',
+    parameters: [
+      { id: 'fastPeriod', name: '短期均線週期', default: 5, min: 2, max: 50, step: 1 },
+      { id: 'slowPeriod', name: '長期均線週期', default: 20, min: 5, max: 200, step: 1 },
+    ],
+    longEntry: {
+      type: 'group',
+      logic: LogicOperator.AND,
+      conditions: [{ type: 'compare', left: fast, comparator: Comparator.CROSS_ABOVE, right: slow }],
+    },
+    longExit: {
+      type: 'group',
+      logic: LogicOperator.AND,
+      conditions: [{ type: 'compare', left: fast, comparator: Comparator.CROSS_BELOW, right: slow }],
+    },
+  }
+}
+
+// 將輸入框內容轉換為數值，空白時返回 undefined
+const parseOptional = (value: string) => (value === '' ? undefined : parseFloat(value))
+
+function RuleNumberInput({
+  value,
+  parameters,
+  onChange,
+}: {
+  value: RuleNumber
+  parameters: RuleParameter[]
+  onChange: (value: RuleNumber) => void
+}) {
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={typeof value === 'number' ? CONSTANT : value.param}
+        onValueChange={(selected) => onChange(selected === CONSTANT ? 0 : { param: selected })}
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CONSTANT}>固定數值</SelectItem>
+          {parameters.map((param) => (
+            <SelectItem key={param.id} value={param.id}>
+              {param.name || param.id}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {typeof value === 'number' && (
+        <Input
+          type="number"
+          className="w-24"
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        />
+      )}
+    </div>
+  )
+}
+
+function OperandEditor({
+  operand,
+  parameters,
+  onChange,
+}: {
+  operand: RuleOperand
+  parameters: RuleParameter[]
+  onChange: (operand: RuleOperand) => void
+}) {
+  const changeKind = (kind: RuleOperand['kind']) => {
+    if (kind === 'price') {
+      onChange({ kind, field: PriceField.CLOSE })
+    } else if (kind === 'value') {
+      onChange({ kind, value: 0 })
+    } else {
+      onChange({ kind, indicator: RuleIndicator.SMA, args: [20] })
+    }
+  }
+
+  const offsetInput = operand.kind !== 'value' && (
+    <div className="flex items-center gap-1">
+      <Label className="text-xs text-muted-foreground whitespace-nowrap">前 N 根</Label>
+      <Input
+        type="number"
+        className="w-16"
+        min={0}
+        value={operand.offset ?? 0}
+        onChange={(e) => onChange({ ...operand, offset: Math.max(0, parseInt(e.target.value) || 0) })}
+      />
+    </div>
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={operand.kind} onValueChange={(kind) => changeKind(kind as RuleOperand['kind'])}>
+        <SelectTrigger className="w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="price">價格</SelectItem>
+          <SelectItem value="indicator">指標</SelectItem>
+          <SelectItem value="value">數值</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {operand.kind === 'price' && (
+        <>
+          <Select
+            value={operand.field}
+            onValueChange={(field) => onChange({ ...operand, field: field as PriceField })}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(PriceField).map((field) => (
+                <SelectItem key={field} value={field}>
+                  {PRICE_FIELD_LABELS[field]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {offsetInput}
+        </>
+      )}
+
+      {operand.kind === 'value' && (
+        <RuleNumberInput
+          value={operand.value}
+          parameters={parameters}
+          onChange={(value) => onChange({ ...operand, value })}
+        />
+      )}
+
+      {operand.kind === 'indicator' && (() => {
+        const spec = RULE_INDICATORS[operand.indicator]
+
+        return (
+          <>
+            <Select
+              value={operand.indicator}
+              onValueChange={(indicator) =>
+                onChange({
+                  kind: 'indicator',
+                  indicator: indicator as RuleIndicator,
+                  args: RULE_INDICATORS[indicator as RuleIndicator].args.map((arg) => arg.default),
+                  offset: operand.offset,
+                })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(RuleIndicator).map((indicator) => (
+                  <SelectItem key={indicator} value={indicator}>
+                    {RULE_INDICATORS[indicator].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {spec.usesSource && (
+              <Select
+                value={operand.source ?? PriceField.CLOSE}
+                onValueChange={(source) => onChange({ ...operand, source: source as PriceField })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(PriceField).map((field) => (
+                    <SelectItem key={field} value={field}>
+                      {PRICE_FIELD_LABELS[field]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {spec.args.map((arg, i) => (
+              <div key={arg.name} className="flex items-center gap-1">
+                <Label className="text-xs text-muted-foreground whitespace-nowrap">{arg.name}</Label>
+                <RuleNumberInput
+                  value={operand.args[i] ?? arg.default}
+                  parameters={parameters}
+                  onChange={(value) => {
+                    const args = spec.args.map((a, j) => operand.args[j] ?? a.default)
+                    args[i] = value
+                    onChange({ ...operand, args })
+                  }}
+                />
+              </div>
+            ))}
+
+            {spec.outputs.length > 1 && (
+              <Select
+                value={operand.output ?? spec.outputs[0].id}
+                onValueChange={(output) => onChange({ ...operand, output })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {spec.outputs.map((output) => (
+                    <SelectItem key={output.id} value={output.id}>
+                      {output.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {offsetInput}
+          </>
+        )
+      })()}
+    </div>
+  )
+}
+
+function ConditionEditor({
+  condition,
+  parameters,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition
+  parameters: RuleParameter[]
+  onChange: (condition: RuleCondition) => void
+  onRemove: () => void
+}) {
+  if (condition.type === 'compare') {
+    return (
+      <div className="flex items-start gap-2 rounded-md border p-3">
+        <div className="flex-grow space-y-2">
+          <OperandEditor
+            operand={condition.left}
+            parameters={parameters}
+            onChange={(left) => onChange({ ...condition, left })}
+          />
+          <Select
+            value={condition.comparator}
+            onValueChange={(comparator) => onChange({ ...condition, comparator: comparator as Comparator })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(Comparator).map((comparator) => (
+                <SelectItem key={comparator} value={comparator}>
+                  {COMPARATOR_LABELS[comparator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <OperandEditor
+            operand={condition.right}
+            parameters={parameters}
+            onChange={(right) => onChange({ ...condition, right })}
+          />
+        </div>
+        <Button variant="ghost" size="icon" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  const updateChild = (index: number, child: RuleCondition) =>
+    onChange({ ...condition, conditions: condition.conditions.map((c, i) => (i === index ? child : c)) })
+  const removeChild = (index: number) =>
+    onChange({ ...condition, conditions: condition.conditions.filter((_, i) => i !== index) })
+  const addChild = (child: RuleCondition) =>
+    onChange({ ...condition, conditions: [...condition.conditions, child] })
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={condition.logic}
+          onValueChange={(logic) => onChange({ ...condition, logic: logic as LogicOperator })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LogicOperator.AND}>全部成立（AND）</SelectItem>
+            <SelectItem value={LogicOperator.OR}>任一成立（OR）</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex-grow" />
+        <Button variant="ghost" size="icon" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {condition.conditions.map((child, i) => (
+        <ConditionEditor
+          key={i}
+          condition={child}
+          parameters={parameters}
+          onChange={(updated) => updateChild(i, updated)}
+          onRemove={() => removeChild(i)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => addChild(newComparison())}>
+          <Plus className="mr-1 h-4 w-4" />
+          條件
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => addChild(newGroup())}>
+          <Plus className="mr-1 h-4 w-4" />
+          條件群組
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function StrategyBuilderPage() {
+  const router = useRouter()
+  const [definition, setDefinition] = useState<RuleStrategyDefinition>(newDefinition)
+  const [errors, setErrors] = useState<string[]>([])
+
+  // 以網址的 id 參數編輯已儲存的規則策略
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id')
+    const saved = loadRuleStrategies().find((rule) => rule.id === id)
+    if (saved) {
+      setDefinition(saved)
+    }
+  }, [])
+
+  const update = (changes: Partial<RuleStrategyDefinition>) =>
+    setDefinition((prev) => ({ ...prev, ...changes }))
+
+  const updateParameter = (index: number, changes: Partial<RuleParameter>) =>
+    update({
+      parameters: definition.parameters.map((param, i) => (i === index ? { ...param, ...changes } : param)),
+    })
+
+  const handleSave = () => {
+    const validationErrors = validateRuleStrategy(definition)
+    setErrors(validationErrors)
+    if (validationErrors.length > 0) {
+      return
+    }
+
+    saveRuleStrategy(definition)
+    StrategyRegistry.getInstance().registerUserStrategy(new RuleStrategy(definition))
+    router.push('/strategies')
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col p-8">
+      <div className="flex items-center mb-8">
+        <Link href="/strategies">
+          <Button variant="ghost" size="icon" className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">規則策略建構器</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">策略資訊</h2>
+            <div>
+              <Label htmlFor="name">策略名稱</Label>
+              <Input id="name" value={definition.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="description">策略說明</Label>
+              <Textarea
+                id="description"
+                value={definition.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </div>
+          </Card>
+
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">策略參數</h2>
+            <p className="text-sm text-muted-foreground">
+              條件中的數值與指標週期可參照參數，回測時可調整參數值，參數優化時依最小值、最大值與間距搜尋。
+            </p>
+            {definition.parameters.map((param, i) => (
+              <div key={i} className="space-y-2 rounded-md border p-3">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="參數代碼"
+                    value={param.id}
+                    onChange={(e) => updateParameter(i, { id: e.target.value })}
+                  />
+                  <Input
+                    placeholder="顯示名稱"
+                    value={param.name}
+                    onChange={(e) => updateParameter(i, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ parameters: definition.parameters.filter((_, j) => j !== i) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['default', '預設值'],
+                    ['min', '最小值'],
+                    ['max', '最大值'],
+                    ['step', '間距'],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <Label className="text-xs text-muted-foreground">{label}</Label>
+                      <Input
+                        type="number"
+                        value={param[field] ?? ''}
+                        onChange={(e) =>
+                          updateParameter(i, {
+                            [field]: field === 'default' ? parseFloat(e.target.value) || 0 : parseOptional(e.target.value),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() =>
+                update({
+                  parameters: [
+                    ...definition.parameters,
+                    { id: `param${definition.parameters.length + 1}`, name: '', default: 0 },
+                  ],
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              新增參數
+            </Button>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-6">
+            <Tabs defaultValue="longEntry">
+              <TabsList className="mb-4">
+                {SIDES.map((side) => (
+                  <TabsTrigger key={side.id} value={side.id}>
+                    {side.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {SIDES.map((side) => {
+                const condition = definition[side.id]
+
+                return (
+                  <TabsContent key={side.id} value={side.id} className="space-y-4">
+                    {condition ? (
+                      <ConditionEditor
+                        condition={condition}
+                        parameters={definition.parameters}
+                        onChange={(updated) => update({ [side.id]: updated })}
+                        onRemove={() => update({ [side.id]: undefined })}
+                      />
+                    ) : (
+                      <div className="h-32 flex flex-col items-center justify-center gap-2">
+                        <p className="text-muted-foreground">尚未設定{side.label}條件</p>
+                        <Button variant="outline" onClick={() => update({ [side.id]: newGroup() })}>
+                          <Plus className="mr-2 h-4 w-4" />
+                          新增條件
+                        </Button>
+                      </div>
+                    )}
+                  </TabsContent>
+                )
+              })}
+            </Tabs>
+          </Card>
+
+          {errors.length > 0 && (
+            <Card className="p-4 border-destructive">
+              <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          <Button className="w-full" onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            儲存策略
+          </Button>
+        </div>
+      </div>
+    </main>
+  )
+}
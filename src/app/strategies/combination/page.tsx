@@ -0,0 +1,276 @@
+'use client'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { StrategyRegistry } from '@/lib/strategies/registry'
+import { EventStrategy } from '@/lib/strategies/base'
+import {
+  CombinationDefinition,
+  CombinationMember,
+  MarketRegime,
+  StrategyCombination,
+  validateCombination,
+  VotingRule,
+  WeightingMode,
+} from '@/lib/strategies/strategyCombination'
+import { createRuleStrategyId, loadStrategyCombinations, saveStrategyCombination } from '@/lib/strategies/ruleStorage'
+
+const VOTING_LABELS: Record<VotingRule, { label: string; description: string }> = {
+  [VotingRule.MAJORITY]: { label: '多數決', description: '超過半數成員同向時進場' },
+  [VotingRule.WEIGHTED]: { label: '加權', description: '做多權重與做空權重較多的一方' },
+  [VotingRule.UNANIMOUS]: { label: '全體一致', description: '所有成員同向時才進場' },
+  [VotingRule.ANY]: { label: '任一', description: '任一成員發出信號且無成員反向時進場' },
+  [VotingRule.THRESHOLD]: { label: '門檻', description: '加權淨分數超過門檻時進場，門檻可於回測時調整' },
+}
+
+const WEIGHTING_LABELS: Record<WeightingMode, { label: string; description: string }> = {
+  [WeightingMode.STATIC]: { label: '固定權重', description: '依成員設定的權重投票' },
+  [WeightingMode.REGIME]: {
+    label: '依市場環境調整',
+    description: '定期依趨勢強度加重趨勢型成員、依波動率加重均值回歸型成員',
+  },
+}
+
+const REGIME_LABELS: Record<MarketRegime, string> = {
+  [MarketRegime.TREND]: '趨勢型',
+  [MarketRegime.MEAN_REVERSION]: '均值回歸型',
+  [MarketRegime.NEUTRAL]: '不調整',
+}
+
+// 新的策略組合
+const newDefinition = (): CombinationDefinition => ({
+  id: createRuleStrategyId('combination'),
+  name: '',
+  description: '',
+  members: [],
+  voting: VotingRule.MAJORITY,
+  weighting: WeightingMode.STATIC,
+})
+
+export default function CombinationBuilderPage() {
+  const router = useRouter()
+  const [definition, setDefinition] = useState<CombinationDefinition>(newDefinition)
+  const [candidates, setCandidates] = useState<EventStrategy[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+
+  // 載入可作為成員的策略（策略組合不能再作為成員），並以網址的 id 參數編輯已儲存的組合
+  useEffect(() => {
+    setCandidates(
+      StrategyRegistry.getInstance()
+        .getAllStrategies()
+        .filter((strategy) => !(strategy instanceof StrategyCombination))
+    )
+
+    const id = new URLSearchParams(window.location.search).get('id')
+    const saved = loadStrategyCombinations().find((combination) => combination.id === id)
+    if (saved) {
+      setDefinition(saved)
+    }
+  }, [])
+
+  const update = (changes: Partial<CombinationDefinition>) =>
+    setDefinition((prev) => ({ ...prev, ...changes }))
+
+  const updateMember = (index: number, changes: Partial<CombinationMember>) =>
+    update({
+      members: definition.members.map((member, i) => (i === index ? { ...member, ...changes } : member)),
+    })
+
+  const handleSave = () => {
+    const validationErrors = validateCombination(definition)
+    setErrors(validationErrors)
+    if (validationErrors.length > 0) {
+      return
+    }
+
+    const registry = StrategyRegistry.getInstance()
+    try {
+      registry.registerUserStrategy(registry.createCombination(definition))
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : String(error)])
+      return
+    }
+    saveStrategyCombination(definition)
+    router.push('/strategies')
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col p-8">
+      <div className="flex items-center mb-8">
+        <Link href="/strategies">
+          <Button variant="ghost" size="icon" className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">策略組合</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">組合資訊</h2>
+            <div>
+              <Label htmlFor="name">組合名稱</Label>
+              <Input id="name" value={definition.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="description">組合說明</Label>
+              <Textarea
+                id="description"
+                value={definition.description}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </div>
+          </Card>
+
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">投票方式</h2>
+            <div>
+              <Label>投票規則</Label>
+              <Select value={definition.voting} onValueChange={(value) => update({ voting: value as VotingRule })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(VotingRule).map((rule) => (
+                    <SelectItem key={rule} value={rule}>
+                      {VOTING_LABELS[rule].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">{VOTING_LABELS[definition.voting].description}</p>
+            </div>
+            <div>
+              <Label>權重模式</Label>
+              <Select
+                value={definition.weighting}
+                onValueChange={(value) => update({ weighting: value as WeightingMode })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(WeightingMode).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {WEIGHTING_LABELS[mode].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">{WEIGHTING_LABELS[definition.weighting].description}</p>
+            </div>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">成員策略</h2>
+            <p className="text-sm text-muted-foreground">
+              每個成員策略以自己的參數產生信號，參數於回測設置頁面分別調整。權重僅影響加權與門檻投票。
+            </p>
+            {definition.members.map((member, i) => (
+              <div key={i} className="grid grid-cols-1 md:grid-cols-[1fr_120px_160px_auto] gap-2 items-end">
+                <div>
+                  <Label className="text-xs text-muted-foreground">策略</Label>
+                  <Select value={member.strategyId} onValueChange={(value) => updateMember(i, { strategyId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {candidates.map((strategy) => (
+                        <SelectItem key={strategy.id} value={strategy.id}>
+                          {strategy.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">權重</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={member.weight}
+                    onChange={(e) => updateMember(i, { weight: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">市場環境</Label>
+                  <Select
+                    value={member.regime}
+                    onValueChange={(value) => updateMember(i, { regime: value as MarketRegime })}
+                    disabled={definition.weighting !== WeightingMode.REGIME}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(MarketRegime).map((regime) => (
+                        <SelectItem key={regime} value={regime}>
+                          {REGIME_LABELS[regime]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => update({ members: definition.members.filter((_, j) => j !== i) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={candidates.length === 0}
+              onClick={() =>
+                update({
+                  members: [
+                    ...definition.members,
+                    { strategyId: candidates[0].id, weight: 1, regime: MarketRegime.NEUTRAL },
+                  ],
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              新增成員
+            </Button>
+          </Card>
+
+          {errors.length > 0 && (
+            <Card className="p-4 border-destructive">
+              <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          <Button className="w-full" onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            儲存組合
+          </Button>
+        </div>
+      </div>
+    </main>
+  )
+}
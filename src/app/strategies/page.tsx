@@ -1,17 +1,58 @@
 'use client'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { ArrowLeft, Info } from 'lucide-react'
+import { ArrowLeft, Code, Info, Layers, Pencil, Plus, Trash2 } from 'lucide-react'
 import Link from 'next/link'
 import { StrategyRegistry } from '@/lib/strategies/registry'
+import { EventStrategy } from '@/lib/strategies/base'
+import { RuleStrategy } from '@/lib/strategies/ruleStrategy'
+import { ScriptStrategy } from '@/lib/strategies/scriptStrategy'
+import { StrategyCombination } from '@/lib/strategies/strategyCombination'
+import { deleteRuleStrategy, deleteScriptStrategy, deleteStrategyCombination } from '@/lib/strategies/ruleStorage'
+
+/**
+ * 獲取使用者自訂策略的編輯頁面，內建策略返回 undefined
+ * @param strategy 策略
+ */
+function getEditorPath(strategy: EventStrategy): string | undefined {
+  if (!StrategyRegistry.getInstance().isUserDefined(strategy.id)) {
+    return undefined
+  }
+  if (strategy instanceof RuleStrategy) {
+    return `/strategies/builder?id=${strategy.id}`
+  }
+  if (strategy instanceof ScriptStrategy) {
+    return `/strategies/script?id=${strategy.id}`
+  }
+  if (strategy instanceof StrategyCombination) {
+    return `/strategies/combination?id=${strategy.id}`
+  }
+  return undefined
+}
 
 export default function StrategiesPage() {
-  const [strategies, setStrategies] = useState(() => {
+  const [strategies, setStrategies] = useState<EventStrategy[]>([])
+
+  // 載入策略列表（包含瀏覽器中儲存的規則策略）
+  useEffect(() => {
+    setStrategies(StrategyRegistry.getInstance().getAllStrategies())
+  }, [])
+
+  // 刪除規則策略、腳本策略或策略組合
+  const handleDelete = (strategy: EventStrategy) => {
     const registry = StrategyRegistry.getInstance()
-    return registry.getAllStrategies()
-  })
+    if (strategy instanceof RuleStrategy) {
+      deleteRuleStrategy(strategy.id)
+    } else if (strategy instanceof ScriptStrategy) {
+      deleteScriptStrategy(strategy.id)
+    } else {
+      deleteStrategyCombination(strategy.id)
+    }
+    registry.unregisterStrategy(strategy.id)
+    setStrategies(registry.getAllStrategies())
+  }
 
   return (
     <main className="flex min-h-screen flex-col p-8">
@@ -22,26 +63,62 @@ export default function StrategiesPage() {
           </Button>
         </Link>
         <h1 className="text-3xl font-bold">交易策略</h1>
+        <div className="flex-grow" />
+        <Link href="/strategies/script" className="mr-2">
+          <Button variant="outline">
+            <Code className="mr-2 h-4 w-4" />
+            撰寫策略腳本
+          </Button>
+        </Link>
+        <Link href="/strategies/combination" className="mr-2">
+          <Button variant="outline">
+            <Layers className="mr-2 h-4 w-4" />
+            建立策略組合
+          </Button>
+        </Link>
+        <Link href="/strategies/builder">
+          <Button>
+            <Plus className="mr-2 h-4 w-4" />
+            建立規則策略
+          </Button>
+        </Link>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-        {strategies.map((strategy) => (
-          <Card key={strategy.id} className="p-6 flex flex-col">
-            <h2 className="text-xl font-semibold mb-2">{strategy.name}</h2>
-            <p className="text-muted-foreground mb-4 flex-grow">{strategy.description}</p>
-            <div className="mb-4">
-              <h3 className="text-sm font-medium mb-2">參數設置:</h3>
-              <ul className="text-sm text-muted-foreground">
-                {strategy.getParameters().map((param, index) => (
-                  <li key={index}>• {param.name}: 預設值 {param.default}</li>
-                ))}
-              </ul>
-            </div>
-            <Link href={`/backtest?strategy=${strategy.id}`}>
-              <Button className="w-full">使用此策略</Button>
-            </Link>
-          </Card>
-        ))}
+        {strategies.map((strategy) => {
+          const editorPath = getEditorPath(strategy)
+          return (
+            <Card key={strategy.id} className="p-6 flex flex-col">
+              <h2 className="text-xl font-semibold mb-2">{strategy.name}</h2>
+              <p className="text-muted-foreground mb-4 flex-grow">{strategy.description}</p>
+              <div className="mb-4">
+                <h3 className="text-sm font-medium mb-2">參數設置:</h3>
+                <ul className="text-sm text-muted-foreground">
+                  {strategy.getParameters().map((param, index) => (
+                    <li key={index}>• {param.name}: 預設值 {param.default}</li>
+                  ))}
+                </ul>
+              </div>
+              <div className="flex gap-2">
+                <Link href={`/backtest?strategy=${strategy.id}`} className="flex-grow">
+                  <Button className="w-full">使用此策略</Button>
+                </Link>
+                {editorPath && (
+                  <>
+                    <Link href={editorPath}>
+                      <Button variant="outline" size="icon">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </Link>
+                    <Button variant="outline" size="icon" onClick={() => handleDelete(strategy)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </Card>
+          )
+        })}
       </div>
 
       <Card className="p-6">
@@ -90,21 +167,27 @@ export default function StrategiesPage() {
           <TabsContent value="custom">
             <div className="space-y-4">
               <p>
-                我們的系統即將推出自定義策略功能，讓您能夠創建和測試自己的交易邏輯。
-                您將能夠使用各種技術指標和條件組合來構建獨特的策略。
+                透過「建立規則策略」，您可以不寫程式碼，以技術指標與條件組合出自己的交易邏輯。
+                儲存後的規則策略會保存在瀏覽器中，並與內建策略一起出現在策略列表與回測設置頁面。
               </p>
               <p>
-                自定義策略功能將支持以下功能：
+                規則策略支援以下功能：
               </p>
               <ul className="list-disc pl-5 space-y-1">
-                <li>多種技術指標（MA、RSI、MACD、布林帶等）</li>
-                <li>自定義入場和出場條件</li>
-                <li>複合條件邏輯（AND、OR、NOT）</li>
-                <li>參數優化功能</li>
-                <li>策略回測和性能分析</li>
+                <li>多種技術指標（均線、RSI、MACD、布林帶、KD、DMI 等）與價格欄位</li>
+                <li>大於、小於、向上穿越、向下穿越等比較條件</li>
+                <li>以 AND、OR 組合的巢狀條件群組</li>
+                <li>多方與空方各自的進場、出場條件</li>
+                <li>可於條件中參照的自訂參數，回測時調整並支援參數優化</li>
               </ul>
-              <p className="text-muted-foreground italic">
-                敬請期待此功能的推出！
+              <p>
+                熟悉程式的使用者也可以透過「撰寫策略腳本」，以簡潔的語法描述進出場條件，例如
+                <code className="mx-1">long when crossover(ema(close, $fast:int[2..50]=5), ema(close, 20)) and adx(14) &gt; 25</code>，
+                腳本中宣告的參數同樣可於回測時調整與優化。
+              </p>
+              <p>
+                「建立策略組合」可以挑選多個策略組成投票委員會，選擇多數決、加權、全體一致、任一或門檻等投票規則，
+                並以固定權重或依市場環境調整權重。每個成員策略保有自己的參數，於回測設置頁面分別調整。
               </p>
             </div>
           </TabsContent>
@@ -0,0 +1,182 @@
+'use client'
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ArrowLeft, Save } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { StrategyRegistry } from '@/lib/strategies/registry'
+import { ScriptStrategy, ScriptStrategyDefinition } from '@/lib/strategies/scriptStrategy'
+import { createRuleStrategyId, loadScriptStrategies, saveScriptStrategy } from '@/lib/strategies/ruleStorage'
+import { ScriptError } from '@/lib/script/ast'
+import { compileScript } from '@/lib/script/compiler'
+import { SCRIPT_FUNCTIONS } from '@/lib/script/functions'
+
+// 新腳本的範例
+const EXAMPLE_SOURCE = `# 均線交叉並以 ADX 過濾盤整
+let fast = ema(close, $fast:int[2..50]=5)
+let slow = ema(close, $slow:int[5..200]=20)
+let trending = adx(14) > $adx:int[10..50 step 5]=25
+
+long when crossover(fast, slow) and trending
+short when crossunder(fast, slow) and trending
+exit long when close < lowest(low, 10)[1]
+exit short when close > highest(high, 10)[1]
+`
+
+export default function ScriptEditorPage() {
+  const router = useRouter()
+  const [definition, setDefinition] = useState<ScriptStrategyDefinition>(() => ({
+    id: createRuleStrategyId('script'),
+    name: '',
+    description: '',
+    source: EXAMPLE_SOURCE,
+  }))
+
+  // 以網址的 id 參數編輯已儲存的腳本策略
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id')
+    const saved = loadScriptStrategies().find((script) => script.id === id)
+    if (saved) {
+      setDefinition(saved)
+    }
+  }, [])
+
+  // 即時編譯腳本，顯示錯誤或偵測到的參數
+  const compiled = useMemo(() => {
+    try {
+      return { script: compileScript(definition.source) }
+    } catch (error) {
+      if (error instanceof ScriptError) {
+        return { error }
+      }
+      throw error
+    }
+  }, [definition.source])
+
+  const update = (changes: Partial<ScriptStrategyDefinition>) =>
+    setDefinition((prev) => ({ ...prev, ...changes }))
+
+  const handleSave = () => {
+    saveScriptStrategy(definition)
+    StrategyRegistry.getInstance().registerUserStrategy(new ScriptStrategy(definition))
+    router.push('/strategies')
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col p-8">
+      <div className="flex items-center mb-8">
+        <Link href="/strategies">
+          <Button variant="ghost" size="icon" className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">策略腳本</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">策略名稱</Label>
+                <Input id="name" value={definition.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="description">策略說明</Label>
+                <Input
+                  id="description"
+                  value={definition.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="source">腳本</Label>
+              <Textarea
+                id="source"
+                className="font-mono min-h-[320px]"
+                spellCheck={false}
+                value={definition.source}
+                onChange={(e) => update({ source: e.target.value })}
+              />
+            </div>
+
+            {compiled.error ? (
+              <div className="rounded-md border border-destructive p-3 text-sm text-destructive space-y-2">
+                <p>{compiled.error.message}</p>
+                <pre className="font-mono overflow-x-auto">{compiled.error.excerpt(definition.source)}</pre>
+              </div>
+            ) : (
+              <div className="rounded-md border p-3 text-sm">
+                <p className="font-medium mb-1">腳本有效，偵測到的參數：</p>
+                {compiled.script!.parameters.length > 0 ? (
+                  <ul className="text-muted-foreground">
+                    {compiled.script!.parameters.map((param) => (
+                      <li key={param.id}>
+                        • ${param.id}：預設值 {param.default}
+                        {param.min !== undefined && param.max !== undefined && `，範圍 ${param.min}–${param.max}`}
+                        {param.step !== undefined && `，間距 ${param.step}`}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">無</p>
+                )}
+              </div>
+            )}
+
+            <Button className="w-full" onClick={handleSave} disabled={!!compiled.error || !definition.name.trim()}>
+              <Save className="mr-2 h-4 w-4" />
+              儲存策略
+            </Button>
+          </Card>
+        </div>
+
+        <Card className="p-6 space-y-4 text-sm">
+          <h2 className="text-xl font-semibold">語法說明</h2>
+          <div className="space-y-1">
+            <p className="font-medium">敘述（每行一條）</p>
+            <ul className="font-mono text-muted-foreground space-y-1">
+              <li>long when 條件</li>
+              <li>short when 條件</li>
+              <li>exit long when 條件</li>
+              <li>exit short when 條件</li>
+              <li>let 名稱 = 運算式</li>
+            </ul>
+            <p className="text-muted-foreground"># 之後為註解；同一方向有多條敘述時任一成立即成立。</p>
+          </div>
+          <div className="space-y-1">
+            <p className="font-medium">參數</p>
+            <p className="text-muted-foreground">
+              <code>$fast:int[2..50]=5</code> 宣告整數參數（範圍 2–50、預設 5），
+              <code>$k:float[1..3 step 0.5]=2</code> 宣告小數參數，其他位置直接寫 <code>$fast</code>。
+              參數會出現在回測設置頁面並可供參數優化。
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="font-medium">運算</p>
+            <p className="text-muted-foreground">
+              價格 <code>open high low close volume</code>；算術 <code>+ - * /</code>；
+              比較 <code>&gt; &gt;= &lt; &lt;= == !=</code>；邏輯 <code>and or not</code>；
+              <code>close[1]</code> 為前一根K棒的值。
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="font-medium">函數</p>
+            <ul className="text-muted-foreground space-y-1">
+              {Object.entries(SCRIPT_FUNCTIONS).map(([name, fn]) => (
+                <li key={name}>
+                  <code>{name}({fn.args.map((arg) => arg.name).join(', ')})</code> {fn.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { Chart, registerables } from 'chart.js';
 import { BacktestResult } from '@/lib/backtest/types';
+import { WalkForwardResult } from '@/lib/backtest/walkForward';
 
 // 註冊所有Chart.js組件
 Chart.register(...registerables);
@@ -29,8 +30,8 @@ export function EquityCurveChart({ result }: EquityCurveChartProps) {
     const equityData = result.equity.map(point => point.equity);
     
     // 找出最大值和最小值，用於設置y軸範圍
-    const minEquity = Math.min(...equityData);
-    const maxEquity = Math.max(...equityData);
+    const minEquity = equityData.reduce((min, value) => Math.min(min, value), Infinity);
+    const maxEquity = equityData.reduce((max, value) => Math.max(max, value), -Infinity);
     const padding = (maxEquity - minEquity) * 0.1;
 
     // 創建圖表
@@ -140,7 +141,7 @@ export function DrawdownChart({ result }: DrawdownChartProps) {
     const drawdownData = result.drawdowns.map(point => -point.drawdownPct); // 負值，表示回撤
     
     // 找出最小值，用於設置y軸範圍
-    const minDrawdown = Math.min(...drawdownData);
+    const minDrawdown = drawdownData.reduce((min, value) => Math.min(min, value), Infinity);
     const padding = Math.abs(minDrawdown) * 0.1;
 
     // 創建圖表
@@ -226,6 +227,141 @@ export function DrawdownChart({ result }: DrawdownChartProps) {
   );
 }
 
+interface MarginChartProps {
+  result: BacktestResult;
+}
+
+export function MarginChart({ result }: MarginChartProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || !result) return;
+
+    // 如果已經有圖表實例，先銷毀
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    // 準備數據（權益為負時使用率為 NaN，圖表不繪製該點）
+    const labels = result.equity.map(point =>
+      new Date(point.timestamp * 1000).toLocaleDateString()
+    );
+
+    const availableMarginData = result.equity.map(point => point.availableMargin ?? null);
+    const utilizationData = result.equity.map(point =>
+      point.marginUtilization !== undefined && !isNaN(point.marginUtilization) ? point.marginUtilization : null
+    );
+
+    // 創建圖表
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: [
+          {
+            label: '可用保證金',
+            data: availableMarginData,
+            borderColor: 'rgb(59, 130, 246)',
+            backgroundColor: 'rgba(59, 130, 246, 0.1)',
+            borderWidth: 2,
+            fill: true,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y',
+          },
+          {
+            label: '保證金使用率',
+            data: utilizationData,
+            borderColor: 'rgb(245, 158, 11)',
+            borderWidth: 2,
+            fill: false,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+            yAxisID: 'y1',
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          tooltip: {
+            mode: 'index',
+            intersect: false,
+            callbacks: {
+              label: function(context) {
+                const value = context.parsed.y ?? 0;
+                return context.dataset.yAxisID === 'y1'
+                  ? `保證金使用率: ${value.toFixed(2)}%`
+                  : `可用保證金: ${value.toLocaleString()}`;
+              }
+            }
+          },
+          legend: {
+            display: true,
+            position: 'top',
+          },
+        },
+        scales: {
+          x: {
+            grid: {
+              display: false
+            },
+            ticks: {
+              maxTicksLimit: 10,
+              maxRotation: 0,
+            }
+          },
+          y: {
+            position: 'left',
+            ticks: {
+              callback: function(value) {
+                return value.toLocaleString();
+              }
+            }
+          },
+          y1: {
+            position: 'right',
+            min: 0,
+            grid: {
+              drawOnChartArea: false
+            },
+            ticks: {
+              callback: function(value) {
+                return `${Number(value).toFixed(0)}%`;
+              }
+            }
+          }
+        },
+        interaction: {
+          mode: 'nearest',
+          axis: 'x',
+          intersect: false
+        }
+      }
+    });
+
+    // 清理函數
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy();
+      }
+    };
+  }, [result]);
+
+  return (
+    <div className="w-full h-64">
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+}
+
 interface TradeDistributionChartProps {
   result: BacktestResult;
 }
@@ -421,3 +557,115 @@ export function ProfitDistributionChart({ result }: ProfitDistributionChartProps
     </div>
   );
 }
+
+interface WalkForwardEquityChartProps {
+  result: WalkForwardResult;
+}
+
+export function WalkForwardEquityChart({ result }: WalkForwardEquityChartProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || !result) return;
+
+    // 如果已經有圖表實例，先銷毀
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    // 準備數據，另以各視窗的樣本外開始日期標示視窗分界
+    const labels = result.equity.map(point =>
+      new Date(point.timestamp * 1000).toLocaleDateString()
+    );
+    const equityData = result.equity.map(point => point.equity);
+    const windowStarts = new Set(result.windows.map(window => new Date(window.outOfSampleStart).toLocaleDateString()));
+    const boundaryData = labels.map((label, i) => (windowStarts.has(label) ? equityData[i] : null));
+
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: [
+          {
+            label: '樣本外權益曲線',
+            data: equityData,
+            borderColor: 'rgb(59, 130, 246)',
+            backgroundColor: 'rgba(59, 130, 246, 0.1)',
+            borderWidth: 2,
+            fill: true,
+            tension: 0.1,
+            pointRadius: 0,
+            pointHoverRadius: 4,
+          },
+          {
+            label: '視窗開始',
+            data: boundaryData,
+            borderColor: 'rgb(234, 88, 12)',
+            backgroundColor: 'rgb(234, 88, 12)',
+            showLine: false,
+            pointRadius: 4,
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          tooltip: {
+            mode: 'index',
+            intersect: false,
+            callbacks: {
+              label: function(context) {
+                return `${context.dataset.label}: ${(context.parsed.y ?? 0).toLocaleString()} 元`;
+              }
+            }
+          },
+          legend: {
+            display: true,
+            position: 'top',
+          },
+        },
+        scales: {
+          x: {
+            grid: {
+              display: false
+            },
+            ticks: {
+              maxTicksLimit: 10,
+              maxRotation: 0,
+            }
+          },
+          y: {
+            ticks: {
+              callback: function(value) {
+                return value.toLocaleString();
+              }
+            }
+          }
+        },
+        interaction: {
+          mode: 'nearest',
+          axis: 'x',
+          intersect: false
+        }
+      }
+    });
+
+    // 清理函數
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy();
+      }
+    };
+  }, [result]);
+
+  return (
+    <div className="w-full h-64">
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useEffect, useRef, useState } from 'react';
+import { Chart, registerables } from 'chart.js';
+import { Slider } from '@/components/ui/slider';
+import { TrialMetric } from '@/lib/optimization/objective';
+import { Heatmap, SensitivityLine } from '@/lib/optimization/sensitivity';
+import { TrialRecord } from '@/lib/optimization/study';
+
+// 註冊所有Chart.js組件
+Chart.register(...registerables);
+
+// 立體曲面的俯視角度
+const SURFACE_ELEVATION = Math.PI / 6;
+
+/**
+ * 獲取熱度圖中有數值格的最小值與最大值
+ * @param heatmap 熱度圖
+ */
+function getValueRange(heatmap: Heatmap): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  heatmap.values.forEach(row => row.forEach(value => {
+    if (value !== null) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }));
+  return { min, max };
+}
+
+/**
+ * 依數值在範圍中的位置獲取顏色，由低至高為紅、黃、綠
+ * @param value 數值
+ * @param min 最小值
+ * @param max 最大值
+ */
+function getHeatColor(value: number, min: number, max: number): string {
+  const ratio = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(ratio * 120)}, 70%, 50%)`;
+}
+
+interface ParameterHeatmapProps {
+  heatmap: Heatmap;
+  xName: string;
+  yName: string;
+  format: (value: number) => string;
+  marker?: [number, number];          // 標示的格（橫軸、縱軸索引），例如推薦參數
+}
+
+export function ParameterHeatmap({ heatmap, xName, yName, format, marker }: ParameterHeatmapProps) {
+  const { min, max } = getValueRange(heatmap);
+  // 縱軸由上而下為由大至小
+  const rows = heatmap.y.labels.map((label, j) => ({ label, j })).reverse();
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex items-stretch gap-2">
+        <div className="flex items-center">
+          <span className="text-xs text-muted-foreground [writing-mode:vertical-rl] rotate-180">{yName}</span>
+        </div>
+        <table className="text-xs border-separate border-spacing-px">
+          <tbody>
+            {rows.map(({ label, j }) => (
+              <tr key={j}>
+                <td className="pr-2 text-right text-muted-foreground whitespace-nowrap">{label}</td>
+                {heatmap.x.labels.map((xLabel, i) => {
+                  const value = heatmap.values[j][i];
+                  const isMarked = marker?.[0] === i && marker?.[1] === j;
+                  return (
+                    <td
+                      key={i}
+                      title={`${xName} ${xLabel}，${yName} ${label}：${value === null ? '無評估' : format(value)}`}
+                      className={`h-6 min-w-6 ${isMarked ? 'outline outline-2 outline-foreground' : ''}`}
+                      style={{ backgroundColor: value === null ? 'transparent' : getHeatColor(value, min, max) }}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td />
+              {heatmap.x.labels.map((label, i) => (
+                <td key={i} className="pt-1 text-center text-muted-foreground whitespace-nowrap">
+                  {label}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+        <span>{xName}</span>
+        {Number.isFinite(min) && (
+          <span className="flex items-center gap-2">
+            {format(min)}
+            <span className="inline-block h-2 w-24 rounded" style={{ background: 'linear-gradient(to right, hsl(0, 70%, 50%), hsl(60, 70%, 50%), hsl(120, 70%, 50%))' }} />
+            {format(max)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ParameterSurfaceProps {
+  heatmap: Heatmap;
+  xName: string;
+  yName: string;
+  format: (value: number) => string;
+}
+
+export function ParameterSurface({ heatmap, xName, yName, format }: ParameterSurfaceProps) {
+  const [azimuth, setAzimuth] = useState(35);
+  const { min, max } = getValueRange(heatmap);
+  const nx = heatmap.x.labels.length;
+  const ny = heatmap.y.labels.length;
+  const angle = (azimuth * Math.PI) / 180;
+
+  // 將格點投影到畫面：先繞垂直軸旋轉，再以固定角度俯視；depth 越大越靠近觀看者
+  const project = (i: number, j: number, value: number) => {
+    const x = i / Math.max(1, nx - 1) - 0.5;
+    const y = j / Math.max(1, ny - 1) - 0.5;
+    const z = max > min ? ((value - min) / (max - min)) * 0.5 : 0.25;
+    const rx = x * Math.cos(angle) - y * Math.sin(angle);
+    const ry = x * Math.sin(angle) + y * Math.cos(angle);
+    return {
+      sx: 200 + rx * 220,
+      sy: 190 - ry * 220 * Math.sin(SURFACE_ELEVATION) - z * 220 * Math.cos(SURFACE_ELEVATION),
+      depth: -ry,
+    };
+  };
+
+  // 四個角皆有數值的格才繪製，由遠而近依序繪製使近處遮住遠處
+  const quads: { points: string; depth: number; value: number; title: string }[] = [];
+  for (let j = 0; j < ny - 1; j++) {
+    for (let i = 0; i < nx - 1; i++) {
+      const corners: [number, number][] = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]];
+      const values = corners.map(([a, b]) => heatmap.values[b][a]);
+      if (values.some(value => value === null)) continue;
+
+      const heights = values as number[];
+      const projected = corners.map(([a, b], k) => project(a, b, heights[k]));
+      const value = heights.reduce((sum, v) => sum + v, 0) / heights.length;
+      quads.push({
+        points: projected.map(p => `${p.sx.toFixed(1)},${p.sy.toFixed(1)}`).join(' '),
+        depth: projected.reduce((sum, p) => sum + p.depth, 0) / projected.length,
+        value,
+        title: `${xName} ${heatmap.x.labels[i]}–${heatmap.x.labels[i + 1]}，${yName} ${heatmap.y.labels[j]}–${heatmap.y.labels[j + 1]}：${format(value)}`,
+      });
+    }
+  }
+  quads.sort((a, b) => a.depth - b.depth);
+
+  const base = [project(0, 0, min), project(nx - 1, 0, min), project(nx - 1, ny - 1, min), project(0, ny - 1, min)];
+
+  return (
+    <div className="space-y-2">
+      {quads.length === 0 ? (
+        <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">
+          相鄰格皆有評估時才能繪製曲面，請改用邊際模式或增加評估次數
+        </div>
+      ) : (
+        <svg viewBox="0 0 400 300" className="w-full h-72">
+          <polygon
+            points={base.map(p => `${p.sx.toFixed(1)},${p.sy.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke="currentColor"
+            strokeOpacity={0.2}
+          />
+          {quads.map((quad, k) => (
+            <polygon key={k} points={quad.points} fill={getHeatColor(quad.value, min, max)} stroke="white" strokeWidth={0.3}>
+              <title>{quad.title}</title>
+            </polygon>
+          ))}
+          <text x={(base[0].sx + base[1].sx) / 2} y={(base[0].sy + base[1].sy) / 2 + 14} fontSize={10} textAnchor="middle" className="fill-muted-foreground">
+            {xName}
+          </text>
+          <text x={(base[0].sx + base[3].sx) / 2} y={(base[0].sy + base[3].sy) / 2 + 14} fontSize={10} textAnchor="middle" className="fill-muted-foreground">
+            {yName}
+          </text>
+        </svg>
+      )}
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="whitespace-nowrap">旋轉角度</span>
+        <Slider min={0} max={360} step={5} value={[azimuth]} onValueChange={([value]) => setAzimuth(value)} />
+      </div>
+    </div>
+  );
+}
+
+interface SensitivityChartProps {
+  line: SensitivityLine;
+  name: string;
+  metricLabel: string;
+  marker?: number;                    // 標示的格索引，例如推薦參數
+}
+
+export function SensitivityChart({ line, name, metricLabel, marker }: SensitivityChartProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    // 如果已經有圖表實例，先銷毀
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: line.axis.labels,
+        datasets: [
+          {
+            label: metricLabel,
+            data: line.values,
+            borderColor: 'rgb(59, 130, 246)',
+            backgroundColor: 'rgb(59, 130, 246)',
+            borderWidth: 2,
+            spanGaps: true,
+            tension: 0.1,
+            pointRadius: line.values.map((_, k) => (k === marker ? 5 : 2)),
+            pointBackgroundColor: line.values.map((_, k) => (k === marker ? 'rgb(234, 88, 12)' : 'rgb(59, 130, 246)')),
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: false,
+          },
+          title: {
+            display: true,
+            text: name,
+          },
+          tooltip: {
+            callbacks: {
+              label: function(context) {
+                return `${metricLabel}: ${(context.parsed.y ?? 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+              }
+            }
+          },
+        },
+        scales: {
+          x: {
+            grid: {
+              display: false
+            },
+            ticks: {
+              maxRotation: 0,
+              autoSkip: true,
+            }
+          },
+          y: {
+            ticks: {
+              callback: function(value) {
+                return value.toLocaleString();
+              }
+            }
+          }
+        }
+      }
+    });
+
+    // 清理函數
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy();
+      }
+    };
+  }, [line, name, metricLabel, marker]);
+
+  return (
+    <div className="w-full h-48">
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+}
+
+interface ParetoFrontChartProps {
+  trials: TrialRecord[];              // 所有符合條件的評估
+  front: TrialRecord[];               // 柏拉圖前緣上的評估
+  xMetric: TrialMetric;
+  yMetric: TrialMetric;
+  xLabel: string;
+  yLabel: string;
+  describe: (trial: TrialRecord) => string;   // 滑鼠提示中的參數說明
+  onSelect: (trial: TrialRecord) => void;     // 點擊評估時呼叫
+}
+
+export function ParetoFrontChart({ trials, front, xMetric, yMetric, xLabel, yLabel, describe, onSelect }: ParetoFrontChartProps) {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    // 如果已經有圖表實例，先銷毀
+    if (chartInstance.current) {
+      chartInstance.current.destroy();
+    }
+
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    // 前緣依橫軸排序後連線，其餘評估以灰點顯示
+    const frontSet = new Set(front);
+    const isPlottable = (trial: TrialRecord) =>
+      Number.isFinite(trial.metrics[xMetric]) && Number.isFinite(trial.metrics[yMetric]);
+    const others = trials.filter(trial => !frontSet.has(trial) && isPlottable(trial));
+    const sortedFront = front.filter(isPlottable).sort((a, b) => a.metrics[xMetric] - b.metrics[xMetric]);
+    const sources = [sortedFront, others];
+    const toPoint = (trial: TrialRecord) => ({ x: trial.metrics[xMetric], y: trial.metrics[yMetric] });
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'scatter',
+      data: {
+        datasets: [
+          {
+            label: '柏拉圖前緣',
+            data: sortedFront.map(toPoint),
+            borderColor: 'rgb(59, 130, 246)',
+            backgroundColor: 'rgb(59, 130, 246)',
+            showLine: true,
+            borderWidth: 1,
+            pointRadius: 4,
+            pointHoverRadius: 6,
+          },
+          {
+            label: '其他評估',
+            data: others.map(toPoint),
+            backgroundColor: 'rgba(148, 163, 184, 0.5)',
+            pointRadius: 2,
+            pointHoverRadius: 4,
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        onClick: (_, elements) => {
+          if (elements.length > 0) {
+            onSelect(sources[elements[0].datasetIndex][elements[0].index]);
+          }
+        },
+        onHover: (event, elements) => {
+          const target = event.native?.target as HTMLElement | undefined;
+          if (target) target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+        },
+        plugins: {
+          tooltip: {
+            callbacks: {
+              label: function(context) {
+                const trial = sources[context.datasetIndex][context.dataIndex];
+                const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+                return `${describe(trial)}（${xLabel} ${format(trial.metrics[xMetric])}，${yLabel} ${format(trial.metrics[yMetric])}）`;
+              }
+            }
+          },
+          legend: {
+            display: true,
+            position: 'top',
+          },
+        },
+        scales: {
+          x: {
+            title: {
+              display: true,
+              text: xLabel,
+            }
+          },
+          y: {
+            title: {
+              display: true,
+              text: yLabel,
+            }
+          }
+        }
+      }
+    });
+
+    // 清理函數
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy();
+      }
+    };
+  }, [trials, front, xMetric, yMetric, xLabel, yLabel, describe, onSelect]);
+
+  return (
+    <div className="w-full h-80">
+      <canvas ref={chartRef}></canvas>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ParameterType, StrategyParameter } from '@/lib/strategies/base';
+import { OptimizationObjective } from '@/lib/optimization/objective';
+import { OptimizationMethod } from '@/lib/optimization/optimizers';
+import { createSearchSpace, getSearchSpaceSize, ParameterSet, ParamRange } from '@/lib/optimization/searchSpace';
+
+// 優化目標說明
+export const OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  [OptimizationObjective.NET_PROFIT]: '總淨盈虧',
+  [OptimizationObjective.SHARPE_RATIO]: '夏普比率',
+  [OptimizationObjective.PROFIT_FACTOR]: '盈虧比',
+  [OptimizationObjective.RECOVERY_FACTOR]: '恢復因子',
+};
+
+// 優化方法說明
+export const METHOD_LABELS: Record<OptimizationMethod, string> = {
+  [OptimizationMethod.GRID]: '網格搜索',
+  [OptimizationMethod.RANDOM]: '隨機搜索',
+  [OptimizationMethod.GENETIC]: '遺傳演算法',
+  [OptimizationMethod.BAYESIAN]: '貝氏優化（TPE）',
+};
+
+// 參數搜尋範圍的表單狀態
+export interface RangeInput extends ParamRange {
+  enabled: boolean;
+}
+
+// 預設最多優化的參數數量，避免網格過大
+const DEFAULT_OPTIMIZED_PARAMS = 2;
+
+/**
+ * 依策略參數建立搜尋範圍的表單狀態，預設優化前幾個有範圍的數值參數
+ * @param parameters 策略參數定義
+ */
+export function createRangeInputs(parameters: StrategyParameter[]): Record<string, RangeInput> {
+  const ranges: Record<string, RangeInput> = {};
+  parameters
+    .filter(param => param.type === ParameterType.NUMBER && param.min !== undefined && param.max !== undefined)
+    .forEach((param, i) => {
+      ranges[param.id] = {
+        enabled: i < DEFAULT_OPTIMIZED_PARAMS,
+        min: param.min!,
+        max: param.max!,
+        step: param.step ?? 1,
+      };
+    });
+  return ranges;
+}
+
+/**
+ * 獲取勾選的參數範圍
+ * @param ranges 搜尋範圍的表單狀態
+ */
+export function getEnabledRanges(ranges: Record<string, RangeInput>): Record<string, ParamRange> {
+  return Object.fromEntries(
+    Object.entries(ranges)
+      .filter(([, range]) => range.enabled)
+      .map(([id, { min, max, step }]) => [id, { min, max, step }])
+  );
+}
+
+/**
+ * 計算參數組合數，不含違反參數範圍或參數間限制的組合
+ * @param parameters 策略參數定義
+ * @param ranges 參數範圍
+ * @param baseParams 未優化參數的值
+ */
+export function countCombinations(
+  parameters: StrategyParameter[],
+  ranges: Record<string, ParamRange>,
+  baseParams: ParameterSet
+): number {
+  if (Object.values(ranges).some(({ min, max, step }) => !(step > 0) || max < min)) {
+    return 0;
+  }
+  return getSearchSpaceSize(createSearchSpace(parameters, ranges, baseParams));
+}
+
+interface ParamRangeEditorProps {
+  ranges: Record<string, RangeInput>;
+  paramNames: Record<string, string>;
+  onChange: (id: string, changes: Partial<RangeInput>) => void;
+}
+
+export function ParamRangeEditor({ ranges, paramNames, onChange }: ParamRangeEditorProps) {
+  return (
+    <>
+      {Object.entries(ranges).map(([id, range]) => (
+        <div key={id} className="space-y-1 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`range-${id}`}
+              checked={range.enabled}
+              onCheckedChange={(checked) => onChange(id, { enabled: checked === true })}
+            />
+            <Label htmlFor={`range-${id}`} className="text-sm">
+              {paramNames[id] ?? id}
+            </Label>
+          </div>
+          {range.enabled && (
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['min', '最小值'],
+                ['max', '最大值'],
+                ['step', '間距'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Input
+                    type="number"
+                    value={range[field]}
+                    onChange={(e) => onChange(id, { [field]: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
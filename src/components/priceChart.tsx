@@ -1,11 +1,194 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Chart, registerables } from 'chart.js';
 import { BacktestResult } from '@/lib/backtest/types';
 import { MarketData } from '@/lib/api/yahooFinance';
+import { IndicatorCache } from '@/lib/api/indicatorCache';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 
 // 註冊所有Chart.js組件
 Chart.register(...registerables);
 
+// 可疊加於價格圖的技術指標
+export enum ChartOverlay {
+  SMA = 'sma',                 // 簡單移動平均線
+  EMA = 'ema',                 // 指數移動平均線
+  WMA = 'wma',                 // 加權移動平均線
+  HMA = 'hma',                 // 赫爾移動平均線
+  BOLLINGER = 'bollinger',     // 布林帶
+  KELTNER = 'keltner',         // 肯特納通道
+  DONCHIAN = 'donchian',       // 唐奇安通道
+  ICHIMOKU = 'ichimoku',       // 一目均衡表
+  PARABOLIC_SAR = 'sar',       // 拋物線轉向
+  SUPERTREND = 'supertrend',   // 超級趨勢
+  VWAP = 'vwap',               // 成交量加權平均價
+  RSI = 'rsi',                 // 相對強弱指標
+  KD = 'kd',                   // KD 隨機指標
+  DMI = 'dmi',                 // 趨向指標
+  WILLIAMS_R = 'williams_r',   // 威廉指標
+  CCI = 'cci',                 // 順勢指標
+  OBV = 'obv'                  // 能量潮
+}
+
+// 與策略共用的指標快取
+const ind = () => IndicatorCache.getInstance();
+
+// 指標線
+interface OverlaySeries {
+  label: string;
+  data: number[];
+  color: string;
+}
+
+// 指標設定：名稱、是否與價格共用座標軸，以及以預設參數計算的指標線
+const OVERLAYS: Record<ChartOverlay, {
+  label: string;
+  onPrice: boolean;
+  series: (data: MarketData) => OverlaySeries[];
+}> = {
+  [ChartOverlay.SMA]: {
+    label: 'SMA(20)',
+    onPrice: true,
+    series: data => [{ label: 'SMA(20)', data: ind().sma(data.close, 20), color: 'rgb(59, 130, 246)' }]
+  },
+  [ChartOverlay.EMA]: {
+    label: 'EMA(20)',
+    onPrice: true,
+    series: data => [{ label: 'EMA(20)', data: ind().ema(data.close, 20), color: 'rgb(14, 165, 233)' }]
+  },
+  [ChartOverlay.WMA]: {
+    label: 'WMA(20)',
+    onPrice: true,
+    series: data => [{ label: 'WMA(20)', data: ind().wma(data.close, 20), color: 'rgb(99, 102, 241)' }]
+  },
+  [ChartOverlay.HMA]: {
+    label: 'HMA(20)',
+    onPrice: true,
+    series: data => [{ label: 'HMA(20)', data: ind().hma(data.close, 20), color: 'rgb(168, 85, 247)' }]
+  },
+  [ChartOverlay.BOLLINGER]: {
+    label: '布林帶',
+    onPrice: true,
+    series: data => {
+      const bands = ind().bollinger(data.close, 20, 2);
+      return [
+        { label: '布林上軌', data: bands.upper, color: 'rgb(249, 115, 22)' },
+        { label: '布林中軌', data: bands.middle, color: 'rgb(251, 146, 60)' },
+        { label: '布林下軌', data: bands.lower, color: 'rgb(249, 115, 22)' }
+      ];
+    }
+  },
+  [ChartOverlay.KELTNER]: {
+    label: '肯特納通道',
+    onPrice: true,
+    series: data => {
+      const channel = ind().keltner(data.high, data.low, data.close, 20, 10, 2);
+      return [
+        { label: '肯特納上軌', data: channel.upper, color: 'rgb(20, 184, 166)' },
+        { label: '肯特納中軌', data: channel.middle, color: 'rgb(45, 212, 191)' },
+        { label: '肯特納下軌', data: channel.lower, color: 'rgb(20, 184, 166)' }
+      ];
+    }
+  },
+  [ChartOverlay.DONCHIAN]: {
+    label: '唐奇安通道',
+    onPrice: true,
+    series: data => {
+      const channel = ind().donchian(data.high, data.low, 20);
+      return [
+        { label: '唐奇安上軌', data: channel.upper, color: 'rgb(132, 204, 22)' },
+        { label: '唐奇安下軌', data: channel.lower, color: 'rgb(132, 204, 22)' }
+      ];
+    }
+  },
+  [ChartOverlay.ICHIMOKU]: {
+    label: '一目均衡表',
+    onPrice: true,
+    series: data => {
+      const cloud = ind().ichimoku(data.high, data.low, 9, 26, 52, 26);
+      return [
+        { label: '轉換線', data: cloud.tenkan, color: 'rgb(236, 72, 153)' },
+        { label: '基準線', data: cloud.kijun, color: 'rgb(124, 58, 237)' },
+        { label: '先行帶A', data: cloud.senkouA, color: 'rgb(34, 197, 94)' },
+        { label: '先行帶B', data: cloud.senkouB, color: 'rgb(239, 68, 68)' }
+      ];
+    }
+  },
+  [ChartOverlay.PARABOLIC_SAR]: {
+    label: '拋物線轉向',
+    onPrice: true,
+    series: data => [{
+      label: 'SAR',
+      data: ind().parabolicSAR(data.high, data.low, data.close, 0.02, 0.2),
+      color: 'rgb(217, 119, 6)'
+    }]
+  },
+  [ChartOverlay.SUPERTREND]: {
+    label: '超級趨勢',
+    onPrice: true,
+    series: data => [{
+      label: 'SuperTrend',
+      data: ind().supertrend(data.high, data.low, data.close, 10, 3).supertrend,
+      color: 'rgb(16, 185, 129)'
+    }]
+  },
+  [ChartOverlay.VWAP]: {
+    label: 'VWAP',
+    onPrice: true,
+    series: data => [{ label: 'VWAP', data: ind().vwap(data), color: 'rgb(107, 114, 128)' }]
+  },
+  [ChartOverlay.RSI]: {
+    label: 'RSI(14)',
+    onPrice: false,
+    series: data => [{ label: 'RSI(14)', data: ind().rsi(data.close, 14), color: 'rgb(147, 51, 234)' }]
+  },
+  [ChartOverlay.KD]: {
+    label: 'KD(9)',
+    onPrice: false,
+    series: data => {
+      const kd = ind().kd(data.high, data.low, data.close, 9);
+      return [
+        { label: 'K(9)', data: kd.k, color: 'rgb(37, 99, 235)' },
+        { label: 'D(9)', data: kd.d, color: 'rgb(234, 88, 12)' }
+      ];
+    }
+  },
+  [ChartOverlay.DMI]: {
+    label: 'DMI/ADX(14)',
+    onPrice: false,
+    series: data => {
+      const dmi = ind().dmi(data.high, data.low, data.close, 14);
+      return [
+        { label: '+DI', data: dmi.plusDI, color: 'rgb(34, 197, 94)' },
+        { label: '-DI', data: dmi.minusDI, color: 'rgb(239, 68, 68)' },
+        { label: 'ADX', data: dmi.adx, color: 'rgb(75, 85, 99)' }
+      ];
+    }
+  },
+  [ChartOverlay.WILLIAMS_R]: {
+    label: '威廉指標(14)',
+    onPrice: false,
+    series: data => [{
+      label: '%R(14)',
+      data: ind().williamsR(data.high, data.low, data.close, 14),
+      color: 'rgb(202, 138, 4)'
+    }]
+  },
+  [ChartOverlay.CCI]: {
+    label: 'CCI(20)',
+    onPrice: false,
+    series: data => [{
+      label: 'CCI(20)',
+      data: ind().cci(data.high, data.low, data.close, 20),
+      color: 'rgb(8, 145, 178)'
+    }]
+  },
+  [ChartOverlay.OBV]: {
+    label: 'OBV',
+    onPrice: false,
+    series: data => [{ label: 'OBV', data: ind().obv(data.close, data.volume), color: 'rgb(100, 116, 139)' }]
+  }
+};
+
 interface PriceChartWithTradesProps {
   marketData: MarketData;
   result: BacktestResult;
@@ -14,6 +197,7 @@ interface PriceChartWithTradesProps {
 export function PriceChartWithTrades({ marketData, result }: PriceChartWithTradesProps) {
   const chartRef = useRef<HTMLCanvasElement>(null);
   const chartInstance = useRef<Chart | null>(null);
+  const [overlays, setOverlays] = useState<ChartOverlay[]>([]);
 
   useEffect(() => {
     if (!chartRef.current || !marketData || !result) return;
@@ -23,33 +207,60 @@ export function PriceChartWithTrades({ marketData, result }: PriceChartWithTrade
       chartInstance.current.destroy();
     }
 
-    // 準備數據
+    // 準備數據（時間戳記為秒）
     const labels = marketData.timestamp.map(ts => 
-      new Date(ts).toLocaleDateString()
+      new Date(ts * 1000).toLocaleDateString()
     );
     
     const priceData = marketData.close;
     
-    // 找出交易的買入和賣出點
-    const buyPoints = result.trades.map(trade => {
-      const index = marketData.timestamp.findIndex(ts => ts === trade.entryTime);
-      return index >= 0 && trade.direction === 'long' ? priceData[index] : null;
-    });
-    
-    const sellPoints = result.trades.map(trade => {
-      const index = marketData.timestamp.findIndex(ts => ts === trade.exitTime);
-      return index >= 0 && trade.direction === 'long' ? priceData[index] : null;
-    });
+    // 找出交易的買入和賣出點，對齊至各K棒
+    const barIndex = new Map(marketData.timestamp.map((ts, i) => [ts, i]));
+    const buyPoints: (number | null)[] = priceData.map(() => null);
+    const sellPoints: (number | null)[] = priceData.map(() => null);
+    const shortPoints: (number | null)[] = priceData.map(() => null);
+    const coverPoints: (number | null)[] = priceData.map(() => null);
     
-    const shortPoints = result.trades.map(trade => {
-      const index = marketData.timestamp.findIndex(ts => ts === trade.entryTime);
-      return index >= 0 && trade.direction === 'short' ? priceData[index] : null;
-    });
+    result.trades
+      .filter(trade => trade.symbol === marketData.symbol || trade.symbol === result.settings.symbol)
+      .forEach(trade => {
+        const entryIndex = barIndex.get(trade.entryTime);
+        const exitIndex = barIndex.get(trade.exitTime);
+        const isLong = trade.direction === 'long';
+        
+        if (entryIndex !== undefined) {
+          (isLong ? buyPoints : shortPoints)[entryIndex] = trade.entryPrice;
+        }
+        if (exitIndex !== undefined) {
+          (isLong ? sellPoints : coverPoints)[exitIndex] = trade.exitPrice;
+        }
+      });
     
-    const coverPoints = result.trades.map(trade => {
-      const index = marketData.timestamp.findIndex(ts => ts === trade.exitTime);
-      return index >= 0 && trade.direction === 'short' ? priceData[index] : null;
-    });
+    // 所選技術指標：價格類指標與價格共用左側座標軸，其餘指標使用右側座標軸
+    const overlayDatasets = overlays.flatMap(overlay =>
+      OVERLAYS[overlay].series(marketData).map(series => ({
+        label: series.label,
+        data: series.data.map(value => (isNaN(value) ? null : value)),
+        borderColor: series.color,
+        backgroundColor: series.color,
+        borderWidth: 1,
+        // 拋物線轉向以點顯示
+        pointRadius: overlay === ChartOverlay.PARABOLIC_SAR ? 1 : 0,
+        pointHoverRadius: 2,
+        fill: false,
+        showLine: overlay !== ChartOverlay.PARABOLIC_SAR,
+        yAxisID: OVERLAYS[overlay].onPrice ? 'y' : `y-${overlay}`
+      }))
+    );
+    const oscillatorAxes = Object.fromEntries(
+      overlays
+        .filter(overlay => !OVERLAYS[overlay].onPrice)
+        .map(overlay => [`y-${overlay}`, {
+          position: 'right' as const,
+          grid: { display: false },
+          title: { display: true, text: OVERLAYS[overlay].label }
+        }])
+    );
     
     // 創建圖表
     const ctx = chartRef.current.getContext('2d');
@@ -108,7 +319,8 @@ export function PriceChartWithTrades({ marketData, result }: PriceChartWithTrade
             pointRadius: 5,
             pointStyle: 'triangle',
             showLine: false,
-          }
+          },
+          ...overlayDatasets
         ]
       },
       options: {
@@ -140,7 +352,8 @@ export function PriceChartWithTrades({ marketData, result }: PriceChartWithTrade
                 return value.toLocaleString();
               }
             }
-          }
+          },
+          ...oscillatorAxes
         },
         interaction: {
           mode: 'nearest',
@@ -156,11 +369,27 @@ export function PriceChartWithTrades({ marketData, result }: PriceChartWithTrade
         chartInstance.current.destroy();
       }
     };
-  }, [marketData, result]);
+  }, [marketData, result, overlays]);
 
   return (
-    <div className="w-full h-64">
-      <canvas ref={chartRef}></canvas>
+    <div className="space-y-2">
+      <ToggleGroup
+        type="multiple"
+        size="sm"
+        variant="outline"
+        className="flex-wrap justify-start"
+        value={overlays}
+        onValueChange={value => setOverlays(value as ChartOverlay[])}
+      >
+        {(Object.keys(OVERLAYS) as ChartOverlay[]).map(overlay => (
+          <ToggleGroupItem key={overlay} value={overlay}>
+            {OVERLAYS[overlay].label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="w-full h-64">
+        <canvas ref={chartRef}></canvas>
+      </div>
     </div>
   );
 }
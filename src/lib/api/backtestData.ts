@@ -0,0 +1,47 @@
+import { MarketData } from './yahooFinance';
+import { BarInterval } from './tradingSessions';
+import { BacktestSettings } from '../backtest/types';
+
+/**
+ * 從市場數據 API 獲取回測所需的各標的數據，期貨另附連續合約設置
+ * @param settings 回測設置
+ * @returns 以標的代碼為鍵的市場數據
+ * @throws Error 任一標的獲取失敗或數據無效時拋出
+ */
+export async function fetchBacktestMarketData(settings: BacktestSettings): Promise<Record<string, MarketData>> {
+  const symbols = settings.symbols ?? [settings.symbol];
+
+  const fetchMarketData = async (symbol: string): Promise<MarketData> => {
+    const query = new URLSearchParams({
+      symbol,
+      startDate: String(settings.startDate),
+      endDate: String(settings.endDate),
+      interval: settings.interval ?? BarInterval.DAILY
+    });
+    if (settings.continuousContract) {
+      query.set('rollMethod', settings.continuousContract.rollMethod);
+      query.set('adjustment', settings.continuousContract.adjustment);
+      query.set('rollOffsetDays', String(settings.continuousContract.rollOffsetDays ?? 0));
+    }
+    const response = await fetch(`/api/market-data?${query.toString()}`);
+
+    if (!response.ok) {
+      const errorData = await response.json() as { error: string };
+      throw new Error(errorData.error || `獲取 ${symbol} 市場數據失敗`);
+    }
+
+    const marketData = await response.json() as MarketData;
+
+    if (!marketData || !marketData.timestamp || marketData.timestamp.length === 0) {
+      throw new Error(`獲取到的 ${symbol} 市場數據無效`);
+    }
+
+    return marketData;
+  };
+
+  const marketData: Record<string, MarketData> = {};
+  for (const symbol of symbols) {
+    marketData[symbol] = await fetchMarketData(symbol);
+  }
+  return marketData;
+}
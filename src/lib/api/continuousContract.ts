@@ -0,0 +1,262 @@
+import type { MarketData } from './yahooFinance';
+import type { TaifexDailyData } from './taifexDataService';
+
+// 轉倉方式
+export enum RollMethod {
+  EXPIRY = 'expiry',              // 結算日（每月第三個星期三）轉倉
+  VOLUME = 'volume',              // 次月成交量超過近月時轉倉
+  OPEN_INTEREST = 'open_interest' // 次月未平倉量超過近月時轉倉
+}
+
+// 連續合約價格調整方式
+export enum AdjustmentMethod {
+  NONE = 'none',     // 不調整，直接銜接各月份價格
+  PANAMA = 'panama', // 價差回溯調整（Panama）
+  RATIO = 'ratio'    // 比例回溯調整
+}
+
+// 連續合約設置
+export interface ContinuousContractOptions {
+  rollMethod: RollMethod;         // 轉倉方式
+  adjustment: AdjustmentMethod;   // 價格調整方式
+  rollOffsetDays?: number;        // 提前轉倉的交易日數（以結算日為準，預設 0 即結算日收盤轉倉）
+}
+
+// 轉倉事件
+export interface RollEvent {
+  timestamp: number;              // 轉倉K棒時間戳記（秒），於該K棒收盤轉倉
+  fromContract: string;           // 舊合約到期月份
+  toContract: string;             // 新合約到期月份
+  fromPrice: number;              // 舊合約收盤價（已依調整方式換算）
+  toPrice: number;                // 新合約收盤價（已依調整方式換算）
+  gap: number;                    // 未調整價差（新合約收盤價 - 舊合約收盤價）
+}
+
+// 連續合約
+export interface ContinuousContract {
+  data: MarketData;               // 連續合約市場數據
+  rolls: RollEvent[];             // 轉倉事件
+}
+
+// 預設連續合約設置
+export const DEFAULT_CONTINUOUS_OPTIONS: ContinuousContractOptions = {
+  rollMethod: RollMethod.EXPIRY,
+  adjustment: AdjustmentMethod.PANAMA,
+  rollOffsetDays: 0
+};
+
+// 連續合約所選用的單日資料
+interface SelectedBar {
+  date: string;
+  contract: string;
+  row: TaifexDailyData;
+}
+
+// 未調整的轉倉資料
+interface RawRoll {
+  index: number;
+  fromContract: string;
+  toContract: string;
+  fromClose: number;
+  toClose: number;
+}
+
+/**
+ * 計算月契約的最後結算日（到期月份第三個星期三）
+ * 未考慮國定假日順延
+ * @param deliveryMonth 到期月份（YYYYMM）
+ * @returns 結算日（YYYY-MM-DD）
+ */
+export function getSettlementDate(deliveryMonth: string): string {
+  const year = parseInt(deliveryMonth.slice(0, 4));
+  const month = parseInt(deliveryMonth.slice(4, 6));
+  const firstDay = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  // 星期三為 3，計算當月第一個星期三後再加兩週
+  const firstWednesday = 1 + ((3 - firstDay + 7) % 7);
+  const day = firstWednesday + 14;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * 判斷是否為月契約（排除週契約與價差委託）
+ * @param deliveryMonth 到期月份
+ */
+function isMonthlyContract(deliveryMonth: string | undefined): deliveryMonth is string {
+  return !!deliveryMonth && /^\d{6}$/.test(deliveryMonth);
+}
+
+/**
+ * 判斷當日收盤是否轉倉
+ * @param options 連續合約設置
+ * @param dates 所有交易日
+ * @param index 當日索引
+ * @param current 近月合約資料
+ * @param next 次月合約資料
+ */
+function shouldRoll(
+  options: ContinuousContractOptions,
+  dates: string[],
+  index: number,
+  current: TaifexDailyData,
+  next: TaifexDailyData
+): boolean {
+  const settlementDate = getSettlementDate(current.deliveryMonth!);
+  const settlementIndex = dates.findIndex(date => date >= settlementDate);
+  const reachedExpiry = settlementIndex !== -1 && index >= settlementIndex;
+
+  switch (options.rollMethod) {
+    case RollMethod.VOLUME:
+      return reachedExpiry || next.volume > current.volume;
+    case RollMethod.OPEN_INTEREST:
+      return reachedExpiry || next.openInterest > current.openInterest;
+    default:
+      return settlementIndex !== -1 && index >= settlementIndex - (options.rollOffsetDays ?? 0);
+  }
+}
+
+/**
+ * 以各到期月份的日資料建立連續合約
+ * 僅使用一般交易時段的月契約；每日收盤判斷是否轉倉至次月合約，
+ * 再依調整方式回溯調整轉倉前的價格，使最新價格與實際合約一致
+ * @param rows 各到期月份的日資料
+ * @param options 連續合約設置
+ * @returns 連續合約
+ */
+export function buildContinuousContract(
+  rows: TaifexDailyData[],
+  options: ContinuousContractOptions = DEFAULT_CONTINUOUS_OPTIONS
+): ContinuousContract {
+  // 依日期分組各到期月份的資料
+  const byDate = new Map<string, Map<string, TaifexDailyData>>();
+  for (const row of rows) {
+    if (!isMonthlyContract(row.deliveryMonth) || row.session === 'night') {
+      continue;
+    }
+    if (!byDate.has(row.date)) {
+      byDate.set(row.date, new Map());
+    }
+    byDate.get(row.date)!.set(row.deliveryMonth, row);
+  }
+
+  const dates = Array.from(byDate.keys()).sort();
+  const selected: SelectedBar[] = [];
+  const rawRolls: RawRoll[] = [];
+  let current: string | undefined;
+
+  dates.forEach((date, index) => {
+    const contracts = byDate.get(date)!;
+    const months = Array.from(contracts.keys()).sort();
+
+    // 首日或近月資料缺漏時，改用當日最近的未到期合約（無法計算價差，視為無縫銜接）
+    if (!current || !contracts.has(current)) {
+      const replacement = months.find(m => getSettlementDate(m) >= date && (!current || m > current)) ?? months[0];
+      if (current && selected.length > 0) {
+        const previous = selected[selected.length - 1];
+        rawRolls.push({
+          index: selected.length - 1,
+          fromContract: current,
+          toContract: replacement,
+          fromClose: previous.row.close,
+          toClose: previous.row.close
+        });
+      }
+      current = replacement;
+    }
+
+    const row = contracts.get(current)!;
+    selected.push({ date, contract: current, row });
+
+    const nextMonth = months.find(m => m > current!);
+    if (nextMonth && shouldRoll(options, dates, index, row, contracts.get(nextMonth)!)) {
+      rawRolls.push({
+        index: selected.length - 1,
+        fromContract: current,
+        toContract: nextMonth,
+        fromClose: row.close,
+        toClose: contracts.get(nextMonth)!.close
+      });
+      current = nextMonth;
+    }
+  });
+
+  return applyAdjustment(selected, rawRolls, options.adjustment);
+}
+
+/**
+ * 依調整方式回溯調整轉倉前的價格
+ * 價差調整將之後所有轉倉價差加回先前的價格，比例調整則乘以之後所有轉倉的價格比例
+ * @param selected 連續合約所選用的單日資料
+ * @param rawRolls 未調整的轉倉資料
+ * @param adjustment 調整方式
+ * @returns 連續合約
+ */
+function applyAdjustment(
+  selected: SelectedBar[],
+  rawRolls: RawRoll[],
+  adjustment: AdjustmentMethod
+): ContinuousContract {
+  const offsets = new Array<number>(selected.length).fill(0);
+  const factors = new Array<number>(selected.length).fill(1);
+  const rollsByIndex = new Map(rawRolls.map(roll => [roll.index, roll]));
+
+  // 自最新一根K棒往前累計，轉倉當日收盤前的價格即需調整
+  let offset = 0;
+  let factor = 1;
+  for (let i = selected.length - 1; i >= 0; i--) {
+    const roll = rollsByIndex.get(i);
+    if (roll) {
+      offset += roll.toClose - roll.fromClose;
+      factor *= roll.fromClose > 0 ? roll.toClose / roll.fromClose : 1;
+    }
+    offsets[i] = offset;
+    factors[i] = factor;
+  }
+
+  const adjust = (price: number, index: number): number => {
+    switch (adjustment) {
+      case AdjustmentMethod.PANAMA:
+        return price + offsets[index];
+      case AdjustmentMethod.RATIO:
+        return price * factors[index];
+      default:
+        return price;
+    }
+  };
+
+  const timestamps = selected.map(bar => new Date(bar.date).getTime() / 1000);
+
+  const data: MarketData = {
+    symbol: selected[0]?.row.contract ?? '',
+    timestamp: timestamps,
+    open: selected.map((bar, i) => adjust(bar.row.open, i)),
+    high: selected.map((bar, i) => adjust(bar.row.high, i)),
+    low: selected.map((bar, i) => adjust(bar.row.low, i)),
+    close: selected.map((bar, i) => adjust(bar.row.close, i)),
+    volume: selected.map(bar => bar.row.volume),
+    settlement: selected.map((bar, i) => adjust(bar.row.settlement ?? bar.row.close, i)),
+    contracts: selected.map(bar => bar.contract)
+  };
+
+  // 轉倉當日的調整值包含本次價差，新合約價格需扣回本次調整
+  const rolls: RollEvent[] = rawRolls.map(roll => {
+    const fromPrice = adjust(roll.fromClose, roll.index);
+    const toPrice = adjustment === AdjustmentMethod.PANAMA
+      ? roll.toClose + offsets[roll.index] - (roll.toClose - roll.fromClose)
+      : adjustment === AdjustmentMethod.RATIO
+        ? roll.fromClose * factors[roll.index]
+        : roll.toClose;
+
+    return {
+      timestamp: timestamps[roll.index],
+      fromContract: roll.fromContract,
+      toContract: roll.toContract,
+      fromPrice,
+      toPrice,
+      gap: roll.toClose - roll.fromClose
+    };
+  });
+
+  data.rolls = rolls;
+  return { data, rolls };
+}
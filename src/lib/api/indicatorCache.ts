@@ -0,0 +1,370 @@
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateCCI,
+  calculateDirection,
+  calculateDMI,
+  calculateDonchianChannel,
+  calculateEMA,
+  calculateHMA,
+  calculateIchimoku,
+  calculateKD,
+  calculateKeltnerChannel,
+  calculateMACD,
+  calculateOBV,
+  calculateParabolicSAR,
+  calculateReturns,
+  calculateRSI,
+  calculateSMA,
+  calculateStdDev,
+  calculateSuperTrend,
+  calculateVWAP,
+  calculateWilliamsR,
+  calculateWMA
+} from './indicators';
+import { MarketData } from './yahooFinance';
+
+/**
+ * 技術指標快取
+ * 以數列本身與指標名稱、參數為鍵，整段數列只計算一次，供回測引擎、策略與圖表共用；
+ * 快取隨數列被回收而釋放，數列計算後不應再修改
+ */
+export class IndicatorCache {
+  private static instance: IndicatorCache;
+  private series: WeakMap<number[], Map<string, unknown>> = new WeakMap();
+  private sourceIds: WeakMap<number[], number> = new WeakMap();
+  private nextSourceId: number = 0;
+
+  private constructor() {}
+
+  /**
+   * 獲取技術指標快取實例（單例模式）
+   */
+  public static getInstance(): IndicatorCache {
+    if (!IndicatorCache.instance) {
+      IndicatorCache.instance = new IndicatorCache();
+    }
+    return IndicatorCache.instance;
+  }
+
+  /**
+   * 簡單移動平均線
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public sma(source: number[], period: number): number[] {
+    return this.memoize(source, `sma:${period}`, () => calculateSMA(source, period));
+  }
+
+  /**
+   * 指數移動平均線
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public ema(source: number[], period: number): number[] {
+    return this.memoize(source, `ema:${period}`, () => calculateEMA(source, period));
+  }
+
+  /**
+   * 加權移動平均線
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public wma(source: number[], period: number): number[] {
+    return this.memoize(source, `wma:${period}`, () => calculateWMA(source, period));
+  }
+
+  /**
+   * 赫爾移動平均線
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public hma(source: number[], period: number): number[] {
+    return this.memoize(source, `hma:${period}`, () => calculateHMA(source, period));
+  }
+
+  /**
+   * 滾動標準差
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public stdDev(source: number[], period: number): number[] {
+    return this.memoize(source, `stdDev:${period}`, () => calculateStdDev(source, period));
+  }
+
+  /**
+   * 每根K棒相對前一根的報酬率
+   * @param source 價格數據陣列
+   */
+  public returns(source: number[]): number[] {
+    return this.memoize(source, 'returns', () => calculateReturns(source));
+  }
+
+  /**
+   * 每根K棒相對前一根的漲跌方向
+   * @param source 價格數據陣列
+   */
+  public direction(source: number[]): number[] {
+    return this.memoize(source, 'direction', () => calculateDirection(source));
+  }
+
+  /**
+   * 相對強弱指標
+   * @param source 數據陣列
+   * @param period 週期
+   */
+  public rsi(source: number[], period: number): number[] {
+    return this.memoize(source, `rsi:${period}`, () => calculateRSI(source, period));
+  }
+
+  /**
+   * 布林帶
+   * @param source 數據陣列
+   * @param period 週期
+   * @param multiplier 標準差乘數
+   */
+  public bollinger(
+    source: number[],
+    period: number,
+    multiplier: number
+  ): { middle: number[]; upper: number[]; lower: number[] } {
+    return this.memoize(source, `bollinger:${period}:${multiplier}`, () =>
+      calculateBollingerBands(source, period, multiplier)
+    );
+  }
+
+  /**
+   * MACD
+   * @param source 數據陣列
+   * @param fastPeriod 快線週期
+   * @param slowPeriod 慢線週期
+   * @param signalPeriod 信號線週期
+   */
+  public macd(
+    source: number[],
+    fastPeriod: number,
+    slowPeriod: number,
+    signalPeriod: number
+  ): { macd: number[]; signal: number[]; histogram: number[] } {
+    return this.memoize(source, `macd:${fastPeriod}:${slowPeriod}:${signalPeriod}`, () =>
+      calculateMACD(source, fastPeriod, slowPeriod, signalPeriod)
+    );
+  }
+
+  /**
+   * 平均真實區間
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period 週期
+   */
+  public atr(high: number[], low: number[], close: number[], period: number): number[] {
+    return this.memoize(close, `atr:${period}:${this.getSourceKey(high, low)}`, () =>
+      calculateATR(high, low, close, period)
+    );
+  }
+
+  /**
+   * 趨向指標（+DI、−DI）與平均趨向指標（ADX）
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period 週期
+   */
+  public dmi(
+    high: number[],
+    low: number[],
+    close: number[],
+    period: number
+  ): { plusDI: number[]; minusDI: number[]; adx: number[] } {
+    return this.memoize(close, `dmi:${period}:${this.getSourceKey(high, low)}`, () =>
+      calculateDMI(high, low, close, period)
+    );
+  }
+
+  /**
+   * KD 隨機指標（台灣慣用 1/3 平滑）
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period RSV 週期
+   */
+  public kd(high: number[], low: number[], close: number[], period: number): { k: number[]; d: number[] } {
+    return this.memoize(close, `kd:${period}:${this.getSourceKey(high, low)}`, () =>
+      calculateKD(high, low, close, period)
+    );
+  }
+
+  /**
+   * 威廉指標
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period 週期
+   */
+  public williamsR(high: number[], low: number[], close: number[], period: number): number[] {
+    return this.memoize(close, `williamsR:${period}:${this.getSourceKey(high, low)}`, () =>
+      calculateWilliamsR(high, low, close, period)
+    );
+  }
+
+  /**
+   * 順勢指標
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period 週期
+   */
+  public cci(high: number[], low: number[], close: number[], period: number): number[] {
+    return this.memoize(close, `cci:${period}:${this.getSourceKey(high, low)}`, () =>
+      calculateCCI(high, low, close, period)
+    );
+  }
+
+  /**
+   * 能量潮指標
+   * @param close 收盤價陣列
+   * @param volume 成交量陣列
+   */
+  public obv(close: number[], volume: number[]): number[] {
+    return this.memoize(close, `obv:${this.getSourceKey(volume)}`, () => calculateOBV(close, volume));
+  }
+
+  /**
+   * 成交量加權平均價
+   * @param data 市場數據
+   * @param period 滾動週期，未指定時於每個交易日重新累計
+   */
+  public vwap(data: MarketData, period?: number): number[] {
+    return this.memoize(
+      data.close,
+      `vwap:${period ?? 'daily'}:${this.getSourceKey(data.high, data.low, data.volume, data.timestamp)}`,
+      () => calculateVWAP(data, period)
+    );
+  }
+
+  /**
+   * 一目均衡表
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param tenkanPeriod 轉換線週期
+   * @param kijunPeriod 基準線週期
+   * @param senkouPeriod 先行帶 B 週期
+   * @param displacement 先行帶平移K棒數
+   */
+  public ichimoku(
+    high: number[],
+    low: number[],
+    tenkanPeriod: number,
+    kijunPeriod: number,
+    senkouPeriod: number,
+    displacement: number
+  ): { tenkan: number[]; kijun: number[]; senkouA: number[]; senkouB: number[] } {
+    return this.memoize(
+      high,
+      `ichimoku:${tenkanPeriod}:${kijunPeriod}:${senkouPeriod}:${displacement}:${this.getSourceKey(low)}`,
+      () => calculateIchimoku(high, low, tenkanPeriod, kijunPeriod, senkouPeriod, displacement)
+    );
+  }
+
+  /**
+   * 肯特納通道
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period EMA 週期
+   * @param atrPeriod ATR 週期
+   * @param multiplier ATR 乘數
+   */
+  public keltner(
+    high: number[],
+    low: number[],
+    close: number[],
+    period: number,
+    atrPeriod: number,
+    multiplier: number
+  ): { middle: number[]; upper: number[]; lower: number[] } {
+    return this.memoize(close, `keltner:${period}:${atrPeriod}:${multiplier}:${this.getSourceKey(high, low)}`, () =>
+      calculateKeltnerChannel(high, low, close, period, atrPeriod, multiplier)
+    );
+  }
+
+  /**
+   * 唐奇安通道
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param period 週期
+   */
+  public donchian(high: number[], low: number[], period: number): { middle: number[]; upper: number[]; lower: number[] } {
+    return this.memoize(high, `donchian:${period}:${this.getSourceKey(low)}`, () =>
+      calculateDonchianChannel(high, low, period)
+    );
+  }
+
+  /**
+   * 拋物線轉向指標
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param step 加速因子增量
+   * @param maxStep 加速因子上限
+   */
+  public parabolicSAR(high: number[], low: number[], close: number[], step: number, maxStep: number): number[] {
+    return this.memoize(close, `sar:${step}:${maxStep}:${this.getSourceKey(high, low)}`, () =>
+      calculateParabolicSAR(high, low, close, step, maxStep)
+    );
+  }
+
+  /**
+   * 超級趨勢指標
+   * @param high 最高價陣列
+   * @param low 最低價陣列
+   * @param close 收盤價陣列
+   * @param period ATR 週期
+   * @param multiplier ATR 乘數
+   */
+  public supertrend(
+    high: number[],
+    low: number[],
+    close: number[],
+    period: number,
+    multiplier: number
+  ): { supertrend: number[]; direction: number[] } {
+    return this.memoize(close, `supertrend:${period}:${multiplier}:${this.getSourceKey(high, low)}`, () =>
+      calculateSuperTrend(high, low, close, period, multiplier)
+    );
+  }
+
+  /**
+   * 獲取快取的指標數列，尚未計算時計算後存入快取
+   * @param source 主要數據陣列
+   * @param key 指標名稱與參數
+   * @param compute 計算函數
+   */
+  private memoize<T>(source: number[], key: string, compute: () => T): T {
+    let cache = this.series.get(source);
+    if (!cache) {
+      cache = new Map();
+      this.series.set(source, cache);
+    }
+
+    if (!cache.has(key)) {
+      cache.set(key, compute());
+    }
+
+    return cache.get(key) as T;
+  }
+
+  /**
+   * 獲取其他數據陣列的識別碼，用於多個數據陣列計算的指標
+   * @param sources 主要數據陣列以外的數據陣列
+   */
+  private getSourceKey(...sources: number[][]): string {
+    return sources.map(source => {
+      if (!this.sourceIds.has(source)) {
+        this.sourceIds.set(source, this.nextSourceId++);
+      }
+      return this.sourceIds.get(source)!;
+    }).join(':');
+  }
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateRSI, calculateSMA, calculateStdDev } from './indicators';
+
+/**
+ * 逐一計算的簡單移動平均線，作為滑動視窗計算的對照
+ */
+function naiveSMA(data: number[], period: number): number[] {
+  return data.map((_, i) => {
+    if (i < period - 1) {
+      return NaN;
+    }
+    return data.slice(i - period + 1, i + 1).reduce((sum, value) => sum + value, 0) / period;
+  });
+}
+
+test('簡單移動平均線略過開頭的 NaN', () => {
+  assert.deepEqual(calculateSMA([NaN, 1, 2, 3, 4], 2), [NaN, NaN, 1.5, 2.5, 3.5]);
+});
+
+test('簡單移動平均線在視窗離開中間的 NaN 後恢復計算', () => {
+  assert.deepEqual(calculateSMA([1, 2, NaN, 4, 5, 6], 2), [NaN, 1.5, NaN, NaN, 4.5, 5.5]);
+});
+
+test('簡單移動平均線與逐一計算的結果相同', () => {
+  const data = Array.from({ length: 50 }, (_, i) => 100 + Math.sin(i) * 5);
+  calculateSMA(data, 7).forEach((value, i) => {
+    const expected = naiveSMA(data, 7)[i];
+    if (isNaN(expected)) {
+      assert.ok(isNaN(value));
+    } else {
+      assert.ok(Math.abs(value - expected) < 1e-9);
+    }
+  });
+});
+
+test('其他指標的移動平均線在暖機期後有值', () => {
+  const close = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 10);
+  const rsi = calculateRSI(close, 14);
+  const sma = calculateSMA(rsi, 5);
+  const first = rsi.findIndex(value => !isNaN(value));
+
+  assert.ok(first > 0);
+  assert.ok(isNaN(sma[first + 3]));
+  assert.ok(Number.isFinite(sma[first + 4]));
+  assert.ok(sma.slice(first + 4).every(Number.isFinite));
+});
+
+test('滾動標準差略過開頭的 NaN 並與母體標準差相同', () => {
+  const result = calculateStdDev([NaN, 1, 3, 5, 5], 2);
+  assert.ok(isNaN(result[0]) && isNaN(result[1]));
+  assert.deepEqual(result.slice(2), [1, 1, 0]);
+});
@@ -1,70 +1,137 @@
 import { MarketData } from './yahooFinance';
+import { IndicatorCache } from './indicatorCache';
+import { getBarTradingDate } from './tradingSessions';
 
 /**
  * 計算簡單移動平均線
+ * 以滑動視窗累計總和，每根K棒僅需常數時間；視窗內含 NaN（如其他指標的暖機期）時為 NaN
  * @param data 價格數據陣列
  * @param period 週期
  * @returns 移動平均線數據陣列
  */
 export function calculateSMA(data: number[], period: number): number[] {
   const result: number[] = [];
+  let sum = 0;
+  let missing = 0;  // 視窗內 NaN 的數量，不計入總和
   
   for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      // 數據不足一個週期時，填充null
+    if (isNaN(data[i])) {
+      missing++;
+    } else {
+      sum += data[i];
+    }
+    if (i >= period) {
+      if (isNaN(data[i - period])) {
+        missing--;
+      } else {
+        sum -= data[i - period];
+      }
+    }
+    
+    if (i < period - 1 || missing > 0) {
+      // 數據不足一個週期時，填充NaN
       result.push(NaN);
       continue;
     }
     
-    let sum = 0;
-    for (let j = 0; j < period; j++) {
-      sum += data[i - j];
+    result.push(sum / period);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算指數移動平均線 (EMA)
+ * 略過開頭的 NaN，第一個值為前 period 個有效數據的簡單平均
+ * @param data 數據陣列
+ * @param period 週期
+ * @returns EMA數據陣列
+ */
+export function calculateEMA(data: number[], period: number): number[] {
+  const result: number[] = [];
+  const multiplier = 2 / (period + 1);
+  let start = data.findIndex(value => !isNaN(value));
+  if (start === -1) {
+    start = data.length;
+  }
+  let ema = NaN;
+  let sum = 0;
+  
+  for (let i = 0; i < data.length; i++) {
+    if (i < start + period - 1) {
+      // 數據不足一個週期時，填充NaN
+      if (i >= start) {
+        sum += data[i];
+      }
+      result.push(NaN);
+      continue;
     }
     
-    result.push(sum / period);
+    ema = i === start + period - 1
+      ? (sum + data[i]) / period
+      : (data[i] - ema) * multiplier + ema;
+    result.push(ema);
   }
   
   return result;
 }
 
+/**
+ * 計算 MACD
+ * @param data 價格數據陣列
+ * @param fastPeriod 快線週期，通常為12
+ * @param slowPeriod 慢線週期，通常為26
+ * @param signalPeriod 信號線週期，通常為9
+ * @returns 包含 MACD 線、信號線和柱狀圖的數據
+ */
+export function calculateMACD(
+  data: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fast = calculateEMA(data, fastPeriod);
+  const slow = calculateEMA(data, slowPeriod);
+  const macd = data.map((_, i) => fast[i] - slow[i]);
+  const signal = calculateEMA(macd, signalPeriod);
+  const histogram = macd.map((value, i) => value - signal[i]);
+  
+  return { macd, signal, histogram };
+}
+
 /**
  * 計算相對強弱指標 (RSI)
+ * 以過去 period 根K棒的漲跌總和計算，滑動視窗累計漲跌
  * @param data 價格數據陣列
  * @param period 週期，通常為14
  * @returns RSI數據陣列
  */
 export function calculateRSI(data: number[], period: number): number[] {
   const result: number[] = [];
-  const changes: number[] = [];
+  let gains = 0;
+  let losses = 0;
   
-  // 計算價格變化
-  for (let i = 1; i < data.length; i++) {
-    changes.push(data[i] - data[i - 1]);
-  }
-  
-  // 計算RSI
   for (let i = 0; i < data.length; i++) {
+    // 加入本根K棒的漲跌，移出超過週期的漲跌
+    if (i > 0) {
+      const change = data[i] - data[i - 1];
+      gains += Math.max(change, 0);
+      losses += Math.max(-change, 0);
+    }
+    if (i > period) {
+      const change = data[i - period] - data[i - period - 1];
+      gains -= Math.max(change, 0);
+      losses -= Math.max(-change, 0);
+    }
+    
     if (i < period) {
-      // 數據不足一個週期時，填充null
+      // 數據不足一個週期時，填充NaN
       result.push(NaN);
       continue;
     }
     
-    let gains = 0;
-    let losses = 0;
-    
-    // 計算過去period天的漲跌
-    for (let j = 0; j < period; j++) {
-      const change = changes[i - j - 1];
-      if (change > 0) {
-        gains += change;
-      } else {
-        losses -= change;
-      }
-    }
-    
-    // 避免除以零
-    if (losses === 0) {
+    // 避免除以零（滑動累計可能留下極小的誤差）
+    if (losses <= 1e-12) {
       result.push(100);
     } else {
       const rs = gains / losses;
@@ -88,30 +155,631 @@ export function calculateBollingerBands(
   multiplier: number
 ): { middle: number[]; upper: number[]; lower: number[] } {
   const middle = calculateSMA(data, period);
-  const upper: number[] = [];
-  const lower: number[] = [];
+  const stdDev = calculateStdDev(data, period);
+  
+  return {
+    middle,
+    upper: middle.map((value, i) => value + multiplier * stdDev[i]),
+    lower: middle.map((value, i) => value - multiplier * stdDev[i])
+  };
+}
+
+/**
+ * 計算滾動標準差（母體標準差）
+ * 略過開頭的 NaN，以滑動視窗更新平均與平方差和，每根K棒僅需常數時間
+ * @param data 數據陣列
+ * @param period 週期
+ * @returns 標準差數據陣列
+ */
+export function calculateStdDev(data: number[], period: number): number[] {
+  const result: number[] = [];
+  let start = data.findIndex(value => !isNaN(value));
+  if (start === -1) {
+    start = data.length;
+  }
+  let mean = 0;
+  let squaredDeviations = 0;
+  
+  for (let i = 0; i < data.length; i++) {
+    if (i < start) {
+      result.push(NaN);
+      continue;
+    }
+    
+    const count = i - start + 1;
+    if (count <= period) {
+      // 視窗未滿時逐一加入
+      const delta = data[i] - mean;
+      mean += delta / count;
+      squaredDeviations += delta * (data[i] - mean);
+    } else {
+      // 視窗已滿時以新數據取代最舊的數據
+      const removed = data[i - period];
+      const previousMean = mean;
+      mean += (data[i] - removed) / period;
+      squaredDeviations += (data[i] - removed) * (data[i] - mean + removed - previousMean);
+    }
+    
+    // 數據不足一個週期時，填充NaN
+    result.push(count < period ? NaN : Math.sqrt(Math.max(0, squaredDeviations) / period));
+  }
+  
+  return result;
+}
+
+/**
+ * 計算每根K棒相對前一根的報酬率
+ * @param data 價格數據陣列
+ * @returns 報酬率數據陣列，第一根K棒為 NaN
+ */
+export function calculateReturns(data: number[]): number[] {
+  return data.map((value, i) => (i === 0 ? NaN : (value - data[i - 1]) / data[i - 1]));
+}
+
+/**
+ * 計算每根K棒相對前一根的漲跌方向
+ * @param data 價格數據陣列
+ * @returns 上漲為 1、下跌為 -1、持平為 0，第一根K棒沒有前一根可比較，為 0
+ */
+export function calculateDirection(data: number[]): number[] {
+  return data.map((value, i) => (i === 0 ? 0 : Math.sign(value - data[i - 1])));
+}
+
+/**
+ * 計算平均真實區間 (ATR)
+ * 採用 Wilder 平滑法，第一個值為前 period 根真實區間的簡單平均
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period 週期，通常為14
+ * @returns ATR數據陣列
+ */
+export function calculateATR(
+  high: number[],
+  low: number[],
+  close: number[],
+  period: number
+): number[] {
+  const result: number[] = [];
+  let atr = NaN;
+  let sum = 0;
+  
+  for (let i = 0; i < close.length; i++) {
+    // 真實區間：當日高低差、與前一日收盤價的跳空取最大值
+    const trueRange = i === 0
+      ? high[i] - low[i]
+      : Math.max(
+          high[i] - low[i],
+          Math.abs(high[i] - close[i - 1]),
+          Math.abs(low[i] - close[i - 1])
+        );
+    
+    if (i < period) {
+      sum += trueRange;
+      if (i === period - 1) {
+        atr = sum / period;
+        result.push(atr);
+      } else {
+        // 數據不足一個週期時，填充NaN
+        result.push(NaN);
+      }
+      continue;
+    }
+    
+    atr = (atr * (period - 1) + trueRange) / period;
+    result.push(atr);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算加權移動平均線 (WMA)
+ * 權重依時間線性遞增，最新一根K棒的權重為 period
+ * @param data 數據陣列
+ * @param period 週期
+ * @returns WMA數據陣列
+ */
+export function calculateWMA(data: number[], period: number): number[] {
+  const result: number[] = [];
+  const totalWeight = period * (period + 1) / 2;
   
   for (let i = 0; i < data.length; i++) {
     if (i < period - 1) {
-      // 數據不足一個週期時，填充null
-      upper.push(NaN);
-      lower.push(NaN);
+      // 數據不足一個週期時，填充NaN
+      result.push(NaN);
       continue;
     }
     
-    // 計算標準差
+    // 視窗內含 NaN 時結果亦為 NaN
     let sum = 0;
     for (let j = 0; j < period; j++) {
-      sum += Math.pow(data[i - j] - middle[i], 2);
+      sum += data[i - j] * (period - j);
+    }
+    
+    result.push(sum / totalWeight);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算赫爾移動平均線 (HMA)
+ * HMA = WMA(2 × WMA(period / 2) − WMA(period), √period)
+ * @param data 數據陣列
+ * @param period 週期
+ * @returns HMA數據陣列
+ */
+export function calculateHMA(data: number[], period: number): number[] {
+  const half = calculateWMA(data, Math.max(1, Math.floor(period / 2)));
+  const full = calculateWMA(data, period);
+  const diff = data.map((_, i) => 2 * half[i] - full[i]);
+  
+  return calculateWMA(diff, Math.max(1, Math.round(Math.sqrt(period))));
+}
+
+/**
+ * 計算週期內的最高價或最低價（含當根K棒）
+ * @param data 數據陣列
+ * @param period 週期
+ * @param pick 取最大值或最小值
+ * @returns 數據陣列，數據不足一個週期時為 NaN
+ */
+function calculateExtreme(data: number[], period: number, pick: (a: number, b: number) => number): number[] {
+  const result: number[] = [];
+  
+  for (let i = 0; i < data.length; i++) {
+    if (i < period - 1) {
+      result.push(NaN);
+      continue;
+    }
+    
+    let value = data[i];
+    for (let j = 1; j < period; j++) {
+      value = pick(value, data[i - j]);
+    }
+    
+    result.push(value);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算 KD 隨機指標（台灣慣用算法）
+ * RSV = (收盤價 − 週期最低價) ÷ (週期最高價 − 週期最低價) × 100，
+ * K = 前日 K × 2/3 + RSV × 1/3，D = 前日 D × 2/3 + K × 1/3，K、D 初始值為 50
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period RSV 週期，通常為9
+ * @returns 包含 K 值與 D 值的數據
+ */
+export function calculateKD(
+  high: number[],
+  low: number[],
+  close: number[],
+  period: number
+): { k: number[]; d: number[] } {
+  const highest = calculateExtreme(high, period, Math.max);
+  const lowest = calculateExtreme(low, period, Math.min);
+  const k: number[] = [];
+  const d: number[] = [];
+  let prevK = 50;
+  let prevD = 50;
+  
+  for (let i = 0; i < close.length; i++) {
+    if (i < period - 1) {
+      // 數據不足一個週期時，填充NaN
+      k.push(NaN);
+      d.push(NaN);
+      continue;
+    }
+    
+    // 週期內無價格變化時 RSV 取 50
+    const range = highest[i] - lowest[i];
+    const rsv = range > 0 ? (close[i] - lowest[i]) / range * 100 : 50;
+    
+    prevK = prevK * 2 / 3 + rsv / 3;
+    prevD = prevD * 2 / 3 + prevK / 3;
+    k.push(prevK);
+    d.push(prevD);
+  }
+  
+  return { k, d };
+}
+
+/**
+ * 計算威廉指標 (Williams %R)
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period 週期，通常為14
+ * @returns 威廉指標數據陣列（−100 至 0）
+ */
+export function calculateWilliamsR(high: number[], low: number[], close: number[], period: number): number[] {
+  const highest = calculateExtreme(high, period, Math.max);
+  const lowest = calculateExtreme(low, period, Math.min);
+  
+  return close.map((value, i) => {
+    const range = highest[i] - lowest[i];
+    return range > 0 ? (highest[i] - value) / range * -100 : isNaN(range) ? NaN : -50;
+  });
+}
+
+/**
+ * 計算順勢指標 (CCI)
+ * CCI = (典型價 − 典型價均線) ÷ (0.015 × 平均絕對偏差)
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period 週期，通常為20
+ * @returns CCI數據陣列
+ */
+export function calculateCCI(high: number[], low: number[], close: number[], period: number): number[] {
+  const typical = close.map((value, i) => (high[i] + low[i] + value) / 3);
+  const sma = calculateSMA(typical, period);
+  
+  return typical.map((value, i) => {
+    if (i < period - 1) {
+      return NaN;
+    }
+    
+    let deviation = 0;
+    for (let j = 0; j < period; j++) {
+      deviation += Math.abs(typical[i - j] - sma[i]);
+    }
+    deviation /= period;
+    
+    return deviation > 0 ? (value - sma[i]) / (0.015 * deviation) : 0;
+  });
+}
+
+/**
+ * 計算能量潮指標 (OBV)
+ * 收盤價上漲時累加成交量，下跌時扣除，第一根K棒為 0
+ * @param close 收盤價陣列
+ * @param volume 成交量陣列
+ * @returns OBV數據陣列
+ */
+export function calculateOBV(close: number[], volume: number[]): number[] {
+  const result: number[] = [];
+  let obv = 0;
+  
+  for (let i = 0; i < close.length; i++) {
+    if (i > 0) {
+      if (close[i] > close[i - 1]) {
+        obv += volume[i];
+      } else if (close[i] < close[i - 1]) {
+        obv -= volume[i];
+      }
+    }
+    result.push(obv);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算成交量加權平均價 (VWAP)
+ * 以典型價計算；未指定週期時於每個交易日重新累計（日線數據即為當日典型價），
+ * 指定週期時計算最近 period 根K棒的滾動 VWAP
+ * @param data 市場數據
+ * @param period 滾動週期
+ * @returns VWAP數據陣列，累計成交量為 0 時為典型價
+ */
+export function calculateVWAP(data: MarketData, period?: number): number[] {
+  const { high, low, close, volume } = data;
+  const typical = close.map((value, i) => (high[i] + low[i] + value) / 3);
+  const result: number[] = [];
+  let value = 0;
+  let totalVolume = 0;
+  
+  for (let i = 0; i < close.length; i++) {
+    if (period === undefined && i > 0 && getBarTradingDate(data, i) !== getBarTradingDate(data, i - 1)) {
+      value = 0;
+      totalVolume = 0;
+    }
+    
+    value += typical[i] * volume[i];
+    totalVolume += volume[i];
+    if (period !== undefined && i >= period) {
+      value -= typical[i - period] * volume[i - period];
+      totalVolume -= volume[i - period];
+    }
+    
+    if (period !== undefined && i < period - 1) {
+      // 數據不足一個週期時，填充NaN
+      result.push(NaN);
+      continue;
+    }
+    
+    result.push(totalVolume > 0 ? value / totalVolume : typical[i]);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算趨向指標 (DMI) 與平均趨向指標 (ADX)
+ * 採用 Wilder 平滑法；+DI、−DI 自第 period 根K棒起有值，ADX 自第 2 × period 根K棒起有值
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period 週期，通常為14
+ * @returns 包含 +DI、−DI 與 ADX 的數據
+ */
+export function calculateDMI(
+  high: number[],
+  low: number[],
+  close: number[],
+  period: number
+): { plusDI: number[]; minusDI: number[]; adx: number[] } {
+  const plusDI: number[] = [];
+  const minusDI: number[] = [];
+  const adx: number[] = [];
+  let trSum = 0;
+  let plusSum = 0;
+  let minusSum = 0;
+  let dxSum = 0;
+  let currentADX = NaN;
+  
+  for (let i = 0; i < close.length; i++) {
+    if (i === 0) {
+      plusDI.push(NaN);
+      minusDI.push(NaN);
+      adx.push(NaN);
+      continue;
+    }
+    
+    const upMove = high[i] - high[i - 1];
+    const downMove = low[i - 1] - low[i];
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const trueRange = Math.max(
+      high[i] - low[i],
+      Math.abs(high[i] - close[i - 1]),
+      Math.abs(low[i] - close[i - 1])
+    );
+    
+    // 前 period 根累加，之後以 Wilder 平滑
+    if (i <= period) {
+      trSum += trueRange;
+      plusSum += plusDM;
+      minusSum += minusDM;
+    } else {
+      trSum = trSum - trSum / period + trueRange;
+      plusSum = plusSum - plusSum / period + plusDM;
+      minusSum = minusSum - minusSum / period + minusDM;
     }
     
-    const stdDev = Math.sqrt(sum / period);
+    if (i < period) {
+      // 數據不足一個週期時，填充NaN
+      plusDI.push(NaN);
+      minusDI.push(NaN);
+      adx.push(NaN);
+      continue;
+    }
+    
+    const plus = trSum > 0 ? plusSum / trSum * 100 : 0;
+    const minus = trSum > 0 ? minusSum / trSum * 100 : 0;
+    const dx = plus + minus > 0 ? Math.abs(plus - minus) / (plus + minus) * 100 : 0;
+    plusDI.push(plus);
+    minusDI.push(minus);
+    
+    // ADX 第一個值為前 period 個 DX 的簡單平均
+    if (i < 2 * period - 1) {
+      dxSum += dx;
+      adx.push(NaN);
+    } else if (i === 2 * period - 1) {
+      currentADX = (dxSum + dx) / period;
+      adx.push(currentADX);
+    } else {
+      currentADX = (currentADX * (period - 1) + dx) / period;
+      adx.push(currentADX);
+    }
+  }
+  
+  return { plusDI, minusDI, adx };
+}
+
+/**
+ * 計算一目均衡表 (Ichimoku)
+ * 先行帶已向後平移 displacement 根K棒，第 i 根的值僅使用第 i − displacement 根以前的數據；
+ * 遲行線即收盤價向前平移，使用時會引入未來數據，故不另外提供
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param tenkanPeriod 轉換線週期，通常為9
+ * @param kijunPeriod 基準線週期，通常為26
+ * @param senkouPeriod 先行帶 B 週期，通常為52
+ * @param displacement 先行帶平移K棒數，通常為26
+ * @returns 包含轉換線、基準線與先行帶 A、B 的數據
+ */
+export function calculateIchimoku(
+  high: number[],
+  low: number[],
+  tenkanPeriod: number,
+  kijunPeriod: number,
+  senkouPeriod: number,
+  displacement: number
+): { tenkan: number[]; kijun: number[]; senkouA: number[]; senkouB: number[] } {
+  const midpoint = (period: number) => {
+    const highest = calculateExtreme(high, period, Math.max);
+    const lowest = calculateExtreme(low, period, Math.min);
+    return highest.map((value, i) => (value + lowest[i]) / 2);
+  };
+  const tenkan = midpoint(tenkanPeriod);
+  const kijun = midpoint(kijunPeriod);
+  const spanB = midpoint(senkouPeriod);
+  const shift = (data: number[]) => data.map((_, i) => (i >= displacement ? data[i - displacement] : NaN));
+  
+  return {
+    tenkan,
+    kijun,
+    senkouA: shift(tenkan.map((value, i) => (value + kijun[i]) / 2)),
+    senkouB: shift(spanB)
+  };
+}
+
+/**
+ * 計算肯特納通道 (Keltner Channel)
+ * 中軌為收盤價 EMA，上下軌為中軌加減 ATR 的倍數
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period EMA 週期，通常為20
+ * @param atrPeriod ATR 週期，通常為10
+ * @param multiplier ATR 乘數，通常為2
+ * @returns 包含中軌、上軌和下軌的數據
+ */
+export function calculateKeltnerChannel(
+  high: number[],
+  low: number[],
+  close: number[],
+  period: number,
+  atrPeriod: number,
+  multiplier: number
+): { middle: number[]; upper: number[]; lower: number[] } {
+  const middle = calculateEMA(close, period);
+  const atr = calculateATR(high, low, close, atrPeriod);
+  
+  return {
+    middle,
+    upper: middle.map((value, i) => value + multiplier * atr[i]),
+    lower: middle.map((value, i) => value - multiplier * atr[i])
+  };
+}
+
+/**
+ * 計算唐奇安通道 (Donchian Channel)
+ * 上軌為週期內最高價、下軌為週期內最低價（含當根K棒）
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param period 週期，通常為20
+ * @returns 包含中軌、上軌和下軌的數據
+ */
+export function calculateDonchianChannel(
+  high: number[],
+  low: number[],
+  period: number
+): { middle: number[]; upper: number[]; lower: number[] } {
+  const upper = calculateExtreme(high, period, Math.max);
+  const lower = calculateExtreme(low, period, Math.min);
+  
+  return {
+    middle: upper.map((value, i) => (value + lower[i]) / 2),
+    upper,
+    lower
+  };
+}
+
+/**
+ * 計算拋物線轉向指標 (Parabolic SAR)
+ * 以第二根K棒收盤價相對第一根的漲跌決定初始趨勢；第 i 根的值為該K棒適用的停損反轉價
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param step 加速因子增量，通常為0.02
+ * @param maxStep 加速因子上限，通常為0.2
+ * @returns SAR數據陣列，第一根K棒為 NaN
+ */
+export function calculateParabolicSAR(
+  high: number[],
+  low: number[],
+  close: number[],
+  step: number,
+  maxStep: number
+): number[] {
+  const result: number[] = [NaN];
+  
+  if (close.length < 2) {
+    return result.slice(0, close.length);
+  }
+  
+  let isLong = close[1] >= close[0];
+  let sar = isLong ? low[0] : high[0];
+  let extreme = isLong ? high[0] : low[0];
+  let acceleration = step;
+  
+  for (let i = 1; i < close.length; i++) {
+    sar = sar + acceleration * (extreme - sar);
+    
+    // SAR 不得進入前兩根K棒的價格區間
+    if (isLong) {
+      sar = Math.min(sar, low[i - 1], i > 1 ? low[i - 2] : low[i - 1]);
+    } else {
+      sar = Math.max(sar, high[i - 1], i > 1 ? high[i - 2] : high[i - 1]);
+    }
+    
+    // 價格觸及 SAR 時反轉，新的 SAR 為前一段趨勢的極值
+    if (isLong ? low[i] < sar : high[i] > sar) {
+      isLong = !isLong;
+      sar = extreme;
+      extreme = isLong ? high[i] : low[i];
+      acceleration = step;
+    } else if (isLong ? high[i] > extreme : low[i] < extreme) {
+      extreme = isLong ? high[i] : low[i];
+      acceleration = Math.min(acceleration + step, maxStep);
+    }
+    
+    result.push(sar);
+  }
+  
+  return result;
+}
+
+/**
+ * 計算超級趨勢指標 (SuperTrend)
+ * 以 (最高價 + 最低價) / 2 加減 ATR 倍數作為上下軌，收盤價突破軌道時反轉趨勢
+ * @param high 最高價陣列
+ * @param low 最低價陣列
+ * @param close 收盤價陣列
+ * @param period ATR 週期，通常為10
+ * @param multiplier ATR 乘數，通常為3
+ * @returns 包含 SuperTrend 線與趨勢方向（1 為多頭、−1 為空頭，數據不足時為 NaN）的數據
+ */
+export function calculateSuperTrend(
+  high: number[],
+  low: number[],
+  close: number[],
+  period: number,
+  multiplier: number
+): { supertrend: number[]; direction: number[] } {
+  const atr = calculateATR(high, low, close, period);
+  const supertrend: number[] = [];
+  const direction: number[] = [];
+  let upperBand = NaN;
+  let lowerBand = NaN;
+  let trend = 1;
+  
+  for (let i = 0; i < close.length; i++) {
+    if (isNaN(atr[i])) {
+      // 數據不足一個週期時，填充NaN
+      supertrend.push(NaN);
+      direction.push(NaN);
+      continue;
+    }
+    
+    const median = (high[i] + low[i]) / 2;
+    const basicUpper = median + multiplier * atr[i];
+    const basicLower = median - multiplier * atr[i];
+    const prevClose = close[i - 1];
+    
+    // 軌道僅能朝趨勢方向移動，前一根收盤價突破軌道時重設
+    upperBand = isNaN(upperBand) || basicUpper < upperBand || prevClose > upperBand ? basicUpper : upperBand;
+    lowerBand = isNaN(lowerBand) || basicLower > lowerBand || prevClose < lowerBand ? basicLower : lowerBand;
+    
+    if (trend === 1 && close[i] < lowerBand) {
+      trend = -1;
+    } else if (trend === -1 && close[i] > upperBand) {
+      trend = 1;
+    }
     
-    upper.push(middle[i] + multiplier * stdDev);
-    lower.push(middle[i] - multiplier * stdDev);
+    supertrend.push(trend === 1 ? lowerBand : upperBand);
+    direction.push(trend);
   }
   
-  return { middle, upper, lower };
+  return { supertrend, direction };
 }
 
 /**
@@ -121,16 +789,17 @@ export function calculateBollingerBands(
  */
 export function processMarketData(marketData: MarketData) {
   const { close } = marketData;
+  const ind = IndicatorCache.getInstance();
   
-  // 計算常用技術指標
-  const sma5 = calculateSMA(close, 5);
-  const sma10 = calculateSMA(close, 10);
-  const sma20 = calculateSMA(close, 20);
-  const sma60 = calculateSMA(close, 60);
+  // 計算常用技術指標（與策略共用指標快取）
+  const sma5 = ind.sma(close, 5);
+  const sma10 = ind.sma(close, 10);
+  const sma20 = ind.sma(close, 20);
+  const sma60 = ind.sma(close, 60);
   
-  const rsi14 = calculateRSI(close, 14);
+  const rsi14 = ind.rsi(close, 14);
   
-  const bollingerBands = calculateBollingerBands(close, 20, 2);
+  const bollingerBands = ind.bollinger(close, 20, 2);
   
   return {
     ...marketData,
@@ -0,0 +1,195 @@
+import { MarketData } from './yahooFinance';
+import { BarInterval, getBarStart, getBarTradingDate, INTERVAL_MINUTES, isIntraday } from './tradingSessions';
+
+// 轉換週期單位
+export enum TimeframeUnit {
+  MINUTE = 'minute', // N 分鐘（僅日內數據）
+  HOUR = 'hour',     // N 小時（僅日內數據）
+  DAY = 'day',       // 交易日（僅日內數據）
+  WEEK = 'week',     // 週
+  MONTH = 'month'    // 月
+}
+
+// 轉換週期
+export interface Timeframe {
+  unit: TimeframeUnit;            // 週期單位
+  size?: number;                  // 分鐘或小時數（預設 1）
+}
+
+// 轉換後的市場數據
+export interface ResampledData extends MarketData {
+  startIndex: number[];           // 各K棒第一根原始K棒的索引
+  endIndex: number[];             // 各K棒最後一根原始K棒的索引
+  completedIndex: number[];       // 各原始K棒收盤時最近一根已完成K棒的索引（尚無時為 -1）
+}
+
+/**
+ * 獲取週期的代碼，用於快取
+ * @param timeframe 轉換週期
+ */
+export function getTimeframeKey(timeframe: Timeframe): string {
+  return `${timeframe.unit}:${timeframe.size ?? 1}`;
+}
+
+/**
+ * 獲取轉換週期對應的K棒週期
+ * @param timeframe 轉換週期
+ * @returns K棒週期，週線、月線或無對應週期時返回 undefined
+ */
+function getInterval(timeframe: Timeframe): BarInterval | undefined {
+  if (timeframe.unit === TimeframeUnit.DAY) {
+    return BarInterval.DAILY;
+  }
+
+  const minutes = (timeframe.size ?? 1) * (timeframe.unit === TimeframeUnit.HOUR ? 60 : 1);
+  return timeframe.unit === TimeframeUnit.MINUTE || timeframe.unit === TimeframeUnit.HOUR
+    ? (Object.keys(INTERVAL_MINUTES) as BarInterval[]).find(interval => INTERVAL_MINUTES[interval] === minutes)
+    : undefined;
+}
+
+/**
+ * 計算原始K棒所屬轉換K棒的分組代碼
+ * 日內週期自交易時段開始時間起算，不跨越時段；日以上週期依K棒所屬交易日分組
+ * @param data 原始市場數據
+ * @param index 原始K棒索引
+ * @param timeframe 轉換週期
+ */
+function getBucket(data: MarketData, index: number, timeframe: Timeframe): string {
+  const size = timeframe.size ?? 1;
+
+  switch (timeframe.unit) {
+    case TimeframeUnit.MINUTE:
+      return `${data.sessions?.[index]}:${getBarStart(data.timestamp[index], size)}`;
+    case TimeframeUnit.HOUR:
+      return `${data.sessions?.[index]}:${getBarStart(data.timestamp[index], size * 60)}`;
+    case TimeframeUnit.DAY:
+      return getBarTradingDate(data, index);
+    case TimeframeUnit.WEEK: {
+      // 以交易日所在週的星期一為代碼
+      const date = new Date(`${getBarTradingDate(data, index)}T00:00:00Z`);
+      date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+      return date.toISOString().slice(0, 10);
+    }
+    default:
+      return getBarTradingDate(data, index).slice(0, 7);
+  }
+}
+
+/**
+ * 將K棒轉換為較長週期
+ * 開盤價取第一根、收盤價與結算價取最後一根、高低價取極值、成交量加總；
+ * 轉換後K棒的時間戳記為第一根原始K棒的時間。
+ * 轉換K棒於其最後一根原始K棒收盤時視為完成，completedIndex 僅指向已完成的K棒，避免前視偏差
+ * @param data 原始市場數據
+ * @param timeframe 轉換週期
+ * @returns 轉換後的市場數據
+ */
+export function resample(data: MarketData, timeframe: Timeframe): ResampledData {
+  const isMinuteTarget = timeframe.unit === TimeframeUnit.MINUTE || timeframe.unit === TimeframeUnit.HOUR;
+
+  if ((isMinuteTarget || timeframe.unit === TimeframeUnit.DAY) && !isIntraday(data.interval)) {
+    throw new Error('日線數據僅能轉換為週線或月線');
+  }
+
+  const result: ResampledData = {
+    symbol: data.symbol,
+    timestamp: [],
+    open: [],
+    high: [],
+    low: [],
+    close: [],
+    volume: [],
+    settlement: data.settlement ? [] : undefined,
+    contracts: data.contracts ? [] : undefined,
+    interval: getInterval(timeframe),
+    sessions: isMinuteTarget && data.sessions ? [] : undefined,
+    startIndex: [],
+    endIndex: [],
+    completedIndex: []
+  };
+
+  let currentBucket: string | undefined;
+
+  for (let i = 0; i < data.timestamp.length; i++) {
+    const bucket = getBucket(data, i, timeframe);
+    const last = result.timestamp.length - 1;
+
+    if (bucket !== currentBucket) {
+      currentBucket = bucket;
+      result.timestamp.push(data.timestamp[i]);
+      result.open.push(data.open[i]);
+      result.high.push(data.high[i]);
+      result.low.push(data.low[i]);
+      result.close.push(data.close[i]);
+      result.volume.push(data.volume[i]);
+      result.settlement?.push(data.settlement![i]);
+      result.contracts?.push(data.contracts![i]);
+      result.sessions?.push(data.sessions![i]);
+      result.startIndex.push(i);
+      result.endIndex.push(i);
+      continue;
+    }
+
+    result.high[last] = Math.max(result.high[last], data.high[i]);
+    result.low[last] = Math.min(result.low[last], data.low[i]);
+    result.close[last] = data.close[i];
+    result.volume[last] += data.volume[i];
+    if (result.settlement) {
+      result.settlement[last] = data.settlement![i];
+    }
+    if (result.contracts) {
+      result.contracts[last] = data.contracts![i];
+    }
+    result.endIndex[last] = i;
+  }
+
+  // 計算各原始K棒收盤時最近一根已完成的轉換K棒
+  let completed = -1;
+  for (let i = 0; i < data.timestamp.length; i++) {
+    while (completed + 1 < result.endIndex.length && result.endIndex[completed + 1] <= i) {
+      completed++;
+    }
+    result.completedIndex.push(completed);
+  }
+
+  return result;
+}
+
+/**
+ * 多週期數據
+ * 依需要將原始K棒轉換為較長週期並快取，供策略讀取截至當前K棒已完成的較長週期K棒
+ */
+export class MultiTimeframeData {
+  private data: MarketData;
+  private cache: Map<string, ResampledData> = new Map();
+
+  constructor(data: MarketData) {
+    this.data = data;
+  }
+
+  /**
+   * 獲取轉換後的市場數據
+   * 包含尚未完成的最後一根K棒，策略應以 getCompletedIndex 取得可使用的範圍
+   * @param timeframe 轉換週期
+   * @returns 轉換後的市場數據
+   */
+  public get(timeframe: Timeframe): ResampledData {
+    const key = getTimeframeKey(timeframe);
+
+    if (!this.cache.has(key)) {
+      this.cache.set(key, resample(this.data, timeframe));
+    }
+
+    return this.cache.get(key)!;
+  }
+
+  /**
+   * 獲取原始K棒收盤時最近一根已完成的較長週期K棒索引
+   * @param timeframe 轉換週期
+   * @param index 原始K棒索引
+   * @returns 較長週期K棒索引，尚無已完成K棒時返回 -1
+   */
+  public getCompletedIndex(timeframe: Timeframe, index: number): number {
+    return this.get(timeframe).completedIndex[index] ?? -1;
+  }
+}
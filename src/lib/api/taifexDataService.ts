@@ -1,18 +1,35 @@
 import fs from 'fs';
 import path from 'path';
 import { MarketData } from './yahooFinance';
+import { buildContinuousContract, ContinuousContractOptions } from './continuousContract';
+import { BarInterval, formatTaipeiDate, getBarTradingDate, isIntraday, tagSessions } from './tradingSessions';
 
 export interface TaifexDailyData {
   date: string;
   contract: string;
+  deliveryMonth?: string;
+  session?: 'day' | 'night';
   open: number;
   high: number;
   low: number;
   close: number;
+  settlement?: number;
   volume: number;
   openInterest: number;
 }
 
+// 日內K棒（近月連續序列）
+export interface TaifexIntradayData {
+  datetime: string;               // K棒時間（台北時間，YYYY-MM-DD HH:mm）
+  contract: string;
+  deliveryMonth?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 export class TaifexDataService {
   private static instance: TaifexDataService;
   private dataDir: string;
@@ -34,16 +51,26 @@ export class TaifexDataService {
 
   /**
    * 讀取本地期貨數據
+   * 資料檔記錄到期月份時，依連續合約設置建立連續合約後再擷取日期範圍；
+   * 日內週期讀取對應週期的K棒資料檔
    * @param symbol 期貨代碼
    * @param startDate 開始日期
    * @param endDate 結束日期
+   * @param options 連續合約設置
+   * @param interval K棒週期（預設日線）
    * @returns 市場數據
    */
   public async getMarketData(
     symbol: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    options?: ContinuousContractOptions,
+    interval: BarInterval = BarInterval.DAILY
   ): Promise<MarketData> {
+    if (isIntraday(interval)) {
+      return this.getIntradayData(symbol, interval, startDate, endDate);
+    }
+
     try {
       // 讀取本地數據文件
       const dataFile = path.join(this.dataDir, `${symbol}.json`);
@@ -54,6 +81,12 @@ export class TaifexDataService {
 
       const rawData = JSON.parse(fs.readFileSync(dataFile, 'utf-8')) as TaifexDailyData[];
 
+      if (rawData.some(item => item.deliveryMonth)) {
+        // 以完整資料建立連續合約，確保回溯調整不受查詢期間影響
+        const { data } = buildContinuousContract(rawData, options);
+        return this.sliceMarketData({ ...data, symbol }, startDate, endDate);
+      }
+
       // 過濾日期範圍內的數據
       const filteredData = rawData.filter(item => {
         const date = new Date(item.date);
@@ -68,7 +101,9 @@ export class TaifexDataService {
         high: filteredData.map(item => item.high),
         low: filteredData.map(item => item.low),
         close: filteredData.map(item => item.close),
-        volume: filteredData.map(item => item.volume)
+        volume: filteredData.map(item => item.volume),
+        // 舊資料檔未記錄結算價時以收盤價代替
+        settlement: filteredData.map(item => item.settlement ?? item.close)
       };
 
       return marketData;
@@ -78,6 +113,90 @@ export class TaifexDataService {
     }
   }
 
+  /**
+   * 讀取本地日內K棒數據並標示交易時段
+   * 資料檔為已串接的近月連續序列，檔名為「代碼_週期.json」（如 TXFF_5m.json）
+   * @param symbol 期貨代碼
+   * @param interval K棒週期
+   * @param startDate 開始日期
+   * @param endDate 結束日期
+   * @returns 市場數據
+   */
+  private async getIntradayData(
+    symbol: string,
+    interval: BarInterval,
+    startDate: string,
+    endDate: string
+  ): Promise<MarketData> {
+    try {
+      const dataFile = path.join(this.dataDir, `${symbol}_${interval}.json`);
+
+      if (!fs.existsSync(dataFile)) {
+        throw new Error(`找不到期貨日內數據文件: ${dataFile}`);
+      }
+
+      const rawData = JSON.parse(fs.readFileSync(dataFile, 'utf-8')) as TaifexIntradayData[];
+      const timestamps = rawData.map(item => new Date(`${item.datetime.replace(' ', 'T')}:00+08:00`).getTime() / 1000);
+      const sessions = tagSessions(timestamps);
+
+      const marketData: MarketData = {
+        symbol,
+        interval,
+        timestamp: timestamps,
+        open: rawData.map(item => item.open),
+        high: rawData.map(item => item.high),
+        low: rawData.map(item => item.low),
+        close: rawData.map(item => item.close),
+        volume: rawData.map(item => item.volume),
+        contracts: rawData.some(item => item.deliveryMonth) ? rawData.map(item => item.deliveryMonth ?? '') : undefined,
+        sessions
+      };
+
+      return this.sliceMarketData(marketData, startDate, endDate);
+    } catch (error) {
+      console.error('讀取期貨日內數據時出錯:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 擷取日期範圍內的市場數據
+   * 日內K棒依所屬交易日擷取，盤後交易時段歸入下一個交易日
+   * @param data 市場數據
+   * @param startDate 開始日期
+   * @param endDate 結束日期
+   * @returns 日期範圍內的市場數據
+   */
+  private sliceMarketData(data: MarketData, startDate: string, endDate: string): MarketData {
+    const start = new Date(startDate).getTime() / 1000;
+    const end = new Date(endDate).getTime() / 1000;
+    const inRange = data.sessions
+      ? (i: number) => {
+          const date = getBarTradingDate(data, i);
+          return date >= formatTaipeiDate(start) && date <= formatTaipeiDate(end);
+        }
+      : (i: number) => data.timestamp[i] >= start && data.timestamp[i] <= end;
+    const indices = data.timestamp
+      .map((_, i) => (inRange(i) ? i : -1))
+      .filter(i => i !== -1);
+    const pick = <T>(values: T[] | undefined) => values ? indices.map(i => values[i]) : undefined;
+
+    return {
+      symbol: data.symbol,
+      interval: data.interval,
+      timestamp: pick(data.timestamp)!,
+      open: pick(data.open)!,
+      high: pick(data.high)!,
+      low: pick(data.low)!,
+      close: pick(data.close)!,
+      volume: pick(data.volume)!,
+      settlement: pick(data.settlement),
+      contracts: pick(data.contracts),
+      sessions: pick(data.sessions),
+      rolls: data.rolls?.filter(roll => roll.timestamp >= start && roll.timestamp <= end)
+    };
+  }
+
   /**
    * 保存期貨數據到本地文件
    * @param symbol 期貨代碼
@@ -93,4 +212,21 @@ export class TaifexDataService {
       throw error;
     }
   }
+
+  /**
+   * 保存期貨日內K棒數據到本地文件
+   * @param symbol 期貨代碼
+   * @param interval K棒週期
+   * @param data 日內K棒數據
+   */
+  public async saveIntradayData(symbol: string, interval: BarInterval, data: TaifexIntradayData[]): Promise<void> {
+    try {
+      const dataFile = path.join(this.dataDir, `${symbol}_${interval}.json`);
+      fs.writeFileSync(dataFile, JSON.stringify(data, null, 2));
+      console.log(`期貨日內數據已保存到: ${dataFile}`);
+    } catch (error) {
+      console.error('保存期貨日內數據時出錯:', error);
+      throw error;
+    }
+  }
 } 
\ No newline at end of file
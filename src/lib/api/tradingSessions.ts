@@ -0,0 +1,212 @@
+import type { MarketData } from './yahooFinance';
+
+// 交易時段
+export enum TradingSession {
+  DAY = 'day',     // 一般交易時段 08:45–13:45
+  NIGHT = 'night'  // 盤後交易時段 15:00–次日 05:00
+}
+
+// K棒週期
+export enum BarInterval {
+  MIN_1 = '1m',    // 1 分鐘
+  MIN_5 = '5m',    // 5 分鐘
+  MIN_15 = '15m',  // 15 分鐘
+  MIN_60 = '60m',  // 60 分鐘
+  DAILY = '1d'     // 日線
+}
+
+// 各K棒週期的分鐘數
+export const INTERVAL_MINUTES: Record<BarInterval, number> = {
+  [BarInterval.MIN_1]: 1,
+  [BarInterval.MIN_5]: 5,
+  [BarInterval.MIN_15]: 15,
+  [BarInterval.MIN_60]: 60,
+  [BarInterval.DAILY]: 24 * 60
+};
+
+// 台北時區與 UTC 的時差（秒），用於判斷交易日
+export const TAIPEI_OFFSET_SECONDS = 8 * 60 * 60;
+
+// 期交所各交易時段的起訖時間（台北時間，自當日 0 點起算的分鐘數）
+export const SESSION_HOURS: Record<TradingSession, { start: number; end: number }> = {
+  [TradingSession.DAY]: { start: 8 * 60 + 45, end: 13 * 60 + 45 },
+  [TradingSession.NIGHT]: { start: 15 * 60, end: 5 * 60 }
+};
+
+/**
+ * 判斷K棒週期是否為日內週期
+ * @param interval K棒週期
+ */
+export function isIntraday(interval: BarInterval | undefined): boolean {
+  return !!interval && interval !== BarInterval.DAILY;
+}
+
+/**
+ * 獲取時間戳記的台北時間分鐘數（自當日 0 點起算）
+ * @param timestamp 時間戳記（秒）
+ */
+function getTaipeiMinutes(timestamp: number): number {
+  const seconds = ((timestamp + TAIPEI_OFFSET_SECONDS) % 86400 + 86400) % 86400;
+  return Math.floor(seconds / 60);
+}
+
+/**
+ * 將時間戳記格式化為台北日期
+ * @param timestamp 時間戳記（秒）
+ * @returns 日期（YYYY-MM-DD）
+ */
+export function formatTaipeiDate(timestamp: number): string {
+  return new Date((timestamp + TAIPEI_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * 判斷日內K棒所屬的交易時段
+ * K棒時間可標示於開始或結束時間，故時段起訖皆包含在內
+ * @param timestamp K棒時間戳記（秒）
+ * @returns 交易時段，不在交易時間內時返回 undefined
+ */
+export function getSession(timestamp: number): TradingSession | undefined {
+  const minutes = getTaipeiMinutes(timestamp);
+  const day = SESSION_HOURS[TradingSession.DAY];
+  const night = SESSION_HOURS[TradingSession.NIGHT];
+
+  if (minutes >= day.start && minutes <= day.end) {
+    return TradingSession.DAY;
+  }
+
+  if (minutes >= night.start || minutes <= night.end) {
+    return TradingSession.NIGHT;
+  }
+
+  return undefined;
+}
+
+/**
+ * 計算K棒所屬的交易日
+ * 盤後交易時段屬於下一個營業日（未考慮國定假日）；日線或未標示時段的K棒以台北日期為交易日
+ * @param timestamp K棒時間戳記（秒）
+ * @param session 交易時段
+ * @returns 交易日（YYYY-MM-DD）
+ */
+export function getTradingDate(timestamp: number, session?: TradingSession): string {
+  if (session !== TradingSession.NIGHT) {
+    return formatTaipeiDate(timestamp);
+  }
+
+  // 跨午夜的K棒以時段開始當日計算
+  const startDay = getTaipeiMinutes(timestamp) <= SESSION_HOURS[TradingSession.NIGHT].end
+    ? timestamp - 86400
+    : timestamp;
+  const date = new Date((startDay + TAIPEI_OFFSET_SECONDS) * 1000);
+
+  // 順延至下一個星期一至星期五
+  do {
+    date.setUTCDate(date.getUTCDate() + 1);
+  } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 計算時間所屬日內K棒的開始時間
+ * K棒自交易時段開始時間起算（一般交易時段 08:45、盤後交易時段 15:00），
+ * 時段收盤的集合競價併入最後一根K棒
+ * @param timestamp 時間戳記（秒）
+ * @param intervalMinutes K棒分鐘數
+ * @returns K棒開始時間戳記（秒），不在交易時間內時以整分鐘計
+ */
+export function getBarStart(timestamp: number, intervalMinutes: number): number {
+  const session = getSession(timestamp);
+  const minuteStart = timestamp - ((timestamp % 60) + 60) % 60;
+
+  if (!session) {
+    return minuteStart;
+  }
+
+  const { start, end } = SESSION_HOURS[session];
+  const minutes = getTaipeiMinutes(timestamp);
+  const length = (end - start + 24 * 60) % (24 * 60);
+  const offset = (minutes - start + 24 * 60) % (24 * 60);
+  const bucket = Math.floor(Math.min(offset, length - 1) / intervalMinutes) * intervalMinutes;
+
+  return minuteStart - (offset - bucket) * 60;
+}
+
+/**
+ * 為日內K棒標示交易時段
+ * @param timestamps K棒時間戳記（秒）
+ * @returns 各K棒的交易時段，不在交易時間內的K棒歸入一般交易時段
+ */
+export function tagSessions(timestamps: number[]): TradingSession[] {
+  return timestamps.map(timestamp => getSession(timestamp) ?? TradingSession.DAY);
+}
+
+/**
+ * 獲取K棒所屬的交易日
+ * @param data 市場數據
+ * @param index K棒索引
+ * @returns 交易日（YYYY-MM-DD）
+ */
+export function getBarTradingDate(data: MarketData, index: number): string {
+  return getTradingDate(data.timestamp[index], data.sessions?.[index]);
+}
+
+/**
+ * 判斷K棒是否為交易時段的最後一根K棒
+ * 日線或未標示時段的數據每根K棒即為一個交易時段
+ * @param data 市場數據
+ * @param index K棒索引
+ */
+export function isSessionEnd(data: MarketData, index: number): boolean {
+  if (index >= data.timestamp.length - 1) {
+    return true;
+  }
+
+  return data.sessions?.[index] !== data.sessions?.[index + 1] ||
+    getBarTradingDate(data, index) !== getBarTradingDate(data, index + 1);
+}
+
+/**
+ * 判斷K棒是否為交易日的最後一根K棒
+ * 盤後交易時段屬於下一個交易日，故一般交易時段收盤才是交易日結束
+ * @param data 市場數據
+ * @param index K棒索引
+ */
+export function isTradingDateEnd(data: MarketData, index: number): boolean {
+  return index >= data.timestamp.length - 1 ||
+    getBarTradingDate(data, index) !== getBarTradingDate(data, index + 1);
+}
+
+/**
+ * 僅保留指定交易時段的K棒
+ * 未標示時段的數據原樣返回
+ * @param data 市場數據
+ * @param sessions 保留的交易時段
+ * @returns 過濾後的市場數據
+ */
+export function filterSessions(data: MarketData, sessions: TradingSession[]): MarketData {
+  if (!data.sessions) {
+    return data;
+  }
+
+  const indices = data.sessions
+    .map((session, i) => (sessions.includes(session) ? i : -1))
+    .filter(i => i !== -1);
+  const pick = <T>(values: T[] | undefined) => values ? indices.map(i => values[i]) : undefined;
+  const timestamps = new Set(pick(data.timestamp));
+
+  return {
+    ...data,
+    timestamp: pick(data.timestamp)!,
+    open: pick(data.open)!,
+    high: pick(data.high)!,
+    low: pick(data.low)!,
+    close: pick(data.close)!,
+    volume: pick(data.volume)!,
+    adjclose: pick(data.adjclose),
+    settlement: pick(data.settlement),
+    contracts: pick(data.contracts),
+    sessions: pick(data.sessions),
+    rolls: data.rolls?.filter(roll => timestamps.has(roll.timestamp))
+  };
+}
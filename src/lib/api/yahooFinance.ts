@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { RollEvent } from './continuousContract';
+import type { BarInterval, TradingSession } from './tradingSessions';
 
 export interface MarketData {
   symbol: string;
@@ -9,6 +11,11 @@ export interface MarketData {
   close: number[];
   volume: number[];
   adjclose?: number[];
+  settlement?: number[];
+  contracts?: string[];
+  rolls?: RollEvent[];
+  interval?: BarInterval;
+  sessions?: TradingSession[];
 }
 
 export interface MarketMeta {
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContractRegistry, InstrumentType } from './contracts';
+
+const registry = ContractRegistry.getInstance();
+
+test('期貨代碼、資料檔代碼與含到期月份的合約代碼對應至合約規格', () => {
+  const cases: [string, string][] = [
+    ['TX', 'TX'],
+    ['TXF', 'TX'],
+    ['TXFF', 'TX'],
+    ['txf', 'TX'],
+    ['TXF202406', 'TX'],
+    ['TXFF4', 'TX'],
+    ['MTX', 'MTX'],
+    ['MXF', 'MTX'],
+    ['MXFF', 'MTX'],
+    ['MXF202406', 'MTX'],
+    ['TMF', 'TMF'],
+    ['TMFF', 'TMF']
+  ];
+
+  cases.forEach(([symbol, root]) => {
+    const spec = registry.getContract(symbol);
+    assert.equal(spec.instrumentType, InstrumentType.FUTURES, symbol);
+    assert.equal(spec.symbol, root, symbol);
+  });
+});
+
+test('以期貨代碼開頭的股票代碼以股票規格處理', () => {
+  ['TXN', 'TXT', 'TXG', 'TMFX', 'MXFA', 'TXF2024', '2330.TW', '0050.TW'].forEach(symbol => {
+    const spec = registry.getContract(symbol);
+    assert.equal(spec.instrumentType, InstrumentType.STOCK, symbol);
+    assert.equal(spec.symbol, symbol);
+    assert.equal(spec.multiplier, 1);
+  });
+});
+
+test('市場數據以相同的合約代碼判斷是否為期貨', () => {
+  ['TX', 'TXFF', 'MXFF', 'TMF', 'TXF202406'].forEach(symbol => assert.ok(registry.isFutures(symbol), symbol));
+  ['TXN', 'TXT', 'TXG', '2330.TW', '0050'].forEach(symbol => assert.ok(!registry.isFutures(symbol), symbol));
+});
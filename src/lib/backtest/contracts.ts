@@ -0,0 +1,208 @@
+/**
+ * 商品合約規格定義
+ * 期貨以「點數 × 每點價值」計算損益，並以保證金計算可交易口數
+ */
+
+// 商品類型
+export enum InstrumentType {
+  FUTURES = 'futures', // 期貨
+  STOCK = 'stock'      // 股票/ETF
+}
+
+// 價格區間跳動點
+export interface TickBand {
+  below: number;                  // 價格上限（不含）
+  tickSize: number;               // 該區間的跳動點
+}
+
+// 合約規格
+export interface ContractSpec {
+  symbol: string;                 // 商品代碼
+  name: string;                   // 商品名稱
+  instrumentType: InstrumentType; // 商品類型
+  multiplier: number;             // 每點價值（股票為 1）
+  tickSize: number;               // 最小跳動點
+  tickBands?: TickBand[];         // 依價格區間的跳動點（股票），最後一個區間以外使用 tickSize
+  initialMargin: number;          // 原始保證金（每口，股票為 0 表示全額交割）
+  maintenanceMargin: number;      // 維持保證金（每口）
+  currency: string;               // 計價幣別
+}
+
+/**
+ * 台灣期交所主要指數期貨規格
+ * 保證金依期交所公告金額設定，公告調整時需同步更新
+ */
+const BUILTIN_CONTRACTS: ContractSpec[] = [
+  {
+    symbol: 'TX',
+    name: '臺股期貨',
+    instrumentType: InstrumentType.FUTURES,
+    multiplier: 200,
+    tickSize: 1,
+    initialMargin: 184000,
+    maintenanceMargin: 141000,
+    currency: 'TWD'
+  },
+  {
+    symbol: 'MTX',
+    name: '小型臺指期貨',
+    instrumentType: InstrumentType.FUTURES,
+    multiplier: 50,
+    tickSize: 1,
+    initialMargin: 46000,
+    maintenanceMargin: 35250,
+    currency: 'TWD'
+  },
+  {
+    symbol: 'TMF',
+    name: '微型臺指期貨',
+    instrumentType: InstrumentType.FUTURES,
+    multiplier: 10,
+    tickSize: 1,
+    initialMargin: 9200,
+    maintenanceMargin: 7050,
+    currency: 'TWD'
+  }
+];
+
+/**
+ * 期貨商品代碼對應的合約代碼
+ * 代碼可加上本地資料檔後綴 F（如 TXFF）、到期年月（如 TXF202406）或期交所月份代碼（如 TXFF4），
+ * 須完全符合才視為期貨，避免 TXN 等股票代碼被誤認
+ */
+const CONTRACT_CODE_PATTERNS: { pattern: RegExp; root: string }[] = [
+  { pattern: /^(TX|TXF)(F|\d{6}|[A-L]\d)?$/, root: 'TX' },
+  { pattern: /^(MTX|MXF)(F|\d{6}|[A-L]\d)?$/, root: 'MTX' },
+  { pattern: /^TMF(F|\d{6}|[A-L]\d)?$/, root: 'TMF' }
+];
+
+/**
+ * 臺灣證券交易所股票升降單位
+ */
+const TW_STOCK_TICK_BANDS: TickBand[] = [
+  { below: 10, tickSize: 0.01 },
+  { below: 50, tickSize: 0.05 },
+  { below: 100, tickSize: 0.1 },
+  { below: 500, tickSize: 0.5 },
+  { below: 1000, tickSize: 1 }
+];
+
+/**
+ * 臺灣證券交易所 ETF 升降單位
+ */
+const TW_ETF_TICK_BANDS: TickBand[] = [
+  { below: 50, tickSize: 0.01 }
+];
+
+/**
+ * 獲取指定價格的跳動點
+ * @param spec 合約規格
+ * @param price 價格
+ * @returns 跳動點
+ */
+export function getTickSize(spec: ContractSpec, price: number): number {
+  const band = spec.tickBands?.find(b => price < b.below);
+  return band ? band.tickSize : spec.tickSize;
+}
+
+/**
+ * 將價格四捨五入至跳動點
+ * @param spec 合約規格
+ * @param price 價格
+ * @returns 符合跳動點的價格
+ */
+export function roundToTick(spec: ContractSpec, price: number): number {
+  const tickSize = getTickSize(spec, price);
+  return Math.round(price / tickSize) * tickSize;
+}
+
+/**
+ * 合約規格註冊表
+ * 依商品代碼查詢合約規格，查無期貨規格時視為股票處理
+ */
+export class ContractRegistry {
+  private static instance: ContractRegistry;
+  private contracts: Map<string, ContractSpec> = new Map();
+
+  private constructor() {
+    BUILTIN_CONTRACTS.forEach(spec => this.registerContract(spec));
+  }
+
+  /**
+   * 獲取合約規格註冊表實例（單例模式）
+   */
+  public static getInstance(): ContractRegistry {
+    if (!ContractRegistry.instance) {
+      ContractRegistry.instance = new ContractRegistry();
+    }
+    return ContractRegistry.instance;
+  }
+
+  /**
+   * 註冊合約規格
+   * @param spec 合約規格
+   */
+  public registerContract(spec: ContractSpec): void {
+    this.contracts.set(spec.symbol, spec);
+  }
+
+  /**
+   * 獲取所有合約規格
+   * @returns 所有合約規格的陣列
+   */
+  public getAllContracts(): ContractSpec[] {
+    return Array.from(this.contracts.values());
+  }
+
+  /**
+   * 根據交易標的獲取合約規格
+   * 支援期交所代碼（TXF、MXF、TMF）、本地資料檔代碼（如 TXFF）及含到期月份的合約代碼（如 TXF202406）
+   * @param symbol 交易標的
+   * @returns 合約規格
+   */
+  public getContract(symbol: string): ContractSpec {
+    const root = this.resolveRoot(symbol);
+    const spec = root ? this.contracts.get(root) : undefined;
+
+    if (spec) {
+      return spec;
+    }
+
+    // 非期貨商品以股票規格處理：每股計價、全額交割，ETF（代碼 00 開頭）適用不同升降單位
+    const isETF = symbol.startsWith('00');
+    return {
+      symbol,
+      name: symbol,
+      instrumentType: InstrumentType.STOCK,
+      multiplier: 1,
+      tickSize: isETF ? 0.05 : 5,
+      tickBands: isETF ? TW_ETF_TICK_BANDS : TW_STOCK_TICK_BANDS,
+      initialMargin: 0,
+      maintenanceMargin: 0,
+      currency: 'TWD'
+    };
+  }
+
+  /**
+   * 判斷交易標的是否為期貨，辨識方式與 getContract 相同
+   * @param symbol 交易標的
+   */
+  public isFutures(symbol: string): boolean {
+    return this.getContract(symbol).instrumentType === InstrumentType.FUTURES;
+  }
+
+  /**
+   * 將交易標的轉換為合約代碼
+   * @param symbol 交易標的
+   * @returns 合約代碼，無法辨識時返回 undefined
+   */
+  private resolveRoot(symbol: string): string | undefined {
+    const upper = symbol.toUpperCase();
+
+    if (this.contracts.has(upper)) {
+      return upper;
+    }
+
+    return CONTRACT_CODE_PATTERNS.find(({ pattern }) => pattern.test(upper))?.root;
+  }
+}
@@ -0,0 +1,153 @@
+import { ContractSpec, InstrumentType } from './contracts';
+import { CostModelSettings, CostPreset, TradeDirection } from './types';
+
+// 交易成本費率
+export interface CostRates {
+  commissionRate: number;         // 手續費率 (% 成交金額)
+  perContractFee: number;         // 每口/每筆固定手續費
+  minCommission: number;          // 最低手續費
+  taxRate: number;                // 交易稅率 (% 成交金額)
+  taxOnSellOnly: boolean;         // 是否僅賣出課稅
+}
+
+// 單筆成交的交易成本
+export interface TransactionCost {
+  commission: number;             // 手續費
+  tax: number;                    // 交易稅
+}
+
+/**
+ * 交易成本預設值
+ * 期貨手續費為一般券商每口單邊報價，期貨交易稅為契約金額 0.002%（買賣雙邊課徵）；
+ * 股票手續費 0.1425%、最低 20 元，證券交易稅僅於賣出時課徵（股票 0.3%、ETF 0.1%）
+ */
+export const COST_PRESETS: Record<Exclude<CostPreset, CostPreset.AUTO | CostPreset.CUSTOM>, CostRates> = {
+  [CostPreset.TX]: {
+    commissionRate: 0,
+    perContractFee: 50,
+    minCommission: 0,
+    taxRate: 0.002,
+    taxOnSellOnly: false
+  },
+  [CostPreset.MTX]: {
+    commissionRate: 0,
+    perContractFee: 25,
+    minCommission: 0,
+    taxRate: 0.002,
+    taxOnSellOnly: false
+  },
+  [CostPreset.TMF]: {
+    commissionRate: 0,
+    perContractFee: 12,
+    minCommission: 0,
+    taxRate: 0.002,
+    taxOnSellOnly: false
+  },
+  [CostPreset.TW_STOCK]: {
+    commissionRate: 0.1425,
+    perContractFee: 0,
+    minCommission: 20,
+    taxRate: 0.3,
+    taxOnSellOnly: true
+  },
+  [CostPreset.TW_ETF]: {
+    commissionRate: 0.1425,
+    perContractFee: 0,
+    minCommission: 20,
+    taxRate: 0.1,
+    taxOnSellOnly: true
+  }
+};
+
+/**
+ * 依合約規格自動選擇交易成本預設值
+ * @param contract 合約規格
+ * @returns 預設值
+ */
+export function resolveAutoPreset(contract: ContractSpec): CostPreset {
+  if (contract.instrumentType === InstrumentType.FUTURES) {
+    switch (contract.symbol) {
+      case 'MTX':
+        return CostPreset.MTX;
+      case 'TMF':
+        return CostPreset.TMF;
+      default:
+        return CostPreset.TX;
+    }
+  }
+
+  // 臺灣 ETF 代碼以 00 開頭
+  return contract.symbol.startsWith('00') ? CostPreset.TW_ETF : CostPreset.TW_STOCK;
+}
+
+/**
+ * 交易成本模型
+ * 依費率計算每筆成交的手續費與交易稅
+ */
+export class CostModel {
+  readonly preset: CostPreset;
+  readonly rates: CostRates;
+
+  constructor(preset: CostPreset, rates: CostRates) {
+    this.preset = preset;
+    this.rates = rates;
+  }
+
+  /**
+   * 計算單筆成交的交易成本
+   * @param direction 成交方向（SHORT 為賣出）
+   * @param price 成交價格
+   * @param quantity 成交數量
+   * @param multiplier 每點價值
+   * @returns 手續費與交易稅
+   */
+  public calculate(
+    direction: TradeDirection,
+    price: number,
+    quantity: number,
+    multiplier: number
+  ): TransactionCost {
+    const value = price * multiplier * quantity;
+    const isSell = direction === TradeDirection.SHORT;
+
+    const commission = Math.max(
+      value * this.rates.commissionRate / 100 + this.rates.perContractFee * quantity,
+      this.rates.minCommission
+    );
+    const tax = !this.rates.taxOnSellOnly || isSell
+      ? value * this.rates.taxRate / 100
+      : 0;
+
+    return { commission, tax };
+  }
+}
+
+/**
+ * 依設置建立交易成本模型
+ * 未設置時沿用回測設置的手續費率，不計交易稅
+ * @param settings 交易成本設置
+ * @param contract 合約規格
+ * @param commissionRate 回測設置的手續費率 (%)
+ * @returns 交易成本模型
+ */
+export function createCostModel(
+  settings: CostModelSettings | undefined,
+  contract: ContractSpec,
+  commissionRate: number
+): CostModel {
+  if (!settings || settings.preset === CostPreset.CUSTOM) {
+    return new CostModel(CostPreset.CUSTOM, {
+      commissionRate: settings?.commissionRate ?? commissionRate,
+      perContractFee: settings?.perContractFee ?? 0,
+      minCommission: settings?.minCommission ?? 0,
+      taxRate: settings?.taxRate ?? 0,
+      taxOnSellOnly: settings?.taxOnSellOnly ?? false
+    });
+  }
+
+  const preset = settings.preset === CostPreset.AUTO
+    ? resolveAutoPreset(contract)
+    : settings.preset;
+
+  return new CostModel(preset, COST_PRESETS[preset as keyof typeof COST_PRESETS]);
+}
@@ -0,0 +1,282 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MarketData } from '../api/yahooFinance';
+import { TradingSession } from '../api/tradingSessions';
+import { BacktestEngine } from './engine';
+import {
+  BacktestResult,
+  BacktestSettings,
+  ExitReason,
+  FillModel,
+  Order,
+  OrderRequest,
+  OrderStatus,
+  OrderType,
+  TimeInForce,
+  TradeDirection
+} from './types';
+
+// K棒的開高低收
+type Bar = [number, number, number, number];
+
+const baseSettings: BacktestSettings = {
+  symbol: 'TXFF',
+  startDate: new Date('2024-01-01').getTime(),
+  endDate: new Date('2024-12-31').getTime(),
+  initialCapital: 1000000,
+  positionSize: 100,
+  commissionRate: 0,
+  strategyId: 'test',
+  strategyParams: {}
+};
+
+/**
+ * 建立逐日的市場數據，每根K棒為一個交易時段
+ * @param bars 各K棒的開高低收
+ * @param volume 各K棒的成交量
+ */
+function createDailyData(bars: Bar[], volume = 1000): MarketData {
+  return {
+    symbol: 'TXFF',
+    // 台北時間 13:45 收盤
+    timestamp: bars.map((_, i) => Date.UTC(2024, 0, 2 + i, 5, 45) / 1000),
+    open: bars.map(bar => bar[0]),
+    high: bars.map(bar => bar[1]),
+    low: bars.map(bar => bar[2]),
+    close: bars.map(bar => bar[3]),
+    volume: bars.map(() => volume)
+  };
+}
+
+/**
+ * 建立同一個一般交易時段內的 5 分鐘K棒
+ * @param bars 各K棒的開高低收
+ */
+function createIntradayData(bars: Bar[]): MarketData {
+  return {
+    ...createDailyData(bars),
+    // 台北時間 08:50 起每 5 分鐘
+    timestamp: bars.map((_, i) => Date.UTC(2024, 0, 2, 0, 50 + i * 5) / 1000),
+    sessions: bars.map(() => TradingSession.DAY)
+  };
+}
+
+/**
+ * 於指定K棒收盤送出委託並執行回測
+ * @param data 市場數據
+ * @param requests 以K棒索引為鍵的委託請求
+ * @param settings 覆寫的回測設置
+ */
+function runOrders(
+  data: MarketData,
+  requests: Record<number, OrderRequest[]>,
+  settings: Partial<BacktestSettings> = {}
+): BacktestResult {
+  const engine = new BacktestEngine({ ...baseSettings, ...settings }, data);
+  return engine.runStrategy({
+    onBar: context => {
+      requests[context.index]?.forEach(request => context.broker.submitOrder(request));
+    }
+  });
+}
+
+/**
+ * 策略送出的委託（不含回測結束平倉的委託）
+ */
+function strategyOrders(result: BacktestResult): Order[] {
+  return result.orders.filter(order => order.exitReason === ExitReason.ORDER);
+}
+
+const buyLimit = (price: number, timeInForce?: TimeInForce): OrderRequest => ({
+  type: OrderType.LIMIT,
+  direction: TradeDirection.LONG,
+  quantity: 1,
+  price,
+  timeInForce
+});
+
+test('限價單開盤跳空越過委託價時以開盤價成交，盤中觸價時以委託價成交', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [19900, 19950, 19850, 19900],
+    [20000, 20050, 19800, 19900]
+  ]);
+  const [gap, touch] = strategyOrders(runOrders(data, { 0: [buyLimit(19950)], 1: [buyLimit(19820)] }));
+
+  assert.equal(gap.status, OrderStatus.FILLED);
+  assert.equal(gap.filledPrice, 19900);
+  assert.equal(gap.filledAt, data.timestamp[1]);
+  assert.equal(touch.status, OrderStatus.FILLED);
+  assert.equal(touch.filledPrice, 19820);
+});
+
+test('停損單於最高價越過停損價時觸發，跳空時以開盤價成交', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [20000, 20120, 19990, 20100],
+    [20300, 20350, 20250, 20300]
+  ]);
+  const stop = (price: number): OrderRequest => ({ type: OrderType.STOP, direction: TradeDirection.LONG, quantity: 1, price });
+  const [touch, gap] = strategyOrders(runOrders(data, { 0: [stop(20100)], 1: [stop(20200)] }));
+
+  assert.equal(touch.filledPrice, 20100);
+  assert.equal(touch.filledAt, data.timestamp[1]);
+  assert.equal(gap.filledPrice, 20300);
+  assert.equal(gap.filledAt, data.timestamp[2]);
+});
+
+test('價格未觸及停損價時停損單不成交，於時段結束失效', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [20000, 20080, 19990, 20050]
+  ]);
+  const [order] = strategyOrders(runOrders(data, {
+    0: [{ type: OrderType.STOP, direction: TradeDirection.SHORT, quantity: 1, price: 19900 }]
+  }));
+
+  assert.equal(order.status, OrderStatus.CANCELED);
+  assert.equal(order.reason, 'ROD 委託到期');
+});
+
+test('ROD 委託於生效的交易時段內持續撮合，時段結束仍未成交則失效', () => {
+  const bars: Bar[] = [
+    [20000, 20010, 19990, 20000],
+    [20000, 20010, 19980, 19990],
+    [19990, 19995, 19960, 19970],
+    [19970, 19990, 19940, 19950]
+  ];
+  const data = createIntradayData(bars);
+  const [filled, expired] = strategyOrders(runOrders(data, { 0: [buyLimit(19960), buyLimit(19900)] }));
+
+  assert.equal(filled.status, OrderStatus.FILLED);
+  assert.equal(filled.filledPrice, 19960);
+  assert.equal(filled.filledAt, data.timestamp[2]);
+  assert.equal(expired.status, OrderStatus.CANCELED);
+  assert.equal(expired.reason, 'ROD 委託到期');
+});
+
+test('IOC/FOK 委託僅以開盤價撮合，無法成交即取消', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [20000, 20050, 19900, 20000]
+  ]);
+  const orders = strategyOrders(runOrders(data, {
+    0: [buyLimit(19950, TimeInForce.IOC), buyLimit(19950, TimeInForce.FOK), buyLimit(20000, TimeInForce.IOC)]
+  }));
+
+  assert.deepEqual(orders.map(order => [order.timeInForce, order.status, order.reason]), [
+    [TimeInForce.IOC, OrderStatus.CANCELED, '無法立即成交'],
+    [TimeInForce.FOK, OrderStatus.CANCELED, '無法立即成交'],
+    [TimeInForce.IOC, OrderStatus.FILLED, undefined]
+  ]);
+  assert.equal(orders[2].filledPrice, 20000);
+});
+
+test('收盤成交模式下無法以收盤價成交的 IOC 委託立即取消，ROD 委託進入委託簿', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [19950, 19980, 19900, 19950]
+  ]);
+  const [ioc, rod] = strategyOrders(runOrders(data, {
+    0: [buyLimit(19960, TimeInForce.IOC), buyLimit(19960)]
+  }, { fillModel: FillModel.SAME_CLOSE }));
+
+  assert.equal(ioc.status, OrderStatus.CANCELED);
+  assert.equal(ioc.closedAt, data.timestamp[0]);
+  assert.equal(rod.status, OrderStatus.FILLED);
+  assert.equal(rod.filledPrice, 19950);
+});
+
+test('超過成交量參與率上限時 IOC 委託部分成交，FOK 委託拒絕', () => {
+  const data = createDailyData([
+    [20000, 20050, 19950, 20000],
+    [20000, 20050, 19950, 20000]
+  ], 20);
+  const [ioc, fok] = strategyOrders(runOrders(data, {
+    0: [{ ...buyLimit(20000, TimeInForce.IOC), quantity: 5 }, { ...buyLimit(20000, TimeInForce.FOK), quantity: 5 }]
+  }, { slippageModel: { ticks: 0, participationCap: 10 } }));
+
+  assert.equal(ioc.status, OrderStatus.FILLED);
+  assert.equal(ioc.quantity, 2);
+  assert.equal(fok.status, OrderStatus.REJECTED);
+  assert.equal(fok.reason, '超過成交量參與率上限 10%');
+});
+
+/**
+ * 以 20 萬資金於第一根K棒收盤買進一口臺股期貨（原始保證金 184,000、維持保證金 141,000），
+ * 於下一根K棒開盤以 20,000 成交
+ * @param bars 第三根K棒起的開高低收
+ * @param settings 覆寫的回測設置
+ */
+function runMarginScenario(bars: Bar[], settings: Partial<BacktestSettings> = {}): { data: MarketData; result: BacktestResult } {
+  const data = createDailyData([
+    [20000, 20000, 20000, 20000],
+    [20000, 20000, 20000, 20000],
+    ...bars
+  ]);
+  const result = runOrders(data, {
+    0: [{ type: OrderType.MARKET, direction: TradeDirection.LONG, quantity: 1 }]
+  }, { initialCapital: 200000, ...settings });
+  return { data, result };
+}
+
+test('結算後權益低於維持保證金時發出追繳，逾期未回補於下一根K棒開盤強制平倉', () => {
+  // 結算價 19,700 時權益 140,000，低於維持保證金
+  const { data, result } = runMarginScenario([
+    [19900, 19900, 19700, 19700],
+    [19700, 19750, 19650, 19700],
+    [19650, 19700, 19600, 19650]
+  ]);
+
+  assert.equal(result.marginCalls.length, 1);
+  const [call] = result.marginCalls;
+  assert.equal(call.timestamp, data.timestamp[2]);
+  assert.equal(call.equity, 140000);
+  assert.equal(call.deficit, 184000 - 140000);
+  assert.equal(call.liquidatedAt, data.timestamp[4]);
+
+  assert.equal(result.trades.length, 1);
+  assert.equal(result.trades[0].exitReason, ExitReason.MARGIN_CALL);
+  assert.equal(result.trades[0].exitPrice, 19650);
+  assert.equal(result.trades[0].exitTime, data.timestamp[4]);
+});
+
+test('追繳期限內權益回補至原始保證金時解除追繳', () => {
+  const { data, result } = runMarginScenario([
+    [19900, 19900, 19700, 19700],
+    [19700, 20000, 19700, 20000],
+    [20000, 20000, 20000, 20000]
+  ]);
+
+  assert.equal(result.marginCalls.length, 1);
+  assert.equal(result.marginCalls[0].resolvedAt, data.timestamp[3]);
+  assert.equal(result.marginCalls[0].liquidatedAt, undefined);
+  assert.equal(result.trades[0].exitReason, ExitReason.END_OF_BACKTEST);
+});
+
+test('盤中風險指標低於代為沖銷門檻時以觸及門檻的價格立即平倉', () => {
+  // 權益低於原始保證金的 25%（46,000）需虧損 154,000，即跌至 19,230
+  const { data, result } = runMarginScenario([
+    [19900, 19950, 19000, 19100],
+    [19100, 19200, 19000, 19100]
+  ]);
+
+  assert.equal(result.trades[0].exitReason, ExitReason.MARGIN_CALL);
+  assert.equal(result.trades[0].exitPrice, 19230);
+  assert.equal(result.trades[0].exitTime, data.timestamp[2]);
+  assert.equal(result.marginCalls[0].liquidatedAt, data.timestamp[2]);
+});
+
+test('開盤即低於代為沖銷門檻時以開盤價平倉，停用門檻時不平倉', () => {
+  const bars: Bar[] = [
+    [19000, 19100, 18900, 19000],
+    [19000, 19100, 18900, 19000]
+  ];
+  const { result } = runMarginScenario(bars);
+  assert.equal(result.trades[0].exitReason, ExitReason.MARGIN_CALL);
+  assert.equal(result.trades[0].exitPrice, 19000);
+
+  const disabled = runMarginScenario(bars, { margin: { liquidationRatio: 0, callDeadlineDays: 5 } }).result;
+  assert.equal(disabled.trades[0].exitReason, ExitReason.END_OF_BACKTEST);
+  assert.equal(disabled.marginCalls[0].liquidatedAt, undefined);
+});
@@ -5,41 +5,140 @@ import {
   Order, 
   OrderType, 
   OrderStatus, 
+  OrderRequest,
+  OrderBroker,
+  TimeInForce,
+  FillModel,
+  ExitReason,
+  ExitRules,
+  SessionFilter,
+  SizingModel,
   TradeDirection, 
   Position, 
   EquityPoint,
   DrawdownPoint,
+  MarginCall,
+  PortfolioContext,
+  StrategyContext,
+  StrategyEventHandler,
+  StrategyRunContext,
+  SymbolContribution,
   Performance
 } from './types';
+import { ContractRegistry, ContractSpec, InstrumentType, roundToTick } from './contracts';
+import { applyExitLevels, checkExit, DEFAULT_ATR_PERIOD, requiresATR, resolveDistance, updateExtremePrice } from './exitRules';
+import { createPositionSizer, PositionSizer } from './sizing';
+import { CostModel, createCostModel } from './costs';
+import { calculateParticipation, estimateSlippage, percentSlippage } from './slippage';
+import {
+  calculateLiquidationPrice,
+  calculateRiskIndicator,
+  calculateVariation,
+  DEFAULT_LIQUIDATION_RATIO,
+  DEFAULT_MARGIN_CALL_DEADLINE,
+  isMarginTraded,
+  settlePosition
+} from './margin';
+import { calculateCorrelationMatrix } from './portfolio';
+import { IndicatorCache } from '../api/indicatorCache';
 import { v4 as uuidv4 } from 'uuid';
 import { MarketData } from '../api/yahooFinance';
+import { RollEvent } from '../api/continuousContract';
+import { MultiTimeframeData } from '../api/resampler';
+import {
+  filterSessions,
+  getBarTradingDate,
+  isSessionEnd,
+  isTradingDateEnd,
+  TradingSession
+} from '../api/tradingSessions';
+
+// 單一標的的回測狀態
+interface Instrument {
+  symbol: string;                 // 交易標的
+  marketData: MarketData;         // 市場數據
+  contract: ContractSpec;         // 合約規格
+  sizer: PositionSizer;           // 倉位計算器
+  costModel: CostModel;           // 交易成本模型
+  atr: number[];                  // 出場規則使用的 ATR
+  rolls: Map<number, RollEvent>;  // 轉倉事件（依時間戳記）
+  barIndex: Map<number, number>;  // 時間戳記對應的K棒索引
+  timeframes: MultiTimeframeData; // 多週期數據
+  index: number;                  // 目前K棒索引（尚無K棒時為 -1）
+  pendingSignal?: TradeDirection; // 待下一根K棒執行的信號
+  broker: OrderBroker;            // 綁定此標的的下單介面
+  runContext?: StrategyRunContext; // 事件驅動策略的執行上下文
+}
+
+/**
+ * 判斷傳入的是單一標的市場數據或各標的市場數據
+ * @param data 市場數據
+ */
+function isMarketData(data: MarketData | Record<string, MarketData>): data is MarketData {
+  return Array.isArray((data as MarketData).timestamp);
+}
 
 /**
  * 回測引擎類
- * 負責執行回測、處理訂單、管理倉位和計算績效
+ * 負責執行回測、處理訂單、管理倉位和計算績效；
+ * 傳入多個標的時以共同時間軸進行組合回測，共用資金與保證金
  */
 export class BacktestEngine {
   private settings: BacktestSettings;
-  private marketData: MarketData;
-  private currentIndex: number = 0;
+  private instruments: Map<string, Instrument> = new Map();
+  private current: Instrument;
+  private activeInstruments: Instrument[] = [];
+  private fillModel: FillModel;
+  private exitRules: ExitRules;
   private currentTime: number = 0;
   private cash: number = 0;
   private equity: number[] = [];
   private positions: Map<string, Position> = new Map();
   private orders: Order[] = [];
+  private pendingOrders: Order[] = [];
+  private marginCalls: MarginCall[] = [];
+  private activeMarginCall: { call: MarginCall; settlementCount: number } | undefined;
+  private pendingLiquidation: boolean = false;
+  private settlementCount: number = 0;
   private trades: Trade[] = [];
+  private realizedPnl: Map<string, number> = new Map();
+  private pnlSeries: Map<string, number[]> = new Map();
   private equityCurve: EquityPoint[] = [];
   private drawdownCurve: DrawdownPoint[] = [];
   private highWaterMark: number = 0;
+  private eventHandler?: StrategyEventHandler;
 
   /**
    * 建立回測引擎實例
    * @param settings 回測設置
-   * @param marketData 市場數據
+   * @param marketData 市場數據；組合回測時為以標的代碼為鍵的各標的市場數據
    */
-  constructor(settings: BacktestSettings, marketData: MarketData) {
-    this.settings = settings;
-    this.marketData = marketData;
+  constructor(settings: BacktestSettings, marketData: MarketData | Record<string, MarketData>) {
+    this.fillModel = settings.fillModel ?? FillModel.NEXT_OPEN;
+    this.settings = {
+      ...settings,
+      fillModel: this.fillModel,
+      sizing: settings.sizing ?? { model: SizingModel.PERCENT_OF_CAPITAL },
+      margin: {
+        callDeadlineDays: settings.margin?.callDeadlineDays ?? DEFAULT_MARGIN_CALL_DEADLINE,
+        liquidationRatio: settings.margin?.liquidationRatio ?? DEFAULT_LIQUIDATION_RATIO
+      }
+    };
+    this.exitRules = settings.exitRules ?? {};
+
+    const dataBySymbol = isMarketData(marketData) ? { [settings.symbol]: marketData } : marketData;
+    const symbols = isMarketData(marketData)
+      ? [settings.symbol]
+      : settings.symbols?.length ? settings.symbols : Object.keys(marketData);
+
+    for (const symbol of symbols) {
+      if (!dataBySymbol[symbol]) {
+        throw new Error(`找不到 ${symbol} 的市場數據`);
+      }
+      this.instruments.set(symbol, this.createInstrument(symbol, this.applySessionFilter(dataBySymbol[symbol])));
+    }
+
+    this.current = this.instruments.get(symbols[0])!;
     this.cash = settings.initialCapital;
     this.equity.push(settings.initialCapital);
     this.highWaterMark = settings.initialCapital;
@@ -47,10 +146,99 @@ export class BacktestEngine {
 
   /**
    * 執行回測
-   * @param generateSignals 信號生成函數，根據策略產生交易信號
+   * 每個標的各自呼叫信號生成函數
+   * @param generateSignals 信號生成函數，根據策略產生交易信號；可透過 broker 送出委託，
+   * 透過 context 讀取較長週期K棒，返回 void 時不處理信號
+   * @returns 回測結果
+   */
+  public run(
+    generateSignals: (
+      data: MarketData,
+      index: number,
+      params: any,
+      broker: OrderBroker,
+      context: StrategyContext
+    ) => TradeDirection | void
+  ): BacktestResult {
+    return this.runStrategy({
+      onBar: context => generateSignals(context.data, context.index, context.params, context.broker, context)
+    });
+  }
+
+  /**
+   * 以事件驅動策略執行回測
+   * 每個標的各自建立執行上下文與策略狀態；回測開始前觸發 onInit，每根K棒收盤觸發 onBar，
+   * 委託成交與交易平倉時觸發 onOrderFilled 與 onTradeClosed，回測結束平倉後觸發 onEnd
+   * @param handler 策略事件處理器
+   * @returns 回測結果
+   */
+  public runStrategy(handler: StrategyEventHandler): BacktestResult {
+    this.eventHandler = handler;
+
+    for (const instrument of this.instruments.values()) {
+      instrument.runContext = this.createRunContext(instrument);
+      handler.onInit?.(instrument.runContext);
+    }
+
+    const result = this.simulate(() => {
+      for (const instrument of this.activeInstruments) {
+        this.withInstrument(instrument, () => this.handleSignal(handler.onBar(instrument.runContext!)));
+      }
+    });
+
+    for (const instrument of this.instruments.values()) {
+      handler.onEnd?.(instrument.runContext!);
+    }
+
+    return result;
+  }
+
+  /**
+   * 執行橫斷面策略回測
+   * 每個時間點以所有標的的數據呼叫一次信號生成函數，一併決定各標的的信號
+   * @param generateSignals 信號生成函數，返回各標的的交易信號，未列出的標的不處理信號
    * @returns 回測結果
    */
-  public run(generateSignals: (data: MarketData, index: number, params: any) => TradeDirection): BacktestResult {
+  public runCrossSectional(
+    generateSignals: (context: PortfolioContext, params: any) => Partial<Record<string, TradeDirection>> | void
+  ): BacktestResult {
+    return this.simulate(() => {
+      const context: PortfolioContext = {
+        timestamp: this.currentTime,
+        symbols: this.activeInstruments.map(instrument => instrument.symbol),
+        data: {},
+        indices: {},
+        brokers: {},
+        timeframes: {}
+      };
+
+      // 已有數據的標的皆提供數據供回看，僅當前有K棒的標的可下單
+      for (const instrument of this.instruments.values()) {
+        if (instrument.index >= 0) {
+          context.data[instrument.symbol] = instrument.marketData;
+          context.indices[instrument.symbol] = instrument.index;
+          context.timeframes[instrument.symbol] = instrument.timeframes;
+        }
+      }
+
+      for (const instrument of this.activeInstruments) {
+        context.brokers[instrument.symbol] = instrument.broker;
+      }
+
+      const signals = generateSignals(context, this.settings.strategyParams) ?? {};
+
+      for (const instrument of this.activeInstruments) {
+        this.withInstrument(instrument, () => this.handleSignal(signals[instrument.symbol]));
+      }
+    });
+  }
+
+  /**
+   * 以共同時間軸逐一處理各時間點
+   * @param generateSignals 產生並處理當前時間點交易信號的函數
+   * @returns 回測結果
+   */
+  private simulate(generateSignals: () => void): BacktestResult {
     // 驗證日期範圍
     const now = new Date();
     const startDate = new Date(this.settings.startDate);
@@ -64,66 +252,246 @@ export class BacktestEngine {
       throw new Error('開始日期不能晚於結束日期');
     }
 
-    // 找到開始和結束日期對應的索引
-    const startIndex = this.findDateIndex(this.settings.startDate);
-    const endIndex = this.findDateIndex(this.settings.endDate);
-    
-    // 檢查市場數據的有效性
-    if (!this.marketData || !this.marketData.timestamp || this.marketData.timestamp.length === 0) {
-      throw new Error('市場數據無效');
-    }
+    // 各標的依開始和結束日期擷取K棒，再合併為共同時間軸
+    const timeline = new Set<number>();
+
+    for (const instrument of this.instruments.values()) {
+      const data = instrument.marketData;
+
+      // 檢查市場數據的有效性
+      if (!data || !data.timestamp || data.timestamp.length === 0) {
+        throw new Error('市場數據無效');
+      }
+
+      const startIndex = this.findDateIndex(data, this.settings.startDate, 'start');
+      const endIndex = this.findDateIndex(data, this.settings.endDate, 'end');
+
+      // 檢查日期範圍的有效性
+      if (startIndex === -1 || endIndex === -1 || startIndex > endIndex) {
+        throw new Error('無法在市場數據中找到對應的日期');
+      }
+
+      for (let i = startIndex; i <= endIndex; i++) {
+        timeline.add(data.timestamp[i]);
+      }
+
+      instrument.sizer.prepare?.(data);
 
-    // 檢查日期範圍的有效性
-    if (startIndex === -1 || endIndex === -1) {
-      throw new Error('無法在市場數據中找到對應的日期');
+      // 出場規則使用 ATR 時預先計算
+      if (requiresATR(this.exitRules)) {
+        instrument.atr = IndicatorCache.getInstance().atr(
+          data.high,
+          data.low,
+          data.close,
+          this.exitRules.atrPeriod ?? DEFAULT_ATR_PERIOD
+        );
+      }
     }
 
+    const timestamps = Array.from(timeline).sort((a, b) => a - b);
+
     // 確保有足夠的數據點
-    if (endIndex - startIndex < 1) {
+    if (timestamps.length < 2) {
       throw new Error('回測期間內沒有足夠的市場數據，請調整日期範圍');
     }
 
-    // 遍歷每個交易日
-    for (let i = startIndex; i <= endIndex; i++) {
-      this.currentIndex = i;
-      this.currentTime = this.marketData.timestamp[i];
+    // 遍歷每個時間點
+    for (const timestamp of timestamps) {
+      this.currentTime = timestamp;
+      this.activeInstruments = [];
+
+      for (const instrument of this.instruments.values()) {
+        const index = instrument.barIndex.get(timestamp);
+        if (index !== undefined) {
+          instrument.index = index;
+          this.activeInstruments.push(instrument);
+        }
+      }
+      
+      // 保證金追繳逾期未回補，開盤強制平倉
+      if (this.pendingLiquidation) {
+        this.liquidate();
+      }
+      
+      // 開盤先檢查跳空停損與持倉時間，再執行前一根K棒產生的信號並撮合先前留下的委託，
+      // 最後以盤中高低價檢查停損停利
+      for (const instrument of this.activeInstruments) {
+        this.withInstrument(instrument, () => {
+          this.checkExitRules(true);
+          if (instrument.pendingSignal !== undefined) {
+            this.processSignal(instrument.pendingSignal, this.getFillPrice());
+            instrument.pendingSignal = undefined;
+          }
+          this.processPendingOrders();
+          this.checkExitRules(false);
+          this.checkIntradayLiquidation();
+        });
+      }
       
       // 根據策略生成交易信號
-      const signal = generateSignals(this.marketData, i, this.settings.strategyParams);
+      generateSignals();
       
-      // 處理交易信號
-      this.processSignal(signal);
+      // 交易時段結束時平倉，再更新倉位和權益，交易日結束時逐日結算
+      let settled = false;
+      for (const instrument of this.activeInstruments) {
+        this.withInstrument(instrument, () => {
+          if (this.settings.session?.flatAtSessionEnd && isSessionEnd(instrument.marketData, instrument.index)) {
+            this.flattenAtSessionEnd();
+          }
+          
+          this.updatePositions();
+          this.updateTrailingExtremes();
+
+          if (this.isSettlementBar(instrument.index) && this.settleDaily()) {
+            settled = true;
+          }
+        });
+      }
       
-      // 更新倉位和權益
-      this.updatePositions();
+      // 結算後檢查保證金
+      if (settled) {
+        this.settlementCount++;
+        this.checkMarginCall();
+      }
+      
+      // 連續合約轉倉日收盤將持倉轉至新合約
+      for (const instrument of this.activeInstruments) {
+        const roll = instrument.rolls.get(timestamp);
+        if (roll) {
+          this.withInstrument(instrument, () => this.rollPositions(roll));
+        }
+      }
       
       // 記錄權益曲線
       this.recordEquity();
     }
 
-    // 平倉所有倉位
-    this.closeAllPositions();
+    // 取消未成交委託並平倉所有倉位
+    this.cancelAllOrders('回測結束');
+    this.closeAllPositions(ExitReason.END_OF_BACKTEST);
     
     // 計算績效指標
     const performance = this.calculatePerformance();
+    const symbols = Array.from(this.instruments.keys());
     
     // 返回回測結果
     return {
       id: uuidv4(),
       settings: this.settings,
+      contract: this.instruments.values().next().value!.contract,
       trades: this.trades,
+      orders: this.orders,
+      marginCalls: this.marginCalls,
+      contributions: this.calculateContributions(),
+      correlation: calculateCorrelationMatrix(symbols, symbols.map(symbol => this.pnlSeries.get(symbol) ?? [])),
       performance,
       equity: this.equityCurve,
       drawdowns: this.drawdownCurve
     };
   }
 
+  /**
+   * 建立標的的回測狀態
+   * @param symbol 交易標的
+   * @param marketData 市場數據
+   * @returns 回測狀態
+   */
+  private createInstrument(symbol: string, marketData: MarketData): Instrument {
+    const contract = ContractRegistry.getInstance().getContract(symbol);
+
+    return {
+      symbol,
+      marketData,
+      contract,
+      sizer: createPositionSizer(this.settings.sizing),
+      costModel: createCostModel(this.settings.costModel, contract, this.settings.commissionRate),
+      atr: [],
+      rolls: new Map(
+        (this.settings.simulateRolls ? marketData.rolls ?? [] : []).map(roll => [roll.timestamp, roll])
+      ),
+      barIndex: new Map(marketData.timestamp.map((timestamp, i) => [timestamp, i])),
+      timeframes: new MultiTimeframeData(marketData),
+      index: -1,
+      broker: this.createBroker(symbol)
+    };
+  }
+
+  /**
+   * 建立標的的事件驅動策略執行上下文
+   * @param instrument 標的回測狀態
+   * @returns 執行上下文，K棒索引隨回測進行更新
+   */
+  private createRunContext(instrument: Instrument): StrategyRunContext {
+    return {
+      symbol: instrument.symbol,
+      data: instrument.marketData,
+      get index() {
+        return instrument.index;
+      },
+      params: this.settings.strategyParams,
+      state: {},
+      broker: instrument.broker,
+      timeframes: instrument.timeframes
+    };
+  }
+
+  /**
+   * 依交易時段設置過濾市場數據
+   * @param data 市場數據
+   * @returns 僅含所選交易時段K棒的市場數據
+   */
+  private applySessionFilter(data: MarketData): MarketData {
+    switch (this.settings.session?.filter) {
+      case SessionFilter.DAY:
+        return filterSessions(data, [TradingSession.DAY]);
+      case SessionFilter.NIGHT:
+        return filterSessions(data, [TradingSession.NIGHT]);
+      default:
+        return data;
+    }
+  }
+
+  /**
+   * 切換至指定標的執行
+   * @param instrument 標的回測狀態
+   * @param action 執行的動作
+   * @returns 動作的返回值
+   */
+  private withInstrument<T>(instrument: Instrument, action: () => T): T {
+    const previous = this.current;
+    this.current = instrument;
+
+    try {
+      return action();
+    } finally {
+      this.current = previous;
+    }
+  }
+
+  /**
+   * 處理策略產生的信號
+   * 收盤成交模式立即執行，其餘模式延至下一根K棒
+   * @param signal 交易信號，undefined 時不處理
+   */
+  private handleSignal(signal: TradeDirection | void): void {
+    if (signal === undefined) {
+      return;
+    }
+
+    if (this.fillModel === FillModel.SAME_CLOSE) {
+      this.processSignal(signal, this.getCurrentPrice());
+    } else {
+      this.current.pendingSignal = signal;
+    }
+  }
+
   /**
    * 處理交易信號
    * @param signal 交易信號
+   * @param price 成交參考價
    */
-  private processSignal(signal: TradeDirection): void {
-    const currentPosition = this.getPosition(this.settings.symbol);
+  private processSignal(signal: TradeDirection, price: number): void {
+    const currentPosition = this.getPosition(this.current.symbol);
     const currentDirection = currentPosition ? currentPosition.direction : TradeDirection.NONE;
     
     // 如果信號與當前倉位方向相同，不做任何操作
@@ -133,12 +501,12 @@ export class BacktestEngine {
     
     // 如果有倉位且信號不同，平倉
     if (currentDirection !== TradeDirection.NONE) {
-      this.closePosition(this.settings.symbol);
+      this.closePosition(this.current.symbol, price);
     }
     
     // 如果信號不是NONE，開新倉
     if (signal !== TradeDirection.NONE) {
-      this.openPosition(this.settings.symbol, signal);
+      this.openPosition(this.current.symbol, signal, price);
     }
   }
 
@@ -146,98 +514,720 @@ export class BacktestEngine {
    * 開倉
    * @param symbol 交易標的
    * @param direction 交易方向
+   * @param price 成交參考價
    */
-  private openPosition(symbol: string, direction: TradeDirection): void {
-    const price = this.getCurrentPrice();
-    const positionValue = this.cash * (this.settings.positionSize / 100);
-    const quantity = Math.floor(positionValue / price);
+  private openPosition(symbol: string, direction: TradeDirection, price: number): void {
+    const quantity = this.calculateQuantity(price);
     
     if (quantity <= 0) {
       return; // 資金不足
     }
     
-    // 創建市價單
-    const order: Order = {
-      id: uuidv4(),
-      symbol,
-      type: OrderType.MARKET,
-      direction,
-      quantity,
-      status: OrderStatus.PENDING,
-      createdAt: this.currentTime,
-      commission: 0,
-      slippage: 0
+    // 創建並執行市價單
+    const order = this.createOrder(symbol, { type: OrderType.MARKET, direction, quantity });
+    this.executeOrder(order, price);
+  }
+
+  /**
+   * 計算可交易數量
+   * 由倉位模型決定數量，並以扣除各持倉占用資金後的可用資金為上限：
+   * 期貨以原始保證金計算可負擔口數，股票以成交金額計算可負擔股數
+   * @param price 參考價格
+   * @returns 交易數量
+   */
+  private calculateQuantity(price: number): number {
+    const equity = this.getCurrentEquity();
+    const stopDistance = resolveDistance(this.exitRules.stopLoss, price, this.getReferenceATR())
+      ?? this.settings.sizing?.stopPoints
+      ?? NaN;
+
+    const quantity = this.current.sizer.calculate({
+      price,
+      equity,
+      cash: this.cash,
+      contract: this.current.contract,
+      positionSize: this.settings.positionSize,
+      stopDistance,
+      referenceIndex: this.current.index - 1,
+      trades: this.trades
+    });
+
+    const available = equity - this.getCommittedCapital();
+    const maxQuantity = this.current.contract.instrumentType === InstrumentType.FUTURES
+      ? Math.floor(available / this.current.contract.initialMargin)
+      : Math.floor(available / (price * this.current.contract.multiplier));
+
+    return Math.max(0, Math.min(quantity, maxQuantity));
+  }
+
+  /**
+   * 獲取目前權益（資金加尚未逐日結算的未實現盈虧）
+   * @returns 權益
+   */
+  private getCurrentEquity(): number {
+    let equity = this.cash;
+
+    for (const position of this.positions.values()) {
+      equity += position.unrealizedPnl - position.settledPnl;
+    }
+
+    return equity;
+  }
+
+  /**
+   * 獲取目前占用的原始保證金
+   * @returns 保證金
+   */
+  private getUsedMargin(): number {
+    let margin = 0;
+
+    for (const position of this.positions.values()) {
+      margin += position.margin;
+    }
+
+    return margin;
+  }
+
+  /**
+   * 獲取各持倉占用的資金
+   * 期貨以原始保證金計算，股票以入場成交金額計算
+   * @returns 占用資金
+   */
+  private getCommittedCapital(): number {
+    let committed = 0;
+
+    for (const position of this.positions.values()) {
+      committed += this.getInstrument(position.symbol).contract.instrumentType === InstrumentType.FUTURES
+        ? position.margin
+        : position.entryPrice * position.multiplier * position.quantity;
+    }
+
+    return committed;
+  }
+
+  /**
+   * 獲取目前所需的維持保證金
+   * @returns 維持保證金
+   */
+  private getMaintenanceMargin(): number {
+    let margin = 0;
+
+    for (const position of this.positions.values()) {
+      margin += position.maintenanceMargin;
+    }
+
+    return margin;
+  }
+
+  /**
+   * 判斷指定K棒是否為交易日的最後一根K棒（需逐日結算）
+   * 盤後交易時段屬於下一個交易日，日內K棒於一般交易時段收盤時結算
+   * @param index K棒索引
+   */
+  private isSettlementBar(index: number): boolean {
+    return isTradingDateEnd(this.current.marketData, index);
+  }
+
+  /**
+   * 逐日結算
+   * 以結算價（無結算價資料時為收盤價）將當前標的倉位的未結算損益計入資金
+   * @returns 是否為需逐日結算的商品
+   */
+  private settleDaily(): boolean {
+    if (!isMarginTraded(this.current.contract)) {
+      return false;
+    }
+
+    const i = this.current.index;
+    const price = this.current.marketData.settlement?.[i] ?? this.current.marketData.close[i];
+    const position = this.getPosition(this.current.symbol);
+
+    if (position) {
+      this.cash += settlePosition(position, price);
+    }
+
+    return true;
+  }
+
+  /**
+   * 檢查保證金追繳
+   * 結算後權益低於維持保證金時發出追繳，權益需回補至原始保證金才解除；
+   * 經過追繳期限的結算仍未回補時，於下一根K棒開盤強制平倉
+   */
+  private checkMarginCall(): void {
+    // 結算後期貨未結算損益歸零，權益為資金加上非保證金商品的未實現盈虧
+    let equity = this.cash;
+    for (const position of this.positions.values()) {
+      if (!isMarginTraded(this.getInstrument(position.symbol).contract)) {
+        equity += position.unrealizedPnl - position.settledPnl;
+      }
+    }
+
+    const initialMargin = this.getUsedMargin();
+    const deadline = this.settings.margin?.callDeadlineDays ?? DEFAULT_MARGIN_CALL_DEADLINE;
+
+    if (this.activeMarginCall) {
+      const { call, settlementCount } = this.activeMarginCall;
+
+      if (this.positions.size === 0 || equity >= initialMargin) {
+        call.resolvedAt = this.currentTime;
+        this.activeMarginCall = undefined;
+      } else if (this.settlementCount - settlementCount >= deadline) {
+        this.pendingLiquidation = true;
+      }
+      return;
+    }
+
+    const maintenanceMargin = this.getMaintenanceMargin();
+
+    if (this.positions.size === 0 || equity >= maintenanceMargin) {
+      return;
+    }
+
+    this.activeMarginCall = {
+      call: this.createMarginCall(equity),
+      settlementCount: this.settlementCount
     };
-    
-    // 執行訂單
-    this.executeOrder(order);
+    this.pendingLiquidation = deadline <= 0;
+  }
+
+  /**
+   * 盤中檢查風險指標
+   * 以當前標的K棒最不利價格估計帳戶權益（其他倉位維持最近價格），風險指標低於代為沖銷門檻時，
+   * 以觸及門檻的價格（開盤即低於門檻時為開盤價）強制平倉
+   */
+  private checkIntradayLiquidation(): void {
+    const ratio = this.settings.margin?.liquidationRatio ?? DEFAULT_LIQUIDATION_RATIO;
+    const position = this.getPosition(this.current.symbol);
+
+    if (!ratio || !position || !isMarginTraded(this.current.contract)) {
+      return;
+    }
+
+    const i = this.current.index;
+    const open = this.current.marketData.open[i];
+    const isLong = position.direction === TradeDirection.LONG;
+    const worstPrice = isLong ? this.current.marketData.low[i] : this.current.marketData.high[i];
+    const baseEquity = this.getCurrentEquity() - (position.unrealizedPnl - position.settledPnl);
+    const initialMargin = this.getUsedMargin();
+    const worstEquity = baseEquity + calculateVariation(position, worstPrice);
+
+    if (calculateRiskIndicator(worstEquity, initialMargin) >= ratio) {
+      return;
+    }
+
+    const triggerPrice = calculateLiquidationPrice(position, baseEquity, initialMargin * ratio / 100);
+    const isGap = isLong ? open <= triggerPrice : open >= triggerPrice;
+    const price = isGap ? open : roundToTick(this.current.contract, triggerPrice);
+    this.liquidate(
+      { symbol: this.current.symbol, price },
+      baseEquity + calculateVariation(position, price)
+    );
+  }
+
+  /**
+   * 建立保證金追繳記錄
+   * @param equity 權益
+   * @returns 追繳記錄
+   */
+  private createMarginCall(equity: number): MarginCall {
+    const initialMargin = this.getUsedMargin();
+    const call: MarginCall = {
+      timestamp: this.currentTime,
+      equity,
+      initialMargin,
+      maintenanceMargin: this.getMaintenanceMargin(),
+      deficit: Math.max(0, initialMargin - equity)
+    };
+
+    this.marginCalls.push(call);
+    return call;
+  }
+
+  /**
+   * 保證金不足強制平倉
+   * 取消所有等待中的委託並以市價平倉所有倉位：觸發標的以觸發價成交，
+   * 當前有K棒的標的以開盤價成交，其餘標的以最近收盤價成交
+   * @param trigger 盤中代為沖銷的觸發標的與價格
+   * @param equity 觸發時權益（盤中代為沖銷且尚無追繳記錄時用於建立記錄）
+   */
+  private liquidate(
+    trigger?: { symbol: string; price: number },
+    equity: number = this.getCurrentEquity()
+  ): void {
+    this.pendingLiquidation = false;
+
+    if (this.positions.size === 0) {
+      return;
+    }
+
+    const call = this.activeMarginCall?.call ?? this.createMarginCall(equity);
+    this.activeMarginCall = undefined;
+
+    this.cancelAllOrders('保證金不足強制平倉');
+    for (const symbol of Array.from(this.positions.keys())) {
+      const instrument = this.getInstrument(symbol);
+      const price = trigger?.symbol === symbol
+        ? trigger.price
+        : this.activeInstruments.includes(instrument)
+          ? instrument.marketData.open[instrument.index]
+          : instrument.marketData.close[instrument.index];
+
+      this.withInstrument(instrument, () => this.closePosition(symbol, price, ExitReason.MARGIN_CALL));
+    }
+
+    call.liquidatedAt = this.currentTime;
   }
 
   /**
    * 平倉
    * @param symbol 交易標的
+   * @param price 成交參考價
+   * @param reason 出場原因
+   * @param type 訂單類型（停損以停損單、停利以限價單出場）
    */
-  private closePosition(symbol: string): void {
+  private closePosition(
+    symbol: string,
+    price: number,
+    reason: ExitReason = ExitReason.SIGNAL,
+    type: OrderType = OrderType.MARKET
+  ): void {
     const position = this.getPosition(symbol);
     
     if (!position) {
       return;
     }
     
-    // 創建平倉市價單
-    const order: Order = {
-      id: uuidv4(),
-      symbol,
-      type: OrderType.MARKET,
+    // 創建並執行平倉單
+    const order = this.createOrder(symbol, {
+      type,
       direction: position.direction === TradeDirection.LONG ? TradeDirection.SHORT : TradeDirection.LONG,
       quantity: position.quantity,
+      price: type === OrderType.MARKET ? undefined : price
+    });
+    order.exitReason = reason;
+    this.executeOrder(order, price);
+  }
+
+  /**
+   * 轉倉
+   * 以舊合約收盤價平倉當前標的的倉位，再以新合約收盤價建立相同方向與數量的倉位，兩筆成交皆計入交易成本；
+   * 停損、停利與最有利價格依新舊合約價差平移，持倉K棒數延續原倉位
+   * @param roll 轉倉事件
+   */
+  private rollPositions(roll: RollEvent): void {
+    const shift = roll.toPrice - roll.fromPrice;
+    const position = this.getPosition(this.current.symbol);
+
+    if (!position) {
+      return;
+    }
+
+    const { symbol, direction, quantity, entryIndex, stopLossPrice, takeProfitPrice, trailingDistance, extremePrice } = position;
+
+    this.closePosition(symbol, roll.fromPrice, ExitReason.ROLL);
+
+    const order = this.createOrder(symbol, { type: OrderType.MARKET, direction, quantity });
+    order.exitReason = ExitReason.ROLL;
+    this.executeOrder(order, roll.toPrice);
+
+    const rolled = this.getPosition(symbol);
+    if (!rolled) {
+      return;
+    }
+
+    rolled.entryIndex = entryIndex;
+    rolled.stopLossPrice = stopLossPrice !== undefined ? stopLossPrice + shift : undefined;
+    rolled.takeProfitPrice = takeProfitPrice !== undefined ? takeProfitPrice + shift : undefined;
+    rolled.trailingDistance = trailingDistance;
+    rolled.extremePrice = extremePrice + shift;
+  }
+
+  /**
+   * 交易時段結束時取消當前標的的等待委託，並以收盤價平倉
+   */
+  private flattenAtSessionEnd(): void {
+    this.cancelAllOrders('交易時段結束', this.current.symbol);
+    this.closePosition(this.current.symbol, this.getCurrentPrice(), ExitReason.SESSION_END);
+  }
+
+  /**
+   * 檢查當前標的倉位的出場規則
+   * 進場當根K棒無法得知盤中價格先後順序，自下一根K棒起檢查
+   * @param atOpen 是否僅以開盤價檢查（開盤跳空與持倉時間）
+   */
+  private checkExitRules(atOpen: boolean): void {
+    const i = this.current.index;
+    const open = this.current.marketData.open[i];
+    const high = atOpen ? open : this.current.marketData.high[i];
+    const low = atOpen ? open : this.current.marketData.low[i];
+
+    const position = this.getPosition(this.current.symbol);
+
+    if (!position || position.entryIndex >= i) {
+      return;
+    }
+
+    const trigger = checkExit(
+      position,
+      this.exitRules,
+      i - position.entryIndex,
+      open,
+      high,
+      low
+    );
+
+    if (!trigger) {
+      return;
+    }
+
+    const type = trigger.reason === ExitReason.TAKE_PROFIT
+      ? OrderType.LIMIT
+      : trigger.reason === ExitReason.TIME_EXIT ? OrderType.MARKET : OrderType.STOP;
+    this.closePosition(position.symbol, trigger.price, trigger.reason, type);
+  }
+
+  /**
+   * 以當前K棒更新當前標的持倉的最有利價格，供移動停損使用
+   */
+  private updateTrailingExtremes(): void {
+    const i = this.current.index;
+    const position = this.getPosition(this.current.symbol);
+
+    if (position && position.entryIndex < i) {
+      updateExtremePrice(position, this.current.marketData.high[i], this.current.marketData.low[i]);
+    }
+  }
+
+  /**
+   * 建立策略下單介面
+   * @param symbol 交易標的
+   * @returns 綁定至本引擎與該標的的下單介面
+   */
+  private createBroker(symbol: string): OrderBroker {
+    return {
+      submitOrder: request => this.withInstrument(this.getInstrument(symbol), () => this.submitOrder(request)),
+      cancelOrder: orderId => this.cancelOrder(orderId, symbol),
+      cancelAllOrders: () => this.cancelAllOrders('策略取消', symbol),
+      getPendingOrders: () => this.pendingOrders.filter(order => order.symbol === symbol),
+      getPosition: () => this.getPosition(symbol),
+      getEquity: () => this.getCurrentEquity()
+    };
+  }
+
+  /**
+   * 建立訂單
+   * @param symbol 交易標的
+   * @param request 委託請求
+   * @returns 等待執行的訂單
+   */
+  private createOrder(symbol: string, request: OrderRequest): Order {
+    return {
+      id: uuidv4(),
+      symbol,
+      type: request.type,
+      direction: request.direction,
+      quantity: request.quantity ?? 0,
+      price: request.price,
+      timeInForce: request.timeInForce ?? TimeInForce.ROD,
       status: OrderStatus.PENDING,
       createdAt: this.currentTime,
+      createdIndex: this.current.index,
       commission: 0,
+      tax: 0,
       slippage: 0
     };
-    
-    // 執行訂單
-    this.executeOrder(order);
+  }
+
+  /**
+   * 送出策略委託
+   * 收盤成交模式下，市價單及可立即成交的限價/停損單以收盤價成交，
+   * 其餘 ROD 委託進入委託簿、IOC/FOK 委託直接取消；
+   * 其他成交模式下所有委託皆留待下一根K棒撮合，避免前視偏差
+   * @param request 委託請求
+   * @returns 訂單
+   */
+  private submitOrder(request: OrderRequest): Order {
+    const order = this.createOrder(this.current.symbol, request);
+    order.exitReason = ExitReason.ORDER;
+
+    if (request.quantity === undefined) {
+      order.quantity = this.calculateQuantity(this.getCurrentPrice());
+    }
+
+    if (order.direction === TradeDirection.NONE) {
+      this.rejectOrder(order, '交易方向無效');
+      return order;
+    }
+
+    if (!(order.quantity > 0)) {
+      this.rejectOrder(order, '交易數量無效或資金不足');
+      return order;
+    }
+
+    if (order.type !== OrderType.MARKET && !(order.price! > 0)) {
+      this.rejectOrder(order, '限價/停損單必須指定價格');
+      return order;
+    }
+
+    if (this.fillModel !== FillModel.SAME_CLOSE) {
+      this.pendingOrders.push(order);
+      return order;
+    }
+
+    // 以收盤價檢查是否可立即成交
+    const price = this.getCurrentPrice();
+    const fillPrice = this.matchOrder(order, price, price, price);
+
+    if (fillPrice !== undefined) {
+      this.executeOrder(order, fillPrice);
+    } else if (order.timeInForce === TimeInForce.ROD) {
+      this.pendingOrders.push(order);
+    } else {
+      this.closeOrder(order, OrderStatus.CANCELED, '無法立即成交');
+    }
+
+    return order;
+  }
+
+  /**
+   * 撮合委託簿中當前標的的等待委託
+   * 市價單以成交模式決定的價格成交；限價/停損單以當前K棒開高低價判斷觸價，
+   * 開盤跳空越過委託價時以開盤價成交，否則以委託價成交。
+   * IOC/FOK 委託僅以開盤價撮合，ROD 委託於生效的交易時段結束時失效
+   * （於時段最後一根K棒送出的委託在下一個交易時段生效）
+   */
+  private processPendingOrders(): void {
+    const open = this.current.marketData.open[this.current.index];
+    const high = this.current.marketData.high[this.current.index];
+    const low = this.current.marketData.low[this.current.index];
+
+    for (const order of [...this.pendingOrders]) {
+      if (order.symbol !== this.current.symbol || order.createdIndex >= this.current.index) {
+        continue;
+      }
+
+      this.removePendingOrder(order);
+
+      let fillPrice: number | undefined;
+      if (order.type === OrderType.MARKET) {
+        fillPrice = this.getFillPrice();
+      } else if (order.timeInForce === TimeInForce.ROD) {
+        fillPrice = this.matchOrder(order, open, high, low);
+      } else {
+        fillPrice = this.matchOrder(order, open, open, open);
+      }
+
+      if (fillPrice !== undefined) {
+        this.executeOrder(order, fillPrice);
+      } else if (order.timeInForce === TimeInForce.ROD) {
+        if (isSessionEnd(this.current.marketData, this.current.index)) {
+          this.closeOrder(order, OrderStatus.CANCELED, 'ROD 委託到期');
+        } else {
+          this.pendingOrders.push(order);
+        }
+      } else {
+        this.closeOrder(order, OrderStatus.CANCELED, '無法立即成交');
+      }
+    }
+  }
+
+  /**
+   * 判斷委託在指定價格區間內的成交價
+   * @param order 訂單
+   * @param open 開盤價
+   * @param high 最高價
+   * @param low 最低價
+   * @returns 成交價，無法成交時返回 undefined
+   */
+  private matchOrder(order: Order, open: number, high: number, low: number): number | undefined {
+    const price = order.price!;
+    const isBuy = order.direction === TradeDirection.LONG;
+
+    if (order.type === OrderType.LIMIT) {
+      if (isBuy) {
+        if (open <= price) return open;
+        if (low <= price) return price;
+      } else {
+        if (open >= price) return open;
+        if (high >= price) return price;
+      }
+      return undefined;
+    }
+
+    if (order.type === OrderType.STOP) {
+      if (isBuy) {
+        if (open >= price) return open;
+        if (high >= price) return price;
+      } else {
+        if (open <= price) return open;
+        if (low <= price) return price;
+      }
+      return undefined;
+    }
+
+    return open;
+  }
+
+  /**
+   * 取消等待中的委託
+   * @param orderId 訂單ID
+   * @param symbol 交易標的
+   * @returns 是否成功取消
+   */
+  private cancelOrder(orderId: string, symbol: string): boolean {
+    const order = this.pendingOrders.find(o => o.id === orderId && o.symbol === symbol);
+
+    if (!order) {
+      return false;
+    }
+
+    this.removePendingOrder(order);
+    this.closeOrder(order, OrderStatus.CANCELED, '策略取消');
+    return true;
+  }
+
+  /**
+   * 取消所有等待中的委託
+   * @param reason 取消原因
+   * @param symbol 交易標的，未指定時取消所有標的的委託
+   */
+  private cancelAllOrders(reason: string, symbol?: string): void {
+    for (const order of this.pendingOrders) {
+      if (symbol === undefined || order.symbol === symbol) {
+        this.closeOrder(order, OrderStatus.CANCELED, reason);
+      }
+    }
+    this.pendingOrders = symbol === undefined
+      ? []
+      : this.pendingOrders.filter(order => order.symbol !== symbol);
+  }
+
+  /**
+   * 拒絕委託
+   * @param order 訂單
+   * @param reason 拒絕原因
+   */
+  private rejectOrder(order: Order, reason: string): void {
+    this.closeOrder(order, OrderStatus.REJECTED, reason);
+  }
+
+  /**
+   * 以取消或拒絕狀態結束訂單
+   * @param order 訂單
+   * @param status 訂單狀態
+   * @param reason 原因
+   */
+  private closeOrder(order: Order, status: OrderStatus, reason: string): void {
+    order.status = status;
+    order.closedAt = this.currentTime;
+    order.reason = reason;
+    this.orders.push(order);
+  }
+
+  /**
+   * 從委託簿移除訂單
+   * @param order 訂單
+   */
+  private removePendingOrder(order: Order): void {
+    this.pendingOrders = this.pendingOrders.filter(o => o.id !== order.id);
   }
 
   /**
    * 執行訂單
+   * 限價單以委託價或更佳價格成交，不計滑點；
+   * 超過成交量參與率上限時，IOC 委託部分成交，其餘委託拒絕（回測結束、強制平倉、轉倉及時段結束平倉除外）
    * @param order 訂單
+   * @param price 成交參考價
    */
-  private executeOrder(order: Order): void {
-    const price = this.getCurrentPrice();
-    const slippageAmount = price * (this.settings.slippage / 100);
+  private executeOrder(order: Order, price: number): void {
+    if (!this.checkParticipation(order)) {
+      return;
+    }
+
+    const multiplier = this.current.contract.multiplier;
+    const slippageAmount = order.type === OrderType.LIMIT ? 0 : this.getSlippageAmount(order, price);
     const executionPrice = order.direction === TradeDirection.LONG 
       ? price + slippageAmount  // 做多時，滑點使價格上升
       : price - slippageAmount; // 做空時，滑點使價格下降
     
-    const commissionAmount = executionPrice * order.quantity * (this.settings.commissionRate / 100);
+    const cost = this.current.costModel.calculate(order.direction, executionPrice, order.quantity, multiplier);
     
     // 更新訂單狀態
     order.status = OrderStatus.FILLED;
     order.filledAt = this.currentTime;
     order.filledPrice = executionPrice;
-    order.commission = commissionAmount;
-    order.slippage = slippageAmount * order.quantity;
+    order.commission = cost.commission;
+    order.tax = cost.tax;
+    order.slippage = slippageAmount * multiplier * order.quantity;
     
     this.orders.push(order);
     
+    // 手續費與交易稅於成交時自資金扣除，損益於平倉時實現
+    this.cash -= cost.commission + cost.tax;
+    
     // 更新倉位
     this.updatePositionFromOrder(order);
-    
-    // 更新資金
-    const orderValue = executionPrice * order.quantity;
-    const totalCost = orderValue + commissionAmount;
-    
-    if (order.direction === TradeDirection.LONG) {
-      this.cash -= totalCost;
-    } else {
-      this.cash += orderValue - commissionAmount;
+
+    if (this.current.runContext) {
+      this.eventHandler?.onOrderFilled?.(order, this.current.runContext);
     }
-    
-    // 檢查是否完成一筆交易（開倉後平倉）
-    this.checkCompleteTrade(order);
+  }
+
+  /**
+   * 檢查委託是否超過成交量參與率上限
+   * @param order 訂單
+   * @returns 是否可成交（IOC 委託可能已調降數量）
+   */
+  private checkParticipation(order: Order): boolean {
+    const cap = this.settings.slippageModel?.participationCap;
+    const volume = this.current.marketData.volume[this.current.index];
+
+    const isExempt = order.exitReason === ExitReason.END_OF_BACKTEST ||
+      order.exitReason === ExitReason.MARGIN_CALL ||
+      order.exitReason === ExitReason.ROLL ||
+      order.exitReason === ExitReason.SESSION_END;
+
+    if (!cap || isExempt) {
+      return true;
+    }
+
+    const participation = calculateParticipation(order.quantity, volume);
+    if (isNaN(participation) || participation <= cap) {
+      return true;
+    }
+
+    const maxQuantity = Math.floor(volume * cap / 100);
+    if (order.timeInForce === TimeInForce.IOC && maxQuantity > 0) {
+      order.quantity = maxQuantity;
+      return true;
+    }
+
+    this.rejectOrder(order, `超過成交量參與率上限 ${cap}%`);
+    return false;
+  }
+
+  /**
+   * 計算每單位滑點
+   * 設置跳動點滑點時依市場衝擊模型估計，否則將百分比滑點換算至跳動點
+   * @param order 訂單
+   * @param price 成交參考價
+   * @returns 每單位滑點（價格）
+   */
+  private getSlippageAmount(order: Order, price: number): number {
+    const model = this.settings.slippageModel;
+
+    if (model) {
+      return estimateSlippage(
+        model,
+        this.current.contract,
+        price,
+        order.quantity,
+        this.current.marketData.volume[this.current.index]
+      ).amount;
+    }
+
+    return percentSlippage(this.current.contract, price, this.settings.slippage ?? 0);
   }
 
   /**
@@ -248,108 +1238,177 @@ export class BacktestEngine {
     const position = this.getPosition(order.symbol);
     
     // 如果是開倉
-    if (!position || position.direction !== order.direction) {
-      const newPosition: Position = {
-        symbol: order.symbol,
-        direction: order.direction,
-        quantity: order.quantity,
-        entryPrice: order.filledPrice!,
-        entryTime: order.filledAt!,
-        lastUpdateTime: order.filledAt!,
-        unrealizedPnl: 0
-      };
-      
-      this.positions.set(order.symbol, newPosition);
+    if (!position) {
+      this.positions.set(order.symbol, this.createPosition(order, order.quantity));
     } 
     // 如果是加倉
-    else {
+    else if (position.direction === order.direction) {
+      // 原有部位先以成交價結算，使加倉後的部位共用同一結算基準
+      if (isMarginTraded(this.current.contract)) {
+        this.cash += settlePosition(position, order.filledPrice!);
+      }
+      
       const totalValue = position.entryPrice * position.quantity + order.filledPrice! * order.quantity;
       const totalQuantity = position.quantity + order.quantity;
+      const extremePrice = position.extremePrice;
       
       position.entryPrice = totalValue / totalQuantity;
       position.quantity = totalQuantity;
+      position.entryCommission += order.commission;
+      position.entryTax += order.tax;
+      position.entrySlippage += order.slippage;
+      position.margin = this.current.contract.initialMargin * totalQuantity;
+      position.maintenanceMargin = this.current.contract.maintenanceMargin * totalQuantity;
       position.lastUpdateTime = order.filledAt!;
+      
+      // 以新的入場均價重設出場價位，保留持倉期間的最有利價格
+      applyExitLevels(position, this.exitRules, this.getReferenceATR());
+      position.extremePrice = extremePrice;
+    }
+    // 反向訂單為平倉，超過持倉的部分反向開倉
+    else {
+      const closeQuantity = Math.min(position.quantity, order.quantity);
+      this.closeTrade(position, order, closeQuantity);
+
+      const remaining = order.quantity - closeQuantity;
+      if (remaining > 0) {
+        this.positions.set(order.symbol, this.createPosition(order, remaining));
+      }
     }
   }
 
   /**
-   * 檢查是否完成一筆交易（開倉後平倉）
-   * @param order 訂單
+   * 以成交訂單建立新倉位並設定出場價位
+   * @param order 成交訂單
+   * @param quantity 開倉數量
+   * @returns 新倉位
    */
-  private checkCompleteTrade(order: Order): void {
-    // 找到與當前訂單方向相反的最近訂單
-    const oppositeOrders = this.orders.filter(o => 
-      o.symbol === order.symbol && 
-      o.direction !== order.direction &&
-      o.status === OrderStatus.FILLED
-    );
-    
-    if (oppositeOrders.length === 0) {
-      return;
-    }
-    
-    const oppositeOrder = oppositeOrders[oppositeOrders.length - 1];
-    
-    // 確定哪個是入場訂單，哪個是出場訂單
-    let entryOrder, exitOrder;
-    if (oppositeOrder.filledAt! < order.filledAt!) {
-      entryOrder = oppositeOrder;
-      exitOrder = order;
-    } else {
-      entryOrder = order;
-      exitOrder = oppositeOrder;
-    }
-    
-    // 計算盈虧
-    const isLong = entryOrder.direction === TradeDirection.LONG;
-    const entryPrice = entryOrder.filledPrice!;
+  private createPosition(order: Order, quantity: number): Position {
+    const ratio = quantity / order.quantity;
+    const position: Position = {
+      symbol: order.symbol,
+      direction: order.direction,
+      quantity,
+      entryPrice: order.filledPrice!,
+      entryTime: order.filledAt!,
+      entryIndex: this.current.index,
+      entryOrderId: order.id,
+      entryCommission: order.commission * ratio,
+      entryTax: order.tax * ratio,
+      entrySlippage: order.slippage * ratio,
+      multiplier: this.current.contract.multiplier,
+      margin: this.current.contract.initialMargin * quantity,
+      maintenanceMargin: this.current.contract.maintenanceMargin * quantity,
+      settlementPrice: order.filledPrice!,
+      settledPnl: 0,
+      extremePrice: order.filledPrice!,
+      lastUpdateTime: order.filledAt!,
+      unrealizedPnl: 0
+    };
+
+    applyExitLevels(position, this.exitRules, this.getReferenceATR());
+    return position;
+  }
+
+  /**
+   * 獲取進場參考 ATR
+   * 使用前一根已完成K棒的數值，避免前視偏差
+   * @returns ATR，未計算或資料不足時返回 NaN
+   */
+  private getReferenceATR(): number {
+    const index = this.current.index - 1;
+    return index >= 0 && index < this.current.atr.length ? this.current.atr[index] : NaN;
+  }
+
+  /**
+   * 以平倉訂單結算倉位並記錄交易
+   * @param position 倉位
+   * @param exitOrder 平倉訂單
+   * @param quantity 平倉數量
+   */
+  private closeTrade(position: Position, exitOrder: Order, quantity: number): void {
+    const ratio = quantity / position.quantity;
+    const exitRatio = quantity / exitOrder.quantity;
+    const isLong = position.direction === TradeDirection.LONG;
     const exitPrice = exitOrder.filledPrice!;
-    const quantity = Math.min(entryOrder.quantity, exitOrder.quantity);
     
-    const profit = isLong 
-      ? (exitPrice - entryPrice) * quantity
-      : (entryPrice - exitPrice) * quantity;
+    // 計算點數盈虧，再乘以每點價值與數量
+    const points = isLong 
+      ? exitPrice - position.entryPrice
+      : position.entryPrice - exitPrice;
+    const profit = points * position.multiplier * quantity;
+    const profitPct = profit / (position.entryPrice * position.multiplier * quantity) * 100;
     
-    const profitPct = profit / (entryPrice * quantity) * 100;
+    const entryCommission = position.entryCommission * ratio;
+    const entrySlippage = position.entrySlippage * ratio;
+    const entryTax = position.entryTax * ratio;
+    const commission = entryCommission + exitOrder.commission * exitRatio;
+    const tax = entryTax + exitOrder.tax * exitRatio;
+    const slippage = entrySlippage + exitOrder.slippage * exitRatio;
+    // 滑點已反映於成交價，淨盈虧只需再扣除手續費與交易稅
+    const netProfit = profit - commission - tax;
     
-    const commission = entryOrder.commission + exitOrder.commission;
-    const slippage = entryOrder.slippage + exitOrder.slippage;
-    const netProfit = profit - commission - slippage;
+    // 實現損益，已逐日結算的部分先前已計入資金
+    const settledPnl = position.settledPnl * ratio;
+    this.cash += profit - settledPnl;
+    this.realizedPnl.set(position.symbol, (this.realizedPnl.get(position.symbol) ?? 0) + netProfit);
     
     // 創建交易記錄
     const trade: Trade = {
       id: uuidv4(),
-      symbol: order.symbol,
-      direction: entryOrder.direction,
-      entryTime: entryOrder.filledAt!,
-      entryPrice: entryPrice,
-      entryOrderId: entryOrder.id,
+      symbol: position.symbol,
+      direction: position.direction,
+      entryTime: position.entryTime,
+      entryPrice: position.entryPrice,
+      entryOrderId: position.entryOrderId,
       exitTime: exitOrder.filledAt!,
       exitPrice: exitPrice,
       exitOrderId: exitOrder.id,
+      exitReason: exitOrder.exitReason ?? ExitReason.SIGNAL,
       quantity: quantity,
+      multiplier: position.multiplier,
+      points: points,
       profit: profit,
       profitPct: profitPct,
       commission: commission,
+      tax: tax,
       slippage: slippage,
       netProfit: netProfit
     };
     
     this.trades.push(trade);
+    
+    // 更新或移除倉位
+    if (quantity >= position.quantity) {
+      this.positions.delete(position.symbol);
+    } else {
+      position.quantity -= quantity;
+      position.entryCommission -= entryCommission;
+      position.entryTax -= entryTax;
+      position.entrySlippage -= entrySlippage;
+      position.settledPnl -= settledPnl;
+      position.margin = this.current.contract.initialMargin * position.quantity;
+      position.maintenanceMargin = this.current.contract.maintenanceMargin * position.quantity;
+      position.lastUpdateTime = exitOrder.filledAt!;
+    }
+
+    if (this.current.runContext) {
+      this.eventHandler?.onTradeClosed?.(trade, this.current.runContext);
+    }
   }
 
   /**
-   * 更新倉位的未實現盈虧
+   * 以當前價格更新當前標的倉位的未實現盈虧
    */
   private updatePositions(): void {
     const currentPrice = this.getCurrentPrice();
+    const position = this.getPosition(this.current.symbol);
     
-    for (const [symbol, position] of this.positions.entries()) {
-      if (position.direction === TradeDirection.LONG) {
-        position.unrealizedPnl = (currentPrice - position.entryPrice) * position.quantity;
-      } else {
-        position.unrealizedPnl = (position.entryPrice - currentPrice) * position.quantity;
-      }
+    if (position) {
+      const points = position.direction === TradeDirection.LONG
+        ? currentPrice - position.entryPrice
+        : position.entryPrice - currentPrice;
+      position.unrealizedPnl = points * position.multiplier * position.quantity;
     }
   }
 
@@ -358,19 +1417,35 @@ export class BacktestEngine {
    */
   private recordEquity(): void {
     // 計算當前權益
-    let currentEquity = this.cash;
-    
-    for (const position of this.positions.values()) {
-      currentEquity += position.unrealizedPnl;
-    }
+    const currentEquity = this.getCurrentEquity();
     
     this.equity.push(currentEquity);
     
-    // 記錄權益曲線點
-    this.equityCurve.push({
+    // 記錄權益曲線點，含期貨時另記錄保證金使用情形
+    const point: EquityPoint = {
       timestamp: this.currentTime,
       equity: currentEquity
-    });
+    };
+    
+    if (Array.from(this.instruments.values()).some(instrument => isMarginTraded(instrument.contract))) {
+      const usedMargin = this.getUsedMargin();
+      point.usedMargin = usedMargin;
+      point.availableMargin = currentEquity - usedMargin;
+      point.marginUtilization = currentEquity > 0 ? usedMargin / currentEquity * 100 : NaN;
+    }
+    
+    this.equityCurve.push(point);
+    
+    // 記錄各標的累計損益（已實現淨損益加未實現盈虧），供計算相關係數
+    for (const symbol of this.instruments.keys()) {
+      const position = this.getPosition(symbol);
+      const pnl = (this.realizedPnl.get(symbol) ?? 0) + (position ? position.unrealizedPnl : 0);
+
+      if (!this.pnlSeries.has(symbol)) {
+        this.pnlSeries.set(symbol, []);
+      }
+      this.pnlSeries.get(symbol)!.push(pnl);
+    }
     
     // 更新高水位
     if (currentEquity > this.highWaterMark) {
@@ -390,14 +1465,36 @@ export class BacktestEngine {
   }
 
   /**
-   * 平倉所有倉位
+   * 以各標的最近收盤價平倉所有倉位
+   * @param reason 出場原因
    */
-  private closeAllPositions(): void {
-    for (const symbol of this.positions.keys()) {
-      this.closePosition(symbol);
+  private closeAllPositions(reason: ExitReason): void {
+    for (const symbol of Array.from(this.positions.keys())) {
+      this.withInstrument(this.getInstrument(symbol), () => {
+        this.closePosition(symbol, this.getCurrentPrice(), reason);
+      });
     }
   }
 
+  /**
+   * 計算各標的的損益貢獻
+   * @returns 各標的損益貢獻
+   */
+  private calculateContributions(): SymbolContribution[] {
+    return Array.from(this.instruments.values()).map(instrument => {
+      const trades = this.trades.filter(t => t.symbol === instrument.symbol);
+      const netProfit = trades.reduce((sum, t) => sum + t.netProfit, 0);
+
+      return {
+        symbol: instrument.symbol,
+        name: instrument.contract.name,
+        trades: trades.length,
+        netProfit,
+        contributionPct: netProfit / this.settings.initialCapital * 100
+      };
+    });
+  }
+
   /**
    * 計算績效指標
    * @returns 績效指標
@@ -409,6 +1506,15 @@ export class BacktestEngine {
     
     const totalNetProfit = this.trades.reduce((sum, t) => sum + t.netProfit, 0);
     const totalNetProfitPct = (totalNetProfit / this.settings.initialCapital) * 100;
+    const totalPoints = this.trades.reduce((sum, t) => sum + t.points * t.quantity, 0);
+    const totalCommission = this.trades.reduce((sum, t) => sum + t.commission, 0);
+    const totalTax = this.trades.reduce((sum, t) => sum + t.tax, 0);
+    const totalSlippage = this.trades.reduce((sum, t) => sum + t.slippage, 0);
+    const liquidations = this.marginCalls.filter(c => c.liquidatedAt !== undefined).length;
+    const maxMarginUtilization = this.equityCurve.reduce(
+      (max, p) => p.marginUtilization !== undefined && !isNaN(p.marginUtilization) ? Math.max(max, p.marginUtilization) : max,
+      0
+    );
     
     const winningAmount = this.trades
       .filter(t => t.netProfit > 0)
@@ -429,16 +1535,16 @@ export class BacktestEngine {
       : 0;
     
     const largestProfit = this.trades.length > 0 
-      ? Math.max(...this.trades.map(t => t.netProfit)) 
+      ? this.trades.reduce((max, t) => Math.max(max, t.netProfit), -Infinity) 
       : 0;
     
     const largestLoss = this.trades.length > 0 
-      ? Math.min(...this.trades.map(t => t.netProfit)) 
+      ? this.trades.reduce((min, t) => Math.min(min, t.netProfit), Infinity) 
       : 0;
     
-    // 計算最大回撤
-    const maxDrawdown = Math.max(...this.drawdownCurve.map(d => d.drawdown));
-    const maxDrawdownPct = Math.max(...this.drawdownCurve.map(d => d.drawdownPct));
+    // 計算最大回撤（K棒數量龐大時避免以展開運算子傳入過多參數）
+    const maxDrawdown = this.drawdownCurve.reduce((max, d) => Math.max(max, d.drawdown), -Infinity);
+    const maxDrawdownPct = this.drawdownCurve.reduce((max, d) => Math.max(max, d.drawdownPct), -Infinity);
     
     // 計算恢復因子
     const recoveryFactor = maxDrawdown > 0 ? totalNetProfit / maxDrawdown : 0;
@@ -456,9 +1562,12 @@ export class BacktestEngine {
     
     const sharpeRatio = stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0;
     
-    // 計算年化收益率
-    const startDate = new Date(this.marketData.timestamp[0] * 1000);
-    const endDate = new Date(this.marketData.timestamp[this.marketData.timestamp.length - 1] * 1000);
+    // 計算年化收益率（以所有標的數據的最早與最晚時間計算期間）
+    const instruments = Array.from(this.instruments.values());
+    const startDate = new Date(Math.min(...instruments.map(({ marketData }) => marketData.timestamp[0])) * 1000);
+    const endDate = new Date(Math.max(
+      ...instruments.map(({ marketData }) => marketData.timestamp[marketData.timestamp.length - 1])
+    ) * 1000);
     const yearFraction = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
     
     const annualReturn = yearFraction > 0 
@@ -477,6 +1586,14 @@ export class BacktestEngine {
       winRate: totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0,
       totalNetProfit,
       totalNetProfitPct,
+      totalPoints,
+      totalCommission,
+      totalTax,
+      totalSlippage,
+      marginCalls: this.marginCalls.length,
+      liquidations,
+      rolls: this.trades.filter(t => t.exitReason === ExitReason.ROLL).length,
+      maxMarginUtilization,
       profitFactor,
       averageProfit,
       averageLoss,
@@ -496,7 +1613,27 @@ export class BacktestEngine {
    * @returns 當前價格
    */
   private getCurrentPrice(): number {
-    return this.marketData.close[this.currentIndex];
+    return this.current.marketData.close[this.current.index];
+  }
+
+  /**
+   * 依成交模式獲取當前K棒的成交價
+   * 用於執行前一根K棒收盤後產生的信號與市價單
+   * @returns 成交價
+   */
+  private getFillPrice(): number {
+    const i = this.current.index;
+
+    if (this.fillModel === FillModel.VWAP_PROXY) {
+      const typicalPrice = (this.current.marketData.high[i] + this.current.marketData.low[i] + this.current.marketData.close[i]) / 3;
+      return roundToTick(this.current.contract, typicalPrice);
+    }
+
+    if (this.fillModel === FillModel.SAME_CLOSE) {
+      return this.current.marketData.close[i];
+    }
+
+    return this.current.marketData.open[i];
   }
 
   /**
@@ -508,29 +1645,47 @@ export class BacktestEngine {
     return this.positions.get(symbol);
   }
 
+  /**
+   * 獲取標的的回測狀態
+   * @param symbol 交易標的
+   * @returns 回測狀態
+   */
+  private getInstrument(symbol: string): Instrument {
+    return this.instruments.get(symbol)!;
+  }
+
   /**
    * 根據日期找到對應的數據索引
+   * 以K棒所屬交易日比對（盤後交易時段屬於下一個交易日），開始日期取該日起的第一根K棒，
+   * 結束日期取該日止的最後一根K棒
+   * @param data 市場數據
    * @param timestamp 時間戳記
-   * @returns 索引
+   * @param edge 開始或結束日期
+   * @returns 索引，找不到時返回 -1
    */
-  private findDateIndex(timestamp: number): number {
-    // 將時間戳記轉換為當天的開始時間（0點0分0秒）
-    const targetDate = new Date(timestamp);
-    targetDate.setHours(0, 0, 0, 0);
-    const targetTimestamp = Math.floor(targetDate.getTime() / 1000);
+  private findDateIndex(data: MarketData, timestamp: number, edge: 'start' | 'end'): number {
+    // 以當地日期作為目標交易日
+    const target = new Date(timestamp);
+    const targetDate = [
+      target.getFullYear(),
+      String(target.getMonth() + 1).padStart(2, '0'),
+      String(target.getDate()).padStart(2, '0')
+    ].join('-');
 
-    // 遍歷所有時間戳記
-    for (let i = 0; i < this.marketData.timestamp.length; i++) {
-      const currentDate = new Date(this.marketData.timestamp[i] * 1000);
-      currentDate.setHours(0, 0, 0, 0);
-      const currentTimestamp = Math.floor(currentDate.getTime() / 1000);
+    if (edge === 'start') {
+      for (let i = 0; i < data.timestamp.length; i++) {
+        if (getBarTradingDate(data, i) >= targetDate) {
+          return i;
+        }
+      }
+      return -1;
+    }
 
-      if (currentTimestamp >= targetTimestamp) {
+    for (let i = data.timestamp.length - 1; i >= 0; i--) {
+      if (getBarTradingDate(data, i) <= targetDate) {
         return i;
       }
     }
-
-    // 如果找不到完全匹配的日期，返回最後一個索引
-    return this.marketData.timestamp.length - 1;
+    return -1;
   }
 }
@@ -0,0 +1,148 @@
+import {
+  ExitDistance,
+  ExitDistanceType,
+  ExitReason,
+  ExitRules,
+  Position,
+  TradeDirection
+} from './types';
+
+// 出場觸發結果
+export interface ExitTrigger {
+  reason: ExitReason;             // 出場原因
+  price: number;                  // 出場價格
+}
+
+// 預設 ATR 週期
+export const DEFAULT_ATR_PERIOD = 14;
+
+/**
+ * 判斷出場規則是否需要 ATR
+ * @param rules 出場規則
+ */
+export function requiresATR(rules: ExitRules): boolean {
+  return [rules.stopLoss, rules.takeProfit, rules.trailingStop]
+    .some(distance => distance?.type === ExitDistanceType.ATR);
+}
+
+/**
+ * 將出場距離換算為點數
+ * @param distance 出場距離
+ * @param entryPrice 進場價格
+ * @param atr 進場前一根K棒的 ATR
+ * @returns 點數，無法計算時返回 undefined
+ */
+export function resolveDistance(
+  distance: ExitDistance | undefined,
+  entryPrice: number,
+  atr: number
+): number | undefined {
+  if (!distance || !(distance.value > 0)) {
+    return undefined;
+  }
+
+  switch (distance.type) {
+    case ExitDistanceType.POINTS:
+      return distance.value;
+    case ExitDistanceType.PERCENT:
+      return entryPrice * distance.value / 100;
+    case ExitDistanceType.ATR:
+      return isNaN(atr) ? undefined : atr * distance.value;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 依出場規則設定倉位的停損、停利與移動停損
+ * @param position 倉位
+ * @param rules 出場規則
+ * @param atr 進場前一根K棒的 ATR
+ */
+export function applyExitLevels(position: Position, rules: ExitRules, atr: number): void {
+  const sign = position.direction === TradeDirection.LONG ? 1 : -1;
+  const stopDistance = resolveDistance(rules.stopLoss, position.entryPrice, atr);
+  const profitDistance = resolveDistance(rules.takeProfit, position.entryPrice, atr);
+
+  position.stopLossPrice = stopDistance !== undefined
+    ? position.entryPrice - sign * stopDistance
+    : undefined;
+  position.takeProfitPrice = profitDistance !== undefined
+    ? position.entryPrice + sign * profitDistance
+    : undefined;
+  position.trailingDistance = resolveDistance(rules.trailingStop, position.entryPrice, atr);
+  position.extremePrice = position.entryPrice;
+}
+
+/**
+ * 以K棒檢查倉位是否觸發出場
+ * 開盤跳空越過出場價時以開盤價出場；同一根K棒同時觸及停損與停利時，
+ * 保守假設停損先發生。移動停損以前一根K棒為止的最有利價格計算
+ * @param position 倉位
+ * @param rules 出場規則
+ * @param barsHeld 已持有的K棒數
+ * @param open 開盤價
+ * @param high 最高價
+ * @param low 最低價
+ * @returns 出場觸發結果，未觸發時返回 undefined
+ */
+export function checkExit(
+  position: Position,
+  rules: ExitRules,
+  barsHeld: number,
+  open: number,
+  high: number,
+  low: number
+): ExitTrigger | undefined {
+  const isLong = position.direction === TradeDirection.LONG;
+
+  // 持倉時間到期，以開盤價出場
+  if (rules.maxHoldingBars && rules.maxHoldingBars > 0 && barsHeld >= rules.maxHoldingBars) {
+    return { reason: ExitReason.TIME_EXIT, price: open };
+  }
+
+  // 取停損與移動停損中較接近市價者
+  let stopPrice = position.stopLossPrice;
+  let stopReason = ExitReason.STOP_LOSS;
+
+  if (position.trailingDistance !== undefined) {
+    const trailingPrice = isLong
+      ? position.extremePrice - position.trailingDistance
+      : position.extremePrice + position.trailingDistance;
+    const isTighter = stopPrice === undefined ||
+      (isLong ? trailingPrice > stopPrice : trailingPrice < stopPrice);
+
+    if (isTighter) {
+      stopPrice = trailingPrice;
+      stopReason = ExitReason.TRAILING_STOP;
+    }
+  }
+
+  const profitPrice = position.takeProfitPrice;
+
+  if (isLong) {
+    if (stopPrice !== undefined && open <= stopPrice) return { reason: stopReason, price: open };
+    if (profitPrice !== undefined && open >= profitPrice) return { reason: ExitReason.TAKE_PROFIT, price: open };
+    if (stopPrice !== undefined && low <= stopPrice) return { reason: stopReason, price: stopPrice };
+    if (profitPrice !== undefined && high >= profitPrice) return { reason: ExitReason.TAKE_PROFIT, price: profitPrice };
+  } else {
+    if (stopPrice !== undefined && open >= stopPrice) return { reason: stopReason, price: open };
+    if (profitPrice !== undefined && open <= profitPrice) return { reason: ExitReason.TAKE_PROFIT, price: open };
+    if (stopPrice !== undefined && high >= stopPrice) return { reason: stopReason, price: stopPrice };
+    if (profitPrice !== undefined && low <= profitPrice) return { reason: ExitReason.TAKE_PROFIT, price: profitPrice };
+  }
+
+  return undefined;
+}
+
+/**
+ * 以K棒更新倉位的最有利價格，供移動停損使用
+ * @param position 倉位
+ * @param high 最高價
+ * @param low 最低價
+ */
+export function updateExtremePrice(position: Position, high: number, low: number): void {
+  position.extremePrice = position.direction === TradeDirection.LONG
+    ? Math.max(position.extremePrice, high)
+    : Math.min(position.extremePrice, low);
+}
@@ -0,0 +1,72 @@
+import { ContractSpec, InstrumentType } from './contracts';
+import { Position, TradeDirection } from './types';
+
+// 預設追繳期限（交易日）
+export const DEFAULT_MARGIN_CALL_DEADLINE = 1;
+
+// 預設盤中代為沖銷門檻：風險指標 (%)，期交所規定為 25%
+export const DEFAULT_LIQUIDATION_RATIO = 25;
+
+/**
+ * 判斷商品是否以保證金交易並需逐日結算
+ * @param contract 合約規格
+ */
+export function isMarginTraded(contract: ContractSpec): boolean {
+  return contract.instrumentType === InstrumentType.FUTURES && contract.initialMargin > 0;
+}
+
+/**
+ * 計算風險指標
+ * 風險指標 = 權益 / 未沖銷部位所需原始保證金 × 100%
+ * @param equity 權益
+ * @param initialMargin 所需原始保證金
+ * @returns 風險指標 (%)，無部位時返回 Infinity
+ */
+export function calculateRiskIndicator(equity: number, initialMargin: number): number {
+  return initialMargin > 0 ? equity / initialMargin * 100 : Infinity;
+}
+
+/**
+ * 計算倉位自最近一次結算價起的未結算損益
+ * @param position 倉位
+ * @param price 價格
+ * @returns 未結算損益
+ */
+export function calculateVariation(position: Position, price: number): number {
+  const points = position.direction === TradeDirection.LONG
+    ? price - position.settlementPrice
+    : position.settlementPrice - price;
+  return points * position.multiplier * position.quantity;
+}
+
+/**
+ * 以結算價逐日結算倉位，將未結算損益計入已結算損益
+ * @param position 倉位
+ * @param price 結算價
+ * @returns 本次結算損益（應計入資金）
+ */
+export function settlePosition(position: Position, price: number): number {
+  const variation = calculateVariation(position, price);
+  position.settledPnl += variation;
+  position.settlementPrice = price;
+  return variation;
+}
+
+/**
+ * 計算風險指標降至門檻時的價格
+ * 僅考慮單一倉位：權益 = 其他權益 + 未結算損益
+ * @param position 倉位
+ * @param otherEquity 扣除此倉位未結算損益後的權益
+ * @param targetEquity 門檻權益
+ * @returns 觸發價格
+ */
+export function calculateLiquidationPrice(
+  position: Position,
+  otherEquity: number,
+  targetEquity: number
+): number {
+  const pointsToTarget = (targetEquity - otherEquity) / (position.multiplier * position.quantity);
+  return position.direction === TradeDirection.LONG
+    ? position.settlementPrice + pointsToTarget
+    : position.settlementPrice - pointsToTarget;
+}
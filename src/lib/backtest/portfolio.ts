@@ -0,0 +1,51 @@
+import { CorrelationMatrix } from './types';
+
+/**
+ * 計算兩組數列的皮爾森相關係數
+ * @param a 數列
+ * @param b 數列（長度與 a 相同）
+ * @returns 相關係數，任一數列無變異時返回 NaN
+ */
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+
+  if (n < 2) {
+    return NaN;
+  }
+
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += Math.pow(a[i] - meanA, 2);
+    varianceB += Math.pow(b[i] - meanB, 2);
+  }
+
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : NaN;
+}
+
+/**
+ * 以各標的累計損益計算相關係數矩陣
+ * 使用每個時間點的損益變化計算，避免累計數列的趨勢造成虛假相關
+ * @param symbols 標的
+ * @param pnlSeries 各標的累計損益（與 symbols 順序相同，長度相同）
+ * @returns 相關係數矩陣
+ */
+export function calculateCorrelationMatrix(symbols: string[], pnlSeries: number[][]): CorrelationMatrix {
+  const changes = pnlSeries.map(series => series.slice(1).map((value, i) => value - series[i]));
+
+  const values = symbols.map((_, i) =>
+    symbols.map((_, j) => {
+      const value = pearson(changes[i], changes[j]);
+      // 對角線固定為 1，避免浮點誤差
+      return i === j && !isNaN(value) ? 1 : value;
+    })
+  );
+
+  return { symbols, values };
+}
@@ -0,0 +1,28 @@
+import { BacktestEngine } from './engine';
+import { BacktestResult, BacktestSettings } from './types';
+import { EventStrategy } from '../strategies/base';
+import { assertValidParameters } from '../strategies/parameters';
+import { MarketData } from '../api/yahooFinance';
+
+/**
+ * 執行回測，組合回測且策略支援橫斷面配置時每個時間點一併決定各標的信號
+ * @param settings 回測設置
+ * @param marketData 各標的市場數據
+ * @param strategy 策略
+ * @throws Error 策略參數違反參數範圍或參數間限制時拋出
+ */
+export function runBacktest(
+  settings: BacktestSettings,
+  marketData: Record<string, MarketData>,
+  strategy: EventStrategy
+): BacktestResult {
+  // 回測設置可能來自網址或其他來源，執行前再次驗證策略參數
+  assertValidParameters(strategy.getParameters(), settings.strategyParams);
+
+  const engine = new BacktestEngine(settings, marketData);
+  const symbols = settings.symbols ?? [settings.symbol];
+
+  return symbols.length > 1 && strategy.allocate
+    ? engine.runCrossSectional((context, params) => strategy.allocate!(context, params))
+    : engine.runStrategy(strategy);
+}
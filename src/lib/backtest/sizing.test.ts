@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContractRegistry } from './contracts';
+import { KELLY_MIN_SIZE, KellySizer, SizingContext } from './sizing';
+import { Trade } from './types';
+
+/**
+ * 建立凱利公式計算所需資訊
+ * @param profitPcts 各筆交易的盈虧百分比
+ */
+function createContext(profitPcts: number[]): SizingContext {
+  return {
+    price: 20000,
+    equity: 100000000,
+    cash: 10000000,
+    contract: ContractRegistry.getInstance().getContract('TX'),
+    positionSize: 10,
+    stopDistance: NaN,
+    referenceIndex: 0,
+    trades: profitPcts.map(profitPct => ({ profitPct }) as Trade)
+  };
+}
+
+test('交易筆數不足時以資金百分比計算', () => {
+  const context = createContext([1, -1, 2]);
+  const margin = context.contract.initialMargin;
+  assert.equal(new KellySizer(0.5, 50).calculate(context), Math.floor(1000000 / margin));
+});
+
+test('有優勢時依凱利比例計算名目曝險', () => {
+  // 勝率 60%、盈虧比 2：凱利比例 0.6 - 0.4 / 2 = 0.4
+  const context = createContext([2, 2, 2, 2, 2, 2, -1, -1, -1, -1]);
+  const expected = Math.floor(100000000 * 0.4 * 0.5 / (20000 * context.contract.multiplier));
+  assert.equal(new KellySizer(0.5, 50).calculate(context), expected);
+});
+
+test('沒有優勢時以最小數量繼續交易', () => {
+  const sizer = new KellySizer(0.5, 50);
+  assert.equal(sizer.calculate(createContext([1, -3, -3, -3, -3, -3, -3, -3, -3, -3])), KELLY_MIN_SIZE);
+  assert.equal(sizer.calculate(createContext(Array(10).fill(-1))), KELLY_MIN_SIZE);
+});
+
+test('沒有優勢的交易被新的獲利交易取代後恢復依凱利比例計算', () => {
+  const sizer = new KellySizer(0.5, 10);
+  const losing = Array(10).fill(-1);
+  assert.equal(sizer.calculate(createContext(losing)), KELLY_MIN_SIZE);
+  assert.ok(sizer.calculate(createContext([...losing, ...Array(8).fill(3)])) > KELLY_MIN_SIZE);
+});
@@ -0,0 +1,214 @@
+import { ContractSpec, InstrumentType } from './contracts';
+import { SizingModel, SizingSettings, Trade, VolatilitySource } from './types';
+import { MarketData } from '../api/yahooFinance';
+import { IndicatorCache } from '../api/indicatorCache';
+
+// 每年交易日數
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// 凱利公式計算所需的最少交易筆數，不足時改用資金百分比
+const KELLY_MIN_TRADES = 10;
+
+// 凱利公式的最小交易數量：凱利比例不為正時仍以最小數量交易，使勝率與盈虧比能隨新交易更新
+export const KELLY_MIN_SIZE = 1;
+
+// 倉位計算所需資訊
+export interface SizingContext {
+  price: number;                  // 參考價格
+  equity: number;                 // 目前權益
+  cash: number;                   // 目前資金
+  contract: ContractSpec;         // 合約規格
+  positionSize: number;           // 資金百分比設定 (%)
+  stopDistance: number;           // 停損距離（點），未設定時為 NaN
+  referenceIndex: number;         // 最近一根已完成K棒的索引
+  trades: Trade[];                // 已完成交易
+}
+
+/**
+ * 倉位計算器介面
+ */
+export interface PositionSizer {
+  /**
+   * 回測開始前預先計算所需序列
+   * @param marketData 市場數據
+   */
+  prepare?(marketData: MarketData): void;
+
+  /**
+   * 計算交易數量
+   * @param context 倉位計算所需資訊
+   * @returns 交易數量（期貨為口數），0 表示不交易
+   */
+  calculate(context: SizingContext): number;
+}
+
+/**
+ * 計算每單位（每口/每股）的名目價值
+ * @param context 倉位計算所需資訊
+ */
+function unitNotional(context: SizingContext): number {
+  return context.price * context.contract.multiplier;
+}
+
+/**
+ * 資金百分比
+ * 期貨以原始保證金計算整數口數，股票以成交金額計算股數
+ */
+export class PercentOfCapitalSizer implements PositionSizer {
+  calculate(context: SizingContext): number {
+    const budget = context.cash * (context.positionSize / 100);
+
+    if (context.contract.instrumentType === InstrumentType.FUTURES) {
+      return Math.floor(budget / context.contract.initialMargin);
+    }
+
+    return Math.floor(budget / unitNotional(context));
+  }
+}
+
+/**
+ * 固定口數/股數
+ */
+export class FixedContractsSizer implements PositionSizer {
+  constructor(private contracts: number) {}
+
+  calculate(): number {
+    return Math.max(0, Math.floor(this.contracts));
+  }
+}
+
+/**
+ * 固定風險比例
+ * 依停損距離計算，使每筆交易觸及停損時的虧損為權益的固定比例
+ */
+export class FixedFractionalSizer implements PositionSizer {
+  constructor(private riskPct: number) {}
+
+  calculate(context: SizingContext): number {
+    if (!(context.stopDistance > 0)) {
+      return 0;
+    }
+
+    const riskAmount = context.equity * (this.riskPct / 100);
+    const riskPerUnit = context.stopDistance * context.contract.multiplier;
+    return Math.floor(riskAmount / riskPerUnit);
+  }
+}
+
+/**
+ * 波動率目標
+ * 以 ATR 或已實現波動率估計每單位的年化金額波動，使部位年化波動接近目標
+ */
+export class VolatilityTargetSizer implements PositionSizer {
+  private volatility: number[] = [];
+
+  constructor(
+    private targetVolatility: number,
+    private source: VolatilitySource,
+    private period: number
+  ) {}
+
+  prepare(marketData: MarketData): void {
+    if (this.source === VolatilitySource.ATR) {
+      // ATR 為點數，換算為相對收盤價的比例
+      const atr = IndicatorCache.getInstance().atr(marketData.high, marketData.low, marketData.close, this.period);
+      this.volatility = atr.map((value, i) => value / marketData.close[i]);
+      return;
+    }
+
+    this.volatility = marketData.close.map((_, i) => {
+      if (i < this.period) {
+        return NaN;
+      }
+
+      const returns: number[] = [];
+      for (let j = i - this.period + 1; j <= i; j++) {
+        returns.push((marketData.close[j] - marketData.close[j - 1]) / marketData.close[j - 1]);
+      }
+
+      const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+      const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
+      return Math.sqrt(variance);
+    });
+  }
+
+  calculate(context: SizingContext): number {
+    const dailyVolatility = this.volatility[context.referenceIndex];
+
+    if (!(dailyVolatility > 0)) {
+      return 0;
+    }
+
+    const targetAmount = context.equity * (this.targetVolatility / 100);
+    const unitAnnualVolatility = unitNotional(context) * dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR);
+    return Math.floor(targetAmount / unitAnnualVolatility);
+  }
+}
+
+/**
+ * 凱利公式
+ * 以最近交易的勝率與平均盈虧比計算凱利比例，再乘以設定比例作為名目曝險；
+ * 交易筆數不足時改用資金百分比；沒有優勢（凱利比例不為正）時以最小數量交易，而非停止交易
+ */
+export class KellySizer implements PositionSizer {
+  private fallback = new PercentOfCapitalSizer();
+
+  constructor(private fraction: number, private lookback: number) {}
+
+  calculate(context: SizingContext): number {
+    const trades = context.trades.slice(-this.lookback);
+
+    if (trades.length < KELLY_MIN_TRADES) {
+      return this.fallback.calculate(context);
+    }
+
+    const wins = trades.filter(t => t.profitPct > 0);
+    const losses = trades.filter(t => t.profitPct <= 0);
+
+    if (losses.length === 0) {
+      return this.fallback.calculate(context);
+    }
+
+    const winRate = wins.length / trades.length;
+    const averageWin = wins.length > 0
+      ? wins.reduce((sum, t) => sum + t.profitPct, 0) / wins.length
+      : 0;
+    const averageLoss = Math.abs(losses.reduce((sum, t) => sum + t.profitPct, 0) / losses.length);
+
+    if (averageWin <= 0 || averageLoss <= 0) {
+      return KELLY_MIN_SIZE;
+    }
+
+    const kelly = winRate - (1 - winRate) / (averageWin / averageLoss);
+
+    if (kelly <= 0) {
+      return KELLY_MIN_SIZE;
+    }
+
+    return Math.max(KELLY_MIN_SIZE, Math.floor(context.equity * kelly * this.fraction / unitNotional(context)));
+  }
+}
+
+/**
+ * 依設置建立倉位計算器
+ * @param sizing 倉位模型設置，未設定時使用資金百分比
+ * @returns 倉位計算器
+ */
+export function createPositionSizer(sizing?: SizingSettings): PositionSizer {
+  switch (sizing?.model) {
+    case SizingModel.FIXED_CONTRACTS:
+      return new FixedContractsSizer(sizing.contracts ?? 1);
+    case SizingModel.FIXED_FRACTIONAL:
+      return new FixedFractionalSizer(sizing.riskPct ?? 1);
+    case SizingModel.VOLATILITY_TARGET:
+      return new VolatilityTargetSizer(
+        sizing.targetVolatility ?? 15,
+        sizing.volatilitySource ?? VolatilitySource.ATR,
+        sizing.volatilityPeriod ?? 20
+      );
+    case SizingModel.KELLY:
+      return new KellySizer(sizing.kellyFraction ?? 0.5, sizing.kellyLookback ?? 50);
+    default:
+      return new PercentOfCapitalSizer();
+  }
+}
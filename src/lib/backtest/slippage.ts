@@ -0,0 +1,62 @@
+import { ContractSpec, getTickSize } from './contracts';
+import { SlippageSettings } from './types';
+
+// 滑點估計結果
+export interface SlippageEstimate {
+  amount: number;                 // 每單位滑點（價格）
+  ticks: number;                  // 滑點跳動點數
+  participation: number;          // 參與率 (% 當根K棒成交量)，無成交量資料時為 NaN
+}
+
+/**
+ * 計算當根K棒成交量的參與率
+ * @param quantity 委託數量
+ * @param volume 當根K棒成交量
+ * @returns 參與率 (%)，無成交量資料時返回 NaN
+ */
+export function calculateParticipation(quantity: number, volume: number): number {
+  return volume > 0 ? quantity / volume * 100 : NaN;
+}
+
+/**
+ * 依跳動點滑點與市場衝擊模型估計滑點
+ * 市場衝擊以平方根模型估計：額外跳動點數 = 係數 × √(參與率%)，
+ * 總跳動點數四捨五入為整數後乘以該價位的跳動點；無成交量資料時不計市場衝擊
+ * @param settings 滑點設置
+ * @param contract 合約規格
+ * @param price 成交參考價
+ * @param quantity 委託數量
+ * @param volume 當根K棒成交量
+ * @returns 滑點估計結果
+ */
+export function estimateSlippage(
+  settings: SlippageSettings,
+  contract: ContractSpec,
+  price: number,
+  quantity: number,
+  volume: number
+): SlippageEstimate {
+  const participation = calculateParticipation(quantity, volume);
+  const impactTicks = settings.impactCoefficient && !isNaN(participation)
+    ? settings.impactCoefficient * Math.sqrt(participation)
+    : 0;
+  const ticks = Math.round(settings.ticks + impactTicks);
+
+  return {
+    amount: ticks * getTickSize(contract, price),
+    ticks,
+    participation
+  };
+}
+
+/**
+ * 將百分比滑點換算為符合跳動點的價格
+ * @param contract 合約規格
+ * @param price 成交參考價
+ * @param slippagePct 滑點百分比
+ * @returns 每單位滑點（價格）
+ */
+export function percentSlippage(contract: ContractSpec, price: number, slippagePct: number): number {
+  const tickSize = getTickSize(contract, price);
+  return Math.round(price * slippagePct / 100 / tickSize) * tickSize;
+}
@@ -24,6 +24,148 @@ export enum OrderStatus {
   REJECTED = 'rejected'  // 已拒絕
 }
 
+import { ContractSpec } from './contracts';
+import { ContinuousContractOptions } from '../api/continuousContract';
+import { MarketData } from '../api/yahooFinance';
+import { BarInterval } from '../api/tradingSessions';
+import { MultiTimeframeData } from '../api/resampler';
+
+// 委託條件（期交所）
+export enum TimeInForce {
+  ROD = 'rod', // 當日有效
+  IOC = 'ioc', // 立即成交否則取消
+  FOK = 'fok'  // 全部成交否則取消
+}
+
+// 成交模式
+export enum FillModel {
+  NEXT_OPEN = 'next_open',   // 下一根K棒開盤價成交（預設）
+  SAME_CLOSE = 'same_close', // 當根K棒收盤價成交（含前視偏差）
+  VWAP_PROXY = 'vwap_proxy'  // 下一根K棒典型價 (H+L+C)/3 成交
+}
+
+// 出場原因
+export enum ExitReason {
+  SIGNAL = 'signal',               // 策略信號
+  ORDER = 'order',                 // 策略委託
+  STOP_LOSS = 'stop_loss',         // 停損
+  TAKE_PROFIT = 'take_profit',     // 停利
+  TRAILING_STOP = 'trailing_stop', // 移動停損
+  TIME_EXIT = 'time_exit',         // 持倉時間到期
+  MARGIN_CALL = 'margin_call',     // 保證金不足強制平倉
+  ROLL = 'roll',                   // 連續合約轉倉
+  SESSION_END = 'session_end',     // 交易時段結束強制平倉
+  END_OF_BACKTEST = 'end_of_backtest' // 回測結束
+}
+
+// 交易時段選擇
+export enum SessionFilter {
+  DAY = 'day',     // 僅一般交易時段
+  NIGHT = 'night', // 僅盤後交易時段
+  BOTH = 'both'    // 一般與盤後交易時段
+}
+
+// 出場距離計算方式
+export enum ExitDistanceType {
+  POINTS = 'points',   // 固定點數
+  PERCENT = 'percent', // 進場價百分比
+  ATR = 'atr'          // ATR 倍數
+}
+
+// 出場距離
+export interface ExitDistance {
+  type: ExitDistanceType;         // 計算方式
+  value: number;                  // 點數、百分比或 ATR 倍數
+}
+
+// 出場規則
+export interface ExitRules {
+  stopLoss?: ExitDistance;        // 停損
+  takeProfit?: ExitDistance;      // 停利
+  trailingStop?: ExitDistance;    // 移動停損
+  maxHoldingBars?: number;        // 最長持倉K棒數
+  atrPeriod?: number;             // ATR 週期（預設 14）
+}
+
+// 倉位模型
+export enum SizingModel {
+  PERCENT_OF_CAPITAL = 'percent_of_capital', // 資金百分比
+  FIXED_CONTRACTS = 'fixed_contracts',       // 固定口數/股數
+  FIXED_FRACTIONAL = 'fixed_fractional',     // 固定風險比例
+  VOLATILITY_TARGET = 'volatility_target',   // 波動率目標
+  KELLY = 'kelly'                            // 凱利公式
+}
+
+// 波動率來源
+export enum VolatilitySource {
+  ATR = 'atr',         // 平均真實區間
+  REALIZED = 'realized' // 已實現波動率
+}
+
+// 倉位模型設置
+export interface SizingSettings {
+  model: SizingModel;                  // 倉位模型
+  contracts?: number;                  // 固定口數/股數
+  riskPct?: number;                    // 每筆交易風險 (% 權益)
+  stopPoints?: number;                 // 未設定停損規則時使用的停損點數
+  targetVolatility?: number;           // 目標年化波動率 (%)
+  volatilitySource?: VolatilitySource; // 波動率來源
+  volatilityPeriod?: number;           // 波動率計算週期
+  kellyFraction?: number;              // 凱利比例（如 0.5 為半凱利）
+  kellyLookback?: number;              // 凱利統計使用的最近交易筆數
+}
+
+// 交易成本預設
+export enum CostPreset {
+  AUTO = 'auto',         // 依商品自動選擇
+  TX = 'tx',             // 臺股期貨
+  MTX = 'mtx',           // 小型臺指期貨
+  TMF = 'tmf',           // 微型臺指期貨
+  TW_STOCK = 'tw_stock', // 臺灣股票
+  TW_ETF = 'tw_etf',     // 臺灣 ETF
+  CUSTOM = 'custom'      // 自訂
+}
+
+// 交易成本設置
+export interface CostModelSettings {
+  preset: CostPreset;             // 預設
+  commissionRate?: number;        // 自訂手續費率 (%)
+  perContractFee?: number;        // 自訂每口/每筆固定手續費
+  minCommission?: number;         // 自訂最低手續費
+  taxRate?: number;               // 自訂交易稅率 (%)
+  taxOnSellOnly?: boolean;        // 自訂是否僅賣出課稅
+}
+
+// 滑點設置
+export interface SlippageSettings {
+  ticks: number;                  // 固定滑點跳動點數
+  impactCoefficient?: number;     // 市場衝擊係數：額外跳動點數 = 係數 × √(參與率%)
+  participationCap?: number;      // 參與率上限 (% 當根K棒成交量)，超過時拒絕委託
+}
+
+// 保證金設置
+export interface MarginSettings {
+  callDeadlineDays?: number;      // 追繳期限（交易日，預設 1），逾期權益仍未回補至原始保證金時於下一根K棒開盤強制平倉
+  liquidationRatio?: number;      // 盤中代為沖銷門檻：風險指標 (%) 低於此值時立即平倉（預設 25，0 表示停用）
+}
+
+// 交易時段設置（日內K棒適用）
+export interface SessionSettings {
+  filter: SessionFilter;          // 交易的時段，其他時段的K棒不納入回測
+  flatAtSessionEnd?: boolean;     // 每個交易時段最後一根K棒收盤平倉並取消未成交委託
+}
+
+// 保證金追繳
+export interface MarginCall {
+  timestamp: number;              // 發生時間（結算時）
+  equity: number;                 // 發生時權益
+  initialMargin: number;          // 所需原始保證金
+  maintenanceMargin: number;      // 所需維持保證金
+  deficit: number;                // 追繳金額（回補至原始保證金）
+  resolvedAt?: number;            // 權益回補或倉位了結的時間
+  liquidatedAt?: number;          // 強制平倉時間
+}
+
 // 訂單
 export interface Order {
   id: string;                     // 訂單ID
@@ -32,14 +174,73 @@ export interface Order {
   direction: TradeDirection;      // 交易方向
   quantity: number;               // 交易數量
   price?: number;                 // 限價/停損價格（市價單可為空）
+  timeInForce: TimeInForce;       // 委託條件
   status: OrderStatus;            // 訂單狀態
   createdAt: number;              // 創建時間
+  createdIndex: number;           // 創建時的K棒索引
+  closedAt?: number;              // 取消/拒絕時間
+  reason?: string;                // 取消/拒絕原因
   filledAt?: number;              // 成交時間
   filledPrice?: number;           // 成交價格
+  exitReason?: ExitReason;        // 若此訂單平倉，記錄的出場原因（轉倉的新倉委託亦標示為轉倉）
   commission: number;             // 手續費
+  tax: number;                    // 交易稅
   slippage: number;               // 滑點成本
 }
 
+// 策略委託請求
+export interface OrderRequest {
+  type: OrderType;                // 訂單類型
+  direction: TradeDirection;      // 交易方向
+  quantity?: number;              // 交易數量（省略時依倉位大小設定計算）
+  price?: number;                 // 限價/停損價格
+  timeInForce?: TimeInForce;      // 委託條件（預設 ROD）
+}
+
+// 策略下單介面
+export interface OrderBroker {
+  submitOrder(request: OrderRequest): Order;      // 送出委託
+  cancelOrder(orderId: string): boolean;          // 取消委託
+  cancelAllOrders(): void;                        // 取消所有等待中的委託
+  getPendingOrders(): Order[];                    // 獲取等待中的委託
+  getPosition(): Position | undefined;            // 獲取目前倉位
+  getEquity(): number;                            // 獲取目前帳戶權益
+}
+
+// 組合回測的橫斷面策略上下文
+export interface PortfolioContext {
+  timestamp: number;              // 當前時間戳記
+  symbols: string[];              // 當前有K棒的標的
+  data: Record<string, MarketData>;   // 各標的市場數據（僅含已開始有K棒的標的）
+  indices: Record<string, number>;    // 各標的目前K棒索引
+  brokers: Record<string, OrderBroker>; // 各標的下單介面（僅含當前有K棒的標的）
+  timeframes: Record<string, MultiTimeframeData>; // 各標的多週期數據（僅含已開始有K棒的標的）
+}
+
+// 單一標的策略上下文
+export interface StrategyContext {
+  timeframes: MultiTimeframeData; // 多週期數據，可讀取截至當前K棒已完成的較長週期K棒
+}
+
+// 事件驅動策略的執行上下文（每次回測、每個標的各一份）
+export interface StrategyRunContext<S = any> extends StrategyContext {
+  symbol: string;                 // 交易標的
+  data: MarketData;               // 市場數據
+  index: number;                  // 目前K棒索引（回測開始前為 -1）
+  params: any;                    // 策略參數
+  state: S;                       // 策略狀態，初始為空物件，僅在本次回測中保存
+  broker: OrderBroker;            // 下單介面，可查詢倉位、權益與等待中的委託
+}
+
+// 事件驅動策略的生命週期事件
+export interface StrategyEventHandler<S = any> {
+  onInit?(context: StrategyRunContext<S>): void;                        // 回測開始前
+  onBar(context: StrategyRunContext<S>): TradeDirection | void;         // 每根K棒收盤，返回 void 時不處理信號
+  onOrderFilled?(order: Order, context: StrategyRunContext<S>): void;   // 委託成交並更新倉位後
+  onTradeClosed?(trade: Trade, context: StrategyRunContext<S>): void;   // 交易平倉後
+  onEnd?(context: StrategyRunContext<S>): void;                         // 回測結束並平倉所有倉位後
+}
+
 // 倉位
 export interface Position {
   symbol: string;                 // 交易標的
@@ -47,8 +248,22 @@ export interface Position {
   quantity: number;               // 持有數量
   entryPrice: number;             // 入場均價
   entryTime: number;              // 入場時間
+  entryIndex: number;             // 入場K棒索引
+  entryOrderId: string;           // 入場訂單ID
+  entryCommission: number;        // 入場手續費
+  entryTax: number;               // 入場交易稅
+  entrySlippage: number;          // 入場滑點成本
+  multiplier: number;             // 每點價值
+  margin: number;                 // 占用原始保證金
+  maintenanceMargin: number;      // 所需維持保證金
+  settlementPrice: number;        // 最近一次結算價（未結算前為入場均價）
+  settledPnl: number;             // 已逐日結算計入資金的損益
+  stopLossPrice?: number;         // 停損價
+  takeProfitPrice?: number;       // 停利價
+  trailingDistance?: number;      // 移動停損距離（點）
+  extremePrice: number;           // 持倉期間最有利價格（多單最高價/空單最低價）
   lastUpdateTime: number;         // 最後更新時間
-  unrealizedPnl: number;          // 未實現盈虧
+  unrealizedPnl: number;          // 未實現盈虧（自入場起算，含已逐日結算部分）
 }
 
 // 交易記錄
@@ -62,23 +277,38 @@ export interface Trade {
   exitTime: number;               // 出場時間
   exitPrice: number;              // 出場價格
   exitOrderId: string;            // 出場訂單ID
-  quantity: number;               // 交易數量
-  profit: number;                 // 交易盈虧
+  exitReason: ExitReason;         // 出場原因
+  quantity: number;               // 交易數量（期貨為口數）
+  multiplier: number;             // 每點價值
+  points: number;                 // 每口點數盈虧
+  profit: number;                 // 交易盈虧（點數 × 每點價值 × 數量）
   profitPct: number;              // 交易盈虧百分比
   commission: number;             // 手續費
-  slippage: number;               // 滑點成本
-  netProfit: number;              // 淨盈虧
+  tax: number;                    // 交易稅
+  slippage: number;               // 滑點成本（已反映於成交價）
+  netProfit: number;              // 淨盈虧（扣除手續費與交易稅）
 }
 
 // 回測設置
 export interface BacktestSettings {
-  symbol: string;                 // 回測標的
+  symbol: string;                 // 回測標的（組合回測時為第一個標的）
+  symbols?: string[];             // 組合回測標的（未設置時僅回測 symbol）
+  interval?: BarInterval;         // K棒週期（預設日線）
+  session?: SessionSettings;      // 交易時段設置（日內K棒適用）
   startDate: number;              // 開始日期
   endDate: number;                // 結束日期
   initialCapital: number;         // 初始資金
   positionSize: number;           // 倉位大小 (%)
+  sizing?: SizingSettings;        // 倉位模型（預設為資金百分比）
   commissionRate: number;         // 手續費率
-  slippage: number;               // 滑點設置
+  costModel?: CostModelSettings;  // 交易成本模型（未設置時僅以手續費率計算）
+  slippage?: number;              // 滑點百分比（未設置 slippageModel 時使用）
+  slippageModel?: SlippageSettings; // 跳動點滑點與市場衝擊設置
+  fillModel?: FillModel;          // 成交模式（預設為下一根K棒開盤價）
+  exitRules?: ExitRules;          // 出場規則
+  margin?: MarginSettings;        // 保證金追繳設置（僅適用期貨）
+  continuousContract?: ContinuousContractOptions; // 連續合約設置（資料檔記錄到期月份時適用）
+  simulateRolls?: boolean;        // 轉倉日模擬平倉舊合約並建立新合約倉位，計入交易成本
   strategyId: string;             // 使用的策略ID
   strategyParams: any;            // 策略參數值
 }
@@ -87,12 +317,32 @@ export interface BacktestSettings {
 export interface BacktestResult {
   id: string;                     // 回測結果ID
   settings: BacktestSettings;     // 回測設置
+  contract: ContractSpec;         // 合約規格
   trades: Trade[];                // 交易記錄
+  orders: Order[];                // 委託記錄
+  marginCalls: MarginCall[];      // 保證金追繳記錄
+  contributions: SymbolContribution[]; // 各標的損益貢獻
+  correlation: CorrelationMatrix; // 各標的損益相關係數
   performance: Performance;       // 績效指標
   equity: EquityPoint[];          // 權益曲線
   drawdowns: DrawdownPoint[];     // 回撤曲線
 }
 
+// 標的損益貢獻
+export interface SymbolContribution {
+  symbol: string;                 // 交易標的
+  name: string;                   // 商品名稱
+  trades: number;                 // 交易次數
+  netProfit: number;              // 淨盈虧
+  contributionPct: number;        // 貢獻報酬率 (% 初始資金)
+}
+
+// 相關係數矩陣
+export interface CorrelationMatrix {
+  symbols: string[];              // 標的（矩陣列與欄的順序）
+  values: number[][];             // 相關係數，無法計算時為 NaN
+}
+
 // 績效指標
 export interface Performance {
   totalTrades: number;            // 總交易次數
@@ -101,6 +351,14 @@ export interface Performance {
   winRate: number;                // 勝率
   totalNetProfit: number;         // 總淨盈虧
   totalNetProfitPct: number;      // 總淨盈虧百分比
+  totalPoints: number;            // 總點數盈虧
+  totalCommission: number;        // 總手續費
+  totalTax: number;               // 總交易稅
+  totalSlippage: number;          // 總滑點成本
+  marginCalls: number;            // 保證金追繳次數
+  liquidations: number;           // 強制平倉次數
+  rolls: number;                  // 轉倉次數
+  maxMarginUtilization: number;   // 最大保證金使用率 (%)
   profitFactor: number;           // 盈虧比
   averageProfit: number;          // 平均盈利
   averageLoss: number;            // 平均虧損
@@ -118,6 +376,9 @@ export interface Performance {
 export interface EquityPoint {
   timestamp: number;              // 時間戳記
   equity: number;                 // 權益值
+  usedMargin?: number;            // 占用原始保證金（僅期貨）
+  availableMargin?: number;       // 可用保證金 = 權益 - 占用原始保證金（僅期貨）
+  marginUtilization?: number;     // 保證金使用率 (% 權益)（僅期貨，權益非正值時為 NaN）
 }
 
 // 回撤曲線點
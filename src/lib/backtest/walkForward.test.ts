@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaifexDataService } from '../api/taifexDataService';
+import { OptimizationObjective } from '../optimization/objective';
+import { OptimizationMethod } from '../optimization/optimizers';
+import { EventStrategy } from '../strategies/base';
+import { StrategyRegistry } from '../strategies/registry';
+import { BacktestSettings, StrategyRunContext } from './types';
+import { WalkForwardAnalyzer, WalkForwardMode, WalkForwardSettings } from './walkForward';
+
+const rsi = StrategyRegistry.getInstance().getStrategy('rsi_strategy')!;
+
+const backtestSettings: BacktestSettings = {
+  symbol: 'TXFF',
+  startDate: new Date('2024-06-01').getTime(),
+  endDate: new Date('2024-12-31').getTime(),
+  initialCapital: 1000000,
+  positionSize: 100,
+  commissionRate: 0.001425,
+  strategyId: rsi.id,
+  strategyParams: { period: 14, oversold: 30, overbought: 70 }
+};
+
+const settings: WalkForwardSettings = {
+  mode: WalkForwardMode.ROLLING,
+  inSampleDays: 60,
+  outOfSampleDays: 40,
+  objective: OptimizationObjective.NET_PROFIT,
+  paramRanges: { period: { min: 14, max: 21, step: 7 } },
+  method: OptimizationMethod.GRID
+};
+
+/**
+ * 建立在指定條件下回測失敗的 RSI 策略
+ * @param fails 依策略參數判斷是否失敗
+ */
+function createFailingStrategy(fails: (params: any) => boolean): EventStrategy {
+  return Object.assign(Object.create(rsi), {
+    onBar(context: StrategyRunContext) {
+      if (fails(context.params)) {
+        throw new Error('回測失敗');
+      }
+      return rsi.onBar(context);
+    }
+  });
+}
+
+/**
+ * 以本地台指期數據建立前進分析
+ */
+async function createAnalyzer(strategy: EventStrategy): Promise<WalkForwardAnalyzer> {
+  const data = await TaifexDataService.getInstance().getMarketData('TXFF', '2024-06-01', '2024-12-31');
+  return new WalkForwardAnalyzer(backtestSettings, { TXFF: data }, strategy);
+}
+
+test('樣本內評估失敗的參數不列入最佳參數與過度擬合診斷', async () => {
+  const analyzer = await createAnalyzer(createFailingStrategy(params => params.period === 21));
+  const result = analyzer.run(settings);
+
+  assert.ok(result.windows.length > 0);
+  result.windows.forEach(window => {
+    assert.equal(window.failedEvaluations, 1);
+    assert.equal(window.params.period, 14);
+    assert.ok(Number.isFinite(window.inSampleScore));
+  });
+});
+
+test('視窗的樣本內評估皆失敗時拋出錯誤', async () => {
+  const analyzer = await createAnalyzer(createFailingStrategy(() => true));
+  assert.throws(() => analyzer.run(settings), { message: '第 1 個視窗的樣本內評估皆失敗：回測失敗' });
+});
@@ -0,0 +1,457 @@
+import { runBacktest } from './runner';
+import { BacktestResult, BacktestSettings, EquityPoint, Performance } from './types';
+import { EventStrategy } from '../strategies/base';
+import { MarketData } from '../api/yahooFinance';
+import { getBarTradingDate } from '../api/tradingSessions';
+import { getObjectiveScore, OptimizationObjective } from '../optimization/objective';
+import { createSearchSpace, getParameterKey, getSearchSpaceSize, ParamRange } from '../optimization/searchSpace';
+import { createOptimizer, OptimizationMethod, Trial } from '../optimization/optimizers';
+import { OptimizationProgress, runOptimization, runOptimizationAsync } from '../optimization/runner';
+import { analyzeOverfitting, getEquityReturns, OverfittingDiagnostics, toDailyReturns } from '../optimization/overfitting';
+import type { EvaluationPool } from '../optimization/workerPool';
+
+// 前進分析的視窗模式
+export enum WalkForwardMode {
+  ROLLING = 'rolling',     // 滾動：樣本內視窗長度固定，隨樣本外視窗向前移動
+  ANCHORED = 'anchored'    // 錨定：樣本內視窗固定自第一個交易日開始，逐步加長
+}
+
+// 前進分析設置
+export interface WalkForwardSettings {
+  mode: WalkForwardMode;
+  inSampleDays: number;                       // 樣本內交易日數（錨定模式為第一個視窗的長度）
+  outOfSampleDays: number;                    // 樣本外交易日數，亦為視窗每次前進的交易日數
+  objective: OptimizationObjective;           // 樣本內優化目標
+  paramRanges: Record<string, ParamRange>;    // 需優化的參數範圍，其餘參數沿用回測設置
+  method: OptimizationMethod;                 // 樣本內優化方法
+  maxEvaluations?: number;                    // 每個視窗最多評估次數，未設定時評估所有參數組合
+  seed?: number;                              // 亂數種子，相同種子可重現優化結果
+}
+
+// 前進分析的單一視窗
+export interface WalkForwardWindow {
+  inSampleStart: number;          // 樣本內開始日期
+  inSampleEnd: number;            // 樣本內結束日期
+  outOfSampleStart: number;       // 樣本外開始日期
+  outOfSampleEnd: number;         // 樣本外結束日期
+  params: any;                    // 樣本內優化所得參數
+  inSampleScore: number;          // 樣本內優化目標值
+  inSample: Performance;          // 樣本內績效
+  outOfSample: Performance;       // 樣本外績效
+  efficiency: number;             // 前進效率：樣本外每日淨盈虧 / 樣本內每日淨盈虧，樣本內未獲利時為 NaN
+  diagnostics: OverfittingDiagnostics; // 依樣本內所有成功評估計算的過度擬合診斷
+  failedEvaluations: number;      // 樣本內評估失敗的次數
+}
+
+// 參數在各視窗間的穩定度
+export interface ParameterStability {
+  id: string;                     // 參數ID
+  values: number[];               // 各視窗的優化結果
+  mean: number;                   // 平均值
+  stdDev: number;                 // 標準差
+  normalizedStdDev: number;       // 標準差 / 搜尋範圍寬度，越小越穩定
+}
+
+// 前進分析結果
+export interface WalkForwardResult {
+  settings: WalkForwardSettings;
+  windows: WalkForwardWindow[];
+  equity: EquityPoint[];          // 串接各樣本外視窗的權益曲線
+  outOfSampleNetProfit: number;   // 樣本外總淨盈虧
+  outOfSampleNetProfitPct: number; // 樣本外總淨盈虧百分比
+  outOfSampleTrades: number;      // 樣本外總交易次數
+  outOfSampleWinRate: number;     // 樣本外勝率
+  outOfSampleMaxDrawdown: number; // 串接權益曲線的最大回撤
+  efficiency: number;             // 整體前進效率，樣本內總淨盈虧未獲利時為 NaN
+  parameterStability: ParameterStability[];
+  cancelled: boolean;             // 是否中途停止，停止時僅包含已完成的視窗
+}
+
+// 前進分析進度
+export interface WalkForwardProgress extends OptimizationProgress {
+  window: number;                 // 目前優化中的視窗（自 1 起算）
+  windows: number;                // 總視窗數
+}
+
+/**
+ * 將交易日轉換為當地時間當日零時的時間戳記（毫秒），與回測設置的日期格式相同
+ * @param date 交易日（YYYY-MM-DD）
+ */
+function toDateTimestamp(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+/**
+ * 獲取第 i 個視窗的樣本內交易日數，錨定模式每個視窗加長一個樣本外期間
+ * @param settings 前進分析設置
+ * @param i 視窗索引
+ */
+function getInSampleDays(settings: WalkForwardSettings, i: number): number {
+  return settings.mode === WalkForwardMode.ANCHORED
+    ? settings.inSampleDays + i * settings.outOfSampleDays
+    : settings.inSampleDays;
+}
+
+/**
+ * 計算平均值與標準差
+ * @param values 數值
+ */
+function meanAndStdDev(values: number[]): { mean: number; stdDev: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * 前進分析
+ * 將回測期間切成連續的樣本內、樣本外視窗：每個視窗在樣本內以選定的優化方法找出最佳參數，
+ * 再以該參數回測緊接的樣本外期間。各視窗皆以完整市場數據回測，指標可使用視窗開始前的K棒暖機；
+ * 樣本外回測各自以初始資金開始並於視窗結束時平倉，串接權益曲線以累計淨盈虧相接
+ */
+export class WalkForwardAnalyzer {
+  private settings: BacktestSettings;
+  private marketData: Record<string, MarketData>;
+  private strategy: EventStrategy;
+
+  /**
+   * @param settings 回測設置，開始與結束日期為前進分析的總期間
+   * @param marketData 各標的市場數據
+   * @param strategy 策略
+   */
+  constructor(settings: BacktestSettings, marketData: Record<string, MarketData>, strategy: EventStrategy) {
+    this.settings = settings;
+    this.marketData = marketData;
+    this.strategy = strategy;
+  }
+
+  /**
+   * 獲取第一個標的的市場數據，用於切分交易日與買入持有基準
+   */
+  private getPrimaryData(): MarketData {
+    return this.marketData[this.settings.symbols?.[0] ?? this.settings.symbol];
+  }
+
+  /**
+   * 獲取回測期間內第一個標的的交易日
+   */
+  private getTradingDates(): string[] {
+    const data = this.getPrimaryData();
+    const start = new Date(this.settings.startDate);
+    const end = new Date(this.settings.endDate);
+    const format = (date: Date) => [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, '0'),
+      String(date.getDate()).padStart(2, '0')
+    ].join('-');
+    const startDate = format(start);
+    const endDate = format(end);
+
+    const dates: string[] = [];
+    for (let i = 0; i < data.timestamp.length; i++) {
+      const date = getBarTradingDate(data, i);
+      if (date >= startDate && date <= endDate && dates[dates.length - 1] !== date) {
+        dates.push(date);
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * 以指定期間與參數回測
+   * @param startDate 開始日期
+   * @param endDate 結束日期
+   * @param params 策略參數
+   */
+  private backtest(startDate: number, endDate: number, params: any): BacktestResult {
+    return runBacktest({ ...this.settings, startDate, endDate, strategyParams: params }, this.marketData, this.strategy);
+  }
+
+  /**
+   * 切分樣本內、樣本外視窗
+   * @param settings 前進分析設置
+   * @returns 各視窗樣本內與樣本外的交易日範圍
+   * @throws Error 回測期間不足一個視窗時拋出
+   */
+  public getWindows(settings: WalkForwardSettings): { inSample: [string, string]; outOfSample: [string, string] }[] {
+    const dates = this.getTradingDates();
+    const { inSampleDays, outOfSampleDays } = settings;
+
+    if (inSampleDays < 2 || outOfSampleDays < 2) {
+      throw new Error('樣本內與樣本外期間至少需要 2 個交易日');
+    }
+
+    if (dates.length < inSampleDays + outOfSampleDays) {
+      throw new Error(`回測期間僅有 ${dates.length} 個交易日，不足一個樣本內加樣本外視窗`);
+    }
+
+    const windows: { inSample: [string, string]; outOfSample: [string, string] }[] = [];
+    for (let start = inSampleDays; start + outOfSampleDays <= dates.length; start += outOfSampleDays) {
+      const inSampleStart = settings.mode === WalkForwardMode.ANCHORED ? 0 : start - inSampleDays;
+      windows.push({
+        inSample: [dates[inSampleStart], dates[start - 1]],
+        outOfSample: [dates[start], dates[start + outOfSampleDays - 1]]
+      });
+    }
+    return windows;
+  }
+
+  /**
+   * 以樣本內優化所得參數回測視窗的樣本內與樣本外期間
+   * @param settings 前進分析設置
+   * @param window 視窗的交易日範圍
+   * @param i 視窗索引
+   * @param best 樣本內最佳評估，沒有任何評估時沿用回測設置的參數
+   * @param trials 樣本內所有評估
+   * @param returns 各評估的每日報酬，與 trials 順序相同，失敗的評估為空陣列
+   */
+  private evaluateWindow(
+    settings: WalkForwardSettings,
+    window: { inSample: [string, string]; outOfSample: [string, string] },
+    i: number,
+    best: Trial | null,
+    trials: Trial[],
+    returns: number[][]
+  ): { window: WalkForwardWindow; outOfSample: BacktestResult } {
+    const inSampleStart = toDateTimestamp(window.inSample[0]);
+    const inSampleEnd = toDateTimestamp(window.inSample[1]);
+    const outOfSampleStart = toDateTimestamp(window.outOfSample[0]);
+    const outOfSampleEnd = toDateTimestamp(window.outOfSample[1]);
+    const bestParams = { ...this.settings.strategyParams, ...best?.params };
+
+    const inSample = this.backtest(inSampleStart, inSampleEnd, bestParams);
+    const outOfSample = this.backtest(outOfSampleStart, outOfSampleEnd, bestParams);
+
+    const inSampleDaily = inSample.performance.totalNetProfit / getInSampleDays(settings, i);
+    const outOfSampleDaily = outOfSample.performance.totalNetProfit / settings.outOfSampleDays;
+
+    // 以樣本內所有評估的每日報酬診斷過度擬合，基準為主要標的在樣本內期間的買入持有
+    const data = this.getPrimaryData();
+    const closeByTimestamp = new Map(data.timestamp.map((timestamp, k) => [timestamp, data.close[k]]));
+    let close = data.close[0];
+    const timestamps = inSample.equity.map(point => point.timestamp);
+    const benchmark = toDailyReturns(
+      timestamps,
+      timestamps.map(timestamp => (close = closeByTimestamp.get(timestamp) ?? close)),
+      data
+    );
+    // 失敗的評估沒有每日報酬，不列入診斷
+    const completed = trials.map((_, k) => k).filter(k => trials[k].error === undefined);
+    const diagnostics = analyzeOverfitting(
+      completed.map(k => returns[k]),
+      best ? completed.indexOf(trials.indexOf(best)) : 0,
+      benchmark,
+      { seed: settings.seed }
+    );
+
+    return {
+      window: {
+        inSampleStart,
+        inSampleEnd,
+        outOfSampleStart,
+        outOfSampleEnd,
+        params: bestParams,
+        inSampleScore: best?.score ?? -Infinity,
+        inSample: inSample.performance,
+        outOfSample: outOfSample.performance,
+        efficiency: inSampleDaily > 0 ? outOfSampleDaily / inSampleDaily : NaN,
+        diagnostics,
+        failedEvaluations: trials.length - completed.length
+      },
+      outOfSample
+    };
+  }
+
+  /**
+   * 彙整各視窗結果，串接樣本外權益曲線並計算整體指標
+   * @param settings 前進分析設置
+   * @param evaluated 各視窗結果與樣本外回測
+   * @param cancelled 是否中途停止
+   */
+  private summarize(
+    settings: WalkForwardSettings,
+    evaluated: { window: WalkForwardWindow; outOfSample: BacktestResult }[],
+    cancelled: boolean
+  ): WalkForwardResult {
+    const results = evaluated.map(({ window }) => window);
+    const equity: EquityPoint[] = [];
+    const { initialCapital } = this.settings;
+    let offset = 0;
+
+    // 串接樣本外權益曲線
+    evaluated.forEach(({ outOfSample }) => {
+      outOfSample.equity.forEach(point => {
+        equity.push({ timestamp: point.timestamp, equity: point.equity + offset });
+      });
+      offset += outOfSample.performance.totalNetProfit;
+    });
+
+    // 串接權益曲線的最大回撤
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    equity.forEach(point => {
+      peak = Math.max(peak, point.equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - point.equity);
+    });
+
+    // 整體前進效率：樣本外與樣本內的每日平均淨盈虧比
+    const inSampleDays = results.reduce((sum, _, i) => sum + getInSampleDays(settings, i), 0);
+    const inSampleDaily = results.reduce((sum, window) => sum + window.inSample.totalNetProfit, 0) / inSampleDays;
+    const outOfSampleDaily = offset / (results.length * settings.outOfSampleDays);
+
+    const trades = results.reduce((sum, window) => sum + window.outOfSample.totalTrades, 0);
+    const winningTrades = results.reduce((sum, window) => sum + window.outOfSample.winningTrades, 0);
+
+    return {
+      settings,
+      windows: results,
+      equity,
+      outOfSampleNetProfit: offset,
+      outOfSampleNetProfitPct: (offset / initialCapital) * 100,
+      outOfSampleTrades: trades,
+      outOfSampleWinRate: trades > 0 ? (winningTrades / trades) * 100 : 0,
+      outOfSampleMaxDrawdown: maxDrawdown,
+      efficiency: inSampleDaily > 0 ? outOfSampleDaily / inSampleDaily : NaN,
+      parameterStability: Object.entries(settings.paramRanges).map(([id, range]) => {
+        const values = results.map(window => Number(window.params[id]));
+        const { mean, stdDev } = meanAndStdDev(values);
+        return {
+          id,
+          values,
+          mean,
+          stdDev,
+          normalizedStdDev: range.max > range.min ? stdDev / (range.max - range.min) : 0
+        };
+      }),
+      cancelled
+    };
+  }
+
+  /**
+   * 執行前進分析
+   * @param settings 前進分析設置
+   * @param onProgress 完成每個視窗後呼叫，參數為已完成與總視窗數
+   * @returns 前進分析結果
+   * @throws Error 回測期間不足一個視窗，或任一視窗的樣本內評估皆失敗時拋出
+   */
+  public run(settings: WalkForwardSettings, onProgress?: (completed: number, total: number) => void): WalkForwardResult {
+    const windows = this.getWindows(settings);
+    const space = createSearchSpace(this.strategy.getParameters(), settings.paramRanges, this.settings.strategyParams);
+    const maxEvaluations = settings.maxEvaluations ?? getSearchSpaceSize(space);
+
+    const evaluated = windows.map((window, i) => {
+      const inSampleStart = toDateTimestamp(window.inSample[0]);
+      const inSampleEnd = toDateTimestamp(window.inSample[1]);
+
+      // 樣本內參數優化，未優化的參數沿用回測設置；各視窗使用相同種子
+      const returns = new Map<string, number[]>();
+      const optimizer = createOptimizer(settings.method, space, { seed: settings.seed });
+      const { best, trials } = runOptimization(
+        optimizer,
+        params => {
+          const result = this.backtest(inSampleStart, inSampleEnd, { ...this.settings.strategyParams, ...params });
+          returns.set(getParameterKey(space, params), getEquityReturns(result.equity, this.getPrimaryData()));
+          return getObjectiveScore(result.performance, settings.objective);
+        },
+        { maxEvaluations }
+      );
+
+      const failed = trials.filter(trial => trial.error !== undefined);
+      if (failed.length > 0 && failed.length === trials.length) {
+        throw new Error(`第 ${i + 1} 個視窗的樣本內評估皆失敗：${failed[0].error}`);
+      }
+
+      const result = this.evaluateWindow(
+        settings,
+        window,
+        i,
+        best,
+        trials,
+        trials.map(trial => returns.get(getParameterKey(space, trial.params)) ?? [])
+      );
+      onProgress?.(i + 1, windows.length);
+      return result;
+    });
+
+    return this.summarize(settings, evaluated, false);
+  }
+
+  /**
+   * 以評估池執行前進分析，樣本內優化的回測分散到多個執行緒
+   * 中止時以目前視窗已完成評估中的最佳參數完成該視窗，並保留已完成的視窗
+   * @param settings 前進分析設置
+   * @param pool 評估池，其優化工作須與此分析的回測設置與優化目標相同
+   * @param options 中止信號與進度回報
+   * @returns 前進分析結果
+   * @throws Error 回測期間不足一個視窗，或任一視窗的樣本內評估皆失敗時拋出
+   */
+  public async runInPool(
+    settings: WalkForwardSettings,
+    pool: EvaluationPool,
+    options: { signal?: AbortSignal; onProgress?: (progress: WalkForwardProgress) => void } = {}
+  ): Promise<WalkForwardResult> {
+    const windows = this.getWindows(settings);
+    const space = createSearchSpace(this.strategy.getParameters(), settings.paramRanges, this.settings.strategyParams);
+    const maxEvaluations = settings.maxEvaluations ?? getSearchSpaceSize(space);
+    const total = windows.length * maxEvaluations;
+    const start = Date.now();
+    const evaluated: { window: WalkForwardWindow; outOfSample: BacktestResult }[] = [];
+    let completed = 0;
+
+    for (let i = 0; i < windows.length; i++) {
+      const startDate = toDateTimestamp(windows[i].inSample[0]);
+      const endDate = toDateTimestamp(windows[i].inSample[1]);
+
+      const returns = new Map<string, number[]>();
+      const optimizer = createOptimizer(settings.method, space, { seed: settings.seed });
+      const { best, trials, cancelled } = await runOptimizationAsync(
+        optimizer,
+        async params => {
+          const result = await pool.evaluate({ startDate, endDate, params });
+          returns.set(getParameterKey(space, params), result.returns);
+          return result.score;
+        },
+        { maxEvaluations },
+        {
+          concurrency: pool.size,
+          signal: options.signal,
+          onProgress: progress => {
+            const evaluations = completed + progress.evaluations;
+            const elapsedMs = Date.now() - start;
+            options.onProgress?.({
+              window: i + 1,
+              windows: windows.length,
+              evaluations,
+              total,
+              best: progress.best,
+              elapsedMs,
+              etaMs: (elapsedMs / evaluations) * (total - evaluations)
+            });
+          }
+        }
+      );
+      completed += trials.length;
+
+      const failed = trials.filter(trial => trial.error !== undefined);
+      if (failed.length > 0 && failed.length === trials.length) {
+        throw new Error(`第 ${i + 1} 個視窗的樣本內評估皆失敗：${failed[0].error}`);
+      }
+
+      if (best) {
+        evaluated.push(this.evaluateWindow(
+          settings,
+          windows[i],
+          i,
+          best,
+          trials,
+          trials.map(trial => returns.get(getParameterKey(space, trial.params)) ?? [])
+        ));
+      }
+      if (cancelled) {
+        return this.summarize(settings, evaluated, true);
+      }
+    }
+
+    return this.summarize(settings, evaluated, false);
+  }
+}
@@ -0,0 +1,32 @@
+import { OptimizationJob, WorkerResponse } from './evaluation';
+import { createInlinePool, EvaluationPool, getDefaultPoolSize, WorkerPool } from './workerPool';
+
+/**
+ * 建立使用瀏覽器 Web Worker 的評估池，不支援 Web Worker 時在目前執行緒評估
+ * @param job 優化工作
+ * @param size 執行緒數，預設依瀏覽器回報的核心數決定
+ * @returns 評估池
+ */
+export function createBrowserPool(job: OptimizationJob, size?: number): EvaluationPool {
+  if (typeof Worker === 'undefined') {
+    return createInlinePool(job);
+  }
+
+  return new WorkerPool(
+    () => {
+      const worker = new Worker(new URL('./browserWorker.ts', import.meta.url));
+      return {
+        postMessage: message => worker.postMessage(message),
+        onMessage: handler => {
+          worker.onmessage = (event: MessageEvent<WorkerResponse>) => handler(event.data);
+        },
+        onError: handler => {
+          worker.onerror = event => handler(new Error(event.message));
+        },
+        terminate: () => worker.terminate()
+      };
+    },
+    size ?? getDefaultPoolSize(navigator.hardwareConcurrency),
+    job
+  );
+}
@@ -0,0 +1,11 @@
+import { createWorkerHandler, WorkerRequest } from './evaluation';
+
+// 瀏覽器 Web Worker 的進入點：接收優化工作與評估請求，回傳目標值
+const handle = createWorkerHandler();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const response = handle(event.data);
+  if (response) {
+    self.postMessage(response);
+  }
+};
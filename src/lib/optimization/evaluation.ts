@@ -0,0 +1,107 @@
+import { BacktestSettings } from '../backtest/types';
+import { runBacktest } from '../backtest/runner';
+import { MarketData } from '../api/yahooFinance';
+import { EventStrategy } from '../strategies/base';
+import { StrategyRegistry } from '../strategies/registry';
+import { StoredStrategies } from '../strategies/ruleStorage';
+import { getObjectiveScore, getTrialMetrics, OptimizationObjective, TrialMetrics } from './objective';
+import { getEquityReturns } from './overfitting';
+import { ParameterSet } from './searchSpace';
+
+// 優化工作：每個執行緒初始化時收到一次，之後只傳送待評估的參數
+export interface OptimizationJob {
+  settings: BacktestSettings;                 // 回測設置，未優化的參數沿用其策略參數
+  marketData: Record<string, MarketData>;     // 各標的市場數據
+  objective: OptimizationObjective;           // 優化目標
+  storedStrategies: StoredStrategies;         // 使用者儲存的策略定義，執行緒中無法讀取瀏覽器儲存
+}
+
+// 評估請求：以指定期間與參數回測
+export interface EvaluationRequest {
+  startDate: number;          // 開始日期
+  endDate: number;            // 結束日期
+  params: ParameterSet;       // 優化中的參數
+}
+
+// 評估結果
+export interface EvaluationResult {
+  score: number;              // 目標值
+  returns: number[];          // 每日報酬，用於過度擬合診斷
+  metrics: TrialMetrics;      // 績效指標，用於參數敏感度分析
+}
+
+// 主執行緒傳給評估執行緒的訊息
+export type WorkerRequest =
+  | { type: 'init'; job: OptimizationJob }
+  | { type: 'evaluate'; id: number; request: EvaluationRequest };
+
+// 評估執行緒回傳的訊息
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: EvaluationResult }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * 以指定期間與參數回測，計算目標值、每日報酬與績效指標
+ * @param job 優化工作
+ * @param strategy 策略
+ * @param request 評估請求
+ * @returns 評估結果
+ */
+export function evaluateRequest(job: OptimizationJob, strategy: EventStrategy, request: EvaluationRequest): EvaluationResult {
+  const settings: BacktestSettings = {
+    ...job.settings,
+    startDate: request.startDate,
+    endDate: request.endDate,
+    strategyParams: { ...job.settings.strategyParams, ...request.params }
+  };
+  const result = runBacktest(settings, job.marketData, strategy);
+  const data = job.marketData[settings.symbols?.[0] ?? settings.symbol];
+
+  return {
+    score: getObjectiveScore(result.performance, job.objective),
+    returns: getEquityReturns(result.equity, data),
+    metrics: getTrialMetrics(result.performance)
+  };
+}
+
+/**
+ * 獲取優化工作的策略
+ * @param job 優化工作
+ * @throws Error 找不到策略時拋出
+ */
+export function getJobStrategy(job: OptimizationJob): EventStrategy {
+  const strategy = StrategyRegistry.getInstance().getStrategy(job.settings.strategyId);
+  if (!strategy) {
+    throw new Error(`找不到策略：${job.settings.strategyId}`);
+  }
+  return strategy;
+}
+
+/**
+ * 建立評估執行緒的訊息處理函數，瀏覽器與 Node.js 的執行緒共用
+ * 收到初始化訊息時註冊使用者策略並保存優化工作，之後逐一處理評估請求
+ * @returns 訊息處理函數，初始化訊息不需回覆時返回 null
+ */
+export function createWorkerHandler(): (message: WorkerRequest) => WorkerResponse | null {
+  let job: OptimizationJob | null = null;
+  let strategy: EventStrategy | null = null;
+
+  return message => {
+    if (message.type === 'init') {
+      StrategyRegistry.getInstance().registerStoredStrategies(message.job.storedStrategies);
+      job = message.job;
+      strategy = null;
+      return null;
+    }
+
+    try {
+      if (!job) {
+        throw new Error('評估執行緒尚未初始化');
+      }
+      strategy = strategy ?? getJobStrategy(job);
+      return { type: 'result', id: message.id, result: evaluateRequest(job, strategy, message.request) };
+    } catch (error) {
+      return { type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+}
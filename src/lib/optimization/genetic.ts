@@ -0,0 +1,182 @@
+import type { Optimizer, OptimizerOptions, Trial } from './optimizers';
+import { createRandom, gaussian, Random, randomInt } from './random';
+import {
+  decodePoint,
+  encodePoint,
+  getParameterKey,
+  getSearchSpaceSize,
+  isValidParameterSet,
+  ParameterSet,
+  samplePoint,
+  SearchSpace
+} from './searchSpace';
+
+// 遺傳演算法的個體
+export interface GeneticIndividual {
+  genome: number[];           // 各維度 [0, 1] 的座標
+}
+
+// 抽樣遇到已評估組合時的最多重抽次數
+const MAX_SAMPLE_ATTEMPTS = 100;
+
+/**
+ * 錦標賽選擇：隨機挑選數個個體，取最佳者
+ * @param population 族群
+ * @param random 亂數產生器
+ * @param size 參賽個體數
+ * @param isBetter 判斷 a 是否優於 b
+ */
+export function tournamentSelect<T>(
+  population: T[],
+  random: Random,
+  size: number,
+  isBetter: (a: T, b: T) => boolean
+): T {
+  let best = population[randomInt(random, population.length)];
+  for (let i = 1; i < size; i++) {
+    const candidate = population[randomInt(random, population.length)];
+    if (isBetter(candidate, best)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * 遺傳演算法的共用流程
+ * 以均勻交配與高斯突變產生子代，每代完成評估後與現有族群合併，由子類別決定保留的個體與選擇親代的方式；
+ * 已評估過的參數組合直接沿用先前的適應度
+ * @template T 個體
+ * @template F 適應度
+ */
+export abstract class GeneticSearch<T extends GeneticIndividual, F> implements Optimizer {
+  protected random: Random;
+  protected populationSize: number;
+  protected population: T[] = [];
+  protected generation: T[] = [];
+  private mutationRate: number;
+  private cache = new Map<string, F>();
+  private pending = new Map<string, number[]>();
+
+  constructor(protected space: SearchSpace, options: OptimizerOptions) {
+    this.random = createRandom(options.seed ?? 1);
+    this.populationSize = Math.max(4, options.populationSize ?? 20);
+    this.mutationRate = Math.max(0.1, 1 / Math.max(1, space.dimensions.length));
+  }
+
+  /**
+   * 選擇親代
+   */
+  protected abstract select(): T;
+
+  /**
+   * 自族群與新一代合併的個體中選出下一個族群
+   * @param candidates 族群與新一代的所有個體
+   */
+  protected abstract survive(candidates: T[]): T[];
+
+  /**
+   * 建立個體
+   * @param genome 各維度 [0, 1] 的座標
+   * @param fitness 適應度
+   * @param key 參數組合的識別字串
+   */
+  protected abstract createIndividual(genome: number[], fitness: F, key: string): T;
+
+  /**
+   * 計算已回報評估的適應度
+   * @param trial 評估結果
+   */
+  protected abstract getFitness(trial: Trial): F;
+
+  /**
+   * 判斷參數組合是否已在新一代中，已存在時不再加入
+   * @param key 參數組合的識別字串
+   */
+  protected abstract isInGeneration(key: string): boolean;
+
+  /**
+   * 每代產生的子代數
+   */
+  protected getOffspringCount(): number {
+    return this.populationSize;
+  }
+
+  /**
+   * 以均勻交配與高斯突變產生子代
+   */
+  private breed(): number[] {
+    const a = this.select().genome;
+    const b = this.select().genome;
+
+    return a.map((gene, i) => {
+      let value = this.random() < 0.5 ? gene : b[i];
+      if (this.random() < this.mutationRate) {
+        value += gaussian(this.random) * 0.15;
+      }
+      return Math.min(1, Math.max(0, value));
+    });
+  }
+
+  ask(): ParameterSet[] {
+    // 上一代尚未回報完畢時不提出新的一代
+    if (this.pending.size > 0) {
+      return [];
+    }
+
+    const batch: ParameterSet[] = [];
+    const size = getSearchSpaceSize(this.space);
+
+    // 子代皆已評估過時直接進入下一代，直到產生需要評估的參數
+    for (let round = 0; batch.length === 0 && round < MAX_SAMPLE_ATTEMPTS; round++) {
+      if (this.cache.size >= size) {
+        break;
+      }
+
+      if (this.generation.length > 0) {
+        this.population = this.survive([...this.population, ...this.generation]);
+        this.generation = [];
+      }
+
+      const offspring = this.getOffspringCount();
+
+      for (let attempt = 0; this.generation.length + batch.length < offspring && attempt < MAX_SAMPLE_ATTEMPTS * offspring; attempt++) {
+        if (this.cache.size + this.pending.size >= size) {
+          break;
+        }
+
+        const genome = this.population.length > 0 ? this.breed() : samplePoint(this.space, this.random);
+        const params = decodePoint(this.space, genome);
+        const key = getParameterKey(this.space, params);
+
+        if (this.pending.has(key) || this.isInGeneration(key) || !isValidParameterSet(this.space, params)) {
+          continue;
+        }
+
+        // 已評估過的個體直接加入下一代
+        const cached = this.cache.get(key);
+        if (cached !== undefined) {
+          this.generation.push(this.createIndividual(genome, cached, key));
+          continue;
+        }
+
+        this.pending.set(key, genome);
+        batch.push(params);
+      }
+    }
+
+    return batch;
+  }
+
+  tell(trials: Trial[]): void {
+    trials.forEach(trial => {
+      const key = getParameterKey(this.space, trial.params);
+      const genome = this.pending.get(key) ?? encodePoint(this.space, trial.params);
+      const fitness = this.getFitness(trial);
+
+      this.pending.delete(key);
+      this.cache.set(key, fitness);
+      this.generation.push(this.createIndividual(genome, fitness, key));
+    });
+  }
+}
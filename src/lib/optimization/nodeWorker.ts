@@ -0,0 +1,12 @@
+import { parentPort } from 'worker_threads';
+import { createWorkerHandler, WorkerRequest } from './evaluation';
+
+// Node.js worker_threads 的進入點：接收優化工作與評估請求，回傳目標值
+const handle = createWorkerHandler();
+
+parentPort?.on('message', (message: WorkerRequest) => {
+  const response = handle(message);
+  if (response) {
+    parentPort?.postMessage(response);
+  }
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaifexDataService } from '../api/taifexDataService';
+import { BacktestSettings } from '../backtest/types';
+import { OptimizationJob } from './evaluation';
+import { createNodePool } from './nodeWorkerPool';
+import { OptimizationObjective } from './objective';
+import { createInlinePool } from './workerPool';
+
+test('worker_threads 評估池與目前執行緒評估的結果相同', async () => {
+  const settings: BacktestSettings = {
+    symbol: 'TXFF',
+    startDate: new Date('2024-06-01').getTime(),
+    endDate: new Date('2024-12-31').getTime(),
+    initialCapital: 1000000,
+    positionSize: 100,
+    commissionRate: 0.001425,
+    strategyId: 'rsi_strategy',
+    strategyParams: { period: 14, oversold: 30, overbought: 70 }
+  };
+  const job: OptimizationJob = {
+    settings,
+    marketData: { TXFF: await TaifexDataService.getInstance().getMarketData('TXFF', '2024-06-01', '2024-12-31') },
+    objective: OptimizationObjective.NET_PROFIT,
+    storedStrategies: { rules: [], scripts: [], combinations: [] }
+  };
+  const requests = [10, 14, 21].map(period => ({
+    startDate: settings.startDate,
+    endDate: settings.endDate,
+    params: { period, oversold: 30, overbought: 70 }
+  }));
+
+  const nodePool = createNodePool(job, 2);
+  try {
+    const expected = await Promise.all(requests.map(request => createInlinePool(job).evaluate(request)));
+    const actual = await Promise.all(requests.map(request => nodePool.evaluate(request)));
+    assert.deepEqual(actual, expected);
+  } finally {
+    nodePool.terminate();
+  }
+});
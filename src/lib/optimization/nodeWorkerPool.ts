@@ -0,0 +1,53 @@
+import { cpus } from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { OptimizationJob, WorkerResponse } from './evaluation';
+import { EvaluationPool, getDefaultPoolSize, WorkerPool } from './workerPool';
+
+/**
+ * 獲取評估執行緒的進入點
+ * 進入點與此模組位於同一目錄；以 ts-node 執行原始檔時，執行緒需另外註冊 ts-node 才能載入 TypeScript
+ */
+function getWorkerEntry(): { filename: string; execArgv: string[] | undefined } {
+  const extension = path.extname(__filename);
+  return {
+    filename: path.join(__dirname, `nodeWorker${extension}`),
+    execArgv: extension === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : undefined
+  };
+}
+
+/**
+ * 建立使用 Node.js worker_threads 的評估池，供伺服器端執行優化
+ * 執行緒發生錯誤或異常結束時由評估池重新建立
+ * @param job 優化工作
+ * @param size 執行緒數，預設依伺服器的核心數決定
+ * @returns 評估池
+ */
+export function createNodePool(job: OptimizationJob, size?: number): EvaluationPool {
+  const { filename, execArgv } = getWorkerEntry();
+
+  return new WorkerPool(
+    () => {
+      const worker = new Worker(filename, { execArgv });
+      return {
+        postMessage: message => worker.postMessage(message),
+        onMessage: handler => {
+          worker.on('message', (message: WorkerResponse) => handler(message));
+        },
+        onError: handler => {
+          worker.on('error', handler);
+          worker.on('exit', code => {
+            if (code !== 0) {
+              handler(new Error(`評估執行緒異常結束（結束代碼 ${code}）`));
+            }
+          });
+        },
+        terminate: () => {
+          worker.terminate();
+        }
+      };
+    },
+    size ?? getDefaultPoolSize(cpus().length),
+    job
+  );
+}
@@ -0,0 +1,69 @@
+import { Performance } from '../backtest/types';
+
+// 參數優化的目標
+export enum OptimizationObjective {
+  NET_PROFIT = 'netProfit',           // 總淨盈虧
+  SHARPE_RATIO = 'sharpeRatio',       // 夏普比率
+  PROFIT_FACTOR = 'profitFactor',     // 盈虧比
+  RECOVERY_FACTOR = 'recoveryFactor'  // 恢復因子
+}
+
+// 參數優化保留的每次評估績效指標
+export const TRIAL_METRICS = [
+  'totalNetProfit',
+  'sharpeRatio',
+  'profitFactor',
+  'recoveryFactor',
+  'maxDrawdown',
+  'maxDrawdownPct',
+  'winRate',
+  'totalTrades',
+  'annualReturn'
+] as const;
+
+// 參數優化保留的績效指標名稱
+export type TrialMetric = typeof TRIAL_METRICS[number];
+
+// 一次評估的績效指標
+export type TrialMetrics = Pick<Performance, TrialMetric>;
+
+// 優化目標對應的績效指標
+const OBJECTIVE_METRICS: Record<OptimizationObjective, TrialMetric> = {
+  [OptimizationObjective.NET_PROFIT]: 'totalNetProfit',
+  [OptimizationObjective.SHARPE_RATIO]: 'sharpeRatio',
+  [OptimizationObjective.PROFIT_FACTOR]: 'profitFactor',
+  [OptimizationObjective.RECOVERY_FACTOR]: 'recoveryFactor'
+};
+
+/**
+ * 獲取優化目標值，無法計算時返回 -Infinity 使其不被選為最佳參數
+ * @param performance 績效指標
+ * @param objective 優化目標
+ */
+export function getObjectiveScore(performance: Performance, objective: OptimizationObjective): number {
+  const score = performance[OBJECTIVE_METRICS[objective]];
+  return Number.isFinite(score) ? score : -Infinity;
+}
+
+/**
+ * 獲取優化目標對應的績效指標
+ * @param objective 優化目標
+ */
+export function getObjectiveMetric(objective: OptimizationObjective): TrialMetric {
+  return OBJECTIVE_METRICS[objective];
+}
+
+/**
+ * 擷取參數優化保留的績效指標
+ * @param performance 績效指標
+ */
+export function getTrialMetrics(performance: Performance): TrialMetrics {
+  return Object.fromEntries(TRIAL_METRICS.map(metric => [metric, performance[metric]])) as TrialMetrics;
+}
+
+/**
+ * 無法取得績效指標時使用的績效指標，所有指標皆為 NaN
+ */
+export function getEmptyTrialMetrics(): TrialMetrics {
+  return Object.fromEntries(TRIAL_METRICS.map(metric => [metric, NaN])) as TrialMetrics;
+}
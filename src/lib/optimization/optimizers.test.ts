@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOptimizer, OptimizationMethod } from './optimizers';
+import { runOptimization, runOptimizationAsync } from './runner';
+import { createSearchSpace, getParameterKey, ParameterSet } from './searchSpace';
+import { ParameterType } from '../strategies/base';
+
+const space = createSearchSpace(
+  [
+    { id: 'a', name: 'a', type: ParameterType.NUMBER, default: 0, min: 0, max: 40, step: 1 },
+    { id: 'b', name: 'b', type: ParameterType.NUMBER, default: 0, min: 0, max: 4, step: 0.5 },
+    { id: 'c', name: 'c', type: ParameterType.BOOLEAN, default: false }
+  ],
+  { a: {}, b: {}, c: {} }
+);
+
+// 搜尋空間的組合數
+const SPACE_SIZE = 41 * 9 * 2;
+
+// 最佳解為 a = 17、b = 2.5、c = true
+const objective = (params: ParameterSet) => -((params.a - 17) ** 2) - (params.b - 2.5) ** 2 + (params.c ? 1 : 0);
+
+const STOCHASTIC_METHODS = [OptimizationMethod.RANDOM, OptimizationMethod.GENETIC, OptimizationMethod.BAYESIAN];
+
+test('相同種子得到相同的評估順序，不同種子則不同', () => {
+  STOCHASTIC_METHODS.forEach(method => {
+    const run = (seed: number) => runOptimization(createOptimizer(method, space, { seed }), objective, { maxEvaluations: 60 }).trials;
+    assert.deepEqual(run(7), run(7), method);
+    assert.notDeepEqual(run(7), run(8), method);
+  });
+});
+
+test('評估次數不超過預算且不重複評估相同組合', () => {
+  [OptimizationMethod.GRID, ...STOCHASTIC_METHODS].forEach(method => {
+    const { trials } = runOptimization(createOptimizer(method, space, { seed: 3 }), objective, { maxEvaluations: 50 });
+    assert.equal(trials.length, 50, method);
+    assert.equal(new Set(trials.map(trial => getParameterKey(space, trial.params))).size, 50, method);
+  });
+});
+
+test('預算大於搜尋空間時，網格搜索評估所有組合後停止，隨機搜索找不到新組合時停止', () => {
+  const grid = runOptimization(createOptimizer(OptimizationMethod.GRID, space), objective, { maxEvaluations: SPACE_SIZE * 2 });
+  assert.equal(grid.trials.length, SPACE_SIZE);
+
+  const random = runOptimization(createOptimizer(OptimizationMethod.RANDOM, space), objective, { maxEvaluations: SPACE_SIZE * 2 });
+  assert.ok(random.trials.length <= SPACE_SIZE);
+  assert.equal(new Set(random.trials.map(trial => getParameterKey(space, trial.params))).size, random.trials.length);
+});
+
+test('網格搜索依序列舉，最後一個參數變動最快', () => {
+  const optimizer = createOptimizer(OptimizationMethod.GRID, space);
+  assert.deepEqual(optimizer.ask().slice(0, 3), [
+    { a: 0, b: 0, c: true },
+    { a: 0, b: 0, c: false },
+    { a: 0, b: 0.5, c: true }
+  ]);
+});
+
+test('遺傳演算法在上一代回報完畢前不提出新的參數', () => {
+  const optimizer = createOptimizer(OptimizationMethod.GENETIC, space, { populationSize: 8 });
+  const batch = optimizer.ask();
+  assert.equal(batch.length, 8);
+  assert.deepEqual(optimizer.ask(), []);
+
+  optimizer.tell(batch.map(params => ({ params, score: objective(params) })));
+  assert.ok(optimizer.ask().length > 0);
+});
+
+test('遺傳演算法與貝氏優化找到接近最佳解的參數', () => {
+  [OptimizationMethod.GENETIC, OptimizationMethod.BAYESIAN].forEach(method => {
+    const { best } = runOptimization(createOptimizer(method, space, { seed: 1 }), objective, { maxEvaluations: 200 });
+    assert.ok(best!.score > -5, `${method}: ${best!.score}`);
+  });
+});
+
+test('同時評估時依提出順序回報，結果與逐一評估相同', async () => {
+  for (const method of STOCHASTIC_METHODS) {
+    const sync = runOptimization(createOptimizer(method, space, { seed: 5 }), objective, { maxEvaluations: 45 });
+    const async = await runOptimizationAsync(
+      createOptimizer(method, space, { seed: 5 }),
+      async params => objective(params),
+      { maxEvaluations: 45 },
+      { concurrency: 4 }
+    );
+    assert.deepEqual(async.trials, sync.trials, method);
+    assert.deepEqual(async.best, sync.best, method);
+  }
+});
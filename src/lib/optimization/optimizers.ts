@@ -0,0 +1,378 @@
+import { GeneticIndividual, GeneticSearch, tournamentSelect } from './genetic';
+import { createRandom, gaussian, Random, randomInt } from './random';
+import {
+  decodePoint,
+  DimensionKind,
+  encodePoint,
+  getDimensionSize,
+  getParameterKey,
+  getSearchSpaceSize,
+  getStepValues,
+  isValidParameterSet,
+  normalizeParameterSet,
+  ParameterSet,
+  ParameterValue,
+  samplePoint,
+  SearchSpace
+} from './searchSpace';
+
+// 優化方法
+export enum OptimizationMethod {
+  GRID = 'grid',             // 網格搜索
+  RANDOM = 'random',         // 隨機搜索
+  GENETIC = 'genetic',       // 遺傳演算法
+  BAYESIAN = 'bayesian'      // 貝氏優化（TPE）
+}
+
+// 一次評估的結果
+export interface Trial {
+  params: ParameterSet;
+  score: number;              // 目標值，越大越好；無法計算或評估失敗時為 -Infinity
+  error?: string;             // 評估失敗時的錯誤訊息
+}
+
+/**
+ * 優化器介面
+ * 以「提出 / 回報」的方式運作：ask 提出下一批待評估的參數，評估後以 tell 回報結果，
+ * 使評估可以在任何地方執行（例如多個執行緒）；ask 返回空陣列表示搜尋結束
+ */
+export interface Optimizer {
+  ask(): ParameterSet[];
+  tell(trials: Trial[]): void;
+}
+
+// 優化器設置
+export interface OptimizerOptions {
+  seed?: number;              // 亂數種子，預設為 1
+  populationSize?: number;    // 遺傳演算法的族群大小，預設為 20
+  startupTrials?: number;     // 貝氏優化開始建模前的隨機評估次數，預設為 10
+  batchSize?: number;         // 貝氏優化每次提出的參數組合數，預設為 8
+}
+
+// 網格搜索每批提出的參數組合數
+const GRID_BATCH_SIZE = 32;
+
+// 隨機搜索每批提出的參數組合數
+const RANDOM_BATCH_SIZE = 16;
+
+// 隨機抽樣遇到已評估組合時的最多重抽次數
+const MAX_SAMPLE_ATTEMPTS = 100;
+
+/**
+ * 比較目標值，非有限數值視為最差
+ * @param score 目標值
+ */
+export function normalizeScore(score: number): number {
+  return Number.isFinite(score) ? score : -Infinity;
+}
+
+/**
+ * 網格搜索
+ * 依序列舉所有參數組合，不會一次產生整個網格，可搭配評估次數上限使用；
+ * 略過違反參數限制的組合，以及僅不適用參數不同的重複組合
+ */
+class GridOptimizer implements Optimizer {
+  private values: ParameterValue[][];
+  private indices: number[];
+  private done: boolean;
+  private seen?: Set<string>;
+
+  constructor(private space: SearchSpace) {
+    this.values = space.dimensions.map(dimension => {
+      if (dimension.kind === DimensionKind.CATEGORICAL) {
+        return dimension.values;
+      }
+      if (!dimension.step) {
+        throw new Error(`網格搜索需要設定參數「${dimension.id}」的間距`);
+      }
+      return getStepValues(dimension.min, dimension.max, dimension.step);
+    });
+    this.indices = this.values.map(() => 0);
+    this.done = this.values.some(values => values.length === 0);
+    // 只有具適用條件的參數時才會產生重複組合
+    if (space.parameters?.some(param => param.visibleWhen)) {
+      this.seen = new Set();
+    }
+  }
+
+  ask(): ParameterSet[] {
+    const batch: ParameterSet[] = [];
+
+    while (!this.done && batch.length < GRID_BATCH_SIZE) {
+      const params: ParameterSet = {};
+      this.space.dimensions.forEach((dimension, i) => {
+        params[dimension.id] = this.values[i][this.indices[i]];
+      });
+
+      // 依混合進位遞增索引，最後一個維度變動最快
+      let i = this.indices.length - 1;
+      while (i >= 0 && ++this.indices[i] === this.values[i].length) {
+        this.indices[i] = 0;
+        i--;
+      }
+      this.done = i < 0;
+
+      if (!isValidParameterSet(this.space, params)) {
+        continue;
+      }
+      if (this.seen) {
+        const key = getParameterKey(this.space, normalizeParameterSet(this.space, params));
+        if (this.seen.has(key)) {
+          continue;
+        }
+        this.seen.add(key);
+      }
+      batch.push(params);
+    }
+
+    return batch;
+  }
+
+  tell(): void {
+    // 網格搜索不依評估結果調整
+  }
+}
+
+/**
+ * 隨機搜索
+ * 在搜尋空間中均勻抽樣，不重複評估相同的參數組合
+ */
+class RandomOptimizer implements Optimizer {
+  private random: Random;
+  private seen = new Set<string>();
+  private size: number;
+
+  constructor(private space: SearchSpace, options: OptimizerOptions) {
+    this.random = createRandom(options.seed ?? 1);
+    this.size = getSearchSpaceSize(space);
+  }
+
+  ask(): ParameterSet[] {
+    const batch: ParameterSet[] = [];
+
+    for (let attempt = 0; batch.length < RANDOM_BATCH_SIZE && attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+      if (this.seen.size >= this.size) {
+        break;
+      }
+
+      const params = decodePoint(this.space, samplePoint(this.space, this.random));
+      const key = getParameterKey(this.space, params);
+      if (!this.seen.has(key) && isValidParameterSet(this.space, params)) {
+        this.seen.add(key);
+        batch.push(params);
+      }
+    }
+
+    return batch;
+  }
+
+  tell(): void {
+    // 隨機搜索不依評估結果調整
+  }
+}
+
+// 遺傳演算法的個體
+interface Individual extends GeneticIndividual {
+  score: number;
+}
+
+/**
+ * 遺傳演算法
+ * 以錦標賽選擇、均勻交配與高斯突變產生下一代，並保留每代最佳的個體；
+ * 已評估過的參數組合直接沿用先前的目標值
+ */
+class GeneticOptimizer extends GeneticSearch<Individual, number> {
+  private eliteCount: number;
+
+  constructor(space: SearchSpace, options: OptimizerOptions) {
+    super(space, options);
+    this.eliteCount = Math.max(1, Math.round(this.populationSize * 0.1));
+  }
+
+  /**
+   * 錦標賽選擇：隨機挑選三個個體，取目標值最高者
+   */
+  protected select(): Individual {
+    return tournamentSelect(this.population, this.random, 3, (a, b) => a.score > b.score);
+  }
+
+  /**
+   * 上一代已完成評估，與現有族群合併後保留最佳者，最佳個體因此得以延續
+   */
+  protected survive(candidates: Individual[]): Individual[] {
+    return candidates.sort((a, b) => b.score - a.score).slice(0, this.populationSize);
+  }
+
+  protected createIndividual(genome: number[], score: number): Individual {
+    return { genome, score };
+  }
+
+  protected getFitness(trial: Trial): number {
+    return normalizeScore(trial.score);
+  }
+
+  protected isInGeneration(): boolean {
+    // 重複的個體於合併族群時依目標值排序，不需排除
+    return false;
+  }
+
+  /**
+   * 已有族群時保留菁英個體，其餘名額產生子代
+   */
+  protected getOffspringCount(): number {
+    return this.population.length > 0 ? this.populationSize - this.eliteCount : this.populationSize;
+  }
+}
+
+/**
+ * 貝氏優化（Tree-structured Parzen Estimator）
+ * 將已評估的參數依目標值分為較佳與較差兩群，各維度以核密度估計兩群的分布，
+ * 從較佳群的分布抽樣候選參數，選擇較佳群密度與較差群密度比值最高者評估
+ */
+class BayesianOptimizer implements Optimizer {
+  private random: Random;
+  private startupTrials: number;
+  private batchSize: number;
+  private trials: { point: number[]; score: number }[] = [];
+  private seen = new Set<string>();
+  private size: number;
+
+  // 較佳群佔所有評估的比例
+  private static readonly GAMMA = 0.25;
+  // 每次提出參數前比較的候選數
+  private static readonly CANDIDATES = 24;
+
+  constructor(private space: SearchSpace, options: OptimizerOptions) {
+    this.random = createRandom(options.seed ?? 1);
+    this.startupTrials = Math.max(2, options.startupTrials ?? 10);
+    this.batchSize = Math.max(1, options.batchSize ?? 8);
+    this.size = getSearchSpaceSize(space);
+  }
+
+  /**
+   * 計算核寬度：離散維度至少涵蓋一格，樣本越多核寬度越窄
+   * @param dimension 維度索引
+   * @param n 樣本數
+   */
+  private bandwidth(dimension: number, n: number): number {
+    const cells = getDimensionSize(this.space.dimensions[dimension]);
+    const minimum = Number.isFinite(cells) ? 1 / cells : 0.01;
+    return Math.max(minimum, 0.25 * Math.pow(n + 1, -1 / 5));
+  }
+
+  /**
+   * 計算座標在核密度估計下的對數密度，混合均勻分布作為先驗
+   * @param x 座標
+   * @param centers 各樣本在此維度的座標
+   * @param sigma 核寬度
+   */
+  private logDensity(x: number, centers: number[], sigma: number): number {
+    const norm = 1 / (sigma * Math.sqrt(2 * Math.PI));
+    const sum = centers.reduce((total, center) => total + norm * Math.exp(-0.5 * Math.pow((x - center) / sigma, 2)), 1);
+    return Math.log(sum / (centers.length + 1));
+  }
+
+  /**
+   * 從較佳群的核密度抽樣候選座標
+   * @param good 較佳群的座標
+   */
+  private sampleFrom(good: number[][]): number[] {
+    return this.space.dimensions.map((_, d) => {
+      // 以 1 / (n + 1) 的機率從先驗的均勻分布抽樣
+      if (this.random() < 1 / (good.length + 1)) {
+        return this.random();
+      }
+      const center = good[randomInt(this.random, good.length)][d];
+      return Math.min(1, Math.max(0, center + gaussian(this.random) * this.bandwidth(d, good.length)));
+    });
+  }
+
+  /**
+   * 隨機抽樣一組未評估的參數
+   */
+  private sampleUnseen(): ParameterSet | undefined {
+    for (let attempt = 0; attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+      const params = decodePoint(this.space, samplePoint(this.space, this.random));
+      if (!this.seen.has(getParameterKey(this.space, params)) && isValidParameterSet(this.space, params)) {
+        return params;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 依目前的評估結果，從較佳群的分布抽樣並選出密度比值最高的未評估參數
+   */
+  private suggest(): ParameterSet | undefined {
+    const sorted = [...this.trials].sort((a, b) => b.score - a.score);
+    const goodCount = Math.max(1, Math.ceil(sorted.length * BayesianOptimizer.GAMMA));
+    const good = sorted.slice(0, goodCount).map(trial => trial.point);
+    const bad = sorted.slice(goodCount).map(trial => trial.point);
+
+    let params: ParameterSet | undefined;
+    let bestRatio = -Infinity;
+    for (let i = 0; i < BayesianOptimizer.CANDIDATES; i++) {
+      const point = this.sampleFrom(good);
+      const candidate = decodePoint(this.space, point);
+      if (this.seen.has(getParameterKey(this.space, candidate)) || !isValidParameterSet(this.space, candidate)) {
+        continue;
+      }
+
+      const ratio = point.reduce((total, x, d) =>
+        total +
+        this.logDensity(x, good.map(p => p[d]), this.bandwidth(d, good.length)) -
+        this.logDensity(x, bad.map(p => p[d]), this.bandwidth(d, bad.length)), 0);
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        params = candidate;
+      }
+    }
+    return params;
+  }
+
+  ask(): ParameterSet[] {
+    const batch: ParameterSet[] = [];
+
+    // 一次提出多組參數以便同時評估，同一批的參數依相同的評估結果抽樣
+    while (batch.length < this.batchSize && this.seen.size < this.size) {
+      const params = (this.trials.length + batch.length >= this.startupTrials ? this.suggest() : undefined) ?? this.sampleUnseen();
+      if (!params) {
+        break;
+      }
+
+      this.seen.add(getParameterKey(this.space, params));
+      batch.push(params);
+    }
+
+    return batch;
+  }
+
+
+  tell(trials: Trial[]): void {
+    trials.forEach(({ params, score }) => {
+      this.seen.add(getParameterKey(this.space, params));
+      this.trials.push({ point: encodePoint(this.space, params), score: normalizeScore(score) });
+    });
+  }
+}
+
+/**
+ * 建立優化器
+ * @param method 優化方法
+ * @param space 搜尋空間
+ * @param options 優化器設置
+ * @returns 優化器
+ * @throws Error 網格搜索遇到未設定間距的數值參數時拋出
+ */
+export function createOptimizer(method: OptimizationMethod, space: SearchSpace, options: OptimizerOptions = {}): Optimizer {
+  switch (method) {
+    case OptimizationMethod.GRID:
+      return new GridOptimizer(space);
+    case OptimizationMethod.RANDOM:
+      return new RandomOptimizer(space, options);
+    case OptimizationMethod.GENETIC:
+      return new GeneticOptimizer(space, options);
+    case OptimizationMethod.BAYESIAN:
+      return new BayesianOptimizer(space, options);
+  }
+}
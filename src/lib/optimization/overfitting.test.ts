@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeOverfitting, getOverfittingWarnings, OverfittingDiagnostics } from './overfitting';
+import { createRandom, gaussian } from './random';
+
+/**
+ * 檢查數值在容許誤差內相等
+ */
+function assertClose(actual: number, expected: number, tolerance = 1e-4): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} 與 ${expected} 相差超過 ${tolerance}`);
+}
+
+/**
+ * 交替出現 mean + 0.01 與 mean - 0.01 的每日報酬：標準差 0.01、偏態 0、峰度 1
+ * @param mean 平均報酬
+ * @param length 報酬數
+ */
+function alternating(mean: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => mean + (i % 2 === 0 ? 0.01 : -0.01));
+}
+
+/**
+ * 常態分布的每日報酬
+ */
+function noise(mean: number, length: number, seed: number): number[] {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => mean + gaussian(random) * 0.01);
+}
+
+const flat = new Array(100).fill(0);
+
+test('單一參數組合的緊縮夏普比率等於夏普比率大於 0 的機率', () => {
+  // 每日夏普比率 0.1、100 筆報酬：Φ(0.1 × √99)
+  const diagnostics = analyzeOverfitting([alternating(0.001, 100)], 0, flat);
+  assertClose(diagnostics.sharpeRatio, 0.1 * Math.sqrt(252));
+  assert.equal(diagnostics.expectedMaxSharpe, 0);
+  assertClose(diagnostics.deflatedSharpe, 0.840129);
+  assert.ok(Number.isNaN(diagnostics.pbo));
+});
+
+test('多個參數組合時以夏普比率的離散程度提高門檻', () => {
+  // 兩組夏普比率 ±0.1：預期最高夏普比率 0.1 × γ × Φ⁻¹(1 - 1 / 2e)
+  const returns = alternating(0.001, 100);
+  const diagnostics = analyzeOverfitting([returns, returns.map(value => -value)], 0, flat);
+  assertClose(diagnostics.expectedMaxSharpe, 0.0519755 * Math.sqrt(252));
+  assertClose(diagnostics.deflatedSharpe, 0.683617);
+});
+
+test('樣本內最佳者在樣本外一定最差時過度擬合機率為 1', () => {
+  // 四個區塊的平均報酬總和為 0，且任兩個區塊的總和皆不為 0：樣本內為正的一組在樣本外必為負
+  const blocks = [0.001, 0.002, 0.004, -0.007];
+  const a = blocks.flatMap(mean => [mean + 0.01, mean - 0.01]);
+  const b = a.map(value => -value);
+  assert.equal(analyzeOverfitting([a, b], 0, new Array(8).fill(0), { blocks: 4 }).pbo, 1);
+});
+
+test('樣本內外排名一致時過度擬合機率為 0', () => {
+  const base = noise(0, 200, 1);
+  const returns = [0, 1, 2, 3].map(k => base.map(value => value + k * 0.001));
+  assert.equal(analyzeOverfitting(returns, 3, new Array(200).fill(0)).pbo, 0);
+});
+
+test('顯著優於基準時現實檢驗與 SPA 的 p 值接近 0', () => {
+  const benchmark = noise(0, 250, 2);
+  const returns = [0.004, 0.002, 0].map((edge, k) => noise(edge, 250, 10 + k).map((value, i) => value + benchmark[i]));
+  const diagnostics = analyzeOverfitting(returns, 0, benchmark);
+  assert.ok(diagnostics.realityCheckPValue < 0.05, String(diagnostics.realityCheckPValue));
+  assert.ok(diagnostics.spaPValue < 0.05, String(diagnostics.spaPValue));
+});
+
+test('沒有優勢時現實檢驗與 SPA 不顯著，且相同種子得到相同 p 值', () => {
+  const benchmark = noise(0, 250, 3);
+  const returns = Array.from({ length: 20 }, (_, k) => noise(0, 250, 100 + k).map((value, i) => value + benchmark[i]));
+  const diagnostics = analyzeOverfitting(returns, 0, benchmark, { seed: 7 });
+  assert.ok(diagnostics.realityCheckPValue > 0.05, String(diagnostics.realityCheckPValue));
+  assert.ok(diagnostics.spaPValue > 0.05, String(diagnostics.spaPValue));
+  assert.deepEqual(analyzeOverfitting(returns, 0, benchmark, { seed: 7 }), diagnostics);
+});
+
+test('依門檻列出過度擬合警訊，無法計算的指標不列入', () => {
+  const diagnostics: OverfittingDiagnostics = {
+    trials: 10,
+    observations: 100,
+    sharpeRatio: 1,
+    expectedMaxSharpe: 0.5,
+    deflatedSharpe: 0.5,
+    pbo: NaN,
+    realityCheckPValue: 0.01,
+    spaPValue: 0.2
+  };
+  assert.deepEqual(getOverfittingWarnings(diagnostics), ['考慮試驗次數後，夏普比率不顯著', '未顯著優於買入持有']);
+  assert.deepEqual(getOverfittingWarnings({ ...diagnostics, deflatedSharpe: 0.99, pbo: 0.6, spaPValue: 0.01 }), [
+    '樣本內最佳參數在樣本外多半表現不佳'
+  ]);
+});
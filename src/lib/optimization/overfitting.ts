@@ -0,0 +1,407 @@
+import { EquityPoint } from '../backtest/types';
+import { MarketData } from '../api/yahooFinance';
+import { getBarTradingDate } from '../api/tradingSessions';
+import { createRandom, Random, randomInt } from './random';
+
+// 過度擬合診斷結果
+export interface OverfittingDiagnostics {
+  trials: number;                 // 參與診斷的參數組合數
+  observations: number;           // 每日報酬數
+  sharpeRatio: number;            // 入選參數的年化夏普比率（以每日報酬計算）
+  expectedMaxSharpe: number;      // 在所有參數皆無真實優勢時，預期的最高年化夏普比率
+  deflatedSharpe: number;         // 緊縮夏普比率：入選參數的夏普比率真正大於 0 的機率
+  pbo: number;                    // 回測過度擬合機率（CSCV），無法計算時為 NaN
+  realityCheckPValue: number;     // White 現實檢驗相對買入持有的 p 值
+  spaPValue: number;              // Hansen SPA 檢驗相對買入持有的 p 值
+}
+
+// 過度擬合診斷選項
+export interface OverfittingOptions {
+  blocks?: number;                // CSCV 的區塊數（偶數），預設為 10，報酬數不足時自動減少
+  bootstrapSamples?: number;      // 自助法重抽次數，預設為 500
+  blockLength?: number;           // 平穩自助法的平均區塊長度（日），預設為 10
+  seed?: number;                  // 自助法的亂數種子，預設為 1
+}
+
+// 診斷的判斷門檻
+export const DEFLATED_SHARPE_THRESHOLD = 0.95;  // 緊縮夏普比率低於此值表示績效可能來自多次試驗的運氣
+export const PBO_THRESHOLD = 0.5;               // 過度擬合機率達此值表示樣本內最佳參數在樣本外多半不如中位數
+export const P_VALUE_THRESHOLD = 0.05;          // 現實檢驗與 SPA 的顯著水準
+
+// 每年交易日數，用於年化夏普比率
+const TRADING_DAYS_PER_YEAR = 252;
+
+// 歐拉-馬斯刻若尼常數，用於估計多次試驗中的最大夏普比率
+const EULER_GAMMA = 0.5772156649015329;
+
+/**
+ * 將逐K棒的數值依交易日取每日最後一筆，轉換為每日報酬
+ * 第一個交易日的報酬以第一筆數值為基準，使不同序列依相同的時間戳記轉換後可以逐日對齊
+ * @param timestamps 時間戳記（秒）
+ * @param values 對應的數值（例如權益或收盤價）
+ * @param data 用於判斷交易日的市場數據
+ * @returns 每日報酬
+ */
+export function toDailyReturns(timestamps: number[], values: number[], data: MarketData): number[] {
+  const indexByTimestamp = new Map(data.timestamp.map((timestamp, i) => [timestamp, i]));
+  const closes: number[] = [];
+  let lastDate: string | null = null;
+
+  timestamps.forEach((timestamp, i) => {
+    const index = indexByTimestamp.get(timestamp);
+    const date = index !== undefined ? getBarTradingDate(data, index) : lastDate;
+    if (date !== lastDate || closes.length === 0) {
+      closes.push(values[i]);
+    } else {
+      closes[closes.length - 1] = values[i];
+    }
+    lastDate = date;
+  });
+
+  let previous = values[0];
+  return closes.map(close => {
+    const value = previous !== 0 ? close / previous - 1 : 0;
+    previous = close;
+    return value;
+  });
+}
+
+/**
+ * 獲取回測權益的每日報酬
+ * @param equity 權益曲線
+ * @param data 用於判斷交易日的市場數據
+ */
+export function getEquityReturns(equity: EquityPoint[], data: MarketData): number[] {
+  return toDailyReturns(equity.map(point => point.timestamp), equity.map(point => point.equity), data);
+}
+
+/**
+ * 計算平均值、標準差、偏態與峰度（非超額）
+ * @param values 數值
+ */
+function moments(values: number[]): { mean: number; stdDev: number; skewness: number; kurtosis: number } {
+  const n = values.length;
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  values.forEach(value => {
+    const d = value - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  });
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+
+  return {
+    mean,
+    stdDev: Math.sqrt(m2),
+    skewness: m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0,
+    kurtosis: m2 > 0 ? m4 / (m2 * m2) : 3
+  };
+}
+
+/**
+ * 計算每日報酬的夏普比率（未年化），報酬無波動時為 0
+ * @param values 每日報酬
+ */
+function sharpe(values: number[]): number {
+  const { mean, stdDev } = moments(values);
+  return stdDev > 0 ? mean / stdDev : 0;
+}
+
+/**
+ * 標準常態分布的累積分布函數（Abramowitz-Stegun 7.1.26 近似）
+ * @param x 數值
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const y = 1 - t * Math.exp(-x * x / 2) *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return x >= 0 ? (1 + y) / 2 : (1 - y) / 2;
+}
+
+/**
+ * 標準常態分布的分位數函數（Acklam 近似）
+ * @param p 機率，介於 0 與 1 之間
+ */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * 計算緊縮夏普比率（Bailey 與 López de Prado）
+ * 以所有參數組合夏普比率的變異數估計「全部無效時」預期的最高夏普比率，
+ * 再依報酬的偏態與峰度計算入選參數的夏普比率超過此門檻的機率
+ * @param returns 各參數組合的每日報酬
+ * @param selected 入選參數組合的索引
+ */
+function deflatedSharpe(returns: number[][], selected: number): { sharpe: number; expectedMax: number; probability: number } {
+  const n = returns.length;
+  const t = returns[selected].length;
+  const sharpes = returns.map(sharpe);
+  const { stdDev } = moments(sharpes);
+  const expectedMax = n > 1
+    ? stdDev * ((1 - EULER_GAMMA) * normalQuantile(1 - 1 / n) + EULER_GAMMA * normalQuantile(1 - 1 / (n * Math.E)))
+    : 0;
+
+  const { skewness, kurtosis } = moments(returns[selected]);
+  const sr = sharpes[selected];
+  const variance = 1 - skewness * sr + ((kurtosis - 1) / 4) * sr * sr;
+  const probability = t > 1 && variance > 0 ? normalCdf(((sr - expectedMax) * Math.sqrt(t - 1)) / Math.sqrt(variance)) : NaN;
+
+  return { sharpe: sr, expectedMax, probability };
+}
+
+/**
+ * 列舉從 n 個元素中取 k 個的所有組合
+ * @param n 元素數
+ * @param k 取出數
+ */
+function combinations(n: number, k: number): number[][] {
+  const result: number[][] = [];
+  const current: number[] = [];
+  const visit = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i <= n - (k - current.length); i++) {
+      current.push(i);
+      visit(i + 1);
+      current.pop();
+    }
+  };
+  visit(0);
+  return result;
+}
+
+/**
+ * 以組合對稱交叉驗證（CSCV）估計回測過度擬合機率
+ * 將報酬期間切成偶數個區塊，每次取一半區塊為樣本內、其餘為樣本外：
+ * 樣本內夏普比率最高的參數在樣本外排名落在後半的比例，即為過度擬合機率
+ * @param returns 各參數組合的每日報酬
+ * @param blocks 區塊數
+ */
+function probabilityOfOverfitting(returns: number[][], blocks: number): number {
+  const n = returns.length;
+  const t = returns[0].length;
+  // 區塊數取偶數，且每個區塊至少有 2 筆報酬
+  const s = Math.floor(Math.min(blocks, t / 2) / 2) * 2;
+  if (n < 2 || s < 2) {
+    return NaN;
+  }
+
+  // 預先計算各參數組合在每個區塊的報酬總和、平方和與筆數，使每個組合只需加總區塊
+  const size = Math.floor(t / s);
+  const sums = returns.map(series => {
+    const blockSums = Array.from({ length: s }, () => ({ sum: 0, squares: 0, count: 0 }));
+    series.forEach((value, i) => {
+      const block = blockSums[Math.min(s - 1, Math.floor(i / size))];
+      block.sum += value;
+      block.squares += value * value;
+      block.count++;
+    });
+    return blockSums;
+  });
+
+  const blockSharpe = (trial: number, selectedBlocks: number[]) => {
+    let sum = 0;
+    let squares = 0;
+    let count = 0;
+    selectedBlocks.forEach(block => {
+      sum += sums[trial][block].sum;
+      squares += sums[trial][block].squares;
+      count += sums[trial][block].count;
+    });
+    const mean = sum / count;
+    const variance = squares / count - mean * mean;
+    return variance > 1e-18 ? mean / Math.sqrt(variance) : 0;
+  };
+
+  const splits = combinations(s, s / 2);
+  let overfit = 0;
+
+  splits.forEach(inSample => {
+    const outOfSample = Array.from({ length: s }, (_, i) => i).filter(i => !inSample.includes(i));
+
+    let best = 0;
+    let bestSharpe = -Infinity;
+    for (let k = 0; k < n; k++) {
+      const value = blockSharpe(k, inSample);
+      if (value > bestSharpe) {
+        bestSharpe = value;
+        best = k;
+      }
+    }
+
+    // 樣本外相對排名（同分取平均排名），落在中位數以下即視為過度擬合
+    const target = blockSharpe(best, outOfSample);
+    let below = 0;
+    let equal = 0;
+    for (let k = 0; k < n; k++) {
+      const value = blockSharpe(k, outOfSample);
+      if (value < target) below++;
+      else if (value === target) equal++;
+    }
+    const rank = below + (equal + 1) / 2;
+    const omega = rank / (n + 1);
+    if (Math.log(omega / (1 - omega)) <= 0) {
+      overfit++;
+    }
+  });
+
+  return overfit / splits.length;
+}
+
+/**
+ * 產生平穩自助法（Politis-Romano）的重抽索引
+ * @param t 報酬數
+ * @param blockLength 平均區塊長度
+ * @param random 亂數產生器
+ */
+function stationaryBootstrap(t: number, blockLength: number, random: Random): number[] {
+  const indices: number[] = [];
+  let index = randomInt(random, t);
+  for (let i = 0; i < t; i++) {
+    if (i > 0) {
+      index = random() < 1 / blockLength ? randomInt(random, t) : (index + 1) % t;
+    }
+    indices.push(index);
+  }
+  return indices;
+}
+
+/**
+ * White 現實檢驗與 Hansen SPA 檢驗
+ * 檢驗所有參數組合中最好的一組相對基準的超額報酬是否顯著大於 0，已考慮從多組參數中挑選的影響；
+ * 兩者皆以平穩自助法估計虛無假設下的分布，SPA 另以標準化並排除明顯較差的參數組合提高檢定力
+ * @param returns 各參數組合的每日報酬
+ * @param benchmark 基準的每日報酬
+ * @param samples 自助法重抽次數
+ * @param blockLength 平穩自助法的平均區塊長度
+ * @param random 亂數產生器
+ */
+function realityCheck(
+  returns: number[][],
+  benchmark: number[],
+  samples: number,
+  blockLength: number,
+  random: Random
+): { realityCheck: number; spa: number } {
+  const t = benchmark.length;
+  if (t < 2 || samples < 1) {
+    return { realityCheck: NaN, spa: NaN };
+  }
+
+  const excess = returns.map(series => series.map((value, i) => value - benchmark[i]));
+  const means = excess.map(series => series.reduce((sum, value) => sum + value, 0) / t);
+  const sqrtT = Math.sqrt(t);
+
+  // 各次重抽的平均超額報酬
+  const bootstrapMeans: number[][] = [];
+  for (let b = 0; b < samples; b++) {
+    const indices = stationaryBootstrap(t, blockLength, random);
+    bootstrapMeans.push(excess.map(series => indices.reduce((sum, i) => sum + series[i], 0) / t));
+  }
+
+  // 各參數組合超額報酬的標準差，用於 SPA 的標準化；
+  // 以樣本標準差估計，避免以重抽結果估計時的誤差放大觀察到的最大值而使檢定過於寬鬆
+  const omegas = excess.map((series, k) =>
+    Math.sqrt(series.reduce((sum, value) => sum + Math.pow(value - means[k], 2), 0) / t));
+
+  const statistic = Math.max(...means.map(mean => sqrtT * mean));
+  const spaStatistic = Math.max(0, ...means.map((mean, k) => (omegas[k] > 0 ? (sqrtT * mean) / omegas[k] : 0)));
+
+  // SPA 的中心化：接近或優於基準的參數組合以其平均值中心化，明顯劣於基準者保留其負的平均值，降低對虛無分布的影響
+  const threshold = -Math.sqrt(2 * Math.log(Math.log(Math.max(t, 3))));
+  const centered = means.map((mean, k) => (omegas[k] > 0 && (sqrtT * mean) / omegas[k] >= threshold ? mean : 0));
+
+  let rcExceed = 0;
+  let spaExceed = 0;
+  bootstrapMeans.forEach(sample => {
+    const rc = Math.max(...sample.map((value, k) => sqrtT * (value - means[k])));
+    const spa = Math.max(0, ...sample.map((value, k) => (omegas[k] > 0 ? (sqrtT * (value - centered[k])) / omegas[k] : 0)));
+    if (rc >= statistic) rcExceed++;
+    if (spa >= spaStatistic) spaExceed++;
+  });
+
+  return { realityCheck: rcExceed / samples, spa: spaExceed / samples };
+}
+
+/**
+ * 依所有參數組合的每日報酬計算過度擬合診斷
+ * @param returns 各參數組合的每日報酬，須逐日對齊
+ * @param selected 入選參數組合的索引
+ * @param benchmark 基準（買入持有）的每日報酬，與參數組合的報酬逐日對齊
+ * @param options 診斷選項
+ * @returns 過度擬合診斷結果
+ */
+export function analyzeOverfitting(
+  returns: number[][],
+  selected: number,
+  benchmark: number[],
+  options: OverfittingOptions = {}
+): OverfittingDiagnostics {
+  const { blocks = 10, bootstrapSamples = 500, blockLength = 10, seed = 1 } = options;
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+  const dsr = deflatedSharpe(returns, selected);
+  const { realityCheck: realityCheckPValue, spa } = realityCheck(
+    returns,
+    benchmark,
+    bootstrapSamples,
+    blockLength,
+    createRandom(seed)
+  );
+
+  return {
+    trials: returns.length,
+    observations: benchmark.length,
+    sharpeRatio: dsr.sharpe * annualize,
+    expectedMaxSharpe: dsr.expectedMax * annualize,
+    deflatedSharpe: dsr.probability,
+    pbo: probabilityOfOverfitting(returns, blocks),
+    realityCheckPValue,
+    spaPValue: spa
+  };
+}
+
+/**
+ * 依診斷結果列出過度擬合的警訊，無法計算的指標不列入
+ * @param diagnostics 過度擬合診斷結果
+ * @returns 警訊說明，空陣列表示通過所有檢驗
+ */
+export function getOverfittingWarnings(diagnostics: OverfittingDiagnostics): string[] {
+  const warnings: string[] = [];
+  if (diagnostics.deflatedSharpe < DEFLATED_SHARPE_THRESHOLD) {
+    warnings.push('考慮試驗次數後，夏普比率不顯著');
+  }
+  if (diagnostics.pbo >= PBO_THRESHOLD) {
+    warnings.push('樣本內最佳參數在樣本外多半表現不佳');
+  }
+  if (diagnostics.spaPValue >= P_VALUE_THRESHOLD) {
+    warnings.push('未顯著優於買入持有');
+  }
+  return warnings;
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEmptyTrialMetrics, TrialMetrics } from './objective';
+import {
+  ConstraintOperator,
+  createParetoOptimizer,
+  getConstraintViolation,
+  getParetoFront,
+  MetricObjective,
+  ObjectiveDirection,
+  satisfiesConstraints
+} from './pareto';
+import { runOptimization } from './runner';
+import { createSearchSpace, getParameterKey, ParameterSet } from './searchSpace';
+import { ParameterType } from '../strategies/base';
+
+// 年化收益率越大越好、最大回撤百分比越小越好
+const objectives: MetricObjective[] = [
+  { metric: 'annualReturn', direction: ObjectiveDirection.MAXIMIZE },
+  { metric: 'maxDrawdownPct', direction: ObjectiveDirection.MINIMIZE }
+];
+
+/**
+ * 建立只有指定指標的績效指標，其餘為 NaN
+ */
+function createMetrics(values: Partial<TrialMetrics>): TrialMetrics {
+  return { ...getEmptyTrialMetrics(), ...values };
+}
+
+/**
+ * 建立以年化收益率與最大回撤百分比表示的評估
+ */
+function point(id: string, annualReturn: number, maxDrawdownPct: number) {
+  return { id, metrics: createMetrics({ annualReturn, maxDrawdownPct, totalTrades: 50 }) };
+}
+
+test('柏拉圖前緣只保留不被支配的評估，並依原順序排列', () => {
+  const items = [
+    point('a', 10, 5),
+    point('b', 8, 6),    // 被 a 支配
+    point('c', 20, 15),
+    point('d', 5, 2),
+    point('e', 20, 20),  // 被 c 支配
+    point('f', 10, 5)    // 與 a 相同，互不支配
+  ];
+  assert.deepEqual(getParetoFront(items, objectives, []).map(item => item.id), ['a', 'c', 'd', 'f']);
+});
+
+test('無法計算的指標視為最差', () => {
+  const items = [point('a', NaN, 1), point('b', 1, 1)];
+  assert.deepEqual(getParetoFront(items, objectives, []).map(item => item.id), ['b']);
+});
+
+test('不符合績效條件的評估不列入柏拉圖前緣', () => {
+  const constraints = [{ metric: 'maxDrawdownPct' as const, operator: ConstraintOperator.AT_MOST, value: 10 }];
+  const items = [point('a', 10, 5), point('c', 20, 15), point('d', 5, 2)];
+  assert.deepEqual(getParetoFront(items, objectives, constraints).map(item => item.id), ['a', 'd']);
+});
+
+test('違反條件的程度依門檻值標準化後加總', () => {
+  const metrics = createMetrics({ totalTrades: 15, maxDrawdownPct: 30 });
+  const constraints = [
+    { metric: 'totalTrades' as const, operator: ConstraintOperator.AT_LEAST, value: 30 },
+    { metric: 'maxDrawdownPct' as const, operator: ConstraintOperator.AT_MOST, value: 20 },
+    { metric: 'winRate' as const, operator: ConstraintOperator.AT_LEAST, value: 50 }
+  ];
+  // (30 - 15) / 30 + (30 - 20) / 20 + 無法計算的勝率 1
+  assert.equal(getConstraintViolation(metrics, constraints), 0.5 + 0.5 + 1);
+  assert.ok(satisfiesConstraints(metrics, constraints.slice(0, 0)));
+  assert.ok(!satisfiesConstraints(metrics, constraints.slice(0, 1)));
+});
+
+test('NSGA-II 的族群分布於整個柏拉圖前緣', () => {
+  // Schaffer 問題：收益 -x²、回撤 (x - 2)²，柏拉圖前緣為 0 ≤ x ≤ 2
+  const space = createSearchSpace(
+    [{ id: 'x', name: 'x', type: ParameterType.NUMBER, default: 0, min: -10, max: 10, step: 0.01 }],
+    { x: {} }
+  );
+  const metrics = new Map<string, TrialMetrics>();
+  const evaluate = (params: ParameterSet) => {
+    const value = createMetrics({ annualReturn: -(params.x ** 2), maxDrawdownPct: (params.x - 2) ** 2 });
+    metrics.set(getParameterKey(space, params), value);
+    return value.annualReturn;
+  };
+
+  const optimizer = createParetoOptimizer(space, objectives, [], params => metrics.get(getParameterKey(space, params)), {
+    seed: 1,
+    populationSize: 20
+  });
+  const { trials } = runOptimization(optimizer, evaluate, { maxEvaluations: 400 });
+
+  // 族群逐步逼近前緣，擁擠距離使找到的前緣涵蓋兩端
+  const front = getParetoFront(
+    trials.map(trial => ({ x: trial.params.x, metrics: metrics.get(getParameterKey(space, trial.params))! })),
+    objectives,
+    []
+  ).map(item => item.x);
+  assert.ok(front.length >= 40, String(front.length));
+  // 端點未被評估時，緊鄰端點外的評估仍不被支配
+  assert.ok(front.every(x => x >= -0.05 && x <= 2.05), front.join(', '));
+  assert.ok(Math.min(...front) < 0.1 && Math.max(...front) > 1.9, front.join(', '));
+});
+
+test('評估失敗而沒有績效指標的參數不列入族群', () => {
+  const space = createSearchSpace(
+    [{ id: 'x', name: 'x', type: ParameterType.NUMBER, default: 0, min: 0, max: 1, step: 0.01 }],
+    { x: {} }
+  );
+  const optimizer = createParetoOptimizer(space, objectives, [], () => undefined, { seed: 1, populationSize: 4 });
+  const first = optimizer.ask();
+  optimizer.tell(first.map(params => ({ params, score: -Infinity, error: '回測失敗' })));
+  assert.equal(optimizer.ask().length, 4);
+});
@@ -0,0 +1,300 @@
+import { TrialMetric, TrialMetrics } from './objective';
+import { GeneticIndividual, GeneticSearch, tournamentSelect } from './genetic';
+import { Optimizer, OptimizerOptions, Trial } from './optimizers';
+import { ParameterSet, SearchSpace } from './searchSpace';
+
+// 目標方向
+export enum ObjectiveDirection {
+  MAXIMIZE = 'maximize',   // 越大越好
+  MINIMIZE = 'minimize'    // 越小越好
+}
+
+// 多目標優化的單一目標
+export interface MetricObjective {
+  metric: TrialMetric;
+  direction: ObjectiveDirection;
+}
+
+// 條件運算子
+export enum ConstraintOperator {
+  AT_LEAST = '>=',         // 大於或等於
+  AT_MOST = '<='           // 小於或等於
+}
+
+// 績效條件，例如交易次數 >= 30
+export interface MetricConstraint {
+  metric: TrialMetric;
+  operator: ConstraintOperator;
+  value: number;
+}
+
+// 評估的多目標適應度
+interface Fitness {
+  values: number[];        // 各目標值，已轉換為越大越好
+  violation: number;       // 違反條件的程度，0 表示符合所有條件
+}
+
+/**
+ * 計算績效指標違反條件的程度
+ * 各條件的差距以門檻值的絕對值（至少為 1）標準化後加總，無法計算的指標視為違反 1
+ * @param metrics 績效指標
+ * @param constraints 績效條件
+ * @returns 違反程度，0 表示符合所有條件
+ */
+export function getConstraintViolation(metrics: TrialMetrics, constraints: MetricConstraint[]): number {
+  return constraints.reduce((total, { metric, operator, value }) => {
+    const actual = metrics[metric];
+    const shortfall = operator === ConstraintOperator.AT_LEAST ? value - actual : actual - value;
+    if (Number.isNaN(shortfall)) {
+      return total + 1;
+    }
+    return total + Math.max(0, shortfall) / Math.max(1, Math.abs(value));
+  }, 0);
+}
+
+/**
+ * 檢查績效指標是否符合所有條件
+ * @param metrics 績效指標
+ * @param constraints 績效條件
+ */
+export function satisfiesConstraints(metrics: TrialMetrics, constraints: MetricConstraint[]): boolean {
+  return getConstraintViolation(metrics, constraints) === 0;
+}
+
+/**
+ * 計算多目標適應度，最小化的目標取負值使所有目標皆為越大越好，無法計算的指標視為最差
+ * @param metrics 績效指標
+ * @param objectives 多目標優化的目標
+ * @param constraints 績效條件
+ */
+function getFitness(metrics: TrialMetrics, objectives: MetricObjective[], constraints: MetricConstraint[]): Fitness {
+  return {
+    values: objectives.map(({ metric, direction }) => {
+      const value = direction === ObjectiveDirection.MAXIMIZE ? metrics[metric] : -metrics[metric];
+      return Number.isNaN(value) ? -Infinity : value;
+    }),
+    violation: getConstraintViolation(metrics, constraints)
+  };
+}
+
+/**
+ * 判斷 a 是否支配 b：所有目標皆不差於 b 且至少一個目標優於 b
+ * 考慮條件時，符合條件者支配不符合者，皆不符合時違反程度較小者支配較大者
+ * @param a 適應度
+ * @param b 適應度
+ */
+function dominates(a: Fitness, b: Fitness): boolean {
+  if (a.violation !== b.violation) {
+    return a.violation < b.violation;
+  }
+
+  let better = false;
+  for (let i = 0; i < a.values.length; i++) {
+    if (a.values[i] < b.values[i]) {
+      return false;
+    }
+    better = better || a.values[i] > b.values[i];
+  }
+  return better;
+}
+
+/**
+ * 快速非支配排序：依支配關係將評估分為多個前緣，第一個前緣不被任何評估支配
+ * @param fitness 各評估的適應度
+ * @returns 各前緣的評估索引
+ */
+function sortByDominance(fitness: Fitness[]): number[][] {
+  const dominated: number[][] = fitness.map(() => []);
+  const counts = fitness.map(() => 0);
+  const fronts: number[][] = [[]];
+
+  for (let i = 0; i < fitness.length; i++) {
+    for (let j = i + 1; j < fitness.length; j++) {
+      if (dominates(fitness[i], fitness[j])) {
+        dominated[i].push(j);
+        counts[j]++;
+      } else if (dominates(fitness[j], fitness[i])) {
+        dominated[j].push(i);
+        counts[i]++;
+      }
+    }
+    // 與 i 相關的比較至此皆已完成
+    if (counts[i] === 0) {
+      fronts[0].push(i);
+    }
+  }
+
+  while (fronts[fronts.length - 1].length > 0) {
+    const next: number[] = [];
+    fronts[fronts.length - 1].forEach(i => {
+      dominated[i].forEach(j => {
+        if (--counts[j] === 0) {
+          next.push(j);
+        }
+      });
+    });
+    fronts.push(next);
+  }
+  fronts.pop();
+  return fronts;
+}
+
+/**
+ * 計算前緣中各評估的擁擠距離：相鄰評估在各目標上的距離總和，邊界評估為 Infinity
+ * @param front 前緣的評估索引
+ * @param fitness 各評估的適應度
+ * @returns 以評估索引為鍵的擁擠距離
+ */
+function getCrowdingDistances(front: number[], fitness: Fitness[]): Map<number, number> {
+  const distances = new Map(front.map(i => [i, 0]));
+  const objectives = front.length > 0 ? fitness[front[0]].values.length : 0;
+
+  for (let m = 0; m < objectives; m++) {
+    const sorted = [...front].sort((a, b) => fitness[a].values[m] - fitness[b].values[m] || 0);
+    const min = fitness[sorted[0]].values[m];
+    const max = fitness[sorted[sorted.length - 1]].values[m];
+    distances.set(sorted[0], Infinity);
+    distances.set(sorted[sorted.length - 1], Infinity);
+
+    if (!(max > min) || !Number.isFinite(max - min)) {
+      continue;
+    }
+    for (let k = 1; k < sorted.length - 1; k++) {
+      const gap = (fitness[sorted[k + 1]].values[m] - fitness[sorted[k - 1]].values[m]) / (max - min);
+      distances.set(sorted[k], distances.get(sorted[k])! + (Number.isFinite(gap) ? gap : 0));
+    }
+  }
+  return distances;
+}
+
+/**
+ * 篩選柏拉圖前緣：符合所有條件且不被其他評估支配的評估
+ * @param items 評估
+ * @param objectives 多目標優化的目標
+ * @param constraints 績效條件
+ * @returns 柏拉圖前緣上的評估，依原順序排列
+ */
+export function getParetoFront<T extends { metrics: TrialMetrics }>(
+  items: T[],
+  objectives: MetricObjective[],
+  constraints: MetricConstraint[]
+): T[] {
+  const fitness = items.map(item => getFitness(item.metrics, objectives, constraints));
+  let front: number[] = [];
+
+  fitness.forEach((candidate, i) => {
+    if (candidate.violation > 0 || front.some(k => dominates(fitness[k], candidate))) {
+      return;
+    }
+    front = front.filter(k => !dominates(candidate, fitness[k]));
+    front.push(i);
+  });
+
+  return front.sort((a, b) => a - b).map(i => items[i]);
+}
+
+// NSGA-II 的個體
+interface ParetoIndividual extends GeneticIndividual {
+  key: string;                // 參數組合的識別字串
+  fitness: Fitness;
+  rank: number;               // 所在前緣，0 為最佳
+  crowding: number;           // 擁擠距離，越大越能維持前緣的多樣性
+}
+
+/**
+ * NSGA-II 多目標遺傳演算法
+ * 以非支配排序與擁擠距離取代單一目標值：錦標賽選擇前緣較前者，同一前緣時選擇擁擠距離較大者；
+ * 每代與上一代合併後依前緣與擁擠距離保留族群，使族群逐步逼近並均勻分布於柏拉圖前緣
+ */
+class ParetoOptimizer extends GeneticSearch<ParetoIndividual, Fitness> {
+  /**
+   * @param space 搜尋空間
+   * @param objectives 多目標優化的目標
+   * @param constraints 績效條件
+   * @param getMetrics 獲取已評估參數的績效指標
+   * @param options 優化器設置
+   */
+  constructor(
+    space: SearchSpace,
+    private objectives: MetricObjective[],
+    private constraints: MetricConstraint[],
+    private getMetrics: (params: ParameterSet) => TrialMetrics | undefined,
+    options: OptimizerOptions
+  ) {
+    super(space, options);
+  }
+
+  /**
+   * 合併族群與新一代，依前緣與擁擠距離保留族群大小的個體
+   */
+  protected survive(candidates: ParetoIndividual[]): ParetoIndividual[] {
+    const combined = new Map<string, ParetoIndividual>();
+    candidates.forEach(individual => combined.set(individual.key, individual));
+    const unique = Array.from(combined.values());
+    const fitness = unique.map(individual => individual.fitness);
+
+    const survivors: ParetoIndividual[] = [];
+    sortByDominance(fitness).forEach((front, rank) => {
+      if (survivors.length >= this.populationSize) {
+        return;
+      }
+      const distances = getCrowdingDistances(front, fitness);
+      front
+        .map(i => ({ ...unique[i], rank, crowding: distances.get(i)! }))
+        .sort((a, b) => b.crowding - a.crowding)
+        .slice(0, this.populationSize - survivors.length)
+        .forEach(individual => survivors.push(individual));
+    });
+    return survivors;
+  }
+
+  /**
+   * 二元錦標賽選擇：前緣較前者勝，同一前緣時擁擠距離較大者勝
+   */
+  protected select(): ParetoIndividual {
+    return tournamentSelect(
+      this.population,
+      this.random,
+      2,
+      (a, b) => a.rank < b.rank || (a.rank === b.rank && a.crowding > b.crowding)
+    );
+  }
+
+  protected createIndividual(genome: number[], fitness: Fitness, key: string): ParetoIndividual {
+    return { genome, key, fitness, rank: 0, crowding: 0 };
+  }
+
+  /**
+   * 依回報評估的績效指標計算適應度，沒有績效指標（例如評估失敗）時視為最差
+   */
+  protected getFitness(trial: Trial): Fitness {
+    const metrics = this.getMetrics(trial.params);
+    return metrics
+      ? getFitness(metrics, this.objectives, this.constraints)
+      : { values: this.objectives.map(() => -Infinity), violation: Infinity };
+  }
+
+  protected isInGeneration(key: string): boolean {
+    return this.generation.some(individual => individual.key === key);
+  }
+}
+
+/**
+ * 建立 NSGA-II 多目標優化器
+ * 優化器依回報評估的績效指標排序，因此評估完成後須能以 getMetrics 取得其績效指標
+ * @param space 搜尋空間
+ * @param objectives 多目標優化的目標
+ * @param constraints 績效條件
+ * @param getMetrics 獲取已評估參數的績效指標
+ * @param options 優化器設置
+ * @returns 優化器
+ */
+export function createParetoOptimizer(
+  space: SearchSpace,
+  objectives: MetricObjective[],
+  constraints: MetricConstraint[],
+  getMetrics: (params: ParameterSet) => TrialMetrics | undefined,
+  options: OptimizerOptions = {}
+): Optimizer {
+  return new ParetoOptimizer(space, objectives, constraints, getMetrics, options);
+}
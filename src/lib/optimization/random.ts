@@ -0,0 +1,38 @@
+// 可設定種子的亂數產生器，返回 [0, 1) 的亂數
+export type Random = () => number;
+
+/**
+ * 建立可重現的亂數產生器（mulberry32）
+ * 相同種子產生相同的亂數序列，使優化結果可以重現
+ * @param seed 亂數種子
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 產生標準常態分布亂數（Box-Muller 轉換）
+ * @param random 亂數產生器
+ */
+export function gaussian(random: Random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * 產生 [0, n) 的隨機整數
+ * @param random 亂數產生器
+ * @param n 上限（不含）
+ */
+export function randomInt(random: Random, n: number): number {
+  return Math.min(n - 1, Math.floor(random() * n));
+}
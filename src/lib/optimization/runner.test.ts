@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOptimizer, OptimizationMethod } from './optimizers';
+import { runOptimization, runOptimizationAsync } from './runner';
+import { createSearchSpace, ParameterSet } from './searchSpace';
+import { ParameterType } from '../strategies/base';
+
+const space = createSearchSpace(
+  [{ id: 'x', name: 'x', type: ParameterType.NUMBER, default: 1, min: 1, max: 5, step: 1, description: '' }],
+  { x: { min: 1, max: 5, step: 1 } },
+  { x: 1 }
+);
+
+/**
+ * 以 x 為目標值，x 為 5 時評估失敗
+ */
+function evaluate(params: ParameterSet): number {
+  if (params.x === 5) {
+    throw new Error('回測失敗');
+  }
+  return params.x;
+}
+
+test('評估失敗時記錄為失敗的評估並繼續優化', () => {
+  const { best, trials } = runOptimization(createOptimizer(OptimizationMethod.GRID, space), evaluate, { maxEvaluations: 5 });
+
+  assert.equal(trials.length, 5);
+  const failed = trials.find(trial => trial.params.x === 5)!;
+  assert.equal(failed.score, -Infinity);
+  assert.equal(failed.error, '回測失敗');
+  assert.deepEqual(best, { params: { x: 4 }, score: 4 });
+});
+
+test('所有評估皆失敗時沒有最佳評估', () => {
+  const { best, trials } = runOptimization(
+    createOptimizer(OptimizationMethod.GRID, space),
+    () => {
+      throw new Error('回測失敗');
+    },
+    { maxEvaluations: 5 }
+  );
+
+  assert.equal(best, null);
+  assert.ok(trials.every(trial => trial.error === '回測失敗'));
+});
+
+test('同時評估與逐一評估的結果相同', async () => {
+  const sync = runOptimization(createOptimizer(OptimizationMethod.RANDOM, space, { seed: 7 }), evaluate, { maxEvaluations: 4 });
+  const async = await runOptimizationAsync(
+    createOptimizer(OptimizationMethod.RANDOM, space, { seed: 7 }),
+    async params => evaluate(params),
+    { maxEvaluations: 4 },
+    { concurrency: 3 }
+  );
+
+  assert.deepEqual(async.trials, sync.trials);
+  assert.deepEqual(async.best, sync.best);
+});
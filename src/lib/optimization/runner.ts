@@ -0,0 +1,182 @@
+import { normalizeScore, Optimizer, Trial } from './optimizers';
+import { ParameterSet } from './searchSpace';
+
+// 優化預算，兩者皆設定時以先達到者為準
+export interface OptimizationBudget {
+  maxEvaluations?: number;    // 最多評估次數
+  maxSeconds?: number;        // 最多執行秒數
+}
+
+// 優化結果
+export interface OptimizationResult {
+  best: Trial | null;         // 目標值最高的評估，不含失敗的評估，沒有任何成功的評估時為 null
+  trials: Trial[];            // 依評估順序排列的所有評估
+  elapsedMs: number;          // 執行時間（毫秒）
+  cancelled: boolean;         // 是否在預算用盡前被中止，中止時保留已完成的評估
+}
+
+// 優化進度
+export interface OptimizationProgress {
+  evaluations: number;        // 已評估次數
+  total: number;              // 預計評估次數，僅設定執行秒數時為 Infinity
+  best: Trial | null;         // 目前最佳評估
+  elapsedMs: number;          // 已執行時間（毫秒）
+  etaMs: number;              // 依平均評估時間預估的剩餘時間（毫秒）
+}
+
+// 非同步優化選項
+export interface AsyncOptimizationOptions {
+  concurrency: number;                                  // 同時進行的評估數
+  signal?: AbortSignal;                                 // 中止信號
+  onProgress?: (progress: OptimizationProgress) => void; // 每次評估完成後呼叫
+}
+
+/**
+ * 在預算內執行優化
+ * 反覆向優化器要求參數並回報評估結果，直到預算用盡或優化器沒有新的參數；
+ * 評估失敗時記錄為目標值 -Infinity 並附上錯誤訊息的評估，其餘評估照常進行
+ * @param optimizer 優化器
+ * @param evaluate 評估函數，返回目標值（越大越好）
+ * @param budget 優化預算
+ * @param onProgress 每次評估後呼叫，參數為已評估次數與目前最佳評估
+ * @returns 優化結果
+ * @throws Error 預算未設定評估次數或秒數時拋出
+ */
+export function runOptimization(
+  optimizer: Optimizer,
+  evaluate: (params: ParameterSet) => number,
+  budget: OptimizationBudget,
+  onProgress?: (evaluations: number, best: Trial | null) => void
+): OptimizationResult {
+  const { maxEvaluations, maxSeconds } = resolveBudget(budget);
+  const start = Date.now();
+  const deadline = start + maxSeconds * 1000;
+  const trials: Trial[] = [];
+  let best: Trial | null = null;
+
+  const hasBudget = () => trials.length < maxEvaluations && Date.now() < deadline;
+
+  while (hasBudget()) {
+    const batch = optimizer.ask();
+    if (batch.length === 0) {
+      break;
+    }
+
+    const evaluated: Trial[] = [];
+    for (const params of batch) {
+      if (!hasBudget()) {
+        break;
+      }
+
+      let trial: Trial;
+      try {
+        trial = { params, score: normalizeScore(evaluate(params)) };
+      } catch (error) {
+        trial = { params, score: -Infinity, error: error instanceof Error ? error.message : String(error) };
+      }
+      evaluated.push(trial);
+      trials.push(trial);
+      if (trial.error === undefined && (!best || trial.score > best.score)) {
+        best = trial;
+      }
+      onProgress?.(trials.length, best);
+    }
+
+    optimizer.tell(evaluated);
+  }
+
+  return { best, trials, elapsedMs: Date.now() - start, cancelled: false };
+}
+
+/**
+ * 在預算內以多個同時進行的評估執行優化
+ * 優化器每次提出的一批參數同時評估，整批完成後依提出順序回報，因此結果與 runOptimization 相同且不受執行緒數影響；
+ * 中止時立即返回已完成的評估，進行中的評估結果將被忽略；
+ * 評估失敗時記錄為目標值 -Infinity 並附上錯誤訊息的評估，其餘評估照常進行
+ * @param optimizer 優化器
+ * @param evaluate 非同步評估函數，返回目標值（越大越好）
+ * @param budget 優化預算
+ * @param options 同時評估數、中止信號與進度回報
+ * @returns 優化結果
+ * @throws Error 預算未設定評估次數或秒數時拋出
+ */
+export async function runOptimizationAsync(
+  optimizer: Optimizer,
+  evaluate: (params: ParameterSet) => Promise<number>,
+  budget: OptimizationBudget,
+  options: AsyncOptimizationOptions
+): Promise<OptimizationResult> {
+  const { maxEvaluations, maxSeconds } = resolveBudget(budget);
+  const { concurrency, signal, onProgress } = options;
+  const start = Date.now();
+  const deadline = start + maxSeconds * 1000;
+  const trials: Trial[] = [];
+  let best: Trial | null = null;      // 進度回報用的目前最佳評估
+  let completed = 0;
+
+  // 中止信號觸發時完成，用於提早結束等待中的一批評估
+  const aborted = new Promise<void>(resolve => signal?.addEventListener('abort', () => resolve(), { once: true }));
+
+  const report = () => {
+    const elapsedMs = Date.now() - start;
+    const remaining = Math.min((elapsedMs / completed) * (maxEvaluations - completed), deadline - Date.now());
+    onProgress?.({ evaluations: completed, total: maxEvaluations, best, elapsedMs, etaMs: Math.max(0, remaining) });
+  };
+
+  while (!signal?.aborted && trials.length < maxEvaluations && Date.now() < deadline) {
+    const batch = optimizer.ask().slice(0, maxEvaluations - trials.length);
+    if (batch.length === 0) {
+      break;
+    }
+
+    // 同時評估一批參數，每個評估完成後立即更新進度
+    const results: (Trial | undefined)[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < batch.length && !signal?.aborted && Date.now() < deadline) {
+        const k = next++;
+        let trial: Trial;
+        try {
+          trial = { params: batch[k], score: normalizeScore(await evaluate(batch[k])) };
+        } catch (error) {
+          trial = { params: batch[k], score: -Infinity, error: error instanceof Error ? error.message : String(error) };
+        }
+        if (signal?.aborted) {
+          return;
+        }
+
+        results[k] = trial;
+        completed++;
+        if (trial.error === undefined && (!best || trial.score > best.score)) {
+          best = trial;
+        }
+        report();
+      }
+    };
+    await Promise.race([Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, worker)), aborted]);
+
+    const evaluated = results.filter((trial): trial is Trial => trial !== undefined);
+    trials.push(...evaluated);
+    optimizer.tell(evaluated);
+  }
+
+  // 依提出順序取目標值最高者，同分時與 runOptimization 相同取較早者
+  const result = trials.reduce<Trial | null>(
+    (top, trial) => (trial.error === undefined && (!top || trial.score > top.score) ? trial : top),
+    null
+  );
+  return { best: result, trials, elapsedMs: Date.now() - start, cancelled: signal?.aborted ?? false };
+}
+
+/**
+ * 補上預算的預設值
+ * @param budget 優化預算
+ * @throws Error 未設定評估次數或秒數時拋出
+ */
+function resolveBudget(budget: OptimizationBudget): Required<OptimizationBudget> {
+  const { maxEvaluations = Infinity, maxSeconds = Infinity } = budget;
+  if (!Number.isFinite(maxEvaluations) && !Number.isFinite(maxSeconds)) {
+    throw new Error('請設定最多評估次數或執行秒數');
+  }
+  return { maxEvaluations, maxSeconds };
+}
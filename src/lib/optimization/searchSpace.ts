@@ -0,0 +1,296 @@
+import { ParameterType, StrategyParameter } from '../strategies/base';
+import { getParameterValue, isParameterActive, validateParameters } from '../strategies/parameters';
+import { Random } from './random';
+
+// 參數搜尋範圍
+export interface ParamRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// 搜尋維度類型
+export enum DimensionKind {
+  NUMERIC = 'numeric',           // 數值（有間距時為離散格點，否則為連續區間）
+  CATEGORICAL = 'categorical'    // 選項或布林值
+}
+
+// 單一參數的值：數值、選項值或布林值
+export type ParameterValue = number | string | boolean;
+
+// 搜尋維度
+export type Dimension =
+  | { kind: DimensionKind.NUMERIC; id: string; min: number; max: number; step?: number }
+  | { kind: DimensionKind.CATEGORICAL; id: string; values: ParameterValue[] };
+
+// 搜尋空間
+export interface SearchSpace {
+  dimensions: Dimension[];
+  parameters?: StrategyParameter[];   // 策略參數定義，用於排除違反參數範圍或參數間限制的組合
+  baseParams?: ParameterSet;          // 未優化參數的值，未提供的參數使用預設值
+}
+
+// 一組參數值
+export type ParameterSet = Record<string, any>;
+
+// 逐一檢查有效組合的最大網格大小，超過時組合數以未排除的網格大小估計
+const MAX_ENUMERATED_COMBINATIONS = 100000;
+
+// 已計算的搜尋空間組合數
+const sizeCache = new WeakMap<SearchSpace, number>();
+
+/**
+ * 計算數值的小數位數
+ * @param value 數值
+ */
+function countDecimals(value: number): number {
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const decimals = (mantissa.split('.')[1] ?? '').length - Number(exponent);
+  return Math.max(0, decimals);
+}
+
+/**
+ * 獲取數值範圍內依間距排列的所有值
+ * 以索引乘以間距計算並依間距的小數位數四捨五入，避免逐次累加間距造成的浮點誤差
+ * @param min 最小值
+ * @param max 最大值
+ * @param step 間距
+ */
+export function getStepValues(min: number, max: number, step: number): number[] {
+  if (!(step > 0) || max < min) {
+    return [min];
+  }
+
+  const decimals = Math.max(countDecimals(step), countDecimals(min));
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, k) => Number((min + k * step).toFixed(decimals)));
+}
+
+/**
+ * 獲取維度的可能值數量，連續區間為 Infinity
+ * @param dimension 搜尋維度
+ */
+export function getDimensionSize(dimension: Dimension): number {
+  if (dimension.kind === DimensionKind.CATEGORICAL) {
+    return dimension.values.length;
+  }
+  return dimension.step ? getStepValues(dimension.min, dimension.max, dimension.step).length : Infinity;
+}
+
+/**
+ * 獲取搜尋空間的參數組合數，含連續區間時為 Infinity
+ * 有參數定義時只計算有效且不重複的組合（僅不適用參數不同的組合視為相同），網格過大時以未排除的網格大小估計
+ * @param space 搜尋空間
+ */
+export function getSearchSpaceSize(space: SearchSpace): number {
+  const gridSize = space.dimensions.reduce((size, dimension) => size * getDimensionSize(dimension), 1);
+  if (!space.parameters || !Number.isFinite(gridSize) || gridSize > MAX_ENUMERATED_COMBINATIONS) {
+    return gridSize;
+  }
+
+  const cached = sizeCache.get(space);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const keys = new Set<string>();
+  forEachGridPoint(space, params => {
+    if (isValidParameterSet(space, params)) {
+      keys.add(getParameterKey(space, normalizeParameterSet(space, params)));
+    }
+  });
+  sizeCache.set(space, keys.size);
+  return keys.size;
+}
+
+/**
+ * 依序列舉網格中的所有參數組合，最後一個維度變動最快
+ * @param space 搜尋空間，數值維度須有間距
+ * @param callback 每個組合呼叫一次
+ */
+export function forEachGridPoint(space: SearchSpace, callback: (params: ParameterSet) => void): void {
+  const values = space.dimensions.map(dimension =>
+    dimension.kind === DimensionKind.CATEGORICAL
+      ? dimension.values
+      : getStepValues(dimension.min, dimension.max, dimension.step ?? 0)
+  );
+  if (values.some(list => list.length === 0)) {
+    return;
+  }
+
+  const indices = values.map(() => 0);
+  while (true) {
+    const params: ParameterSet = {};
+    space.dimensions.forEach((dimension, i) => {
+      params[dimension.id] = values[i][indices[i]];
+    });
+    callback(params);
+
+    // 依混合進位遞增索引
+    let i = indices.length - 1;
+    while (i >= 0 && ++indices[i] === values[i].length) {
+      indices[i] = 0;
+      i--;
+    }
+    if (i < 0) {
+      return;
+    }
+  }
+}
+
+/**
+ * 判斷參數組合與未優化參數合併後是否有效：符合參數範圍、選項與參數間的限制
+ * @param space 搜尋空間
+ * @param params 參數值
+ */
+export function isValidParameterSet(space: SearchSpace, params: ParameterSet): boolean {
+  return !space.parameters || validateParameters(space.parameters, { ...space.baseParams, ...params }).length === 0;
+}
+
+/**
+ * 將不適用的參數改為未優化時的值，使僅不適用參數不同的組合視為相同而不重複評估
+ * @param space 搜尋空間
+ * @param params 參數值，會直接修改
+ * @returns 修改後的參數值
+ */
+export function normalizeParameterSet(space: SearchSpace, params: ParameterSet): ParameterSet {
+  const parameters = space.parameters;
+  if (!parameters) {
+    return params;
+  }
+
+  const values = { ...space.baseParams, ...params };
+  space.dimensions.forEach(dimension => {
+    const parameter = parameters.find(param => param.id === dimension.id);
+    if (parameter && !isParameterActive(parameters, parameter, values)) {
+      params[dimension.id] = getParameterValue(parameter, space.baseParams);
+    }
+  });
+  return params;
+}
+
+/**
+ * 依策略參數建立搜尋空間
+ * 數值參數使用 min、max、step（可由 ranges 覆寫），選項參數使用所有選項，布林參數使用是與否；
+ * 違反參數範圍或參數間限制的組合不列入搜尋
+ * @param parameters 策略參數定義
+ * @param ranges 需優化的參數及其範圍，未列出的參數不列入搜尋
+ * @param baseParams 未優化參數的值，用於檢查參數間的限制與適用條件
+ * @returns 搜尋空間
+ * @throws Error 數值參數缺少範圍時拋出
+ */
+export function createSearchSpace(
+  parameters: StrategyParameter[],
+  ranges: Record<string, Partial<ParamRange>>,
+  baseParams: ParameterSet = {}
+): SearchSpace {
+  const dimensions: Dimension[] = [];
+
+  parameters.filter(param => ranges[param.id]).forEach(param => {
+    const range = ranges[param.id];
+
+    switch (param.type) {
+      case ParameterType.NUMBER: {
+        const min = range.min ?? param.min;
+        const max = range.max ?? param.max;
+        if (min === undefined || max === undefined || min > max) {
+          throw new Error(`參數「${param.name}」需要有效的最小值與最大值`);
+        }
+        dimensions.push({ kind: DimensionKind.NUMERIC, id: param.id, min, max, step: range.step ?? param.step });
+        break;
+      }
+      case ParameterType.SELECT:
+        dimensions.push({ kind: DimensionKind.CATEGORICAL, id: param.id, values: (param.options ?? []).map(o => o.value) });
+        break;
+      case ParameterType.BOOLEAN:
+        dimensions.push({ kind: DimensionKind.CATEGORICAL, id: param.id, values: [true, false] });
+        break;
+      default:
+        throw new Error(`參數「${param.name}」為文字參數，無法優化`);
+    }
+  });
+
+  return { dimensions, parameters, baseParams };
+}
+
+/**
+ * 將 [0, 1] 的座標轉換為維度的值
+ * 離散維度將區間等分給每個可能值，連續區間線性對應
+ * @param dimension 搜尋維度
+ * @param u 座標
+ */
+function decodeValue(dimension: Dimension, u: number): ParameterValue {
+  const clamped = Math.min(1, Math.max(0, u));
+
+  if (dimension.kind === DimensionKind.CATEGORICAL) {
+    const n = dimension.values.length;
+    return dimension.values[Math.min(n - 1, Math.floor(clamped * n))];
+  }
+
+  if (!dimension.step) {
+    return dimension.min + clamped * (dimension.max - dimension.min);
+  }
+
+  const values = getStepValues(dimension.min, dimension.max, dimension.step);
+  return values[Math.min(values.length - 1, Math.floor(clamped * values.length))];
+}
+
+/**
+ * 將維度的值轉換為 [0, 1] 的座標，離散值對應其區間的中點
+ * @param dimension 搜尋維度
+ * @param value 參數值
+ */
+export function encodeValue(dimension: Dimension, value: any): number {
+  if (dimension.kind === DimensionKind.CATEGORICAL) {
+    const index = Math.max(0, dimension.values.indexOf(value));
+    return (index + 0.5) / dimension.values.length;
+  }
+
+  if (!dimension.step) {
+    return dimension.max > dimension.min ? (value - dimension.min) / (dimension.max - dimension.min) : 0.5;
+  }
+
+  const values = getStepValues(dimension.min, dimension.max, dimension.step);
+  const index = Math.round((value - dimension.min) / dimension.step);
+  return (Math.min(values.length - 1, Math.max(0, index)) + 0.5) / values.length;
+}
+
+/**
+ * 將單位超立方體中的座標轉換為參數值，不適用的參數改為未優化時的值
+ * @param space 搜尋空間
+ * @param point 各維度 [0, 1] 的座標
+ */
+export function decodePoint(space: SearchSpace, point: number[]): ParameterSet {
+  const params: ParameterSet = {};
+  space.dimensions.forEach((dimension, i) => {
+    params[dimension.id] = decodeValue(dimension, point[i]);
+  });
+  return normalizeParameterSet(space, params);
+}
+
+/**
+ * 將參數值轉換為單位超立方體中的座標
+ * @param space 搜尋空間
+ * @param params 參數值
+ */
+export function encodePoint(space: SearchSpace, params: ParameterSet): number[] {
+  return space.dimensions.map(dimension => encodeValue(dimension, params[dimension.id]));
+}
+
+/**
+ * 在搜尋空間中均勻抽樣
+ * @param space 搜尋空間
+ * @param random 亂數產生器
+ */
+export function samplePoint(space: SearchSpace, random: Random): number[] {
+  return space.dimensions.map(() => random());
+}
+
+/**
+ * 獲取參數組合的識別字串，用於避免重複評估
+ * @param space 搜尋空間
+ * @param params 參數值
+ */
+export function getParameterKey(space: SearchSpace, params: ParameterSet): string {
+  return JSON.stringify(space.dimensions.map(dimension => params[dimension.id]));
+}
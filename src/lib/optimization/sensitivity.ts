@@ -0,0 +1,318 @@
+import { TrialMetric } from './objective';
+import {
+  Dimension,
+  DimensionKind,
+  encodePoint,
+  encodeValue,
+  getDimensionSize,
+  getStepValues,
+  SearchSpace
+} from './searchSpace';
+import { TrialRecord } from './study';
+
+// 圖表中其他參數的處理方式
+export enum SliceMode {
+  FIXED = 'fixed',        // 固定：只使用其他參數與參考參數相同的評估
+  MEAN = 'mean',          // 邊際平均：對其他參數的所有評估取平均
+  MAX = 'max'             // 邊際最大：對其他參數的所有評估取最大值
+}
+
+// 參數軸：參數值依序分成的格
+export interface ParameterAxis {
+  id: string;                 // 參數ID
+  labels: string[];           // 各格的標籤，合併多個值的格以「最小值–最大值」表示
+}
+
+// 單一參數的敏感度曲線
+export interface SensitivityLine {
+  axis: ParameterAxis;
+  values: (number | null)[];  // 各格的指標值，沒有評估時為 null
+}
+
+// 兩個參數的熱度圖
+export interface Heatmap {
+  x: ParameterAxis;
+  y: ParameterAxis;
+  values: (number | null)[][]; // values[y][x] 為各格的指標值，沒有評估時為 null
+}
+
+// 穩健參數區域的搜尋選項
+export interface PlateauOptions {
+  radius?: number;            // 鄰近範圍，為數值參數搜尋範圍的比例，預設 0.1 且至少包含相鄰的格點
+  tolerance?: number;         // 區域內目標值可低於中心鄰近平均的幅度，為所有目標值全距的比例，預設 0.1
+  minNeighbors?: number;      // 作為中心所需的最少鄰近評估數（含自身），預設 3
+}
+
+// 穩健參數區域
+export interface ParameterPlateau {
+  center: TrialRecord;                // 推薦參數：鄰近評估平均目標值最高的評估
+  score: number;                      // 推薦參數鄰近評估的平均目標值
+  worstScore: number;                 // 推薦參數鄰近評估的最低目標值
+  neighbors: number;                  // 推薦參數的鄰近評估數（含自身）
+  region: Record<string, any[]>;      // 穩健區域內各參數出現的值，依參數順序由小到大
+  regionTrials: number;               // 穩健區域內的評估數
+  bestNeighborhoodScore: number;      // 目標值最高的評估其鄰近評估的平均目標值，遠低於其目標值時表示為孤立高點
+}
+
+// 每個參數軸最多的格數，可能值更多時合併相鄰的值
+const MAX_AXIS_CELLS = 20;
+
+/**
+ * 獲取搜尋空間中的維度
+ * @param space 搜尋空間
+ * @param id 參數ID
+ * @throws Error 搜尋空間沒有該參數時拋出
+ */
+function getDimension(space: SearchSpace, id: string): Dimension {
+  const dimension = space.dimensions.find(d => d.id === id);
+  if (!dimension) {
+    throw new Error(`搜尋空間沒有參數：${id}`);
+  }
+  return dimension;
+}
+
+/**
+ * 獲取維度在參數軸上的格數
+ * @param dimension 搜尋維度
+ */
+function getCellCount(dimension: Dimension): number {
+  return Math.min(getDimensionSize(dimension), MAX_AXIS_CELLS);
+}
+
+/**
+ * 獲取參數值所在的格
+ * @param dimension 搜尋維度
+ * @param value 參數值
+ */
+function getCell(dimension: Dimension, value: any): number {
+  const cells = getCellCount(dimension);
+  return Math.min(cells - 1, Math.floor(encodeValue(dimension, value) * cells));
+}
+
+/**
+ * 建立參數軸
+ * @param space 搜尋空間
+ * @param id 參數ID
+ * @returns 參數軸
+ */
+export function getParameterAxis(space: SearchSpace, id: string): ParameterAxis {
+  const dimension = getDimension(space, id);
+  const cells = getCellCount(dimension);
+
+  if (dimension.kind === DimensionKind.CATEGORICAL) {
+    return { id, labels: dimension.values.map(String) };
+  }
+
+  // 連續區間依等寬分格，以格的中點為標籤
+  if (!dimension.step) {
+    const width = (dimension.max - dimension.min) / cells;
+    return {
+      id,
+      labels: Array.from({ length: cells }, (_, k) => Number((dimension.min + (k + 0.5) * width).toPrecision(4)).toString())
+    };
+  }
+
+  const ranges: [number, number][] = [];
+  getStepValues(dimension.min, dimension.max, dimension.step).forEach(value => {
+    const cell = getCell(dimension, value);
+    ranges[cell] = ranges[cell] ? [ranges[cell][0], value] : [value, value];
+  });
+  return { id, labels: ranges.map(([min, max]) => (min === max ? String(min) : `${min}–${max}`)) };
+}
+
+/**
+ * 獲取參數值在參數軸上的格索引，用於在圖表中標示指定參數
+ * @param space 搜尋空間
+ * @param id 參數ID
+ * @param value 參數值
+ */
+export function getAxisCell(space: SearchSpace, id: string, value: any): number {
+  return getCell(getDimension(space, id), value);
+}
+
+/**
+ * 依指定參數的格彙整評估的指標值
+ * @param space 搜尋空間
+ * @param trials 所有評估
+ * @param ids 作為座標的參數ID
+ * @param metric 績效指標
+ * @param mode 其他參數的處理方式
+ * @param reference 固定模式下其他參數的參考值
+ * @returns 以格索引（逗號分隔）為鍵的指標值，非有限數值不列入
+ */
+function aggregate(
+  space: SearchSpace,
+  trials: TrialRecord[],
+  ids: string[],
+  metric: TrialMetric,
+  mode: SliceMode,
+  reference: Record<string, any>
+): Map<string, number> {
+  const dimensions = ids.map(id => getDimension(space, id));
+  const others = space.dimensions.filter(dimension => !ids.includes(dimension.id));
+  const groups = new Map<string, number[]>();
+
+  trials.forEach(trial => {
+    const value = trial.metrics[metric];
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    if (
+      mode === SliceMode.FIXED &&
+      others.some(dimension => getCell(dimension, trial.params[dimension.id]) !== getCell(dimension, reference[dimension.id]))
+    ) {
+      return;
+    }
+
+    const key = dimensions.map(dimension => getCell(dimension, trial.params[dimension.id])).join(',');
+    const group = groups.get(key);
+    if (group) {
+      group.push(value);
+    } else {
+      groups.set(key, [value]);
+    }
+  });
+
+  return new Map(
+    Array.from(groups, ([key, values]) => [
+      key,
+      mode === SliceMode.MAX
+        ? values.reduce((max, value) => Math.max(max, value), -Infinity)
+        : values.reduce((sum, value) => sum + value, 0) / values.length
+    ])
+  );
+}
+
+/**
+ * 計算單一參數的敏感度曲線
+ * @param space 搜尋空間
+ * @param trials 所有評估
+ * @param id 參數ID
+ * @param metric 績效指標
+ * @param mode 其他參數的處理方式
+ * @param reference 固定模式下其他參數的參考值
+ * @returns 敏感度曲線
+ */
+export function getSensitivity(
+  space: SearchSpace,
+  trials: TrialRecord[],
+  id: string,
+  metric: TrialMetric,
+  mode: SliceMode,
+  reference: Record<string, any>
+): SensitivityLine {
+  const axis = getParameterAxis(space, id);
+  const values = aggregate(space, trials, [id], metric, mode, reference);
+  return { axis, values: axis.labels.map((_, k) => values.get(String(k)) ?? null) };
+}
+
+/**
+ * 計算兩個參數的熱度圖
+ * @param space 搜尋空間
+ * @param trials 所有評估
+ * @param xId 橫軸參數ID
+ * @param yId 縱軸參數ID
+ * @param metric 績效指標
+ * @param mode 其他參數的處理方式
+ * @param reference 固定模式下其他參數的參考值
+ * @returns 熱度圖
+ * @throws Error 兩軸為同一參數時拋出
+ */
+export function getHeatmap(
+  space: SearchSpace,
+  trials: TrialRecord[],
+  xId: string,
+  yId: string,
+  metric: TrialMetric,
+  mode: SliceMode,
+  reference: Record<string, any>
+): Heatmap {
+  if (xId === yId) {
+    throw new Error('熱度圖的兩軸需為不同參數');
+  }
+
+  const x = getParameterAxis(space, xId);
+  const y = getParameterAxis(space, yId);
+  const values = aggregate(space, trials, [xId, yId], metric, mode, reference);
+  return {
+    x,
+    y,
+    values: y.labels.map((_, j) => x.labels.map((_, i) => values.get(`${i},${j}`) ?? null))
+  };
+}
+
+/**
+ * 尋找穩健參數區域
+ * 單一最佳參數常是周圍表現不佳的孤立高點，稍有變動績效即大幅下滑；
+ * 此處以每個評估鄰近評估的平均目標值衡量穩健度，取最高者為推薦參數，
+ * 再從推薦參數向外擴展目標值不低於門檻的相連評估作為穩健區域
+ * @param space 搜尋空間
+ * @param trials 所有評估
+ * @param options 搜尋選項
+ * @returns 穩健參數區域，沒有任何可計算的評估時為 null
+ */
+export function findPlateau(space: SearchSpace, trials: TrialRecord[], options: PlateauOptions = {}): ParameterPlateau | null {
+  const { radius = 0.1, tolerance = 0.1, minNeighbors = 3 } = options;
+  const candidates = trials.filter(trial => Number.isFinite(trial.score));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  // 各維度的鄰近距離：選項參數須相同，數值參數至少包含相鄰的格點
+  const limits = space.dimensions.map(dimension =>
+    dimension.kind === DimensionKind.CATEGORICAL ? 0 : Math.max(radius, 1 / getDimensionSize(dimension)) + 1e-9
+  );
+  const points = candidates.map(trial => encodePoint(space, trial.params));
+  const neighbors = points.map(point =>
+    points.reduce<number[]>((list, other, k) => {
+      if (point.every((u, d) => Math.abs(u - other[d]) <= limits[d])) {
+        list.push(k);
+      }
+      return list;
+    }, [])
+  );
+
+  const scores = candidates.map(trial => trial.score);
+  const neighborhoodScores = neighbors.map(list => list.reduce((sum, k) => sum + scores[k], 0) / list.length);
+
+  // 鄰近評估過少時（例如隨機抽樣較稀疏）放寬條件，確保至少有一個候選中心
+  const required = Math.min(minNeighbors, neighbors.reduce((max, list) => Math.max(max, list.length), 0));
+  let center = -1;
+  neighbors.forEach((list, i) => {
+    if (list.length >= required && (center < 0 || neighborhoodScores[i] > neighborhoodScores[center])) {
+      center = i;
+    }
+  });
+
+  // 從推薦參數向外擴展目標值不低於門檻的相連評估
+  const maxScore = scores.reduce((max, score) => Math.max(max, score), -Infinity);
+  const minScore = scores.reduce((min, score) => Math.min(min, score), Infinity);
+  const threshold = neighborhoodScores[center] - tolerance * (maxScore - minScore);
+  const inRegion = new Set([center]);
+  const queue = [center];
+  while (queue.length > 0) {
+    neighbors[queue.shift()!].forEach(k => {
+      if (!inRegion.has(k) && scores[k] >= threshold) {
+        inRegion.add(k);
+        queue.push(k);
+      }
+    });
+  }
+
+  const region: Record<string, any[]> = {};
+  space.dimensions.forEach(dimension => {
+    const values = new Set(Array.from(inRegion, k => candidates[k].params[dimension.id]));
+    region[dimension.id] = Array.from(values).sort((a, b) => encodeValue(dimension, a) - encodeValue(dimension, b));
+  });
+
+  const best = scores.indexOf(maxScore);
+  return {
+    center: candidates[center],
+    score: neighborhoodScores[center],
+    worstScore: neighbors[center].reduce((min, k) => Math.min(min, scores[k]), Infinity),
+    neighbors: neighbors[center].length,
+    region,
+    regionTrials: inRegion.size,
+    bestNeighborhoodScore: neighborhoodScores[best]
+  };
+}
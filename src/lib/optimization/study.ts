@@ -0,0 +1,128 @@
+import { BacktestSettings } from '../backtest/types';
+import { StrategyParameter } from '../strategies/base';
+import { getEmptyTrialMetrics, OptimizationObjective, TRIAL_METRICS, TrialMetrics } from './objective';
+import { createOptimizer, OptimizationMethod, Trial } from './optimizers';
+import {
+  createParetoOptimizer,
+  getParetoFront,
+  MetricConstraint,
+  MetricObjective,
+  satisfiesConstraints
+} from './pareto';
+import { OptimizationProgress, runOptimizationAsync } from './runner';
+import { createSearchSpace, getParameterKey, getSearchSpaceSize, ParameterSet, ParamRange, SearchSpace } from './searchSpace';
+import type { EvaluationPool } from './workerPool';
+
+// 一次評估的完整紀錄
+export interface TrialRecord extends Trial {
+  metrics: TrialMetrics;                      // 績效指標
+}
+
+// 參數優化設置
+export interface OptimizationSettings {
+  objective: OptimizationObjective;           // 優化目標
+  paramRanges: Record<string, ParamRange>;    // 需優化的參數範圍，其餘參數沿用回測設置
+  method: OptimizationMethod;                 // 優化方法
+  maxEvaluations?: number;                    // 最多評估次數，未設定時評估所有參數組合
+  seed?: number;                              // 亂數種子，相同種子可重現優化結果
+  objectives?: MetricObjective[];             // 多目標優化的目標，兩個以上時遺傳演算法改用 NSGA-II 並計算柏拉圖前緣
+  constraints?: MetricConstraint[];           // 績效條件，不符合的評估目標值為 -Infinity，且不列入柏拉圖前緣
+}
+
+// 參數優化結果
+export interface OptimizationStudy {
+  settings: OptimizationSettings;
+  space: SearchSpace;                         // 搜尋空間
+  trials: TrialRecord[];                      // 依評估順序排列的所有評估
+  best: TrialRecord | null;                   // 目標值最高且符合績效條件的評估
+  paretoFront: TrialRecord[];                 // 柏拉圖前緣上的評估，單一目標時為空陣列
+  elapsedMs: number;                          // 執行時間（毫秒）
+  cancelled: boolean;                         // 是否中途停止，停止時保留已完成的評估
+}
+
+/**
+ * 以評估池在整個回測期間優化參數，保留每次評估的績效指標供敏感度分析
+ * @param backtestSettings 回測設置，優化期間為其開始與結束日期
+ * @param parameters 策略參數定義
+ * @param settings 參數優化設置
+ * @param pool 評估池，其優化工作須與此優化的回測設置與優化目標相同
+ * @param options 中止信號與進度回報
+ * @returns 參數優化結果
+ * @throws Error 參數範圍無效、多目標優化使用貝氏優化或所有評估皆失敗時拋出
+ */
+export async function runOptimizationStudy(
+  backtestSettings: BacktestSettings,
+  parameters: StrategyParameter[],
+  settings: OptimizationSettings,
+  pool: EvaluationPool,
+  options: { signal?: AbortSignal; onProgress?: (progress: OptimizationProgress) => void } = {}
+): Promise<OptimizationStudy> {
+  const space = createSearchSpace(parameters, settings.paramRanges, backtestSettings.strategyParams);
+  const { startDate, endDate } = backtestSettings;
+  const { objectives = [], constraints = [] } = settings;
+  const isMultiObjective = objectives.length >= 2;
+  const metrics = new Map<string, TrialMetrics>();
+
+  if (isMultiObjective && settings.method === OptimizationMethod.BAYESIAN) {
+    throw new Error('貝氏優化僅支援單一目標，多目標優化請改用網格搜索、隨機搜索或遺傳演算法');
+  }
+
+  // 多目標時遺傳演算法改用 NSGA-II，依評估的績效指標排序；其他方法的搜尋不受目標值影響
+  const getMetrics = (params: ParameterSet) => metrics.get(getParameterKey(space, params));
+  const optimizer = isMultiObjective && settings.method === OptimizationMethod.GENETIC
+    ? createParetoOptimizer(space, objectives, constraints, getMetrics, { seed: settings.seed })
+    : createOptimizer(settings.method, space, { seed: settings.seed });
+  const { best, trials, elapsedMs, cancelled } = await runOptimizationAsync(
+    optimizer,
+    async params => {
+      const result = await pool.evaluate({ startDate, endDate, params });
+      metrics.set(getParameterKey(space, params), result.metrics);
+      return satisfiesConstraints(result.metrics, constraints) ? result.score : -Infinity;
+    },
+    { maxEvaluations: settings.maxEvaluations ?? getSearchSpaceSize(space) },
+    { concurrency: pool.size, signal: options.signal, onProgress: options.onProgress }
+  );
+
+  const failed = trials.filter(trial => trial.error !== undefined);
+  if (failed.length > 0 && failed.length === trials.length) {
+    throw new Error(`所有評估皆失敗：${failed[0].error}`);
+  }
+
+  // 失敗的評估沒有績效指標，以 NaN 表示且不列入柏拉圖前緣
+  const records = trials.map(trial => ({ ...trial, metrics: getMetrics(trial.params) ?? getEmptyTrialMetrics() }));
+  return {
+    settings,
+    space,
+    trials: records,
+    best: best && Number.isFinite(best.score) ? records[trials.indexOf(best)] : null,
+    paretoFront: isMultiObjective
+      ? getParetoFront(records.filter(record => record.error === undefined), objectives, constraints)
+      : [],
+    elapsedMs,
+    cancelled
+  };
+}
+
+/**
+ * 將優化結果的所有評估轉換為 CSV，欄位依序為參數、目標值、各績效指標與評估失敗的錯誤訊息
+ * @param study 參數優化結果
+ * @returns CSV 內容
+ */
+export function toTrialsCsv(study: OptimizationStudy): string {
+  const ids = study.space.dimensions.map(dimension => dimension.id);
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [
+    [...ids, 'score', ...TRIAL_METRICS, 'error'],
+    ...study.trials.map(trial => [
+      ...ids.map(id => trial.params[id]),
+      trial.score,
+      ...TRIAL_METRICS.map(metric => trial.metrics[metric]),
+      trial.error ?? ''
+    ])
+  ];
+  return rows.map(row => row.map(escape).join(',')).join('\n');
+}
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OptimizationJob, WorkerRequest, WorkerResponse } from './evaluation';
+import { getEmptyTrialMetrics } from './objective';
+import { EvaluationWorker, POOL_TERMINATED_MESSAGE, WorkerPool } from './workerPool';
+
+/**
+ * 模擬的評估執行緒：以參數 x 為目標值，x 為負數時執行緒崩潰
+ */
+class FakeWorker implements EvaluationWorker {
+  public terminated = false;
+  private messageHandler: (message: WorkerResponse) => void = () => {};
+  private errorHandler: (error: Error) => void = () => {};
+
+  /**
+   * @param broken 是否在初始化時即崩潰，模擬執行緒無法載入
+   */
+  constructor(private broken = false) {}
+
+  public postMessage(message: WorkerRequest): void {
+    setTimeout(() => {
+      if (this.terminated) {
+        return;
+      }
+      if (this.broken) {
+        this.errorHandler(new Error('無法載入'));
+      } else if (message.type === 'evaluate') {
+        const x = message.request.params.x;
+        if (x < 0) {
+          this.errorHandler(new Error(`崩潰 ${x}`));
+        } else {
+          this.messageHandler({
+            type: 'result',
+            id: message.id,
+            result: { score: x, returns: [], metrics: getEmptyTrialMetrics() }
+          });
+        }
+      }
+    }, 0);
+  }
+
+  public onMessage(handler: (message: WorkerResponse) => void): void {
+    this.messageHandler = handler;
+  }
+
+  public onError(handler: (error: Error) => void): void {
+    this.errorHandler = handler;
+  }
+
+  public terminate(): void {
+    this.terminated = true;
+  }
+}
+
+const job = {} as OptimizationJob;
+
+/**
+ * 以參數 x 建立評估請求
+ */
+function request(x: number) {
+  return { startDate: 0, endDate: 0, params: { x } };
+}
+
+test('評估分派給多個執行緒並返回各自的結果', async () => {
+  const pool = new WorkerPool(() => new FakeWorker(), 2, job);
+  const results = await Promise.all([1, 2, 3, 4, 5].map(x => pool.evaluate(request(x))));
+  assert.deepEqual(results.map(result => result.score), [1, 2, 3, 4, 5]);
+  pool.terminate();
+});
+
+test('執行緒崩潰時該評估以錯誤結束，並以新的執行緒繼續評估', async () => {
+  const workers: FakeWorker[] = [];
+  const pool = new WorkerPool(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker;
+  }, 1, job);
+
+  const results = await Promise.allSettled([1, -1, 2].map(x => pool.evaluate(request(x))));
+  assert.equal(results[0].status, 'fulfilled');
+  assert.equal(results[1].status, 'rejected');
+  assert.equal((results[1] as PromiseRejectedResult).reason.message, '崩潰 -1');
+  assert.deepEqual(results[2], { status: 'fulfilled', value: { score: 2, returns: [], metrics: getEmptyTrialMetrics() } });
+
+  assert.equal(workers.length, 2);
+  assert.ok(workers[0].terminated);
+  pool.terminate();
+});
+
+test('執行緒重建次數用盡後，等待中與之後的評估皆以錯誤結束', async () => {
+  let created = 0;
+  const pool = new WorkerPool(() => {
+    created++;
+    return new FakeWorker(true);
+  }, 2, job);
+
+  const results = await Promise.allSettled([1, 2, 3].map(x => pool.evaluate(request(x))));
+  results.forEach(result => {
+    assert.equal(result.status, 'rejected');
+    assert.equal((result as PromiseRejectedResult).reason.message, '無法載入');
+  });
+  await new Promise(resolve => setTimeout(resolve, 20));
+
+  // 兩個執行緒各可重建 3 次
+  assert.equal(created, 2 + 6);
+  await assert.rejects(pool.evaluate(request(4)), { message: '無法載入' });
+  pool.terminate();
+});
+
+test('停止評估池時進行中的評估以錯誤結束', async () => {
+  const pool = new WorkerPool(() => new FakeWorker(), 1, job);
+  const pending = pool.evaluate(request(1));
+  pool.terminate();
+  await assert.rejects(pending, { message: POOL_TERMINATED_MESSAGE });
+  await assert.rejects(pool.evaluate(request(2)), { message: POOL_TERMINATED_MESSAGE });
+});
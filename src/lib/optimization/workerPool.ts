@@ -0,0 +1,220 @@
+import {
+  createWorkerHandler,
+  EvaluationRequest,
+  EvaluationResult,
+  OptimizationJob,
+  WorkerRequest,
+  WorkerResponse
+} from './evaluation';
+
+// 評估池：同時評估多組參數
+export interface EvaluationPool {
+  readonly size: number;                                            // 可同時評估的數量
+  evaluate(request: EvaluationRequest): Promise<EvaluationResult>;  // 評估一組參數，返回目標值、每日報酬與績效指標
+  terminate(): void;                                                // 停止所有評估，進行中的評估以錯誤結束
+}
+
+// 評估執行緒，包裝瀏覽器 Web Worker 或 Node.js worker_threads 的差異
+export interface EvaluationWorker {
+  postMessage(message: WorkerRequest): void;
+  onMessage(handler: (message: WorkerResponse) => void): void;
+  onError(handler: (error: Error) => void): void;
+  terminate(): void;
+}
+
+// 評估池停止時，進行中的評估所收到的錯誤訊息
+export const POOL_TERMINATED_MESSAGE = '評估已停止';
+
+// 預設最多使用的執行緒數
+const MAX_POOL_SIZE = 8;
+
+// 每個執行緒平均可重新建立的次數，避免執行緒無法載入時不斷重建
+const MAX_RESTARTS_PER_WORKER = 3;
+
+/**
+ * 獲取預設的執行緒數：保留一個核心給畫面與主執行緒
+ * @param cores 可用的核心數
+ */
+export function getDefaultPoolSize(cores: number | undefined): number {
+  return Math.min(MAX_POOL_SIZE, Math.max(1, (cores ?? 2) - 1));
+}
+
+// 等待中的評估
+interface PendingEvaluation {
+  id: number;
+  request: EvaluationRequest;
+  resolve: (result: EvaluationResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 執行緒評估池
+ * 每個執行緒初始化時收到一次優化工作（含市場數據），之後逐一分派評估請求給閒置的執行緒；
+ * 執行緒發生錯誤時重新建立，重建次數用盡且沒有可用的執行緒時，等待中與之後的評估皆以該錯誤結束
+ */
+export class WorkerPool implements EvaluationPool {
+  public readonly size: number;
+  private workers: EvaluationWorker[] = [];
+  private idle: EvaluationWorker[] = [];
+  private queue: PendingEvaluation[] = [];
+  private running: Map<number, { worker: EvaluationWorker; evaluation: PendingEvaluation }> = new Map();
+  private nextId = 0;
+  private terminated = false;
+  private restarts: number;               // 剩餘可重新建立執行緒的次數
+  private failure: Error | null = null;   // 所有執行緒皆無法使用時的錯誤
+
+  /**
+   * @param createWorker 建立評估執行緒的函數
+   * @param size 執行緒數
+   * @param job 優化工作
+   */
+  constructor(private createWorker: () => EvaluationWorker, size: number, private job: OptimizationJob) {
+    this.size = Math.max(1, size);
+    this.restarts = this.size * MAX_RESTARTS_PER_WORKER;
+    for (let i = 0; i < this.size; i++) {
+      this.spawn();
+    }
+  }
+
+  public evaluate(request: EvaluationRequest): Promise<EvaluationResult> {
+    if (this.terminated) {
+      return Promise.reject(new Error(POOL_TERMINATED_MESSAGE));
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  public terminate(): void {
+    if (this.terminated) {
+      return;
+    }
+
+    this.terminated = true;
+    this.workers.forEach(worker => worker.terminate());
+
+    const error = new Error(POOL_TERMINATED_MESSAGE);
+    this.running.forEach(({ evaluation }) => evaluation.reject(error));
+    this.queue.forEach(evaluation => evaluation.reject(error));
+    this.running.clear();
+    this.queue = [];
+    this.idle = [];
+  }
+
+  /**
+   * 建立執行緒並以優化工作初始化
+   */
+  private spawn(): void {
+    const worker = this.createWorker();
+    worker.onMessage(message => this.handleMessage(worker, message));
+    worker.onError(error => this.handleError(worker, error));
+    worker.postMessage({ type: 'init', job: this.job });
+    this.workers.push(worker);
+    this.idle.push(worker);
+  }
+
+  /**
+   * 將等待中的評估分派給閒置的執行緒
+   */
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const evaluation = this.queue.shift()!;
+      this.running.set(evaluation.id, { worker, evaluation });
+      worker.postMessage({ type: 'evaluate', id: evaluation.id, request: evaluation.request });
+    }
+  }
+
+  /**
+   * 處理執行緒回傳的評估結果
+   * @param worker 執行緒
+   * @param message 回傳訊息
+   */
+  private handleMessage(worker: EvaluationWorker, message: WorkerResponse): void {
+    const entry = this.running.get(message.id);
+    if (!entry) {
+      return;
+    }
+
+    this.running.delete(message.id);
+    this.idle.push(worker);
+
+    if (message.type === 'result') {
+      entry.evaluation.resolve(message.result);
+    } else {
+      entry.evaluation.reject(new Error(message.message));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * 處理執行緒發生的未預期錯誤（例如載入失敗），該執行緒進行中的評估以錯誤結束，並以新的執行緒取代；
+   * 無法再重建且沒有可用的執行緒時，等待中的評估以錯誤結束
+   * @param worker 執行緒
+   * @param error 錯誤
+   */
+  private handleError(worker: EvaluationWorker, error: Error): void {
+    if (this.terminated || !this.workers.includes(worker)) {
+      return;
+    }
+
+    this.running.forEach(({ worker: owner, evaluation }, id) => {
+      if (owner === worker) {
+        this.running.delete(id);
+        evaluation.reject(error);
+      }
+    });
+
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idle = this.idle.filter(w => w !== worker);
+
+    if (this.restarts > 0) {
+      this.restarts--;
+      this.spawn();
+      this.dispatch();
+    } else if (this.workers.length === 0) {
+      this.failure = error;
+      this.queue.forEach(evaluation => evaluation.reject(error));
+      this.queue = [];
+    }
+  }
+}
+
+/**
+ * 建立在目前執行緒評估的評估池，用於不支援執行緒的環境
+ * 每次評估前讓出執行緒，使畫面在評估之間仍可更新
+ * @param job 優化工作
+ * @returns 評估池
+ */
+export function createInlinePool(job: OptimizationJob): EvaluationPool {
+  const handle = createWorkerHandler();
+  let terminated = false;
+  handle({ type: 'init', job });
+
+  return {
+    size: 1,
+    evaluate: request => new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (terminated) {
+          reject(new Error(POOL_TERMINATED_MESSAGE));
+          return;
+        }
+        const response = handle({ type: 'evaluate', id: 0, request });
+        if (response?.type === 'result') {
+          resolve(response.result);
+        } else {
+          reject(new Error(response?.message));
+        }
+      }, 0);
+    }),
+    terminate: () => {
+      terminated = true;
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import type { RuleSide } from '../strategies/ruleStrategy';
+
+// 原始碼位置（行、欄皆自 1 起算）
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * 策略腳本錯誤
+ * 記錄錯誤發生的行與欄，訊息前綴位置以便使用者定位
+ */
+export class ScriptError extends Error {
+  readonly line: number;
+  readonly column: number;
+  readonly reason: string;
+
+  constructor(reason: string, position: SourcePosition) {
+    super(`第 ${position.line} 行第 ${position.column} 欄：${reason}`);
+    this.name = 'ScriptError';
+    this.reason = reason;
+    this.line = position.line;
+    this.column = position.column;
+  }
+
+  /**
+   * 顯示錯誤所在的原始碼行，並以 ^ 標示錯誤欄位
+   * @param source 腳本原始碼
+   */
+  public excerpt(source: string): string {
+    const line = source.split('\n')[this.line - 1] ?? '';
+    return `${line}\n${' '.repeat(Math.max(0, this.column - 1))}^`;
+  }
+}
+
+// 參數型別
+export enum ScriptParamType {
+  INT = 'int',     // 整數
+  FLOAT = 'float'  // 小數
+}
+
+// 參數宣告，如 $fast:int[2..50]=5
+export interface ParamDeclaration {
+  type: ScriptParamType;
+  min?: number;
+  max?: number;
+  step?: number;
+  default: number;
+}
+
+// 二元運算子
+export type BinaryOperator = '+' | '-' | '*' | '/' | '>' | '>=' | '<' | '<=' | '==' | '!=' | 'and' | 'or';
+
+// 運算式
+export type Expression =
+  | { kind: 'number'; value: number; position: SourcePosition }
+  | { kind: 'boolean'; value: boolean; position: SourcePosition }
+  | { kind: 'param'; name: string; declaration?: ParamDeclaration; position: SourcePosition }
+  | { kind: 'identifier'; name: string; position: SourcePosition }
+  | { kind: 'call'; callee: string; args: Expression[]; position: SourcePosition }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expression; position: SourcePosition }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression; position: SourcePosition }
+  | { kind: 'lookback'; target: Expression; offset: Expression; position: SourcePosition };
+
+// 敘述
+export type Statement =
+  | { kind: 'let'; name: string; value: Expression; position: SourcePosition }
+  | { kind: 'rule'; side: RuleSide; condition: Expression; position: SourcePosition };
+
+// 腳本
+export interface Program {
+  statements: Statement[];
+}
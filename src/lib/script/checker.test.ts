@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScriptError } from './ast';
+import { check } from './checker';
+import { parse } from './parser';
+
+/**
+ * 檢查型別錯誤的行、欄與原因
+ */
+function assertCheckError(source: string, line: number, column: number, reason: string): void {
+  assert.throws(() => check(parse(source)), (error: unknown) => {
+    assert.ok(error instanceof ScriptError);
+    assert.deepEqual([error.line, error.column, error.reason], [line, column, reason]);
+    return true;
+  });
+}
+
+test('收集宣告的參數', () => {
+  const { parameters } = check(parse('long when close > ema(close, $p:int[2..50]=5) and close > $p'));
+  assert.deepEqual(parameters.map(parameter => parameter.name), ['p']);
+});
+
+test('未宣告的參數', () => {
+  assertCheckError('long when close > $n', 1, 19, '參數 $n 尚未宣告，請在任一處寫成 $n:int[最小值..最大值]=預設值');
+});
+
+test('未知的名稱與缺少括號的函數', () => {
+  assertCheckError('long when close > foo', 1, 19, '未知的名稱「foo」');
+  assertCheckError('long when sma > 1', 1, 11, '「sma」是函數，請加上括號與參數，例如 sma(來源, 週期)');
+});
+
+test('函數參數數量與種類', () => {
+  assertCheckError('long when ema(close) > 1', 1, 11, 'ema 需要 2 個參數 ema(來源, 週期)，卻有 1 個');
+  assertCheckError('long when close > sma(close, close)', 1, 30, 'sma 的第 2 個參數（週期）必須是數字或參數，不能是隨K棒變動的數列');
+});
+
+test('條件必須是布林值', () => {
+  assertCheckError('let fast = ema(close, $fast:int[2..50]=5)\nlong when fast + 1', 2, 16, '條件必須是布林值（比較或邏輯運算），卻是數值');
+});
+
+test('參數範圍與預設值', () => {
+  assertCheckError('long when close > ema(close, $p:int[10..5]=7)', 1, 30, '參數 $p 的最小值 10 大於最大值 5');
+  assertCheckError('long when close > $p:float[1..3 step 0.5]=4', 1, 19, '參數 $p 的預設值 4 不在範圍 1..3 內');
+});
+
+test('內建名稱不能作為變數，且至少需要一條進場敘述', () => {
+  assertCheckError('let close = 1\nlong when close > 1', 1, 1, '「close」是內建名稱，不能作為變數名稱');
+  assertCheckError('exit long when close > 1', 1, 1, '腳本至少需要一條 long when 或 short when 進場敘述');
+});
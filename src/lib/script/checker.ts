@@ -0,0 +1,272 @@
+import { Expression, ParamDeclaration, Program, ScriptError, SourcePosition } from './ast';
+import { ArgKind, getScriptFunction, isPriceSeries, ValueType } from './functions';
+
+// 運算式的型別資訊
+interface ExpressionType {
+  type: ValueType;
+  constant: boolean;              // 是否為常數（數字、參數或其運算），可作為週期等參數
+}
+
+// 腳本參數
+export interface ScriptParameter extends ParamDeclaration {
+  name: string;
+  position: SourcePosition;       // 宣告位置
+}
+
+// 型別檢查結果
+export interface CheckedProgram {
+  program: Program;
+  parameters: ScriptParameter[];  // 依宣告順序排列的參數
+}
+
+const TYPE_NAMES: Record<ValueType, string> = {
+  [ValueType.NUMBER]: '數值',
+  [ValueType.BOOLEAN]: '布林值'
+};
+
+/**
+ * 收集運算式中的參數宣告
+ * @param expression 運算式
+ * @param parameters 已收集的參數
+ */
+function collectDeclarations(expression: Expression, parameters: Map<string, ScriptParameter>): void {
+  switch (expression.kind) {
+    case 'param':
+      if (expression.declaration) {
+        if (parameters.has(expression.name)) {
+          throw new ScriptError(`參數 $${expression.name} 重複宣告，其他位置請直接寫 $${expression.name}`, expression.position);
+        }
+        validateDeclaration(expression.name, expression.declaration, expression.position);
+        parameters.set(expression.name, { ...expression.declaration, name: expression.name, position: expression.position });
+      }
+      break;
+    case 'call':
+      expression.args.forEach(arg => collectDeclarations(arg, parameters));
+      break;
+    case 'unary':
+      collectDeclarations(expression.operand, parameters);
+      break;
+    case 'binary':
+      collectDeclarations(expression.left, parameters);
+      collectDeclarations(expression.right, parameters);
+      break;
+    case 'lookback':
+      collectDeclarations(expression.target, parameters);
+      collectDeclarations(expression.offset, parameters);
+      break;
+  }
+}
+
+/**
+ * 驗證參數宣告的範圍與預設值
+ * @param name 參數名稱
+ * @param declaration 參數宣告
+ * @param position 宣告位置
+ */
+function validateDeclaration(name: string, declaration: ParamDeclaration, position: SourcePosition): void {
+  const { min, max, step } = declaration;
+
+  if (declaration.type === 'int') {
+    const values = [min, max, step, declaration.default].filter((value): value is number => value !== undefined);
+    if (values.some(value => !Number.isInteger(value))) {
+      throw new ScriptError(`整數參數 $${name} 的範圍、間距與預設值必須是整數`, position);
+    }
+  }
+
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new ScriptError(`參數 $${name} 的最小值 ${min} 大於最大值 ${max}`, position);
+  }
+
+  if ((min !== undefined && declaration.default < min) || (max !== undefined && declaration.default > max)) {
+    throw new ScriptError(`參數 $${name} 的預設值 ${declaration.default} 不在範圍 ${min}..${max} 內`, position);
+  }
+
+  if (step !== undefined && step <= 0) {
+    throw new ScriptError(`參數 $${name} 的間距必須大於 0`, position);
+  }
+}
+
+/**
+ * 策略腳本型別檢查器
+ * 檢查名稱、參數、函數呼叫與運算子的型別，並確認條件為布林值
+ */
+class TypeChecker {
+  private parameters: Map<string, ScriptParameter>;
+  private variables: Map<string, ExpressionType> = new Map();
+
+  constructor(parameters: Map<string, ScriptParameter>) {
+    this.parameters = parameters;
+  }
+
+  /**
+   * 檢查整份腳本
+   * @param program 語法樹
+   */
+  public checkProgram(program: Program): void {
+    for (const statement of program.statements) {
+      if (statement.kind === 'let') {
+        if (this.variables.has(statement.name)) {
+          throw new ScriptError(`變數「${statement.name}」重複定義`, statement.position);
+        }
+        if (isPriceSeries(statement.name) || getScriptFunction(statement.name)) {
+          throw new ScriptError(`「${statement.name}」是內建名稱，不能作為變數名稱`, statement.position);
+        }
+        this.variables.set(statement.name, this.check(statement.value));
+        continue;
+      }
+
+      const condition = this.check(statement.condition);
+      if (condition.type !== ValueType.BOOLEAN) {
+        throw new ScriptError('條件必須是布林值（比較或邏輯運算），卻是數值', statement.condition.position);
+      }
+    }
+
+    if (!program.statements.some(s => s.kind === 'rule' && (s.side === 'longEntry' || s.side === 'shortEntry'))) {
+      throw new ScriptError('腳本至少需要一條 long when 或 short when 進場敘述', { line: 1, column: 1 });
+    }
+  }
+
+  /**
+   * 推斷運算式的型別
+   * @param expression 運算式
+   */
+  private check(expression: Expression): ExpressionType {
+    switch (expression.kind) {
+      case 'number':
+        return { type: ValueType.NUMBER, constant: true };
+
+      case 'boolean':
+        return { type: ValueType.BOOLEAN, constant: true };
+
+      case 'param':
+        if (!this.parameters.has(expression.name)) {
+          throw new ScriptError(
+            `參數 $${expression.name} 尚未宣告，請在任一處寫成 $${expression.name}:int[最小值..最大值]=預設值`,
+            expression.position
+          );
+        }
+        return { type: ValueType.NUMBER, constant: true };
+
+      case 'identifier': {
+        if (isPriceSeries(expression.name)) {
+          return { type: ValueType.NUMBER, constant: false };
+        }
+
+        const variable = this.variables.get(expression.name);
+        if (variable) {
+          return variable;
+        }
+
+        if (getScriptFunction(expression.name)) {
+          throw new ScriptError(`「${expression.name}」是函數，請加上括號與參數，例如 ${this.signature(expression.name)}`, expression.position);
+        }
+
+        throw new ScriptError(`未知的名稱「${expression.name}」`, expression.position);
+      }
+
+      case 'call':
+        return this.checkCall(expression);
+
+      case 'unary': {
+        const operand = this.check(expression.operand);
+        const expected = expression.operator === 'not' ? ValueType.BOOLEAN : ValueType.NUMBER;
+        this.expectType(operand, expected, `「${expression.operator}」的運算元`, expression.operand.position);
+        return operand;
+      }
+
+      case 'binary': {
+        const left = this.check(expression.left);
+        const right = this.check(expression.right);
+        const logical = expression.operator === 'and' || expression.operator === 'or';
+        const operandType = logical ? ValueType.BOOLEAN : ValueType.NUMBER;
+
+        this.expectType(left, operandType, `「${expression.operator}」左側`, expression.left.position);
+        this.expectType(right, operandType, `「${expression.operator}」右側`, expression.right.position);
+
+        const arithmetic = ['+', '-', '*', '/'].includes(expression.operator);
+        return {
+          type: arithmetic ? ValueType.NUMBER : ValueType.BOOLEAN,
+          constant: left.constant && right.constant
+        };
+      }
+
+      case 'lookback': {
+        const target = this.check(expression.target);
+        const offset = this.check(expression.offset);
+        if (offset.type !== ValueType.NUMBER || !offset.constant) {
+          throw new ScriptError('回看K棒數必須是數字或參數', expression.offset.position);
+        }
+        return target;
+      }
+    }
+  }
+
+  /**
+   * 檢查函數呼叫的參數數量與種類
+   * @param expression 函數呼叫
+   */
+  private checkCall(expression: Extract<Expression, { kind: 'call' }>): ExpressionType {
+    const fn = getScriptFunction(expression.callee);
+    if (!fn) {
+      const hint = isPriceSeries(expression.callee) ? `，「${expression.callee}」是價格數列，請勿加括號` : '';
+      throw new ScriptError(`未知的函數「${expression.callee}」${hint}`, expression.position);
+    }
+
+    if (expression.args.length !== fn.args.length) {
+      throw new ScriptError(
+        `${expression.callee} 需要 ${fn.args.length} 個參數 ${this.signature(expression.callee)}，卻有 ${expression.args.length} 個`,
+        expression.position
+      );
+    }
+
+    expression.args.forEach((arg, i) => {
+      const spec = fn.args[i];
+      const argType = this.check(arg);
+      const label = `${expression.callee} 的第 ${i + 1} 個參數（${spec.name}）`;
+
+      if (spec.kind === ArgKind.BOOLEAN) {
+        this.expectType(argType, ValueType.BOOLEAN, label, arg.position);
+      } else {
+        this.expectType(argType, ValueType.NUMBER, label, arg.position);
+      }
+
+      if ((spec.kind === ArgKind.PERIOD || spec.kind === ArgKind.CONSTANT) && !argType.constant) {
+        throw new ScriptError(`${label}必須是數字或參數，不能是隨K棒變動的數列`, arg.position);
+      }
+    });
+
+    // 函數結果皆為數列，不視為常數
+    return { type: fn.returns, constant: false };
+  }
+
+  private expectType(actual: ExpressionType, expected: ValueType, label: string, position: SourcePosition): void {
+    if (actual.type !== expected) {
+      throw new ScriptError(`${label}應為${TYPE_NAMES[expected]}，卻是${TYPE_NAMES[actual.type]}`, position);
+    }
+  }
+
+  /**
+   * 函數的呼叫範例，如 ema(來源, 週期)
+   * @param name 函數名稱
+   */
+  private signature(name: string): string {
+    return `${name}(${getScriptFunction(name)!.args.map(arg => arg.name).join(', ')})`;
+  }
+}
+
+/**
+ * 檢查策略腳本的型別
+ * @param program 語法樹
+ * @returns 型別檢查結果與參數
+ * @throws ScriptError 型別錯誤時拋出，包含錯誤的行與欄
+ */
+export function check(program: Program): CheckedProgram {
+  const parameters = new Map<string, ScriptParameter>();
+
+  program.statements.forEach(statement =>
+    collectDeclarations(statement.kind === 'let' ? statement.value : statement.condition, parameters)
+  );
+  new TypeChecker(parameters).checkProgram(program);
+
+  return { program, parameters: Array.from(parameters.values()) };
+}
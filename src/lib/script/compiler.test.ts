@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScriptError } from './ast';
+import { compileScript } from './compiler';
+import { MarketData } from '../api/yahooFinance';
+import { ParameterType } from '../strategies/base';
+
+const SOURCE = [
+  'let fast = sma(close, $fast:int[1..5]=2)',
+  'long when crossover(close, fast)',
+  'exit long when close < fast[1] # 回看前一根K棒',
+  'short when close < $level:float[1..3 step 0.5]=1.5'
+].join('\n');
+
+const close = [1, 2, 3, 2, 1, 2, 3];
+const data: MarketData = {
+  symbol: 'TEST',
+  timestamp: close.map((_, i) => i),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: close.map(() => 1)
+};
+
+test('腳本參數轉換為策略參數', () => {
+  assert.deepEqual(compileScript(SOURCE).parameters, [
+    { id: 'fast', name: 'fast', type: ParameterType.NUMBER, default: 2, min: 1, max: 5, step: 1 },
+    { id: 'level', name: 'level', type: ParameterType.NUMBER, default: 1.5, min: 1, max: 3, step: 0.5 }
+  ]);
+});
+
+test('計算各方向的進出場條件', () => {
+  assert.deepEqual(compileScript(SOURCE).evaluate(data, {}), {
+    longEntry: [0, 0, 0, 0, 0, 1, 0],
+    longExit: [0, 0, 0, 1, 1, 0, 0],
+    shortEntry: [1, 0, 0, 0, 1, 0, 0]
+  });
+});
+
+test('以傳入的參數值取代預設值', () => {
+  assert.deepEqual(compileScript(SOURCE).evaluate(data, { fast: 3 }).longExit, [0, 0, 0, 0, 1, 0, 0]);
+});
+
+test('編譯錯誤包含行與欄', () => {
+  assert.throws(() => compileScript('long when close > 1\nexit long when close > foo'), (error: unknown) => {
+    assert.ok(error instanceof ScriptError);
+    assert.equal(error.message, '第 2 行第 24 欄：未知的名稱「foo」');
+    return true;
+  });
+});
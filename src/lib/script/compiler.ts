@@ -0,0 +1,237 @@
+import { Expression, ScriptParamType } from './ast';
+import { check, ScriptParameter } from './checker';
+import {
+  ArgKind,
+  getScriptFunction,
+  isPriceSeries,
+  PRICE_SERIES,
+  ScriptEnvironment,
+  ScriptValue
+} from './functions';
+import { parse } from './parser';
+import { IndicatorCache } from '../api/indicatorCache';
+import { MarketData } from '../api/yahooFinance';
+import { ParameterType, StrategyParameter } from '../strategies/base';
+import type { RuleSide } from '../strategies/ruleStrategy';
+
+// 執行時的環境，包含參數值與已計算的變數
+interface RuntimeEnvironment extends ScriptEnvironment {
+  params: Record<string, number>;
+  variables: Map<string, ScriptValue>;
+}
+
+// 編譯後的運算式
+type CompiledExpression = (env: RuntimeEnvironment) => ScriptValue;
+
+// 編譯後的腳本
+export interface CompiledScript {
+  parameters: StrategyParameter[];
+  /**
+   * 計算整段數據各K棒的進出場條件，條件成立時為 1
+   * @param data 市場數據
+   * @param params 參數值，未提供的參數使用預設值
+   */
+  evaluate(data: MarketData, params: Record<string, number>): Partial<Record<RuleSide, number[]>>;
+}
+
+/**
+ * 將常數展開為數列
+ * @param value 運算結果
+ * @param length K棒數
+ */
+function toSeries(value: ScriptValue, length: number): number[] {
+  return typeof value === 'number' ? new Array(length).fill(value) : value;
+}
+
+/**
+ * 逐根K棒合併兩個運算結果，皆為常數時結果仍為常數
+ * @param a 左側結果
+ * @param b 右側結果
+ * @param length K棒數
+ * @param operation 合併函數
+ */
+function combine(
+  a: ScriptValue,
+  b: ScriptValue,
+  length: number,
+  operation: (x: number, y: number) => number
+): ScriptValue {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return operation(a, b);
+  }
+
+  const left = toSeries(a, length);
+  const right = toSeries(b, length);
+  return left.map((x, i) => operation(x, right[i]));
+}
+
+/**
+ * 逐根K棒轉換運算結果
+ * @param value 運算結果
+ * @param transform 轉換函數
+ */
+function map(value: ScriptValue, transform: (x: number) => number): ScriptValue {
+  return typeof value === 'number' ? transform(value) : value.map(transform);
+}
+
+// 二元運算子的計算方式，布林值以 1、0 表示，NaN 的比較皆不成立
+const BINARY_OPERATIONS: Record<string, (x: number, y: number) => number> = {
+  '+': (x, y) => x + y,
+  '-': (x, y) => x - y,
+  '*': (x, y) => x * y,
+  '/': (x, y) => x / y,
+  '>': (x, y) => (x > y ? 1 : 0),
+  '>=': (x, y) => (x >= y ? 1 : 0),
+  '<': (x, y) => (x < y ? 1 : 0),
+  '<=': (x, y) => (x <= y ? 1 : 0),
+  '==': (x, y) => (x === y ? 1 : 0),
+  '!=': (x, y) => (x !== y ? 1 : 0),
+  and: (x, y) => (x && y ? 1 : 0),
+  or: (x, y) => (x || y ? 1 : 0)
+};
+
+/**
+ * 將運算式編譯為整段數列的計算函數
+ * @param expression 已通過型別檢查的運算式
+ * @param parameters 參數宣告
+ */
+function compileExpression(expression: Expression, parameters: Map<string, ScriptParameter>): CompiledExpression {
+  switch (expression.kind) {
+    case 'number': {
+      const value = expression.value;
+      return () => value;
+    }
+
+    case 'boolean': {
+      const value = expression.value ? 1 : 0;
+      return () => value;
+    }
+
+    case 'param': {
+      const { name } = expression;
+      const isInt = parameters.get(name)!.type === ScriptParamType.INT;
+      return env => (isInt ? Math.round(env.params[name]) : env.params[name]);
+    }
+
+    case 'identifier': {
+      const { name } = expression;
+      if (isPriceSeries(name)) {
+        const series = PRICE_SERIES[name];
+        return env => series(env.data);
+      }
+      return env => env.variables.get(name)!;
+    }
+
+    case 'call': {
+      const fn = getScriptFunction(expression.callee)!;
+      const args = expression.args.map(arg => compileExpression(arg, parameters));
+
+      return env => fn.evaluate(env, args.map((arg, i) => {
+        const value = arg(env);
+        switch (fn.args[i].kind) {
+          case ArgKind.PERIOD:
+            return Math.max(1, Math.round(value as number));
+          case ArgKind.CONSTANT:
+            return value;
+          default:
+            return toSeries(value, env.length);
+        }
+      }));
+    }
+
+    case 'unary': {
+      const operand = compileExpression(expression.operand, parameters);
+      return expression.operator === '-'
+        ? env => map(operand(env), x => -x)
+        : env => map(operand(env), x => (x ? 0 : 1));
+    }
+
+    case 'binary': {
+      const left = compileExpression(expression.left, parameters);
+      const right = compileExpression(expression.right, parameters);
+      const operation = BINARY_OPERATIONS[expression.operator];
+      return env => combine(left(env), right(env), env.length, operation);
+    }
+
+    case 'lookback': {
+      const target = compileExpression(expression.target, parameters);
+      const offset = compileExpression(expression.offset, parameters);
+
+      return env => {
+        const value = target(env);
+        const n = Math.max(0, Math.round(offset(env) as number));
+        return typeof value === 'number' ? value : value.map((_, i) => value[i - n] ?? NaN);
+      };
+    }
+  }
+}
+
+/**
+ * 將腳本參數轉換為策略參數
+ * 小數參數未指定間距時以範圍的十分之一為間距，供參數優化使用
+ * @param parameter 腳本參數
+ */
+function toStrategyParameter(parameter: ScriptParameter): StrategyParameter {
+  const { min, max } = parameter;
+  const step = parameter.step ?? (parameter.type === ScriptParamType.INT
+    ? 1
+    : min !== undefined && max !== undefined && max > min ? (max - min) / 10 : undefined);
+
+  return {
+    id: parameter.name,
+    name: parameter.name,
+    type: ParameterType.NUMBER,
+    default: parameter.default,
+    min,
+    max,
+    step
+  };
+}
+
+/**
+ * 編譯策略腳本
+ * 腳本由 let、long when、short when、exit long when、exit short when 敘述組成，
+ * 同一方向有多條敘述時任一條件成立即成立
+ * @param source 腳本原始碼
+ * @returns 編譯後的腳本
+ * @throws ScriptError 語法或型別錯誤時拋出，包含錯誤的行與欄
+ */
+export function compileScript(source: string): CompiledScript {
+  const { program, parameters } = check(parse(source));
+  const declarations = new Map(parameters.map(parameter => [parameter.name, parameter]));
+  const defaults = Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.default]));
+
+  const statements = program.statements.map(statement => ({
+    statement,
+    compiled: compileExpression(statement.kind === 'let' ? statement.value : statement.condition, declarations)
+  }));
+
+  return {
+    parameters: parameters.map(toStrategyParameter),
+    evaluate(data, params) {
+      const env: RuntimeEnvironment = {
+        data,
+        ind: IndicatorCache.getInstance(),
+        length: data.close.length,
+        params: { ...defaults, ...params },
+        variables: new Map()
+      };
+      const signals: Partial<Record<RuleSide, number[]>> = {};
+
+      for (const { statement, compiled } of statements) {
+        const value = compiled(env);
+
+        if (statement.kind === 'let') {
+          env.variables.set(statement.name, value);
+          continue;
+        }
+
+        const condition = toSeries(value, env.length);
+        const previous = signals[statement.side];
+        signals[statement.side] = previous ? previous.map((x, i) => (x || condition[i] ? 1 : 0)) : condition;
+      }
+
+      return signals;
+    }
+  };
+}
@@ -0,0 +1,263 @@
+import { IndicatorCache } from '../api/indicatorCache';
+import { MarketData } from '../api/yahooFinance';
+
+// 運算結果的型別
+export enum ValueType {
+  NUMBER = 'number',   // 數值
+  BOOLEAN = 'boolean'  // 布林值
+}
+
+// 函數參數種類
+export enum ArgKind {
+  SERIES = 'series',       // 數值數列（常數會展開為數列）
+  PERIOD = 'period',       // 週期，須為常數，取整數且至少為 1
+  CONSTANT = 'constant',   // 數值常數（數字、參數或其運算）
+  BOOLEAN = 'boolean'      // 布林數列
+}
+
+// 執行環境
+export interface ScriptEnvironment {
+  data: MarketData;
+  ind: IndicatorCache;
+  length: number;                 // K棒數
+}
+
+// 運算結果：常數或與K棒對齊的數列（布林值以 1、0 表示）
+export type ScriptValue = number | number[];
+
+// 內建函數
+export interface ScriptFunction {
+  description: string;
+  args: { name: string; kind: ArgKind }[];
+  returns: ValueType;
+  evaluate(env: ScriptEnvironment, args: ScriptValue[]): number[];
+}
+
+// 內建價格數列
+export const PRICE_SERIES: Record<string, (data: MarketData) => number[]> = {
+  open: data => data.open,
+  high: data => data.high,
+  low: data => data.low,
+  close: data => data.close,
+  volume: data => data.volume
+};
+
+/**
+ * 建立以來源數列與週期計算的指標函數
+ * @param description 說明
+ * @param compute 計算函數
+ */
+function sourceIndicator(
+  description: string,
+  compute: (ind: IndicatorCache, source: number[], period: number) => number[]
+): ScriptFunction {
+  return {
+    description,
+    args: [{ name: '來源', kind: ArgKind.SERIES }, { name: '週期', kind: ArgKind.PERIOD }],
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, period]) => compute(env.ind, source as number[], period as number)
+  };
+}
+
+/**
+ * 建立以最高、最低、收盤價與週期計算的指標函數
+ * @param description 說明
+ * @param compute 計算函數
+ */
+function priceIndicator(
+  description: string,
+  compute: (ind: IndicatorCache, data: MarketData, period: number) => number[]
+): ScriptFunction {
+  return {
+    description,
+    args: [{ name: '週期', kind: ArgKind.PERIOD }],
+    returns: ValueType.NUMBER,
+    evaluate: (env, [period]) => compute(env.ind, env.data, period as number)
+  };
+}
+
+/**
+ * 建立逐根K棒計算兩個數列的函數
+ * @param description 說明
+ * @param returns 結果型別
+ * @param compute 逐根K棒的計算函數
+ */
+function pairwise(
+  description: string,
+  returns: ValueType,
+  compute: (a: number[], b: number[], i: number) => number
+): ScriptFunction {
+  return {
+    description,
+    args: [{ name: 'a', kind: ArgKind.SERIES }, { name: 'b', kind: ArgKind.SERIES }],
+    returns,
+    evaluate: (env, [a, b]) => (a as number[]).map((_, i) => compute(a as number[], b as number[], i))
+  };
+}
+
+const BAND_ARGS = [
+  { name: '來源', kind: ArgKind.SERIES },
+  { name: '週期', kind: ArgKind.PERIOD },
+  { name: '標準差倍數', kind: ArgKind.CONSTANT }
+];
+
+const MACD_ARGS = [
+  { name: '來源', kind: ArgKind.SERIES },
+  { name: '快線週期', kind: ArgKind.PERIOD },
+  { name: '慢線週期', kind: ArgKind.PERIOD },
+  { name: '信號線週期', kind: ArgKind.PERIOD }
+];
+
+const KELTNER_ARGS = [
+  { name: 'EMA 週期', kind: ArgKind.PERIOD },
+  { name: 'ATR 週期', kind: ArgKind.PERIOD },
+  { name: 'ATR 倍數', kind: ArgKind.CONSTANT }
+];
+
+const SUPERTREND_ARGS = [
+  { name: 'ATR 週期', kind: ArgKind.PERIOD },
+  { name: 'ATR 倍數', kind: ArgKind.CONSTANT }
+];
+
+// 內建函數，指標皆透過指標快取計算
+export const SCRIPT_FUNCTIONS: Record<string, ScriptFunction> = {
+  sma: sourceIndicator('簡單移動平均線', (ind, source, period) => ind.sma(source, period)),
+  ema: sourceIndicator('指數移動平均線', (ind, source, period) => ind.ema(source, period)),
+  wma: sourceIndicator('加權移動平均線', (ind, source, period) => ind.wma(source, period)),
+  hma: sourceIndicator('赫爾移動平均線', (ind, source, period) => ind.hma(source, period)),
+  rsi: sourceIndicator('相對強弱指標', (ind, source, period) => ind.rsi(source, period)),
+  highest: sourceIndicator('週期內最高值', (ind, source, period) => ind.donchian(source, source, period).upper),
+  lowest: sourceIndicator('週期內最低值', (ind, source, period) => ind.donchian(source, source, period).lower),
+
+  bb_upper: {
+    description: '布林帶上軌',
+    args: BAND_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, period, k]) => env.ind.bollinger(source as number[], period as number, k as number).upper
+  },
+  bb_middle: {
+    description: '布林帶中軌',
+    args: BAND_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, period, k]) => env.ind.bollinger(source as number[], period as number, k as number).middle
+  },
+  bb_lower: {
+    description: '布林帶下軌',
+    args: BAND_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, period, k]) => env.ind.bollinger(source as number[], period as number, k as number).lower
+  },
+
+  macd: {
+    description: 'MACD 快慢線差（DIF）',
+    args: MACD_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, fast, slow, signal]) =>
+      env.ind.macd(source as number[], fast as number, slow as number, signal as number).macd
+  },
+  macd_signal: {
+    description: 'MACD 信號線',
+    args: MACD_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, fast, slow, signal]) =>
+      env.ind.macd(source as number[], fast as number, slow as number, signal as number).signal
+  },
+  macd_hist: {
+    description: 'MACD 柱狀體',
+    args: MACD_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [source, fast, slow, signal]) =>
+      env.ind.macd(source as number[], fast as number, slow as number, signal as number).histogram
+  },
+
+  atr: priceIndicator('平均真實區間', (ind, data, period) => ind.atr(data.high, data.low, data.close, period)),
+  adx: priceIndicator('平均趨向指標', (ind, data, period) => ind.dmi(data.high, data.low, data.close, period).adx),
+  plus_di: priceIndicator('+DI', (ind, data, period) => ind.dmi(data.high, data.low, data.close, period).plusDI),
+  minus_di: priceIndicator('−DI', (ind, data, period) => ind.dmi(data.high, data.low, data.close, period).minusDI),
+  kd_k: priceIndicator('KD 指標 K 值', (ind, data, period) => ind.kd(data.high, data.low, data.close, period).k),
+  kd_d: priceIndicator('KD 指標 D 值', (ind, data, period) => ind.kd(data.high, data.low, data.close, period).d),
+  williams_r: priceIndicator('威廉指標', (ind, data, period) => ind.williamsR(data.high, data.low, data.close, period)),
+  cci: priceIndicator('順勢指標', (ind, data, period) => ind.cci(data.high, data.low, data.close, period)),
+  donchian_upper: priceIndicator('唐奇安通道上軌', (ind, data, period) => ind.donchian(data.high, data.low, period).upper),
+  donchian_lower: priceIndicator('唐奇安通道下軌', (ind, data, period) => ind.donchian(data.high, data.low, period).lower),
+
+  keltner_upper: {
+    description: '肯特納通道上軌',
+    args: KELTNER_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [period, atrPeriod, k]) =>
+      env.ind.keltner(env.data.high, env.data.low, env.data.close, period as number, atrPeriod as number, k as number).upper
+  },
+  keltner_lower: {
+    description: '肯特納通道下軌',
+    args: KELTNER_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [period, atrPeriod, k]) =>
+      env.ind.keltner(env.data.high, env.data.low, env.data.close, period as number, atrPeriod as number, k as number).lower
+  },
+  supertrend: {
+    description: '超級趨勢線',
+    args: SUPERTREND_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [period, k]) =>
+      env.ind.supertrend(env.data.high, env.data.low, env.data.close, period as number, k as number).supertrend
+  },
+  supertrend_dir: {
+    description: '超級趨勢方向（1 多、−1 空）',
+    args: SUPERTREND_ARGS,
+    returns: ValueType.NUMBER,
+    evaluate: (env, [period, k]) =>
+      env.ind.supertrend(env.data.high, env.data.low, env.data.close, period as number, k as number).direction
+  },
+  sar: {
+    description: '拋物線轉向指標',
+    args: [{ name: '加速因子增量', kind: ArgKind.CONSTANT }, { name: '加速因子上限', kind: ArgKind.CONSTANT }],
+    returns: ValueType.NUMBER,
+    evaluate: (env, [step, maxStep]) =>
+      env.ind.parabolicSAR(env.data.high, env.data.low, env.data.close, step as number, maxStep as number)
+  },
+  obv: {
+    description: '能量潮指標',
+    args: [],
+    returns: ValueType.NUMBER,
+    evaluate: env => env.ind.obv(env.data.close, env.data.volume)
+  },
+  vwap: {
+    description: '成交量加權平均價（每日重新累計）',
+    args: [],
+    returns: ValueType.NUMBER,
+    evaluate: env => env.ind.vwap(env.data)
+  },
+
+  abs: {
+    description: '絕對值',
+    args: [{ name: '數值', kind: ArgKind.SERIES }],
+    returns: ValueType.NUMBER,
+    evaluate: (env, [value]) => (value as number[]).map(Math.abs)
+  },
+  max: pairwise('兩者較大值', ValueType.NUMBER, (a, b, i) => Math.max(a[i], b[i])),
+  min: pairwise('兩者較小值', ValueType.NUMBER, (a, b, i) => Math.min(a[i], b[i])),
+  crossover: pairwise('a 向上穿越 b', ValueType.BOOLEAN, (a, b, i) =>
+    (i > 0 && a[i] > b[i] && a[i - 1] <= b[i - 1] ? 1 : 0)
+  ),
+  crossunder: pairwise('a 向下穿越 b', ValueType.BOOLEAN, (a, b, i) =>
+    (i > 0 && a[i] < b[i] && a[i - 1] >= b[i - 1] ? 1 : 0)
+  )
+};
+
+/**
+ * 獲取內建函數
+ * @param name 函數名稱
+ * @returns 內建函數，不存在時返回 undefined
+ */
+export function getScriptFunction(name: string): ScriptFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(SCRIPT_FUNCTIONS, name) ? SCRIPT_FUNCTIONS[name] : undefined;
+}
+
+/**
+ * 判斷名稱是否為內建價格數列
+ * @param name 名稱
+ */
+export function isPriceSeries(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PRICE_SERIES, name);
+}
@@ -0,0 +1,113 @@
+import { ScriptError, SourcePosition } from './ast';
+
+// 詞彙類型
+export enum TokenType {
+  NUMBER = 'number',         // 數字
+  IDENTIFIER = 'identifier', // 名稱與關鍵字
+  PARAM = 'param',           // 參數（$ 開頭）
+  OPERATOR = 'operator',     // 運算子與標點
+  NEWLINE = 'newline',       // 敘述分隔（換行或分號）
+  EOF = 'eof'                // 結尾
+}
+
+// 詞彙
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: SourcePosition;
+}
+
+// 運算子與標點，較長者在前以優先比對
+const OPERATORS = ['..', '>=', '<=', '==', '!=', '+', '-', '*', '/', '>', '<', '=', '(', ')', '[', ']', ',', ':'];
+
+/**
+ * 將策略腳本切分為詞彙
+ * # 至行尾為註解；括號內的換行不視為敘述分隔
+ * @param source 腳本原始碼
+ * @returns 詞彙陣列，以 EOF 結尾
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+  let depth = 0;
+
+  const advance = (count: number) => {
+    i += count;
+    column += count;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const position = { line, column };
+
+    if (char === '\n' || char === ';') {
+      if (depth === 0 && tokens.length > 0 && tokens[tokens.length - 1].type !== TokenType.NEWLINE) {
+        tokens.push({ type: TokenType.NEWLINE, value: char, position });
+      }
+      i++;
+      if (char === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n') {
+        advance(1);
+      }
+      continue;
+    }
+
+    // 數字：小數點後須接數字，使 2..50 切分為 2、..、50
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^[0-9]*(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: TokenType.NUMBER, value: match[0], position });
+      advance(match[0].length);
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: TokenType.IDENTIFIER, value: match[0], position });
+      advance(match[0].length);
+      continue;
+    }
+
+    if (char === '$') {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i + 1));
+      if (!match) {
+        throw new ScriptError('$ 之後必須接參數名稱', position);
+      }
+      tokens.push({ type: TokenType.PARAM, value: match[0], position });
+      advance(match[0].length + 1);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new ScriptError(`無法識別的字元「${char}」`, position);
+    }
+
+    if (operator === '(' || operator === '[') {
+      depth++;
+    } else if ((operator === ')' || operator === ']') && depth > 0) {
+      depth--;
+    }
+
+    tokens.push({ type: TokenType.OPERATOR, value: operator, position });
+    advance(operator.length);
+  }
+
+  tokens.push({ type: TokenType.EOF, value: '', position: { line, column } });
+  return tokens;
+}
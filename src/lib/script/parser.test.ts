@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScriptError } from './ast';
+import { parse } from './parser';
+
+/**
+ * 檢查解析錯誤的行、欄與原因
+ */
+function assertParseError(source: string, line: number, column: number, reason: string): void {
+  assert.throws(() => parse(source), (error: unknown) => {
+    assert.ok(error instanceof ScriptError);
+    assert.equal(error.line, line);
+    assert.equal(error.column, column);
+    assert.equal(error.reason, reason);
+    assert.equal(error.message, `第 ${line} 行第 ${column} 欄：${reason}`);
+    return true;
+  });
+}
+
+test('解析敘述與參數宣告', () => {
+  const program = parse('let fast = ema(close, $fast:int[2..50]=5)\nlong when close > fast # 註解\n');
+  assert.deepEqual(program.statements.map(statement => statement.kind), ['let', 'rule']);
+});
+
+test('無法識別的字元標示所在的行與欄', () => {
+  assertParseError('long when close > 1\nlong when close @ 1', 2, 17, '無法識別的字元「@」');
+});
+
+test('敘述開頭錯誤標示所在的行與欄', () => {
+  assertParseError('buy when close > 1', 1, 1, '敘述應以 long、short、exit 或 let 開頭，卻遇到「buy」');
+});
+
+test('缺少運算式時標示行尾', () => {
+  assertParseError('let x = \nlong when x', 1, 9, '此處應為運算式，卻遇到換行');
+});
+
+test('連用比較運算時標示第二個比較運算子', () => {
+  assertParseError('long when close > 1\nshort when close > open > 1', 2, 25, '比較運算不能連用，請以 and 連接');
+});
+
+test('錯誤摘錄以 ^ 標示錯誤欄位', () => {
+  const source = 'long when close @ 1';
+  assert.throws(() => parse(source), (error: unknown) => {
+    assert.ok(error instanceof ScriptError);
+    assert.equal(error.excerpt(source), 'long when close @ 1\n                ^');
+    return true;
+  });
+});
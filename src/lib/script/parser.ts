@@ -0,0 +1,353 @@
+import {
+  BinaryOperator,
+  Expression,
+  ParamDeclaration,
+  Program,
+  ScriptError,
+  ScriptParamType,
+  Statement
+} from './ast';
+import { Token, TokenType, tokenize } from './lexer';
+
+// 保留字，不可作為名稱
+const KEYWORDS = ['let', 'long', 'short', 'exit', 'when', 'and', 'or', 'not', 'true', 'false'];
+
+// 比較運算子
+const COMPARISON_OPERATORS = ['>', '>=', '<', '<=', '==', '!='];
+
+/**
+ * 策略腳本語法分析器
+ * 以遞迴下降方式將詞彙轉換為語法樹，運算子優先順序由低至高為
+ * or、and、not、比較、加減、乘除、負號、回看（x[n]）
+ */
+class Parser {
+  private tokens: Token[];
+  private current: number = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * 解析整份腳本
+   */
+  public parseProgram(): Program {
+    const statements: Statement[] = [];
+
+    while (this.peek().type !== TokenType.EOF) {
+      if (this.peek().type === TokenType.NEWLINE) {
+        this.next();
+        continue;
+      }
+
+      statements.push(this.parseStatement());
+
+      const end = this.peek();
+      if (end.type !== TokenType.NEWLINE && end.type !== TokenType.EOF) {
+        throw new ScriptError(`敘述之後應換行，卻遇到${this.describe(end)}`, end.position);
+      }
+    }
+
+    return { statements };
+  }
+
+  /**
+   * 解析敘述：let 名稱 = 運算式、long/short when 條件、exit long/short when 條件
+   */
+  private parseStatement(): Statement {
+    const token = this.next();
+
+    if (token.type === TokenType.IDENTIFIER && token.value === 'let') {
+      const name = this.expect(TokenType.IDENTIFIER, '變數名稱');
+      if (KEYWORDS.includes(name.value)) {
+        throw new ScriptError(`「${name.value}」是保留字，不能作為變數名稱`, name.position);
+      }
+      this.expectOperator('=');
+      return { kind: 'let', name: name.value, value: this.parseExpression(), position: token.position };
+    }
+
+    if (token.type === TokenType.IDENTIFIER && (token.value === 'long' || token.value === 'short')) {
+      this.expectKeyword('when');
+      return {
+        kind: 'rule',
+        side: token.value === 'long' ? 'longEntry' : 'shortEntry',
+        condition: this.parseExpression(),
+        position: token.position
+      };
+    }
+
+    if (token.type === TokenType.IDENTIFIER && token.value === 'exit') {
+      const direction = this.next();
+      if (direction.value !== 'long' && direction.value !== 'short') {
+        throw new ScriptError(`exit 之後應為 long 或 short，卻遇到${this.describe(direction)}`, direction.position);
+      }
+      this.expectKeyword('when');
+      return {
+        kind: 'rule',
+        side: direction.value === 'long' ? 'longExit' : 'shortExit',
+        condition: this.parseExpression(),
+        position: token.position
+      };
+    }
+
+    throw new ScriptError(`敘述應以 long、short、exit 或 let 開頭，卻遇到${this.describe(token)}`, token.position);
+  }
+
+  private parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      const token = this.next();
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      const token = this.next();
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot(), position: token.position };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isKeyword('not')) {
+      const token = this.next();
+      return { kind: 'unary', operator: 'not', operand: this.parseNot(), position: token.position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+
+    if (this.isOperator(...COMPARISON_OPERATORS)) {
+      const token = this.next();
+      const right = this.parseAdditive();
+
+      if (this.isOperator(...COMPARISON_OPERATORS)) {
+        throw new ScriptError('比較運算不能連用，請以 and 連接', this.peek().position);
+      }
+
+      return { kind: 'binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const token = this.next();
+      left = {
+        kind: 'binary',
+        operator: token.value as BinaryOperator,
+        left,
+        right: this.parseMultiplicative(),
+        position: token.position
+      };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const token = this.next();
+      left = {
+        kind: 'binary',
+        operator: token.value as BinaryOperator,
+        left,
+        right: this.parseUnary(),
+        position: token.position
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('-')) {
+      const token = this.next();
+      return { kind: 'unary', operator: '-', operand: this.parseUnary(), position: token.position };
+    }
+    return this.parseLookback();
+  }
+
+  /**
+   * 解析回看運算：x[n] 為 n 根K棒前的 x
+   */
+  private parseLookback(): Expression {
+    let target = this.parsePrimary();
+    while (this.isOperator('[')) {
+      const token = this.next();
+      const offset = this.parseExpression();
+      this.expectOperator(']');
+      target = { kind: 'lookback', target, offset, position: token.position };
+    }
+    return target;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    if (token.type === TokenType.NUMBER) {
+      return { kind: 'number', value: parseFloat(token.value), position: token.position };
+    }
+
+    if (token.type === TokenType.PARAM) {
+      const declaration = this.isOperator(':') ? this.parseDeclaration() : undefined;
+      return { kind: 'param', name: token.value, declaration, position: token.position };
+    }
+
+    if (token.type === TokenType.IDENTIFIER) {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'boolean', value: token.value === 'true', position: token.position };
+      }
+
+      if (KEYWORDS.includes(token.value)) {
+        throw new ScriptError(`此處應為運算式，卻遇到保留字「${token.value}」`, token.position);
+      }
+
+      if (this.isOperator('(')) {
+        this.next();
+        const args: Expression[] = [];
+        if (!this.isOperator(')')) {
+          args.push(this.parseExpression());
+          while (this.isOperator(',')) {
+            this.next();
+            args.push(this.parseExpression());
+          }
+        }
+        this.expectOperator(')');
+        return { kind: 'call', callee: token.value, args, position: token.position };
+      }
+
+      return { kind: 'identifier', name: token.value, position: token.position };
+    }
+
+    if (token.type === TokenType.OPERATOR && token.value === '(') {
+      const expression = this.parseExpression();
+      this.expectOperator(')');
+      return expression;
+    }
+
+    throw new ScriptError(`此處應為運算式，卻遇到${this.describe(token)}`, token.position);
+  }
+
+  /**
+   * 解析參數宣告：:型別[最小值..最大值 step 間距]=預設值，範圍與間距可省略
+   */
+  private parseDeclaration(): ParamDeclaration {
+    this.expectOperator(':');
+    const typeToken = this.expect(TokenType.IDENTIFIER, '參數型別');
+    if (typeToken.value !== ScriptParamType.INT && typeToken.value !== ScriptParamType.FLOAT) {
+      throw new ScriptError(`參數型別應為 int 或 float，卻遇到「${typeToken.value}」`, typeToken.position);
+    }
+
+    const declaration: Partial<ParamDeclaration> = { type: typeToken.value as ScriptParamType };
+
+    if (this.isOperator('[')) {
+      this.next();
+      declaration.min = this.parseSignedNumber();
+      this.expectOperator('..');
+      declaration.max = this.parseSignedNumber();
+      if (this.isKeyword('step')) {
+        this.next();
+        declaration.step = this.parseSignedNumber();
+      }
+      this.expectOperator(']');
+    }
+
+    if (!this.isOperator('=')) {
+      throw new ScriptError('參數宣告需要預設值，例如 $fast:int[2..50]=5', this.peek().position);
+    }
+    this.next();
+    declaration.default = this.parseSignedNumber();
+
+    return declaration as ParamDeclaration;
+  }
+
+  private parseSignedNumber(): number {
+    const negative = this.isOperator('-');
+    if (negative) {
+      this.next();
+    }
+    const token = this.expect(TokenType.NUMBER, '數字');
+    return negative ? -parseFloat(token.value) : parseFloat(token.value);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.current];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.current];
+    if (token.type !== TokenType.EOF) {
+      this.current++;
+    }
+    return token;
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === TokenType.OPERATOR && operators.includes(token.value);
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === TokenType.IDENTIFIER && token.value === keyword;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new ScriptError(`此處應為${description}，卻遇到${this.describe(token)}`, token.position);
+    }
+    return token;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.next();
+    if (token.type !== TokenType.OPERATOR || token.value !== operator) {
+      throw new ScriptError(`此處應為「${operator}」，卻遇到${this.describe(token)}`, token.position);
+    }
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.next();
+    if (token.type !== TokenType.IDENTIFIER || token.value !== keyword) {
+      throw new ScriptError(`此處應為「${keyword}」，卻遇到${this.describe(token)}`, token.position);
+    }
+  }
+
+  /**
+   * 以使用者易懂的方式描述詞彙
+   */
+  private describe(token: Token): string {
+    switch (token.type) {
+      case TokenType.EOF:
+        return '腳本結尾';
+      case TokenType.NEWLINE:
+        return '換行';
+      case TokenType.PARAM:
+        return `「$${token.value}」`;
+      default:
+        return `「${token.value}」`;
+    }
+  }
+}
+
+/**
+ * 解析策略腳本
+ * @param source 腳本原始碼
+ * @returns 語法樹
+ * @throws ScriptError 語法錯誤時拋出，包含錯誤的行與欄
+ */
+export function parse(source: string): Program {
+  return new Parser(tokenize(source)).parseProgram();
+}
@@ -1,5 +1,14 @@
-import { TradeDirection } from '../backtest/types';
+import {
+  OrderBroker,
+  PortfolioContext,
+  StrategyContext,
+  StrategyEventHandler,
+  StrategyRunContext,
+  TradeDirection
+} from '../backtest/types';
 import { MarketData } from '../api/yahooFinance';
+import { ResampledData, Timeframe } from '../api/resampler';
+import { IndicatorCache } from '../api/indicatorCache';
 
 /**
  * 策略介面
@@ -10,7 +19,36 @@ export interface Strategy {
   name: string;
   description: string;
   getParameters(): StrategyParameter[];
-  execute(data: MarketData, index: number, params: any): TradeDirection;
+  /**
+   * 產生當前K棒的交易信號；context 提供截至當前K棒已完成的較長週期K棒
+   */
+  execute(data: MarketData, index: number, params: any, context?: StrategyContext): TradeDirection;
+  /**
+   * 以委託單驅動的策略可實作此方法，透過 broker 送出限價/停損單；
+   * 實作後引擎不再以 execute 的信號開平倉
+   */
+  placeOrders?(data: MarketData, index: number, params: any, broker: OrderBroker, context?: StrategyContext): void;
+  /**
+   * 橫斷面策略可實作此方法，組合回測時每個時間點比較所有標的後決定各標的的信號；
+   * 實作後組合回測不再逐一以 execute 產生各標的的信號
+   */
+  allocate?(context: PortfolioContext, params: any): Partial<Record<string, TradeDirection>>;
+}
+
+/**
+ * 事件驅動策略介面
+ * 透過生命週期事件處理K棒、成交與平倉，並可於執行上下文保存每次回測的狀態；
+ * 逐根K棒產生信號的 Strategy 可透過 StrategyAdapter 轉換為此介面
+ */
+export interface EventStrategy<S = any> extends StrategyEventHandler<S> {
+  id: string;
+  name: string;
+  description: string;
+  getParameters(): StrategyParameter[];
+  /**
+   * 橫斷面策略可實作此方法，組合回測時每個時間點比較所有標的後決定各標的的信號
+   */
+  allocate?(context: PortfolioContext, params: any): Partial<Record<string, TradeDirection>>;
 }
 
 /**
@@ -23,6 +61,32 @@ export enum ParameterType {
   SELECT = 'select'
 }
 
+/**
+ * 參數比較運算子
+ */
+export enum ParameterComparison {
+  LESS_THAN = '<',              // 小於
+  LESS_OR_EQUAL = '<=',         // 小於或等於
+  GREATER_THAN = '>',           // 大於
+  GREATER_OR_EQUAL = '>='       // 大於或等於
+}
+
+/**
+ * 參數間的限制，例如短期均線週期須小於長期均線週期
+ */
+export interface ParameterConstraint {
+  operator: ParameterComparison;
+  parameterId: string;          // 比較的參數ID
+}
+
+/**
+ * 參數的適用條件：指定參數為其中一個值時才適用
+ */
+export interface ParameterCondition {
+  parameterId: string;          // 決定是否適用的參數ID
+  values: any[];                // 適用時該參數的值
+}
+
 /**
  * 策略參數介面
  */
@@ -35,17 +99,28 @@ export interface StrategyParameter {
   max?: number;
   step?: number;
   options?: { value: any; label: string }[];
+  description?: string;                   // 參數說明
+  unit?: string;                          // 單位，例如「根」、「倍」
+  constraints?: ParameterConstraint[];    // 與其他參數的大小關係，僅在兩個參數皆適用時檢查
+  visibleWhen?: ParameterCondition;       // 適用條件，不適用時於表單隱藏，且不參與驗證與優化
 }
 
 /**
- * 策略基類
- * 提供基本功能，所有具體策略都應繼承此類
+ * 策略共用基類
+ * 提供策略資訊與價格、指標等輔助方法
  */
-export abstract class BaseStrategy implements Strategy {
+abstract class StrategyBase {
   id: string;
   name: string;
   description: string;
 
+  /**
+   * 技術指標快取，策略應以 this.ind.sma(data.close, 20)[index] 等方式讀取整段計算好的指標；
+   * 提供均線（SMA/EMA/WMA/HMA）、RSI、KD、DMI/ADX、威廉指標、CCI、OBV、VWAP、MACD、ATR、
+   * 布林帶、肯特納通道、唐奇安通道、一目均衡表、拋物線轉向與超級趨勢
+   */
+  protected readonly ind: IndicatorCache = IndicatorCache.getInstance();
+
   constructor(id: string, name: string, description: string) {
     this.id = id;
     this.name = name;
@@ -59,13 +134,24 @@ export abstract class BaseStrategy implements Strategy {
   abstract getParameters(): StrategyParameter[];
 
   /**
-   * 執行策略
-   * 子類必須實現此方法
-   * @param data 市場數據
+   * 獲取截至當前K棒已完成的較長週期K棒
+   * @param context 策略上下文
+   * @param timeframe 轉換週期
    * @param index 當前索引
-   * @param params 策略參數
+   * @returns 較長週期市場數據與最近一根已完成K棒的索引，無上下文或尚無已完成K棒時返回 undefined
    */
-  abstract execute(data: MarketData, index: number, params: any): TradeDirection;
+  protected getHigherTimeframe(
+    context: StrategyContext | undefined,
+    timeframe: Timeframe,
+    index: number
+  ): { data: ResampledData; index: number } | undefined {
+    if (!context) {
+      return undefined;
+    }
+
+    const completedIndex = context.timeframes.getCompletedIndex(timeframe, index);
+    return completedIndex >= 0 ? { data: context.timeframes.get(timeframe), index: completedIndex } : undefined;
+  }
 
   /**
    * 獲取指定索引的收盤價
@@ -114,21 +200,13 @@ export abstract class BaseStrategy implements Strategy {
 
   /**
    * 計算簡單移動平均線
+   * 整段數列由指標快取計算一次，之後僅查詢當前索引
    * @param data 價格數據陣列
    * @param period 週期
    * @param index 當前索引
    */
   protected calculateSMA(data: number[], period: number, index: number): number {
-    if (index < period - 1) {
-      return NaN;
-    }
-
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      sum += data[index - i];
-    }
-
-    return sum / period;
+    return this.ind.sma(data, period)[index] ?? NaN;
   }
 
   /**
@@ -138,28 +216,7 @@ export abstract class BaseStrategy implements Strategy {
    * @param index 當前索引
    */
   protected calculateRSI(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = index - period + 1; i <= index; i++) {
-      const change = data[i] - data[i - 1];
-      if (change > 0) {
-        gains += change;
-      } else {
-        losses -= change;
-      }
-    }
-
-    if (losses === 0) {
-      return 100;
-    }
-
-    const rs = gains / losses;
-    return 100 - (100 / (1 + rs));
+    return this.ind.rsi(data, period)[index] ?? NaN;
   }
 
   /**
@@ -175,23 +232,42 @@ export abstract class BaseStrategy implements Strategy {
     multiplier: number,
     index: number
   ): { middle: number; upper: number; lower: number } {
-    if (index < period - 1) {
-      return { middle: NaN, upper: NaN, lower: NaN };
-    }
-
-    const middle = this.calculateSMA(data, period, index);
-
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      sum += Math.pow(data[index - i] - middle, 2);
-    }
-
-    const stdDev = Math.sqrt(sum / period);
+    const bands = this.ind.bollinger(data, period, multiplier);
 
     return {
-      middle,
-      upper: middle + multiplier * stdDev,
-      lower: middle - multiplier * stdDev
+      middle: bands.middle[index] ?? NaN,
+      upper: bands.upper[index] ?? NaN,
+      lower: bands.lower[index] ?? NaN
     };
   }
 }
+
+/**
+ * 策略基類
+ * 提供基本功能，所有具體策略都應繼承此類
+ */
+export abstract class BaseStrategy extends StrategyBase implements Strategy {
+  /**
+   * 執行策略
+   * 子類必須實現此方法
+   * @param data 市場數據
+   * @param index 當前索引
+   * @param params 策略參數
+   * @param context 策略上下文
+   */
+  abstract execute(data: MarketData, index: number, params: any, context?: StrategyContext): TradeDirection;
+}
+
+/**
+ * 事件驅動策略基類
+ * 需要跨K棒保存狀態或回應成交、平倉事件的策略可繼承此類
+ */
+export abstract class BaseEventStrategy<S = any> extends StrategyBase implements EventStrategy<S> {
+  /**
+   * 處理當前K棒
+   * 子類必須實現此方法
+   * @param context 執行上下文
+   * @returns 交易信號，返回 void 時不處理信號
+   */
+  abstract onBar(context: StrategyRunContext<S>): TradeDirection | void;
+}
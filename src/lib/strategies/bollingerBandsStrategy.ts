@@ -24,7 +24,8 @@ export class BollingerBandsStrategy extends BaseStrategy {
         default: 20,
         min: 5,
         max: 100,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'multiplier',
@@ -33,7 +34,8 @@ export class BollingerBandsStrategy extends BaseStrategy {
         default: 2,
         min: 1,
         max: 5,
-        step: 0.1
+        step: 0.1,
+        unit: '倍'
       },
       {
         id: 'trendPeriod',
@@ -43,6 +45,7 @@ export class BollingerBandsStrategy extends BaseStrategy {
         min: 20,
         max: 200,
         step: 1,
+        unit: '根',
         description: '用於確認趨勢的長期均線週期'
       },
       {
@@ -53,24 +56,12 @@ export class BollingerBandsStrategy extends BaseStrategy {
         min: 1,
         max: 5,
         step: 0.1,
+        unit: '倍',
         description: '相對於平均成交量的倍數'
       }
     ];
   }
 
-  private calculateVolumeMA(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      sum += data[index - i];
-    }
-
-    return sum / period;
-  }
-
   execute(data: MarketData, index: number, params: any): TradeDirection {
     const { period, multiplier, trendPeriod, volumeThreshold } = params;
     
@@ -86,7 +77,7 @@ export class BollingerBandsStrategy extends BaseStrategy {
     const trendMA = this.calculateSMA(data.close, trendPeriod, index);
     
     // 計算成交量均線
-    const volumeMA = this.calculateVolumeMA(data.volume, 20, index);
+    const volumeMA = this.calculateSMA(data.volume, 20, index);
     const currentVolume = data.volume[index];
     const isVolumeValid = currentVolume > volumeMA * volumeThreshold;
     
@@ -24,7 +24,8 @@ export class BreakoutStrategy extends BaseStrategy {
         default: 20,
         min: 5,
         max: 100,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'multiplier',
@@ -33,7 +34,8 @@ export class BreakoutStrategy extends BaseStrategy {
         default: 2,
         min: 0.5,
         max: 5,
-        step: 0.1
+        step: 0.1,
+        unit: '倍'
       }
     ];
   }
@@ -46,14 +48,10 @@ export class BreakoutStrategy extends BaseStrategy {
       return TradeDirection.NONE;
     }
     
-    // 找出前N個交易日的最高價和最低價
-    let highest = -Infinity;
-    let lowest = Infinity;
-    
-    for (let i = index - period; i < index; i++) {
-      highest = Math.max(highest, data.high[i]);
-      lowest = Math.min(lowest, data.low[i]);
-    }
+    // 前N個交易日的最高價和最低價，即前一根K棒的唐奇安通道
+    const channel = this.ind.donchian(data.high, data.low, period);
+    const highest = channel.upper[index - 1];
+    const lowest = channel.lower[index - 1];
     
     // 計算波動範圍
     const range = highest - lowest;
@@ -1,4 +1,4 @@
-import { BaseStrategy, ParameterType, StrategyParameter } from './base';
+import { BaseStrategy, ParameterComparison, ParameterType, StrategyParameter } from './base';
 import { TradeDirection } from '../backtest/types';
 import { MarketData } from '../api/yahooFinance';
 
@@ -24,7 +24,9 @@ export class DualMAStrategy extends BaseStrategy {
         default: 5,
         min: 2,
         max: 50,
-        step: 1
+        step: 1,
+        unit: '根',
+        constraints: [{ operator: ParameterComparison.LESS_THAN, parameterId: 'longPeriod' }]
       },
       {
         id: 'longPeriod',
@@ -33,7 +35,8 @@ export class DualMAStrategy extends BaseStrategy {
         default: 20,
         min: 5,
         max: 200,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'volumeThreshold',
@@ -43,6 +46,7 @@ export class DualMAStrategy extends BaseStrategy {
         min: 1,
         max: 5,
         step: 0.1,
+        unit: '倍',
         description: '相對於平均成交量的倍數'
       },
       {
@@ -53,6 +57,7 @@ export class DualMAStrategy extends BaseStrategy {
         min: 5,
         max: 100,
         step: 1,
+        unit: '根',
         description: '用於計算波動率的週期'
       },
       {
@@ -73,6 +78,7 @@ export class DualMAStrategy extends BaseStrategy {
         min: 5,
         max: 50,
         step: 1,
+        unit: '根',
         description: '用於計算趨勢強度的週期'
       },
       {
@@ -88,52 +94,14 @@ export class DualMAStrategy extends BaseStrategy {
     ];
   }
 
-  private calculateVolumeMA(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      sum += data[index - i];
-    }
-
-    return sum / period;
-  }
-
+  // 波動率：週期內每根K棒報酬率的標準差
   private calculateVolatility(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    const returns: number[] = [];
-    for (let i = index - period + 1; i <= index; i++) {
-      const return_ = (data[i] - data[i - 1]) / data[i - 1];
-      returns.push(return_);
-    }
-
-    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
-    return Math.sqrt(variance);
+    return this.ind.stdDev(this.ind.returns(data), period)[index] ?? NaN;
   }
 
+  // 趨勢強度：週期內上漲與下跌K棒數之差的絕對值除以週期，即漲跌方向平均的絕對值
   private calculateTrendStrength(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    let upMoves = 0;
-    let downMoves = 0;
-
-    for (let i = index - period + 1; i <= index; i++) {
-      if (data[i] > data[i - 1]) {
-        upMoves++;
-      } else if (data[i] < data[i - 1]) {
-        downMoves++;
-      }
-    }
-
-    return Math.abs(upMoves - downMoves) / period;
+    return Math.abs(this.ind.sma(this.ind.direction(data), period)[index] ?? NaN);
   }
 
   execute(data: MarketData, index: number, params: any): TradeDirection {
@@ -161,7 +129,7 @@ export class DualMAStrategy extends BaseStrategy {
     const prevLongMA = this.calculateSMA(data.close, longPeriod, index - 1);
     
     // 計算成交量均線
-    const volumeMA = this.calculateVolumeMA(data.volume, 20, index);
+    const volumeMA = this.calculateSMA(data.volume, 20, index);
     const currentVolume = data.volume[index];
     const isVolumeValid = currentVolume > volumeMA * volumeThreshold;
     
@@ -1,6 +1,7 @@
-import { BaseStrategy, ParameterType, StrategyParameter } from './base';
-import { TradeDirection } from '../backtest/types';
+import { BaseStrategy, ParameterComparison, ParameterType, StrategyParameter } from './base';
+import { StrategyContext, TradeDirection } from '../backtest/types';
 import { MarketData } from '../api/yahooFinance';
+import { TimeframeUnit } from '../api/resampler';
 
 /**
  * 均線交叉策略
@@ -24,7 +25,9 @@ export class MACrossoverStrategy extends BaseStrategy {
         default: 5,
         min: 2,
         max: 50,
-        step: 1
+        step: 1,
+        unit: '根',
+        constraints: [{ operator: ParameterComparison.LESS_THAN, parameterId: 'longPeriod' }]
       },
       {
         id: 'longPeriod',
@@ -33,12 +36,38 @@ export class MACrossoverStrategy extends BaseStrategy {
         default: 20,
         min: 5,
         max: 200,
-        step: 1
+        step: 1,
+        unit: '根'
+      },
+      {
+        id: 'trendTimeframe',
+        name: '趨勢過濾週期',
+        type: ParameterType.SELECT,
+        default: 'none',
+        description: '以較高週期的均線判斷趨勢，只在同方向時進場',
+        options: [
+          { value: 'none', label: '不過濾' },
+          { value: TimeframeUnit.DAY, label: '日線（僅日內K棒）' },
+          { value: TimeframeUnit.WEEK, label: '週線' },
+          { value: TimeframeUnit.MONTH, label: '月線' }
+        ]
+      },
+      {
+        id: 'trendPeriod',
+        name: '趨勢均線週期',
+        type: ParameterType.NUMBER,
+        default: 10,
+        min: 2,
+        max: 60,
+        step: 1,
+        unit: '根',
+        description: '以趨勢過濾週期的K棒計算',
+        visibleWhen: { parameterId: 'trendTimeframe', values: [TimeframeUnit.DAY, TimeframeUnit.WEEK, TimeframeUnit.MONTH] }
       }
     ];
   }
 
-  execute(data: MarketData, index: number, params: any): TradeDirection {
+  execute(data: MarketData, index: number, params: any, context?: StrategyContext): TradeDirection {
     const { shortPeriod, longPeriod } = params;
     
     // 確保有足夠的數據
@@ -58,12 +87,39 @@ export class MACrossoverStrategy extends BaseStrategy {
     const isCrossAbove = prevShortMA <= prevLongMA && shortMA > longMA;
     const isCrossBelow = prevShortMA >= prevLongMA && shortMA < longMA;
     
-    if (isCrossAbove) {
+    if (isCrossAbove && this.getTrend(index, params, context) !== TradeDirection.SHORT) {
       return TradeDirection.LONG;
-    } else if (isCrossBelow) {
+    } else if (isCrossBelow && this.getTrend(index, params, context) !== TradeDirection.LONG) {
       return TradeDirection.SHORT;
     }
     
     return TradeDirection.NONE;
   }
+
+  /**
+   * 以較長週期最近一根已完成K棒的收盤價與均線判斷趨勢
+   * @param index 當前索引
+   * @param params 策略參數
+   * @param context 策略上下文
+   * @returns 趨勢方向，未設置過濾或數據不足時返回 NONE
+   */
+  private getTrend(index: number, params: any, context?: StrategyContext): TradeDirection {
+    const { trendTimeframe, trendPeriod } = params;
+
+    if (!trendTimeframe || trendTimeframe === 'none') {
+      return TradeDirection.NONE;
+    }
+
+    const higher = this.getHigherTimeframe(context, { unit: trendTimeframe }, index);
+    if (!higher) {
+      return TradeDirection.NONE;
+    }
+
+    const trendMA = this.calculateSMA(higher.data.close, trendPeriod, higher.index);
+    if (isNaN(trendMA)) {
+      return TradeDirection.NONE;
+    }
+
+    return higher.data.close[higher.index] > trendMA ? TradeDirection.LONG : TradeDirection.SHORT;
+  }
 }
@@ -1,4 +1,4 @@
-import { BaseStrategy, ParameterType, StrategyParameter } from './base';
+import { BaseStrategy, ParameterComparison, ParameterType, StrategyParameter } from './base';
 import { TradeDirection } from '../backtest/types';
 import { MarketData } from '../api/yahooFinance';
 
@@ -24,7 +24,9 @@ export class MACDStrategy extends BaseStrategy {
         default: 12,
         min: 5,
         max: 30,
-        step: 1
+        step: 1,
+        unit: '根',
+        constraints: [{ operator: ParameterComparison.LESS_THAN, parameterId: 'slowPeriod' }]
       },
       {
         id: 'slowPeriod',
@@ -33,7 +35,8 @@ export class MACDStrategy extends BaseStrategy {
         default: 26,
         min: 10,
         max: 50,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'signalPeriod',
@@ -42,7 +45,8 @@ export class MACDStrategy extends BaseStrategy {
         default: 9,
         min: 5,
         max: 20,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'trendPeriod',
@@ -52,6 +56,7 @@ export class MACDStrategy extends BaseStrategy {
         min: 20,
         max: 200,
         step: 1,
+        unit: '根',
         description: '用於確認趨勢的長期均線週期'
       },
       {
@@ -67,35 +72,6 @@ export class MACDStrategy extends BaseStrategy {
     ];
   }
 
-  private calculateEMA(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
-    }
-
-    const multiplier = 2 / (period + 1);
-    let ema = this.calculateSMA(data, period, index);
-
-    for (let i = index - period + 1; i <= index; i++) {
-      ema = (data[i] - ema) * multiplier + ema;
-    }
-
-    return ema;
-  }
-
-  private calculateMACD(data: number[], fastPeriod: number, slowPeriod: number, signalPeriod: number, index: number): {
-    macd: number;
-    signal: number;
-    histogram: number;
-  } {
-    const fastEMA = this.calculateEMA(data, fastPeriod, index);
-    const slowEMA = this.calculateEMA(data, slowPeriod, index);
-    const macd = fastEMA - slowEMA;
-    const signal = this.calculateEMA([macd], signalPeriod, 0);
-    const histogram = macd - signal;
-
-    return { macd, signal, histogram };
-  }
-
   execute(data: MarketData, index: number, params: any): TradeDirection {
     const { fastPeriod, slowPeriod, signalPeriod, trendPeriod, momentumThreshold } = params;
     
@@ -104,11 +80,10 @@ export class MACDStrategy extends BaseStrategy {
       return TradeDirection.NONE;
     }
     
-    // 計算當前MACD
-    const currentMACD = this.calculateMACD(data.close, fastPeriod, slowPeriod, signalPeriod, index);
-    
-    // 計算前一天的MACD
-    const prevMACD = this.calculateMACD(data.close, fastPeriod, slowPeriod, signalPeriod, index - 1);
+    // 讀取當前與前一天的MACD
+    const macd = this.ind.macd(data.close, fastPeriod, slowPeriod, signalPeriod);
+    const currentMACD = { macd: macd.macd[index], signal: macd.signal[index], histogram: macd.histogram[index] };
+    const prevMACD = { macd: macd.macd[index - 1], signal: macd.signal[index - 1] };
     
     // 計算趨勢確認均線
     const trendMA = this.calculateSMA(data.close, trendPeriod, index);
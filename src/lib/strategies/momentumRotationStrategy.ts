@@ -0,0 +1,101 @@
+import { BaseStrategy, ParameterType, StrategyParameter } from './base';
+import { PortfolioContext, TradeDirection } from '../backtest/types';
+import { MarketData } from '../api/yahooFinance';
+
+/**
+ * 動能輪動策略
+ * 組合回測時依各標的過去N個交易日的報酬率排序，做多動能最強的前幾名，可選擇放空動能最弱的後幾名；
+ * 單一標的回測時，報酬率為正做多、為負做空
+ */
+export class MomentumRotationStrategy extends BaseStrategy {
+  constructor() {
+    super(
+      'momentum_rotation_strategy',
+      '動能輪動策略',
+      '比較各標的過去N個交易日的報酬率，做多動能最強的前幾名標的，並可選擇放空動能最弱的後幾名標的。適用於多標的組合回測；單一標的時以自身動能決定多空。'
+    );
+  }
+
+  getParameters(): StrategyParameter[] {
+    return [
+      {
+        id: 'lookback',
+        name: '回看區間',
+        type: ParameterType.NUMBER,
+        default: 20,
+        min: 5,
+        max: 250,
+        step: 1,
+        unit: '根'
+      },
+      {
+        id: 'topN',
+        name: '做多標的數',
+        type: ParameterType.NUMBER,
+        default: 1,
+        min: 1,
+        max: 10,
+        step: 1,
+        unit: '檔'
+      },
+      {
+        id: 'shortBottom',
+        name: '放空動能最弱標的',
+        type: ParameterType.BOOLEAN,
+        default: false
+      }
+    ];
+  }
+
+  execute(data: MarketData, index: number, params: any): TradeDirection {
+    const momentum = this.calculateMomentum(data, index, params.lookback);
+
+    if (isNaN(momentum)) {
+      return TradeDirection.NONE;
+    }
+
+    return momentum > 0 ? TradeDirection.LONG : TradeDirection.SHORT;
+  }
+
+  allocate(context: PortfolioContext, params: any): Partial<Record<string, TradeDirection>> {
+    const { lookback, topN, shortBottom } = params;
+
+    // 計算各標的動能，資料不足的標的不參與排序
+    const ranked = context.symbols
+      .map(symbol => ({
+        symbol,
+        momentum: this.calculateMomentum(context.data[symbol], context.indices[symbol], lookback)
+      }))
+      .filter(item => !isNaN(item.momentum))
+      .sort((a, b) => b.momentum - a.momentum);
+
+    const signals: Partial<Record<string, TradeDirection>> = {};
+
+    ranked.forEach((item, rank) => {
+      if (rank < topN) {
+        signals[item.symbol] = TradeDirection.LONG;
+      } else if (shortBottom && rank >= Math.max(topN, ranked.length - topN)) {
+        signals[item.symbol] = TradeDirection.SHORT;
+      } else {
+        signals[item.symbol] = TradeDirection.NONE;
+      }
+    });
+
+    return signals;
+  }
+
+  /**
+   * 計算過去N個交易日的報酬率
+   * @param data 市場數據
+   * @param index 當前索引
+   * @param lookback 回看區間
+   * @returns 報酬率，資料不足時返回 NaN
+   */
+  private calculateMomentum(data: MarketData, index: number, lookback: number): number {
+    if (index < lookback || !(data.close[index - lookback] > 0)) {
+      return NaN;
+    }
+
+    return data.close[index] / data.close[index - lookback] - 1;
+  }
+}
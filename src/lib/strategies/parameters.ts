@@ -0,0 +1,149 @@
+import { ParameterComparison, ParameterCondition, ParameterType, StrategyParameter } from './base';
+
+// 參數驗證錯誤
+export interface ParameterError {
+  parameterId: string;          // 錯誤的參數ID
+  message: string;
+}
+
+// 比較運算子說明
+const COMPARISON_LABELS: Record<ParameterComparison, string> = {
+  [ParameterComparison.LESS_THAN]: '小於',
+  [ParameterComparison.LESS_OR_EQUAL]: '小於或等於',
+  [ParameterComparison.GREATER_THAN]: '大於',
+  [ParameterComparison.GREATER_OR_EQUAL]: '大於或等於'
+};
+
+/**
+ * 獲取參數值，未提供時使用預設值
+ * @param parameter 參數定義
+ * @param params 參數值
+ */
+export function getParameterValue(parameter: StrategyParameter, params: Record<string, any> | undefined): any {
+  return params?.[parameter.id] ?? parameter.default;
+}
+
+/**
+ * 判斷參數在目前的參數值下是否適用
+ * 適用條件所依據的參數本身不適用時，此參數亦不適用；循環的適用條件視為不適用
+ * @param parameters 所有參數定義
+ * @param parameter 參數定義
+ * @param params 參數值
+ */
+export function isParameterActive(
+  parameters: StrategyParameter[],
+  parameter: StrategyParameter,
+  params: Record<string, any> | undefined
+): boolean {
+  const visited = new Set<string>();
+  let current: StrategyParameter | undefined = parameter;
+
+  while (current?.visibleWhen) {
+    if (visited.has(current.id)) {
+      return false;
+    }
+    visited.add(current.id);
+
+    const { parameterId, values }: ParameterCondition = current.visibleWhen;
+    const controller: StrategyParameter | undefined = parameters.find(param => param.id === parameterId);
+    const value = controller ? getParameterValue(controller, params) : params?.[parameterId];
+    if (!values.includes(value)) {
+      return false;
+    }
+    current = controller;
+  }
+
+  return true;
+}
+
+/**
+ * 比較兩個數值
+ * @param a 左側數值
+ * @param operator 比較運算子
+ * @param b 右側數值
+ */
+function compare(a: number, operator: ParameterComparison, b: number): boolean {
+  switch (operator) {
+    case ParameterComparison.LESS_THAN:
+      return a < b;
+    case ParameterComparison.LESS_OR_EQUAL:
+      return a <= b;
+    case ParameterComparison.GREATER_THAN:
+      return a > b;
+    case ParameterComparison.GREATER_OR_EQUAL:
+      return a >= b;
+  }
+}
+
+/**
+ * 驗證策略參數值
+ * 只檢查適用的參數：數值參數須在範圍內，選項參數須為其中一個選項，並檢查參數間的限制；
+ * 未提供的參數以預設值檢查
+ * @param parameters 策略參數定義
+ * @param params 參數值
+ * @returns 錯誤，參數值有效時為空陣列
+ */
+export function validateParameters(parameters: StrategyParameter[], params: Record<string, any> | undefined): ParameterError[] {
+  const errors: ParameterError[] = [];
+  const active = parameters.filter(param => isParameterActive(parameters, param, params));
+
+  active.forEach(param => {
+    const value = getParameterValue(param, params);
+    const unit = param.unit ?? '';
+    const addError = (message: string) => errors.push({ parameterId: param.id, message });
+
+    switch (param.type) {
+      case ParameterType.NUMBER:
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          addError(`「${param.name}」需為數值`);
+          return;
+        }
+        if (param.min !== undefined && value < param.min) {
+          addError(`「${param.name}」不能小於 ${param.min}${unit}`);
+        }
+        if (param.max !== undefined && value > param.max) {
+          addError(`「${param.name}」不能大於 ${param.max}${unit}`);
+        }
+        break;
+      case ParameterType.SELECT:
+        if (param.options && !param.options.some(option => option.value === value)) {
+          addError(`「${param.name}」的選項無效`);
+        }
+        break;
+      case ParameterType.BOOLEAN:
+        if (typeof value !== 'boolean') {
+          addError(`「${param.name}」需為是或否`);
+        }
+        break;
+    }
+
+    // 比較的參數不適用時不檢查
+    (param.constraints ?? []).forEach(constraint => {
+      const other = active.find(p => p.id === constraint.parameterId);
+      const otherValue = other && getParameterValue(other, params);
+      if (
+        other &&
+        typeof value === 'number' &&
+        typeof otherValue === 'number' &&
+        !compare(value, constraint.operator, otherValue)
+      ) {
+        addError(`「${param.name}」需${COMPARISON_LABELS[constraint.operator]}「${other.name}」`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * 確認策略參數值有效
+ * @param parameters 策略參數定義
+ * @param params 參數值
+ * @throws Error 參數值無效時拋出，訊息包含所有錯誤
+ */
+export function assertValidParameters(parameters: StrategyParameter[], params: Record<string, any> | undefined): void {
+  const errors = validateParameters(parameters, params);
+  if (errors.length > 0) {
+    throw new Error(`策略參數無效：${errors.map(error => error.message).join('；')}`);
+  }
+}
@@ -1,11 +1,16 @@
-import { Strategy } from './base';
+import { EventStrategy, Strategy } from './base';
+import { toEventStrategy } from './strategyAdapter';
 import { MACrossoverStrategy } from './maCrossover';
 import { RSIStrategy } from './rsiStrategy';
 import { BreakoutStrategy } from './breakoutStrategy';
 import { BollingerBandsStrategy } from './bollingerBandsStrategy';
 import { MACDStrategy } from './macdStrategy';
 import { DualMAStrategy } from './dualMAStrategy';
-import { StrategyCombination } from './strategyCombination';
+import { MomentumRotationStrategy } from './momentumRotationStrategy';
+import { CombinationDefinition, PRESET_COMBINATIONS, StrategyCombination } from './strategyCombination';
+import { RuleStrategy } from './ruleStrategy';
+import { ScriptStrategy } from './scriptStrategy';
+import { loadStoredStrategies, StoredStrategies } from './ruleStorage';
 
 /**
  * 策略註冊表
@@ -13,7 +18,8 @@ import { StrategyCombination } from './strategyCombination';
  */
 export class StrategyRegistry {
   private static instance: StrategyRegistry;
-  private strategies: Map<string, Strategy> = new Map();
+  private strategies: Map<string, EventStrategy> = new Map();
+  private userDefined: Set<string> = new Set();
 
   private constructor() {
     // 註冊內建策略
@@ -23,23 +29,13 @@ export class StrategyRegistry {
     this.registerStrategy(new BollingerBandsStrategy());
     this.registerStrategy(new MACDStrategy());
     this.registerStrategy(new DualMAStrategy());
+    this.registerStrategy(new MomentumRotationStrategy());
     
-    // 註冊策略組合
-    const trendStrategies = [
-      new MACrossoverStrategy(),
-      new MACDStrategy(),
-      new DualMAStrategy()
-    ];
-    
-    const meanReversionStrategies = [
-      new RSIStrategy(),
-      new BollingerBandsStrategy(),
-      new BreakoutStrategy()
-    ];
-    
-    this.registerStrategy(new StrategyCombination(trendStrategies));
-    this.registerStrategy(new StrategyCombination(meanReversionStrategies));
-    this.registerStrategy(new StrategyCombination([...trendStrategies, ...meanReversionStrategies]));
+    // 註冊內建策略組合
+    PRESET_COMBINATIONS.forEach(definition => this.registerStrategy(this.createCombination(definition)));
+
+    // 註冊使用者儲存的規則策略、腳本策略與策略組合
+    this.registerStoredStrategies(loadStoredStrategies());
   }
 
   /**
@@ -54,10 +50,77 @@ export class StrategyRegistry {
 
   /**
    * 註冊策略
+   * 逐根K棒產生信號的策略會以轉接器轉換為事件驅動策略
    * @param strategy 策略實例
    */
-  public registerStrategy(strategy: Strategy): void {
-    this.strategies.set(strategy.id, strategy);
+  public registerStrategy(strategy: Strategy | EventStrategy): void {
+    this.strategies.set(strategy.id, toEventStrategy(strategy));
+  }
+
+  /**
+   * 註冊使用者自訂的策略
+   * @param strategy 策略實例
+   */
+  public registerUserStrategy(strategy: Strategy | EventStrategy): void {
+    this.registerStrategy(strategy);
+    this.userDefined.add(strategy.id);
+  }
+
+  /**
+   * 註冊使用者儲存的策略定義
+   * @param stored 規則策略、腳本策略與策略組合定義
+   */
+  public registerStoredStrategies(stored: StoredStrategies): void {
+    stored.rules.forEach(definition => this.registerUserStrategy(new RuleStrategy(definition)));
+    stored.scripts.forEach(definition => {
+      try {
+        this.registerUserStrategy(new ScriptStrategy(definition));
+      } catch {
+        // 無法編譯的腳本不列入策略，可於腳本編輯器中修正
+      }
+    });
+    stored.combinations.forEach(definition => {
+      try {
+        this.registerUserStrategy(this.createCombination(definition));
+      } catch {
+        // 成員策略已不存在的組合不列入策略，可於組合編輯器中修正
+      }
+    });
+  }
+
+  /**
+   * 移除策略
+   * @param id 策略ID
+   */
+  public unregisterStrategy(id: string): void {
+    this.strategies.delete(id);
+    this.userDefined.delete(id);
+  }
+
+  /**
+   * 判斷策略是否為使用者自訂，可編輯與刪除
+   * @param id 策略ID
+   */
+  public isUserDefined(id: string): boolean {
+    return this.userDefined.has(id);
+  }
+
+  /**
+   * 依定義建立策略組合，成員策略取自已註冊的策略
+   * @param definition 策略組合定義
+   * @returns 策略組合
+   * @throws Error 成員策略不存在時拋出
+   */
+  public createCombination(definition: CombinationDefinition): StrategyCombination {
+    const members = definition.members.map(member => {
+      const strategy = this.getStrategy(member.strategyId);
+      if (!strategy) {
+        throw new Error(`找不到成員策略：${member.strategyId}`);
+      }
+      return strategy;
+    });
+
+    return new StrategyCombination(definition, members);
   }
 
   /**
@@ -65,7 +128,7 @@ export class StrategyRegistry {
    * @param id 策略ID
    * @returns 策略實例
    */
-  public getStrategy(id: string): Strategy | undefined {
+  public getStrategy(id: string): EventStrategy | undefined {
     return this.strategies.get(id);
   }
 
@@ -73,7 +136,7 @@ export class StrategyRegistry {
    * 獲取所有策略
    * @returns 所有策略的陣列
    */
-  public getAllStrategies(): Strategy[] {
+  public getAllStrategies(): EventStrategy[] {
     return Array.from(this.strategies.values());
   }
 
@@ -96,68 +159,3 @@ export class StrategyRegistry {
     return params;
   }
 }
-
-/**
- * 策略參數優化器
- * 用於尋找策略的最佳參數
- */
-export class StrategyOptimizer {
-  /**
-   * 網格搜索優化
-   * 對每個參數的可能值進行組合測試，找出最佳參數組合
-   * @param strategy 策略
-   * @param paramRanges 參數範圍
-   * @param evaluateFunc 評估函數
-   * @returns 最佳參數組合
-   */
-  public static gridSearch(
-    strategy: Strategy,
-    paramRanges: Record<string, { min: number; max: number; step: number }>,
-    evaluateFunc: (params: any) => number
-  ): { params: any; score: number } {
-    let bestParams: any = {};
-    let bestScore = -Infinity;
-
-    // 生成參數網格
-    const paramGrid = this.generateParamGrid(paramRanges);
-
-    // 評估每個參數組合
-    for (const params of paramGrid) {
-      const score = evaluateFunc(params);
-      if (score > bestScore) {
-        bestScore = score;
-        bestParams = { ...params };
-      }
-    }
-
-    return { params: bestParams, score: bestScore };
-  }
-
-  /**
-   * 生成參數網格
-   * @param paramRanges 參數範圍
-   * @returns 參數組合陣列
-   */
-  private static generateParamGrid(
-    paramRanges: Record<string, { min: number; max: number; step: number }>
-  ): any[] {
-    const paramNames = Object.keys(paramRanges);
-    const grid: any[] = [{}];
-
-    paramNames.forEach(paramName => {
-      const { min, max, step } = paramRanges[paramName];
-      const newGrid: any[] = [];
-
-      for (let value = min; value <= max; value += step) {
-        grid.forEach(params => {
-          newGrid.push({ ...params, [paramName]: value });
-        });
-      }
-
-      grid.length = 0;
-      grid.push(...newGrid);
-    });
-
-    return grid;
-  }
-}
@@ -24,7 +24,8 @@ export class RSIStrategy extends BaseStrategy {
         default: 14,
         min: 2,
         max: 50,
-        step: 1
+        step: 1,
+        unit: '根'
       },
       {
         id: 'oversold',
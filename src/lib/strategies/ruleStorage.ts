@@ -0,0 +1,149 @@
+import { RuleStrategyDefinition } from './ruleStrategy';
+import { ScriptStrategyDefinition } from './scriptStrategy';
+import { CombinationDefinition } from './strategyCombination';
+
+// 瀏覽器儲存規則策略的鍵
+const STORAGE_KEY = 'ruleStrategies';
+
+// 瀏覽器儲存腳本策略的鍵
+const SCRIPT_STORAGE_KEY = 'scriptStrategies';
+
+// 瀏覽器儲存策略組合的鍵
+const COMBINATION_STORAGE_KEY = 'strategyCombinations';
+
+/**
+ * 讀取瀏覽器儲存的策略定義
+ * 非瀏覽器環境或儲存內容無法解析時返回空陣列
+ * @param key 儲存鍵
+ */
+function load<T>(key: string): T[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 儲存策略定義，相同ID的定義會被覆蓋
+ * @param key 儲存鍵
+ * @param definition 策略定義
+ */
+function save<T extends { id: string }>(key: string, definition: T): void {
+  const definitions = load<T>(key).filter(saved => saved.id !== definition.id);
+  window.localStorage.setItem(key, JSON.stringify([...definitions, definition]));
+}
+
+/**
+ * 刪除策略定義
+ * @param key 儲存鍵
+ * @param id 策略ID
+ */
+function remove<T extends { id: string }>(key: string, id: string): void {
+  const definitions = load<T>(key).filter(saved => saved.id !== id);
+  window.localStorage.setItem(key, JSON.stringify(definitions));
+}
+
+/**
+ * 讀取已儲存的規則策略
+ * @returns 規則策略定義
+ */
+export function loadRuleStrategies(): RuleStrategyDefinition[] {
+  return load<RuleStrategyDefinition>(STORAGE_KEY);
+}
+
+/**
+ * 儲存規則策略，相同ID的策略會被覆蓋
+ * @param definition 規則策略定義
+ */
+export function saveRuleStrategy(definition: RuleStrategyDefinition): void {
+  save(STORAGE_KEY, definition);
+}
+
+/**
+ * 刪除已儲存的規則策略
+ * @param id 策略ID
+ */
+export function deleteRuleStrategy(id: string): void {
+  remove<RuleStrategyDefinition>(STORAGE_KEY, id);
+}
+
+/**
+ * 讀取已儲存的腳本策略
+ * @returns 腳本策略定義
+ */
+export function loadScriptStrategies(): ScriptStrategyDefinition[] {
+  return load<ScriptStrategyDefinition>(SCRIPT_STORAGE_KEY);
+}
+
+/**
+ * 儲存腳本策略，相同ID的策略會被覆蓋
+ * @param definition 腳本策略定義
+ */
+export function saveScriptStrategy(definition: ScriptStrategyDefinition): void {
+  save(SCRIPT_STORAGE_KEY, definition);
+}
+
+/**
+ * 刪除已儲存的腳本策略
+ * @param id 策略ID
+ */
+export function deleteScriptStrategy(id: string): void {
+  remove<ScriptStrategyDefinition>(SCRIPT_STORAGE_KEY, id);
+}
+
+/**
+ * 讀取已儲存的策略組合
+ * @returns 策略組合定義
+ */
+export function loadStrategyCombinations(): CombinationDefinition[] {
+  return load<CombinationDefinition>(COMBINATION_STORAGE_KEY);
+}
+
+/**
+ * 儲存策略組合，相同ID的組合會被覆蓋
+ * @param definition 策略組合定義
+ */
+export function saveStrategyCombination(definition: CombinationDefinition): void {
+  save(COMBINATION_STORAGE_KEY, definition);
+}
+
+/**
+ * 刪除已儲存的策略組合
+ * @param id 策略ID
+ */
+export function deleteStrategyCombination(id: string): void {
+  remove<CombinationDefinition>(COMBINATION_STORAGE_KEY, id);
+}
+
+// 使用者儲存的所有策略定義
+export interface StoredStrategies {
+  rules: RuleStrategyDefinition[];
+  scripts: ScriptStrategyDefinition[];
+  combinations: CombinationDefinition[];
+}
+
+/**
+ * 讀取所有已儲存的策略定義，可傳給無法存取瀏覽器儲存的執行緒註冊
+ * @returns 規則策略、腳本策略與策略組合定義
+ */
+export function loadStoredStrategies(): StoredStrategies {
+  return {
+    rules: loadRuleStrategies(),
+    scripts: loadScriptStrategies(),
+    combinations: loadStrategyCombinations()
+  };
+}
+
+/**
+ * 產生新的規則策略ID
+ * @param prefix ID前綴
+ */
+export function createRuleStrategyId(prefix: string = 'rule'): string {
+  return `${prefix}_${Date.now().toString(36)}`;
+}
@@ -0,0 +1,478 @@
+import { BaseEventStrategy, ParameterType, StrategyParameter } from './base';
+import { StrategyRunContext, TradeDirection } from '../backtest/types';
+import { MarketData } from '../api/yahooFinance';
+import { IndicatorCache } from '../api/indicatorCache';
+
+// 價格欄位
+export enum PriceField {
+  OPEN = 'open',     // 開盤價
+  HIGH = 'high',     // 最高價
+  LOW = 'low',       // 最低價
+  CLOSE = 'close',   // 收盤價
+  VOLUME = 'volume'  // 成交量
+}
+
+// 規則可使用的技術指標
+export enum RuleIndicator {
+  SMA = 'sma',                    // 簡單移動平均線
+  EMA = 'ema',                    // 指數移動平均線
+  WMA = 'wma',                    // 加權移動平均線
+  HMA = 'hma',                    // 赫爾移動平均線
+  RSI = 'rsi',                    // 相對強弱指標
+  BOLLINGER = 'bollinger',        // 布林帶
+  MACD = 'macd',                  // MACD
+  ATR = 'atr',                    // 平均真實區間
+  KD = 'kd',                      // KD 隨機指標
+  DMI = 'dmi',                    // 趨向指標
+  WILLIAMS_R = 'williamsR',       // 威廉指標
+  CCI = 'cci',                    // 順勢指標
+  OBV = 'obv',                    // 能量潮指標
+  VWAP = 'vwap',                  // 成交量加權平均價
+  DONCHIAN = 'donchian',          // 唐奇安通道
+  KELTNER = 'keltner',            // 肯特納通道
+  SUPERTREND = 'supertrend',      // 超級趨勢指標
+  PARABOLIC_SAR = 'parabolicSAR'  // 拋物線轉向指標
+}
+
+// 比較運算子
+export enum Comparator {
+  GT = 'gt',                      // 大於
+  GTE = 'gte',                    // 大於等於
+  LT = 'lt',                      // 小於
+  LTE = 'lte',                    // 小於等於
+  CROSS_ABOVE = 'crossAbove',     // 向上穿越
+  CROSS_BELOW = 'crossBelow'      // 向下穿越
+}
+
+// 邏輯運算子
+export enum LogicOperator {
+  AND = 'and', // 全部成立
+  OR = 'or'    // 任一成立
+}
+
+// 規則數值：固定數值或參照策略參數
+export type RuleNumber = number | { param: string };
+
+// 規則運算元
+export type RuleOperand =
+  | { kind: 'price'; field: PriceField; offset?: number }   // 價格欄位，offset 為往前的K棒數
+  | { kind: 'value'; value: RuleNumber }                     // 固定數值或策略參數
+  | {
+      kind: 'indicator';
+      indicator: RuleIndicator;   // 技術指標
+      source?: PriceField;        // 計算來源（僅單一數列指標，預設收盤價）
+      args: RuleNumber[];         // 指標參數，依 RULE_INDICATORS 的 args 順序
+      output?: string;            // 多輸出指標的輸出名稱（預設第一個輸出）
+      offset?: number;            // 往前的K棒數
+    };
+
+// 規則條件：比較兩個運算元，或以邏輯運算子組合多個條件
+export type RuleCondition =
+  | { type: 'compare'; left: RuleOperand; comparator: Comparator; right: RuleOperand }
+  | { type: 'group'; logic: LogicOperator; conditions: RuleCondition[] };
+
+// 規則的進出場方向
+export type RuleSide = 'longEntry' | 'longExit' | 'shortEntry' | 'shortExit';
+
+// 規則策略參數（皆為數值，可供參數優化）
+export interface RuleParameter {
+  id: string;
+  name: string;
+  default: number;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+// 規則策略定義，可序列化為 JSON 保存
+export interface RuleStrategyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  parameters: RuleParameter[];
+  longEntry?: RuleCondition;      // 多方進場條件
+  longExit?: RuleCondition;       // 多方出場條件
+  shortEntry?: RuleCondition;     // 空方進場條件
+  shortExit?: RuleCondition;      // 空方出場條件
+}
+
+// 技術指標規格
+export interface RuleIndicatorSpec {
+  name: string;                                   // 顯示名稱
+  usesSource: boolean;                            // 是否可選擇計算來源
+  args: { name: string; default: number }[];      // 指標參數
+  outputs: { id: string; name: string }[];        // 指標輸出，第一個為預設輸出
+  compute(ind: IndicatorCache, data: MarketData, source: number[], args: number[]): Record<string, number[]>;
+}
+
+// 單一輸出指標的輸出
+const VALUE_OUTPUT = [{ id: 'value', name: '數值' }];
+
+// 通道類指標的輸出
+const BAND_OUTPUTS = [
+  { id: 'upper', name: '上軌' },
+  { id: 'middle', name: '中軌' },
+  { id: 'lower', name: '下軌' }
+];
+
+// 各技術指標的規格
+export const RULE_INDICATORS: Record<RuleIndicator, RuleIndicatorSpec> = {
+  [RuleIndicator.SMA]: {
+    name: 'SMA 簡單均線',
+    usesSource: true,
+    args: [{ name: '週期', default: 20 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.sma(source, period) })
+  },
+  [RuleIndicator.EMA]: {
+    name: 'EMA 指數均線',
+    usesSource: true,
+    args: [{ name: '週期', default: 20 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.ema(source, period) })
+  },
+  [RuleIndicator.WMA]: {
+    name: 'WMA 加權均線',
+    usesSource: true,
+    args: [{ name: '週期', default: 20 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.wma(source, period) })
+  },
+  [RuleIndicator.HMA]: {
+    name: 'HMA 赫爾均線',
+    usesSource: true,
+    args: [{ name: '週期', default: 20 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.hma(source, period) })
+  },
+  [RuleIndicator.RSI]: {
+    name: 'RSI',
+    usesSource: true,
+    args: [{ name: '週期', default: 14 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.rsi(source, period) })
+  },
+  [RuleIndicator.BOLLINGER]: {
+    name: '布林帶',
+    usesSource: true,
+    args: [{ name: '週期', default: 20 }, { name: '標準差倍數', default: 2 }],
+    outputs: BAND_OUTPUTS,
+    compute: (ind, data, source, [period, multiplier]) => ind.bollinger(source, period, multiplier)
+  },
+  [RuleIndicator.MACD]: {
+    name: 'MACD',
+    usesSource: true,
+    args: [{ name: '快線週期', default: 12 }, { name: '慢線週期', default: 26 }, { name: '信號線週期', default: 9 }],
+    outputs: [
+      { id: 'macd', name: 'DIF' },
+      { id: 'signal', name: '信號線' },
+      { id: 'histogram', name: '柱狀體' }
+    ],
+    compute: (ind, data, source, [fast, slow, signal]) => ind.macd(source, fast, slow, signal)
+  },
+  [RuleIndicator.ATR]: {
+    name: 'ATR',
+    usesSource: false,
+    args: [{ name: '週期', default: 14 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.atr(data.high, data.low, data.close, period) })
+  },
+  [RuleIndicator.KD]: {
+    name: 'KD 隨機指標',
+    usesSource: false,
+    args: [{ name: 'RSV 週期', default: 9 }],
+    outputs: [{ id: 'k', name: 'K' }, { id: 'd', name: 'D' }],
+    compute: (ind, data, source, [period]) => ind.kd(data.high, data.low, data.close, period)
+  },
+  [RuleIndicator.DMI]: {
+    name: 'DMI 趨向指標',
+    usesSource: false,
+    args: [{ name: '週期', default: 14 }],
+    outputs: [
+      { id: 'plusDI', name: '+DI' },
+      { id: 'minusDI', name: '−DI' },
+      { id: 'adx', name: 'ADX' }
+    ],
+    compute: (ind, data, source, [period]) => ind.dmi(data.high, data.low, data.close, period)
+  },
+  [RuleIndicator.WILLIAMS_R]: {
+    name: '威廉指標',
+    usesSource: false,
+    args: [{ name: '週期', default: 14 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.williamsR(data.high, data.low, data.close, period) })
+  },
+  [RuleIndicator.CCI]: {
+    name: 'CCI',
+    usesSource: false,
+    args: [{ name: '週期', default: 20 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [period]) => ({ value: ind.cci(data.high, data.low, data.close, period) })
+  },
+  [RuleIndicator.OBV]: {
+    name: 'OBV 能量潮',
+    usesSource: false,
+    args: [],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data) => ({ value: ind.obv(data.close, data.volume) })
+  },
+  [RuleIndicator.VWAP]: {
+    name: 'VWAP（每日重新累計）',
+    usesSource: false,
+    args: [],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data) => ({ value: ind.vwap(data) })
+  },
+  [RuleIndicator.DONCHIAN]: {
+    name: '唐奇安通道',
+    usesSource: false,
+    args: [{ name: '週期', default: 20 }],
+    outputs: BAND_OUTPUTS,
+    compute: (ind, data, source, [period]) => ind.donchian(data.high, data.low, period)
+  },
+  [RuleIndicator.KELTNER]: {
+    name: '肯特納通道',
+    usesSource: false,
+    args: [{ name: 'EMA 週期', default: 20 }, { name: 'ATR 週期', default: 10 }, { name: 'ATR 倍數', default: 2 }],
+    outputs: BAND_OUTPUTS,
+    compute: (ind, data, source, [period, atrPeriod, multiplier]) =>
+      ind.keltner(data.high, data.low, data.close, period, atrPeriod, multiplier)
+  },
+  [RuleIndicator.SUPERTREND]: {
+    name: '超級趨勢',
+    usesSource: false,
+    args: [{ name: 'ATR 週期', default: 10 }, { name: 'ATR 倍數', default: 3 }],
+    outputs: [{ id: 'supertrend', name: '趨勢線' }, { id: 'direction', name: '方向（1 多、−1 空）' }],
+    compute: (ind, data, source, [period, multiplier]) =>
+      ind.supertrend(data.high, data.low, data.close, period, multiplier)
+  },
+  [RuleIndicator.PARABOLIC_SAR]: {
+    name: '拋物線轉向 SAR',
+    usesSource: false,
+    args: [{ name: '加速因子增量', default: 0.02 }, { name: '加速因子上限', default: 0.2 }],
+    outputs: VALUE_OUTPUT,
+    compute: (ind, data, source, [step, maxStep]) =>
+      ({ value: ind.parabolicSAR(data.high, data.low, data.close, step, maxStep) })
+  }
+};
+
+/**
+ * 解析規則數值
+ * @param value 規則數值
+ * @param params 策略參數
+ */
+function resolveNumber(value: RuleNumber, params: any): number {
+  return typeof value === 'number' ? value : Number(params[value.param]);
+}
+
+/**
+ * 計算運算元於指定K棒的數值
+ * @param operand 運算元
+ * @param data 市場數據
+ * @param index K棒索引
+ * @param params 策略參數
+ * @returns 數值，指標尚未形成或索引超出範圍時返回 NaN
+ */
+export function evaluateOperand(operand: RuleOperand, data: MarketData, index: number, params: any): number {
+  switch (operand.kind) {
+    case 'value':
+      return resolveNumber(operand.value, params);
+    case 'price':
+      return data[operand.field][index - (operand.offset ?? 0)] ?? NaN;
+    case 'indicator': {
+      const spec = RULE_INDICATORS[operand.indicator];
+      const args = spec.args.map((arg, i) =>
+        operand.args[i] !== undefined ? resolveNumber(operand.args[i], params) : arg.default
+      );
+      const outputs = spec.compute(
+        IndicatorCache.getInstance(),
+        data,
+        data[operand.source ?? PriceField.CLOSE],
+        args
+      );
+      return outputs[operand.output ?? spec.outputs[0].id]?.[index - (operand.offset ?? 0)] ?? NaN;
+    }
+  }
+}
+
+/**
+ * 判斷條件於指定K棒是否成立
+ * 穿越條件比較當前與前一根K棒；任一數值為 NaN 時比較不成立，空的條件群組不成立
+ * @param condition 條件
+ * @param data 市場數據
+ * @param index K棒索引
+ * @param params 策略參數
+ */
+export function evaluateCondition(condition: RuleCondition, data: MarketData, index: number, params: any): boolean {
+  if (condition.type === 'group') {
+    if (condition.conditions.length === 0) {
+      return false;
+    }
+
+    return condition.logic === LogicOperator.AND
+      ? condition.conditions.every(c => evaluateCondition(c, data, index, params))
+      : condition.conditions.some(c => evaluateCondition(c, data, index, params));
+  }
+
+  const left = evaluateOperand(condition.left, data, index, params);
+  const right = evaluateOperand(condition.right, data, index, params);
+
+  switch (condition.comparator) {
+    case Comparator.GT:
+      return left > right;
+    case Comparator.GTE:
+      return left >= right;
+    case Comparator.LT:
+      return left < right;
+    case Comparator.LTE:
+      return left <= right;
+    case Comparator.CROSS_ABOVE:
+    case Comparator.CROSS_BELOW: {
+      if (index < 1) {
+        return false;
+      }
+
+      const prevLeft = evaluateOperand(condition.left, data, index - 1, params);
+      const prevRight = evaluateOperand(condition.right, data, index - 1, params);
+      return condition.comparator === Comparator.CROSS_ABOVE
+        ? left > right && prevLeft <= prevRight
+        : left < right && prevLeft >= prevRight;
+    }
+  }
+}
+
+/**
+ * 依目前倉位與各進出場條件決定交易信號
+ * 無倉位或持有反向倉位時，進場條件成立即開倉（持有反向倉位時反手）；持有倉位時出場條件成立即平倉。
+ * 多空進場同時成立時多方優先
+ * @param direction 目前倉位方向
+ * @param holds 判斷進出場條件是否成立
+ * @returns 交易信號，無需動作時返回 void
+ */
+export function getRuleSignal(direction: TradeDirection, holds: (side: RuleSide) => boolean): TradeDirection | void {
+  if (direction !== TradeDirection.LONG && holds('longEntry')) {
+    return TradeDirection.LONG;
+  }
+
+  if (direction !== TradeDirection.SHORT && holds('shortEntry')) {
+    return TradeDirection.SHORT;
+  }
+
+  if (direction === TradeDirection.LONG && holds('longExit')) {
+    return TradeDirection.NONE;
+  }
+
+  if (direction === TradeDirection.SHORT && holds('shortExit')) {
+    return TradeDirection.NONE;
+  }
+}
+
+/**
+ * 收集條件中參照的參數
+ * @param condition 條件
+ * @returns 參數ID
+ */
+function collectParameterRefs(condition: RuleCondition): string[] {
+  if (condition.type === 'group') {
+    return condition.conditions.flatMap(collectParameterRefs);
+  }
+
+  const fromNumber = (value: RuleNumber) => (typeof value === 'number' ? [] : [value.param]);
+  const fromOperand = (operand: RuleOperand): string[] => {
+    switch (operand.kind) {
+      case 'value':
+        return fromNumber(operand.value);
+      case 'indicator':
+        return operand.args.flatMap(fromNumber);
+      default:
+        return [];
+    }
+  };
+
+  return [...fromOperand(condition.left), ...fromOperand(condition.right)];
+}
+
+/**
+ * 驗證規則策略定義
+ * @param definition 規則策略定義
+ * @returns 錯誤訊息，定義有效時為空陣列
+ */
+export function validateRuleStrategy(definition: RuleStrategyDefinition): string[] {
+  const errors: string[] = [];
+  const conditions = [definition.longEntry, definition.longExit, definition.shortEntry, definition.shortExit]
+    .filter((condition): condition is RuleCondition => !!condition);
+
+  if (!definition.name.trim()) {
+    errors.push('請輸入策略名稱');
+  }
+
+  if (!definition.longEntry && !definition.shortEntry) {
+    errors.push('至少需要設定多方或空方進場條件');
+  }
+
+  const ids = definition.parameters.map(param => param.id);
+  ids.forEach((id, i) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(id)) {
+      errors.push(`參數代碼「${id}」僅能包含英文字母、數字與底線，且不能以數字開頭`);
+    } else if (ids.indexOf(id) !== i) {
+      errors.push(`參數代碼「${id}」重複`);
+    }
+  });
+
+  definition.parameters.forEach(param => {
+    if (param.min !== undefined && param.max !== undefined && param.min > param.max) {
+      errors.push(`參數「${param.name || param.id}」的最小值大於最大值`);
+    }
+  });
+
+  new Set(conditions.flatMap(collectParameterRefs)).forEach(id => {
+    if (!ids.includes(id)) {
+      errors.push(`條件參照了未定義的參數「${id}」`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * 規則策略
+ * 依使用者組合的規則條件進出場，進出場方式見 getRuleSignal
+ */
+export class RuleStrategy extends BaseEventStrategy {
+  readonly definition: RuleStrategyDefinition;
+
+  constructor(definition: RuleStrategyDefinition) {
+    super(definition.id, definition.name, definition.description);
+    this.definition = definition;
+  }
+
+  getParameters(): StrategyParameter[] {
+    return this.definition.parameters.map(param => ({
+      id: param.id,
+      name: param.name,
+      type: ParameterType.NUMBER,
+      default: param.default,
+      min: param.min,
+      max: param.max,
+      step: param.step
+    }));
+  }
+
+  onBar(context: StrategyRunContext): TradeDirection | void {
+    const { data, index } = context;
+    const params = { ...this.getDefaultParams(), ...context.params };
+    const direction = context.broker.getPosition()?.direction ?? TradeDirection.NONE;
+
+    return getRuleSignal(direction, side => {
+      const condition = this.definition[side];
+      return !!condition && evaluateCondition(condition, data, index, params);
+    });
+  }
+
+  /**
+   * 獲取參數預設值
+   */
+  private getDefaultParams(): Record<string, number> {
+    return Object.fromEntries(this.definition.parameters.map(param => [param.id, param.default]));
+  }
+}
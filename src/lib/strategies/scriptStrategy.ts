@@ -0,0 +1,51 @@
+import { BaseEventStrategy, StrategyParameter } from './base';
+import { getRuleSignal, RuleSide } from './ruleStrategy';
+import { StrategyRunContext, TradeDirection } from '../backtest/types';
+import { compileScript, CompiledScript } from '../script/compiler';
+
+// 腳本策略定義，可序列化為 JSON 保存
+export interface ScriptStrategyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  source: string;                 // 策略腳本原始碼
+}
+
+// 腳本策略的回測狀態
+interface ScriptState {
+  signals: Partial<Record<RuleSide, number[]>>; // 各K棒的進出場條件
+}
+
+/**
+ * 腳本策略
+ * 以策略腳本撰寫進出場條件，例如
+ * long when crossover(ema(close, $fast:int[2..50]=5), ema(close, $slow:int[5..200]=20)) and adx(14) > 25；
+ * 回測開始時依參數一次計算整段數據的條件，進出場方式見 getRuleSignal
+ */
+export class ScriptStrategy extends BaseEventStrategy<ScriptState> {
+  readonly definition: ScriptStrategyDefinition;
+  private script: CompiledScript;
+
+  /**
+   * @param definition 腳本策略定義
+   * @throws ScriptError 腳本有語法或型別錯誤時拋出
+   */
+  constructor(definition: ScriptStrategyDefinition) {
+    super(definition.id, definition.name, definition.description);
+    this.definition = definition;
+    this.script = compileScript(definition.source);
+  }
+
+  getParameters(): StrategyParameter[] {
+    return this.script.parameters;
+  }
+
+  onInit(context: StrategyRunContext<ScriptState>): void {
+    context.state.signals = this.script.evaluate(context.data, context.params ?? {});
+  }
+
+  onBar(context: StrategyRunContext<ScriptState>): TradeDirection | void {
+    const direction = context.broker.getPosition()?.direction ?? TradeDirection.NONE;
+    return getRuleSignal(direction, side => !!context.state.signals[side]?.[context.index]);
+  }
+}
@@ -0,0 +1,60 @@
+import { EventStrategy, Strategy, StrategyParameter } from './base';
+import { PortfolioContext, StrategyRunContext, TradeDirection } from '../backtest/types';
+
+/**
+ * 策略轉接器
+ * 將逐根K棒產生信號的策略轉換為事件驅動策略，使既有策略可直接以事件驅動方式回測
+ */
+export class StrategyAdapter implements EventStrategy {
+  id: string;
+  name: string;
+  description: string;
+  allocate?: (context: PortfolioContext, params: any) => Partial<Record<string, TradeDirection>>;
+  private strategy: Strategy;
+
+  constructor(strategy: Strategy) {
+    this.strategy = strategy;
+    this.id = strategy.id;
+    this.name = strategy.name;
+    this.description = strategy.description;
+
+    if (strategy.allocate) {
+      this.allocate = (context, params) => strategy.allocate!(context, params);
+    }
+  }
+
+  getParameters(): StrategyParameter[] {
+    return this.strategy.getParameters();
+  }
+
+  /**
+   * 以原策略處理當前K棒
+   * 原策略實作 placeOrders 時以委託驅動，否則返回 execute 的信號
+   * @param context 執行上下文
+   */
+  onBar(context: StrategyRunContext): TradeDirection | void {
+    if (this.strategy.placeOrders) {
+      this.strategy.placeOrders(context.data, context.index, context.params, context.broker, context);
+      return;
+    }
+
+    return this.strategy.execute(context.data, context.index, context.params, context);
+  }
+}
+
+/**
+ * 判斷策略是否為事件驅動策略
+ * @param strategy 策略
+ */
+export function isEventStrategy(strategy: Strategy | EventStrategy): strategy is EventStrategy {
+  return typeof (strategy as EventStrategy).onBar === 'function';
+}
+
+/**
+ * 將策略轉換為事件驅動策略
+ * @param strategy 策略
+ * @returns 事件驅動策略，原本即為事件驅動策略時直接返回
+ */
+export function toEventStrategy(strategy: Strategy | EventStrategy): EventStrategy {
+  return isEventStrategy(strategy) ? strategy : new StrategyAdapter(strategy);
+}
@@ -1,75 +1,302 @@
-import { BaseStrategy, ParameterType, StrategyParameter } from './base';
-import { TradeDirection } from '../backtest/types';
+import { BaseEventStrategy, EventStrategy, ParameterType, StrategyParameter } from './base';
+import { OrderBroker, Position, StrategyRunContext, TradeDirection } from '../backtest/types';
 import { MarketData } from '../api/yahooFinance';
-import { Strategy } from './base';
+
+// 投票規則
+export enum VotingRule {
+  MAJORITY = 'majority',     // 過半數成員同向
+  WEIGHTED = 'weighted',     // 加權後多空較多的一方
+  UNANIMOUS = 'unanimous',   // 所有成員同向
+  ANY = 'any',               // 任一成員發出信號且無反向信號
+  THRESHOLD = 'threshold'    // 加權淨分數超過門檻
+}
+
+// 權重模式
+export enum WeightingMode {
+  STATIC = 'static',         // 固定權重
+  REGIME = 'regime'          // 依市場環境調整權重
+}
+
+// 成員策略適合的市場環境
+export enum MarketRegime {
+  TREND = 'trend',                   // 趨勢（強趨勢時加重）
+  MEAN_REVERSION = 'meanReversion',  // 均值回歸（高波動時加重）
+  NEUTRAL = 'neutral'                // 不隨市場環境調整
+}
+
+// 組合成員
+export interface CombinationMember {
+  strategyId: string;             // 成員策略ID
+  weight: number;                 // 基本權重
+  regime: MarketRegime;           // 適合的市場環境（權重模式為依市場環境調整時使用）
+}
+
+// 策略組合定義，可序列化為 JSON 保存
+export interface CombinationDefinition {
+  id: string;
+  name: string;
+  description: string;
+  members: CombinationMember[];
+  voting: VotingRule;
+  weighting: WeightingMode;
+}
+
+// 參數分組，供回測設置頁面分別顯示組合與各成員的參數
+export interface ParameterGroup {
+  title: string;
+  parameters: StrategyParameter[];
+}
+
+// 成員策略的回測狀態
+interface MemberState {
+  context: StrategyRunContext;    // 成員策略的執行上下文
+  vote: TradeDirection;           // 成員目前的投票方向
+  position?: Position;            // 依投票方向建立的虛擬倉位
+}
+
+// 策略組合的回測狀態
+interface CombinationState {
+  weights: number[];              // 各成員權重（總和為 1）
+  members: MemberState[];
+}
+
+// 內建的策略組合
+export const PRESET_COMBINATIONS: CombinationDefinition[] = [
+  {
+    id: 'strategy_combination_trend',
+    name: '趨勢策略組合',
+    description: '組合均線交叉、MACD 與雙均線策略，依市場趨勢強度調整權重，加權信號超過門檻時進場。',
+    members: [
+      { strategyId: 'ma_crossover', weight: 1, regime: MarketRegime.TREND },
+      { strategyId: 'macd_strategy', weight: 1, regime: MarketRegime.TREND },
+      { strategyId: 'dual_ma', weight: 1, regime: MarketRegime.TREND }
+    ],
+    voting: VotingRule.THRESHOLD,
+    weighting: WeightingMode.REGIME
+  },
+  {
+    id: 'strategy_combination_mean_reversion',
+    name: '均值回歸策略組合',
+    description: '組合 RSI、布林帶與突破策略，依市場波動率調整權重，加權信號超過門檻時進場。',
+    members: [
+      { strategyId: 'rsi_strategy', weight: 1, regime: MarketRegime.MEAN_REVERSION },
+      { strategyId: 'bollinger_bands', weight: 1, regime: MarketRegime.MEAN_REVERSION },
+      { strategyId: 'breakout_strategy', weight: 1, regime: MarketRegime.NEUTRAL }
+    ],
+    voting: VotingRule.THRESHOLD,
+    weighting: WeightingMode.REGIME
+  },
+  {
+    id: 'strategy_combination_all',
+    name: '綜合策略組合',
+    description: '組合趨勢與均值回歸策略，依市場環境動態調整權重，可以分散風險，提高策略的穩定性。',
+    members: [
+      { strategyId: 'ma_crossover', weight: 1, regime: MarketRegime.TREND },
+      { strategyId: 'macd_strategy', weight: 1, regime: MarketRegime.TREND },
+      { strategyId: 'dual_ma', weight: 1, regime: MarketRegime.TREND },
+      { strategyId: 'rsi_strategy', weight: 1, regime: MarketRegime.MEAN_REVERSION },
+      { strategyId: 'bollinger_bands', weight: 1, regime: MarketRegime.MEAN_REVERSION },
+      { strategyId: 'breakout_strategy', weight: 1, regime: MarketRegime.NEUTRAL }
+    ],
+    voting: VotingRule.THRESHOLD,
+    weighting: WeightingMode.REGIME
+  }
+];
+
+/**
+ * 依投票方向建立成員策略的虛擬倉位
+ * 成員策略不實際持倉，虛擬倉位僅讓成員策略得知自己目前的方向
+ * @param symbol 交易標的
+ * @param direction 投票方向
+ * @param data 市場數據
+ * @param index 投票的K棒索引
+ */
+function createVirtualPosition(symbol: string, direction: TradeDirection, data: MarketData, index: number): Position {
+  const price = data.close[index];
+
+  return {
+    symbol,
+    direction,
+    quantity: 0,
+    entryPrice: price,
+    entryTime: data.timestamp[index],
+    entryIndex: index,
+    entryOrderId: '',
+    entryCommission: 0,
+    entryTax: 0,
+    entrySlippage: 0,
+    multiplier: 1,
+    margin: 0,
+    maintenanceMargin: 0,
+    settlementPrice: price,
+    settledPnl: 0,
+    extremePrice: price,
+    lastUpdateTime: data.timestamp[index],
+    unrealizedPnl: 0
+  };
+}
+
+/**
+ * 驗證策略組合定義
+ * @param definition 策略組合定義
+ * @returns 錯誤訊息，定義有效時為空陣列
+ */
+export function validateCombination(definition: CombinationDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!definition.name.trim()) {
+    errors.push('請輸入組合名稱');
+  }
+
+  if (definition.members.length < 2) {
+    errors.push('策略組合至少需要兩個成員策略');
+  }
+
+  definition.members.forEach((member, i) => {
+    if (!(member.weight > 0)) {
+      errors.push(`第 ${i + 1} 個成員的權重必須大於 0`);
+    }
+  });
+
+  return errors;
+}
 
 /**
  * 策略組合
- * 將多個策略組合在一起，根據市場環境動態調整權重
+ * 由使用者挑選的成員策略各自以自己的參數產生信號，依投票規則與權重決定組合的交易方向。
+ * 成員參數以「成員代碼.參數ID」命名；成員策略不能直接送出委託，僅以虛擬倉位得知自己的投票方向
  */
-export class StrategyCombination extends BaseStrategy {
-  private strategies: Strategy[];
-  private weights: number[];
+export class StrategyCombination extends BaseEventStrategy<CombinationState> {
+  readonly definition: CombinationDefinition;
+  private members: { key: string; strategy: EventStrategy; member: CombinationMember }[];
+
+  /**
+   * @param definition 策略組合定義
+   * @param strategies 依定義順序排列的成員策略
+   */
+  constructor(definition: CombinationDefinition, strategies: EventStrategy[]) {
+    super(definition.id, definition.name, definition.description);
+    this.definition = definition;
 
-  constructor(strategies: Strategy[]) {
-    super(
-      'strategy_combination',
-      '策略組合',
-      '將多個策略組合在一起，根據市場環境動態調整權重。可以分散風險，提高策略的穩定性。'
-    );
-    this.strategies = strategies;
-    this.weights = new Array(strategies.length).fill(1 / strategies.length);
+    // 成員代碼為策略ID，同一策略出現多次時加上序號
+    const counts: Record<string, number> = {};
+    this.members = definition.members.map((member, i) => {
+      counts[member.strategyId] = (counts[member.strategyId] ?? 0) + 1;
+      const key = counts[member.strategyId] > 1 ? `${member.strategyId}_${counts[member.strategyId]}` : member.strategyId;
+      return { key, strategy: strategies[i], member };
+    });
   }
 
+  /**
+   * 獲取所有參數，成員參數的名稱前綴成員策略名稱以便區分
+   */
   getParameters(): StrategyParameter[] {
     return [
-      {
-        id: 'volatilityPeriod',
-        name: '波動率週期',
-        type: ParameterType.NUMBER,
-        default: 20,
-        min: 5,
-        max: 100,
-        step: 1,
-        description: '用於計算波動率的週期'
-      },
-      {
-        id: 'trendPeriod',
-        name: '趨勢週期',
-        type: ParameterType.NUMBER,
-        default: 50,
-        min: 20,
-        max: 200,
-        step: 1,
-        description: '用於判斷趨勢的週期'
-      },
-      {
-        id: 'rebalancePeriod',
-        name: '再平衡週期',
-        type: ParameterType.NUMBER,
-        default: 20,
-        min: 5,
-        max: 100,
-        step: 1,
-        description: '策略權重再平衡的週期'
-      }
+      ...this.getCombinationParameters(),
+      ...this.getMemberGroups().flatMap(group =>
+        group.parameters.map(param => ({ ...param, name: `${group.title}：${param.name}` })))
     ];
   }
 
-  private calculateVolatility(data: number[], period: number, index: number): number {
-    if (index < period) {
-      return NaN;
+  /**
+   * 獲取分組的參數定義：組合本身的參數與各成員以成員代碼為前綴的參數，沒有參數的分組不列出
+   */
+  public getParameterGroups(): ParameterGroup[] {
+    return [{ title: '組合設定', parameters: this.getCombinationParameters() }, ...this.getMemberGroups()]
+      .filter(group => group.parameters.length > 0);
+  }
+
+  /**
+   * 獲取各成員的參數分組，參數ID為「成員代碼.參數ID」，參數間限制與適用條件參照的參數ID亦加上前綴
+   */
+  private getMemberGroups(): ParameterGroup[] {
+    return this.members.map(({ key, strategy }) => ({
+      title: strategy.name,
+      parameters: strategy.getParameters().map(param => ({
+        ...param,
+        id: `${key}.${param.id}`,
+        constraints: param.constraints?.map(constraint => ({ ...constraint, parameterId: `${key}.${constraint.parameterId}` })),
+        visibleWhen: param.visibleWhen && { ...param.visibleWhen, parameterId: `${key}.${param.visibleWhen.parameterId}` }
+      }))
+    }));
+  }
+
+  /**
+   * 獲取組合本身的參數，依投票規則與權重模式而定
+   */
+  private getCombinationParameters(): StrategyParameter[] {
+    const parameters: StrategyParameter[] = [];
+
+    if (this.definition.voting === VotingRule.THRESHOLD) {
+      parameters.push({
+        id: 'threshold',
+        name: '信號門檻',
+        type: ParameterType.NUMBER,
+        default: 0.5,
+        min: 0.05,
+        max: 1,
+        step: 0.05,
+        description: '加權淨分數超過此門檻時進場'
+      });
     }
 
-    const returns: number[] = [];
-    for (let i = index - period + 1; i <= index; i++) {
-      const return_ = (data[i] - data[i - 1]) / data[i - 1];
-      returns.push(return_);
+    if (this.definition.weighting === WeightingMode.REGIME) {
+      parameters.push(
+        {
+          id: 'volatilityPeriod',
+          name: '波動率週期',
+          type: ParameterType.NUMBER,
+          default: 20,
+          min: 5,
+          max: 100,
+          step: 1,
+          unit: '根',
+          description: '用於計算波動率的週期'
+        },
+        {
+          id: 'trendPeriod',
+          name: '趨勢週期',
+          type: ParameterType.NUMBER,
+          default: 50,
+          min: 20,
+          max: 200,
+          step: 1,
+          unit: '根',
+          description: '用於判斷趨勢的週期'
+        },
+        {
+          id: 'rebalancePeriod',
+          name: '再平衡週期',
+          type: ParameterType.NUMBER,
+          default: 20,
+          min: 5,
+          max: 100,
+          step: 1,
+          unit: '根',
+          description: '策略權重再平衡的週期'
+        }
+      );
     }
 
-    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
-    const variance = returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / returns.length;
-    return Math.sqrt(variance);
+    return parameters;
+  }
+
+  /**
+   * 取出成員策略的參數，未提供的參數使用成員策略的預設值
+   * @param key 成員代碼
+   * @param strategy 成員策略
+   * @param params 組合參數
+   */
+  private getMemberParams(key: string, strategy: EventStrategy, params: any): any {
+    const memberParams: any = {};
+    strategy.getParameters().forEach(param => {
+      memberParams[param.id] = params?.[`${key}.${param.id}`] ?? param.default;
+    });
+    return memberParams;
+  }
+
+  private calculateVolatility(data: number[], period: number, index: number): number {
+    return this.ind.stdDev(this.ind.returns(data), period)[index] ?? NaN;
   }
 
   private calculateTrend(data: number[], period: number, index: number): number {
@@ -82,9 +309,25 @@ export class StrategyCombination extends BaseStrategy {
     return (currentPrice - sma) / sma;
   }
 
-  private updateWeights(data: MarketData, index: number, params: any): void {
-    const { volatilityPeriod, trendPeriod, rebalancePeriod } = params;
-    
+  /**
+   * 正規化權重，使總和為 1
+   * @param weights 權重
+   */
+  private normalize(weights: number[]): number[] {
+    const total = weights.reduce((a, b) => a + b, 0);
+    return total > 0 ? weights.map(w => w / total) : weights.map(() => 1 / weights.length);
+  }
+
+  /**
+   * 依市場環境更新權重：趨勢型成員於強趨勢時加重，均值回歸型成員於高波動時加重
+   * @param data 市場數據
+   * @param index 當前索引
+   * @param params 組合參數
+   * @param state 回測狀態
+   */
+  private updateWeights(data: MarketData, index: number, params: any, state: CombinationState): void {
+    const { volatilityPeriod = 20, trendPeriod = 50, rebalancePeriod = 20 } = params ?? {};
+
     // 每rebalancePeriod個週期更新一次權重
     if (index % rebalancePeriod !== 0) {
       return;
@@ -93,58 +336,120 @@ export class StrategyCombination extends BaseStrategy {
     // 計算市場環境指標
     const volatility = this.calculateVolatility(data.close, volatilityPeriod, index);
     const trend = this.calculateTrend(data.close, trendPeriod, index);
-    
+
     // 根據市場環境調整權重
-    this.weights = this.strategies.map((strategy, i) => {
-      let weight = 1;
-      
-      // 根據策略特性調整權重
-      if (strategy.id.includes('ma') || strategy.id.includes('trend')) {
-        // 趨勢策略在強趨勢市場中增加權重
+    const weights = this.members.map(({ member }) => {
+      let weight = member.weight;
+
+      if (member.regime === MarketRegime.TREND) {
         weight *= (1 + Math.abs(trend));
-      } else if (strategy.id.includes('rsi') || strategy.id.includes('bollinger')) {
-        // 震盪策略在波動率高的市場中增加權重
+      } else if (member.regime === MarketRegime.MEAN_REVERSION) {
         weight *= (1 + volatility);
       }
-      
+
       return weight;
     });
-    
-    // 正規化權重
-    const totalWeight = this.weights.reduce((a, b) => a + b, 0);
-    this.weights = this.weights.map(w => w / totalWeight);
-  }
-
-  execute(data: MarketData, index: number, params: any): TradeDirection {
-    // 更新策略權重
-    this.updateWeights(data, index, params);
-    
-    // 計算每個策略的信號
-    const signals = this.strategies.map((strategy, i) => {
-      const signal = strategy.execute(data, index, params);
-      return {
-        signal,
-        weight: this.weights[i]
+
+    // 指標尚未形成時權重為 NaN，此時保留原權重
+    if (weights.every(w => Number.isFinite(w))) {
+      state.weights = this.normalize(weights);
+    }
+  }
+
+  /**
+   * 依投票規則彙總成員的投票
+   * @param votes 各成員的投票方向
+   * @param weights 各成員權重
+   * @param threshold 信號門檻（投票規則為門檻時使用）
+   * @returns 組合的交易方向
+   */
+  private tally(votes: TradeDirection[], weights: number[], threshold: number): TradeDirection {
+    const longs = votes.filter(vote => vote === TradeDirection.LONG).length;
+    const shorts = votes.filter(vote => vote === TradeDirection.SHORT).length;
+    const score = votes.reduce((sum, vote, i) =>
+      sum + (vote === TradeDirection.LONG ? weights[i] : vote === TradeDirection.SHORT ? -weights[i] : 0), 0);
+
+    switch (this.definition.voting) {
+      case VotingRule.MAJORITY:
+        return longs > votes.length / 2 ? TradeDirection.LONG
+          : shorts > votes.length / 2 ? TradeDirection.SHORT
+          : TradeDirection.NONE;
+      case VotingRule.WEIGHTED:
+        return score > 0 ? TradeDirection.LONG : score < 0 ? TradeDirection.SHORT : TradeDirection.NONE;
+      case VotingRule.UNANIMOUS:
+        return votes.length > 0 && longs === votes.length ? TradeDirection.LONG
+          : votes.length > 0 && shorts === votes.length ? TradeDirection.SHORT
+          : TradeDirection.NONE;
+      case VotingRule.ANY:
+        return longs > 0 && shorts === 0 ? TradeDirection.LONG
+          : shorts > 0 && longs === 0 ? TradeDirection.SHORT
+          : TradeDirection.NONE;
+      case VotingRule.THRESHOLD:
+        return score > threshold ? TradeDirection.LONG
+          : score < -threshold ? TradeDirection.SHORT
+          : TradeDirection.NONE;
+    }
+  }
+
+  onInit(context: StrategyRunContext<CombinationState>): void {
+    // 每次回測皆以基本權重開始
+    context.state.weights = this.normalize(this.members.map(({ member }) => member.weight));
+
+    // 為每個成員建立獨立的執行上下文、狀態與唯讀的下單介面
+    context.state.members = this.members.map(({ key, strategy }) => {
+      const memberState = { vote: TradeDirection.NONE } as MemberState;
+      const broker: OrderBroker = {
+        submitOrder: () => {
+          throw new Error('策略組合的成員策略不能直接送出委託');
+        },
+        cancelOrder: () => false,
+        cancelAllOrders: () => {},
+        getPendingOrders: () => [],
+        getPosition: () => memberState.position,
+        getEquity: () => context.broker.getEquity()
+      };
+
+      memberState.context = {
+        symbol: context.symbol,
+        data: context.data,
+        timeframes: context.timeframes,
+        get index() {
+          return context.index;
+        },
+        params: this.getMemberParams(key, strategy, context.params),
+        state: {},
+        broker
       };
+      strategy.onInit?.(memberState.context);
+
+      return memberState;
     });
-    
-    // 計算加權信號
-    let weightedSignal = 0;
-    signals.forEach(({ signal, weight }) => {
-      if (signal === TradeDirection.LONG) {
-        weightedSignal += weight;
-      } else if (signal === TradeDirection.SHORT) {
-        weightedSignal -= weight;
+  }
+
+  onBar(context: StrategyRunContext<CombinationState>): TradeDirection {
+    const { data, index, params, state } = context;
+
+    // 收集成員投票，成員返回 void 時維持原投票
+    this.members.forEach(({ strategy }, i) => {
+      const memberState = state.members[i];
+      const signal = strategy.onBar(memberState.context);
+
+      if (signal !== undefined && signal !== memberState.vote) {
+        memberState.vote = signal;
+        memberState.position = signal === TradeDirection.NONE
+          ? undefined
+          : createVirtualPosition(context.symbol, signal, data, index);
       }
     });
-    
-    // 根據加權信號決定交易方向
-    if (weightedSignal > 0.5) {
-      return TradeDirection.LONG;
-    } else if (weightedSignal < -0.5) {
-      return TradeDirection.SHORT;
+
+    if (this.definition.weighting === WeightingMode.REGIME) {
+      this.updateWeights(data, index, params, state);
     }
-    
-    return TradeDirection.NONE;
+
+    return this.tally(state.members.map(member => member.vote), state.weights, params?.threshold ?? 0.5);
+  }
+
+  onEnd(context: StrategyRunContext<CombinationState>): void {
+    this.members.forEach(({ strategy }, i) => strategy.onEnd?.(context.state.members[i].context));
   }
-} 
\ No newline at end of file
+}
@@ -97,7 +97,8 @@ async function downloadTaifexData() {
             const high = parseFloat(columns[4].replace(/,/g, ''));
             const low = parseFloat(columns[5].replace(/,/g, ''));
             const close = parseFloat(columns[6].replace(/,/g, ''));
-            let volume = parseInt(columns[8].replace(/,/g, '')); // 修正為第9欄位
+            const settlement = parseFloat((columns[10] ?? '').replace(/,/g, '')); // 第11欄位為結算價
+            let volume = parseInt(columns[9].replace(/,/g, '')); // 第10欄位為成交量（第9欄位為漲跌%）
             let openInterest = parseInt(columns[11].replace(/,/g, '')); // 修正為第12欄位
 
             // 驗證數據有效性
@@ -120,19 +121,23 @@ async function downloadTaifexData() {
               openInterest = 0; // 如果未平倉量無效，設為0
             }
             
+            // 保留各到期月份與交易時段（第18欄位），由連續合約建構時選擇近月合約
             const item: TaifexDailyData = {
               date: `${yyyy}-${mm.padStart(2, '0')}-${dd.padStart(2, '0')}`,
-              contract: 'TXFF',
+              contract: columns[1].trim(),
+              deliveryMonth: columns[2].trim(),
+              session: (columns[17] ?? '').includes('盤後') ? 'night' : 'day',
               open,
               high,
               low,
               close,
+              settlement: isNaN(settlement) ? undefined : settlement,
               volume,
               openInterest
             };
             
             data.push(item);
-            console.log(`成功解析數據: ${item.date}, 收盤價: ${item.close}, 成交量: ${item.volume}, 未平倉: ${item.openInterest}`);
+            console.log(`成功解析數據: ${item.date} ${item.deliveryMonth}, 收盤價: ${item.close}, 成交量: ${item.volume}, 未平倉: ${item.openInterest}`);
           } catch (parseError) {
             console.error(`解析行數據時出錯: ${line}`, parseError);
           }
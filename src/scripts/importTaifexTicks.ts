@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { TaifexDataService, TaifexIntradayData } from '../lib/api/taifexDataService';
+import {
+  BarInterval,
+  INTERVAL_MINUTES,
+  TAIPEI_OFFSET_SECONDS,
+  getBarStart,
+  getSession,
+  getTradingDate
+} from '../lib/api/tradingSessions';
+
+// 逐筆成交
+interface Tick {
+  timestamp: number;
+  deliveryMonth: string;
+  price: number;
+  volume: number;
+}
+
+// 轉換的日內K棒週期
+const INTERVALS = [BarInterval.MIN_1, BarInterval.MIN_5, BarInterval.MIN_15, BarInterval.MIN_60];
+
+/**
+ * 解析期交所逐筆成交資料（Daily_YYYY_MM_DD.csv）
+ * 欄位依序為成交日期、商品代號、到期月份(週別)、成交時間、成交價格、成交數量(B+S)
+ * @param content CSV 內容
+ * @returns 臺股期貨月契約的逐筆成交
+ */
+function parseTicks(content: string): Tick[] {
+  const ticks: Tick[] = [];
+
+  for (const line of content.split('\n').slice(1)) {
+    const columns = line.split(',').map(col => col.trim());
+    if (columns.length < 6 || columns[1] !== 'TX') {
+      continue;
+    }
+
+    // 排除週契約與價差委託
+    const deliveryMonth = columns[2];
+    if (!/^\d{6}$/.test(deliveryMonth)) {
+      continue;
+    }
+
+    const date = columns[0];
+    const time = columns[3].padStart(6, '0');
+    const price = parseFloat(columns[4]);
+    const volume = parseInt(columns[5]);
+
+    if (isNaN(price) || isNaN(volume)) {
+      continue;
+    }
+
+    // 成交數量為買賣雙方合計，除以 2 為成交口數
+    ticks.push({
+      timestamp: Date.UTC(
+        parseInt(date.slice(0, 4)),
+        parseInt(date.slice(4, 6)) - 1,
+        parseInt(date.slice(6, 8)),
+        parseInt(time.slice(0, 2)),
+        parseInt(time.slice(2, 4)),
+        parseInt(time.slice(4, 6))
+      ) / 1000 - TAIPEI_OFFSET_SECONDS,
+      deliveryMonth,
+      price,
+      volume: volume / 2
+    });
+  }
+
+  return ticks;
+}
+
+/**
+ * 每個交易時段僅保留成交量最大的到期月份（近月合約）
+ * @param ticks 逐筆成交
+ * @returns 近月合約的逐筆成交
+ */
+function selectNearMonth(ticks: Tick[]): Tick[] {
+  const sessionKey = (tick: Tick) => {
+    const session = getSession(tick.timestamp);
+    return `${getTradingDate(tick.timestamp, session)}-${session}`;
+  };
+
+  const volumes = new Map<string, Map<string, number>>();
+  for (const tick of ticks) {
+    const key = sessionKey(tick);
+    if (!volumes.has(key)) {
+      volumes.set(key, new Map());
+    }
+    const months = volumes.get(key)!;
+    months.set(tick.deliveryMonth, (months.get(tick.deliveryMonth) ?? 0) + tick.volume);
+  }
+
+  const selected = new Map<string, string>();
+  for (const [key, months] of volumes) {
+    const [month] = Array.from(months.entries()).sort((a, b) => b[1] - a[1])[0];
+    selected.set(key, month);
+  }
+
+  return ticks.filter(tick => selected.get(sessionKey(tick)) === tick.deliveryMonth);
+}
+
+/**
+ * 將逐筆成交彙整為日內K棒
+ * @param ticks 依時間排序的逐筆成交
+ * @param interval K棒週期
+ * @returns 日內K棒
+ */
+function aggregateTicks(ticks: Tick[], interval: BarInterval): TaifexIntradayData[] {
+  const bars: TaifexIntradayData[] = [];
+  let currentStart: number | undefined;
+
+  for (const tick of ticks) {
+    if (!getSession(tick.timestamp)) {
+      continue;
+    }
+
+    const start = getBarStart(tick.timestamp, INTERVAL_MINUTES[interval]);
+    const bar = bars[bars.length - 1];
+
+    if (start !== currentStart || !bar || bar.deliveryMonth !== tick.deliveryMonth) {
+      const datetime = new Date((start + TAIPEI_OFFSET_SECONDS) * 1000).toISOString();
+      bars.push({
+        datetime: `${datetime.slice(0, 10)} ${datetime.slice(11, 16)}`,
+        contract: 'TX',
+        deliveryMonth: tick.deliveryMonth,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: tick.volume
+      });
+      currentStart = start;
+      continue;
+    }
+
+    bar.high = Math.max(bar.high, tick.price);
+    bar.low = Math.min(bar.low, tick.price);
+    bar.close = tick.price;
+    bar.volume += tick.volume;
+  }
+
+  return bars;
+}
+
+/**
+ * 匯入期交所逐筆成交資料並轉換為日內K棒
+ * 用法：npx tsx src/scripts/importTaifexTicks.ts <逐筆成交 CSV 目錄>
+ */
+async function importTaifexTicks() {
+  try {
+    const dir = process.argv[2];
+    if (!dir || !fs.existsSync(dir)) {
+      throw new Error('請指定逐筆成交 CSV 檔案所在目錄');
+    }
+
+    const files = fs.readdirSync(dir).filter(file => file.toLowerCase().endsWith('.csv')).sort();
+    console.log(`開始匯入 ${files.length} 個逐筆成交檔案...`);
+
+    // 期交所檔案為 Big5 編碼
+    const iconv = require('iconv-lite');
+    let ticks: Tick[] = [];
+    for (const file of files) {
+      const content = iconv.decode(fs.readFileSync(path.join(dir, file)), 'big5');
+      const parsed = parseTicks(content);
+      console.log(`${file}: ${parsed.length} 筆成交`);
+      ticks = ticks.concat(parsed);
+    }
+
+    if (ticks.length === 0) {
+      throw new Error('沒有解析到任何臺股期貨成交資料');
+    }
+
+    ticks.sort((a, b) => a.timestamp - b.timestamp);
+    const nearMonthTicks = selectNearMonth(ticks);
+
+    const taifexService = TaifexDataService.getInstance();
+    for (const interval of INTERVALS) {
+      const bars = aggregateTicks(nearMonthTicks, interval);
+      await taifexService.saveIntradayData('TXFF', interval, bars);
+      console.log(`${interval}: ${bars.length} 根K棒`);
+    }
+  } catch (error) {
+    console.error('匯入逐筆成交資料時出錯:', error);
+    process.exit(1);
+  }
+}
+
+// 執行匯入
+importTaifexTicks();
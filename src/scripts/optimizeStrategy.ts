@@ -0,0 +1,99 @@
+import fs from 'fs';
+import { TaifexDataService } from '../lib/api/taifexDataService';
+import { BacktestSettings } from '../lib/backtest/types';
+import { createNodePool } from '../lib/optimization/nodeWorkerPool';
+import { OptimizationObjective } from '../lib/optimization/objective';
+import { OptimizationMethod } from '../lib/optimization/optimizers';
+import { ParamRange } from '../lib/optimization/searchSpace';
+import { runOptimizationStudy, toTrialsCsv } from '../lib/optimization/study';
+import { EvaluationPool } from '../lib/optimization/workerPool';
+import { ParameterType } from '../lib/strategies/base';
+import { StrategyRegistry } from '../lib/strategies/registry';
+
+// 本地期貨數據代碼
+const SYMBOL = 'TXFF';
+
+/**
+ * 以本地台指期數據在伺服器端優化策略參數，回測分散到 worker_threads 執行緒
+ * 用法：ts-node src/scripts/optimizeStrategy.ts <策略ID> <開始日期> <結束日期> [最多評估次數] [優化方法] [CSV 輸出檔]
+ * 優化策略所有數值參數的完整範圍，預設以隨機搜索評估 200 組參數、以總淨盈虧為目標
+ */
+async function optimizeStrategy() {
+  let pool: EvaluationPool | undefined;
+
+  try {
+    const [strategyId, start, end, evaluations = '200', method = OptimizationMethod.RANDOM, output] = process.argv.slice(2);
+    const registry = StrategyRegistry.getInstance();
+    const strategy = strategyId ? registry.getStrategy(strategyId) : undefined;
+    if (!strategy || !start || !end) {
+      throw new Error('請指定策略ID、開始日期與結束日期，例如：dual_ma 2024-06-01 2025-03-31');
+    }
+    if (!Object.values(OptimizationMethod).includes(method as OptimizationMethod)) {
+      throw new Error(`優化方法需為 ${Object.values(OptimizationMethod).join('、')} 其中之一`);
+    }
+
+    const paramRanges: Record<string, ParamRange> = {};
+    strategy.getParameters()
+      .filter(param => param.type === ParameterType.NUMBER && param.min !== undefined && param.max !== undefined)
+      .forEach(param => {
+        paramRanges[param.id] = { min: param.min!, max: param.max!, step: param.step ?? 1 };
+      });
+
+    const settings: BacktestSettings = {
+      symbol: SYMBOL,
+      startDate: new Date(start).getTime(),
+      endDate: new Date(end).getTime(),
+      initialCapital: 1000000,
+      positionSize: 100,
+      commissionRate: 0.001425,
+      strategyId: strategy.id,
+      strategyParams: registry.getDefaultParameters(strategy.id)
+    };
+    const marketData = { [SYMBOL]: await TaifexDataService.getInstance().getMarketData(SYMBOL, start, end) };
+    const objective = OptimizationObjective.NET_PROFIT;
+
+    pool = createNodePool({ settings, marketData, objective, storedStrategies: { rules: [], scripts: [], combinations: [] } });
+    console.log(`以 ${pool.size} 個執行緒優化「${strategy.name}」...`);
+
+    const study = await runOptimizationStudy(
+      settings,
+      strategy.getParameters(),
+      {
+        objective,
+        paramRanges,
+        method: method as OptimizationMethod,
+        maxEvaluations: method === OptimizationMethod.GRID ? undefined : Number(evaluations),
+        seed: 1
+      },
+      pool,
+      {
+        onProgress: progress => {
+          if (progress.evaluations % 20 === 0) {
+            console.log(`已評估 ${progress.evaluations}/${progress.total} 組參數`);
+          }
+        }
+      }
+    );
+
+    console.log(`共評估 ${study.trials.length} 組參數，耗時 ${(study.elapsedMs / 1000).toFixed(1)} 秒`);
+    if (study.best) {
+      console.log('最佳參數:', study.best.params);
+      console.log('總淨盈虧:', study.best.score);
+    } else {
+      console.log('沒有成功的評估');
+    }
+
+    if (output) {
+      fs.writeFileSync(output, toTrialsCsv(study));
+      console.log(`所有評估已輸出至 ${output}`);
+    }
+  } catch (error) {
+    console.error('優化策略參數時出錯:', error);
+    process.exitCode = 1;
+  } finally {
+    pool?.terminate();
+  }
+}
+
+// 執行優化
+optimizeStrategy();